@@ -0,0 +1,382 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Separator } from '@/components/ui/separator'
+import { Loader2, Plus, RotateCcw, Save, X } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import type { PromptTemplateRow } from '@/types/database'
+
+type PromptTemplateVersion = Omit<PromptTemplateRow, 'organization_id'>
+
+interface PromptTemplateEntry {
+  key: string
+  name: string
+  description: string
+  variables: Record<string, string>
+  required: string[]
+  defaultContent: string
+  versions: PromptTemplateVersion[]
+}
+
+interface CustomVariable {
+  name: string
+  value: string
+}
+
+function toCustomVariables(value: unknown): CustomVariable[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return []
+  return Object.entries(value as Record<string, unknown>).map(([name, v]) => ({ name, value: String(v) }))
+}
+
+interface TemplatesResult {
+  templates: PromptTemplateEntry[]
+  forbidden?: boolean
+  error?: string
+}
+
+async function fetchTemplates(): Promise<TemplatesResult> {
+  const response = await fetch('/api/admin/prompts')
+  if (response.status === 403) {
+    return { templates: [], forbidden: true }
+  }
+
+  const data = await response.json()
+  if (!response.ok) {
+    return { templates: [], error: data.error || 'Failed to load prompt templates' }
+  }
+  return { templates: data.templates }
+}
+
+export default function PromptTemplatesPage() {
+  const [templates, setTemplates] = useState<PromptTemplateEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+
+  // Editor state
+  const [content, setContent] = useState('')
+  const [customVariables, setCustomVariables] = useState<CustomVariable[]>([])
+  const [note, setNote] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const selected = templates.find((t) => t.key === selectedKey) || null
+  const activeVersion = selected?.versions.find((v) => v.is_active) || null
+
+  // Start editing from the active version, or the built-in default
+  const selectTemplate = (template: PromptTemplateEntry) => {
+    const active = template.versions.find((v) => v.is_active)
+    setSelectedKey(template.key)
+    setContent(active?.content ?? template.defaultContent)
+    setCustomVariables(toCustomVariables(active?.variables))
+    setNote('')
+    setErrors([])
+  }
+
+  const applyTemplates = (result: TemplatesResult, keepKey: string | null) => {
+    if (result.forbidden) {
+      setForbidden(true)
+    } else if (result.error) {
+      toast.error(result.error)
+    } else {
+      setTemplates(result.templates)
+      const next = result.templates.find((t) => t.key === keepKey) || result.templates[0]
+      if (next) selectTemplate(next)
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchTemplates().then((result) => applyTemplates(result, null))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const reloadTemplates = async () => {
+    applyTemplates(await fetchTemplates(), selectedKey)
+  }
+
+  const handlePublish = async () => {
+    if (!selected) return
+
+    setSaving(true)
+    setErrors([])
+    const response = await fetch('/api/admin/prompts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        key: selected.key,
+        content,
+        note,
+        variables: Object.fromEntries(
+          customVariables.filter((v) => v.name.trim()).map((v) => [v.name.trim(), v.value])
+        ),
+      }),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      setErrors(data.errors || [data.error || 'Failed to publish'])
+    } else {
+      toast.success(`Published a new version of ${selected.name}`)
+      await reloadTemplates()
+    }
+    setSaving(false)
+  }
+
+  const handleActivate = async (version: PromptTemplateVersion) => {
+    const response = await fetch(`/api/admin/prompts/${version.id}`, { method: 'PATCH' })
+    if (!response.ok) {
+      const data = await response.json()
+      toast.error(data.error || 'Failed to activate version')
+      return
+    }
+    toast.success(`Version ${version.version} is now active`)
+    await reloadTemplates()
+  }
+
+  const handleReset = async () => {
+    if (!selected) return
+
+    const response = await fetch(`/api/admin/prompts?key=${encodeURIComponent(selected.key)}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const data = await response.json()
+      toast.error(data.error || 'Failed to reset template')
+      return
+    }
+    toast.success(`${selected.name} uses the built-in prompt again`)
+    await reloadTemplates()
+  }
+
+  const updateVariable = (index: number, field: keyof CustomVariable, value: string) => {
+    setCustomVariables((prev) => prev.map((v, i) => (i === index ? { ...v, [field]: value } : v)))
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (forbidden) {
+    return (
+      <div className="max-w-2xl mx-auto p-6">
+        <h1 className="text-2xl font-bold">Prompts</h1>
+        <p className="text-muted-foreground">Only organization admins can manage prompts.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold">Prompts</h1>
+        <p className="text-muted-foreground">
+          Adjust the instructions Ask Finance uses for your organization. Every change is saved as a new version.
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-[240px_1fr]">
+        <div className="space-y-1">
+          {templates.map((template) => {
+            const customized = template.versions.some((v) => v.is_active)
+            return (
+              <button
+                key={template.key}
+                type="button"
+                onClick={() => selectTemplate(template)}
+                className={cn(
+                  'w-full rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-muted',
+                  selectedKey === template.key && 'bg-muted font-medium'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate">{template.name}</span>
+                  {customized && <Badge variant="secondary">Custom</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">{template.key}</p>
+              </button>
+            )
+          })}
+        </div>
+
+        {selected && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {selected.name}
+                  <Badge variant="outline">
+                    {activeVersion ? `Version ${activeVersion.version}` : 'Built-in'}
+                  </Badge>
+                </CardTitle>
+                <CardDescription>{selected.description}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {Object.keys(selected.variables).length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Variables filled in by Ask Finance</Label>
+                    <ul className="space-y-1 text-sm">
+                      {Object.entries(selected.variables).map(([name, description]) => (
+                        <li key={name}>
+                          <code className="rounded bg-muted px-1">{`{${name}}`}</code>{' '}
+                          <span className="text-muted-foreground">{description}</span>
+                          {selected.required.includes(name) && (
+                            <Badge variant="outline" className="ml-2">Required</Badge>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Your variables</Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCustomVariables((prev) => [...prev, { name: '', value: '' }])}
+                    >
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add variable
+                    </Button>
+                  </div>
+                  {customVariables.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">
+                      Define values such as <code>{'{currency}'}</code> = EUR thousands and use them in the prompt.
+                    </p>
+                  ) : (
+                    customVariables.map((variable, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          value={variable.name}
+                          onChange={(e) => updateVariable(index, 'name', e.target.value)}
+                          placeholder="name"
+                          className="w-40 font-mono"
+                        />
+                        <Input
+                          value={variable.value}
+                          onChange={(e) => updateVariable(index, 'value', e.target.value)}
+                          placeholder="value"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setCustomVariables((prev) => prev.filter((_, i) => i !== index))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="prompt-content">Prompt</Label>
+                  <Textarea
+                    id="prompt-content"
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    className="min-h-[360px] font-mono text-xs"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="prompt-note">Change note</Label>
+                  <Input
+                    id="prompt-note"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="e.g. Report in EUR thousands"
+                  />
+                </div>
+
+                {errors.length > 0 && (
+                  <ul className="space-y-1 text-sm text-destructive">
+                    {errors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Button onClick={handlePublish} disabled={saving}>
+                    {saving ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="mr-2 h-4 w-4" />
+                    )}
+                    Publish version
+                  </Button>
+                  <Button variant="ghost" onClick={() => setContent(selected.defaultContent)}>
+                    Load built-in prompt
+                  </Button>
+                  {activeVersion && (
+                    <Button variant="outline" onClick={handleReset}>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Use built-in
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>History</CardTitle>
+                <CardDescription>
+                  Assistant messages record the version they were produced with.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {selected.versions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No versions yet - the built-in prompt is in use.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {selected.versions.map((version, index) => (
+                      <div key={version.id}>
+                        {index > 0 && <Separator className="mb-3" />}
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <p className="text-sm font-medium">
+                              Version {version.version}
+                              {version.is_active && <Badge className="ml-2">Active</Badge>}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {version.note || 'No note'}
+                              {version.created_at &&
+                                ` - ${formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}`}
+                            </p>
+                          </div>
+                          {!version.is_active && (
+                            <Button variant="outline" size="sm" onClick={() => handleActivate(version)}>
+                              Activate
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
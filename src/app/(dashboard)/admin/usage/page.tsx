@@ -0,0 +1,251 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Loader2 } from 'lucide-react'
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { toast } from 'sonner'
+
+interface UsageRow {
+  key: string
+  label?: string
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cacheCreationTokens: number
+  cacheReadTokens: number
+  costUsd: number
+}
+
+interface UsageReport {
+  days: number
+  since: string
+  totals: Omit<UsageRow, 'key' | 'label'>
+  byDay: UsageRow[]
+  byFeature: UsageRow[]
+  byModel: UsageRow[]
+  byUser: UsageRow[]
+  byThread: UsageRow[]
+}
+
+interface UsageResult {
+  report?: UsageReport
+  forbidden?: boolean
+  error?: string
+}
+
+const PERIODS = [7, 30, 90]
+
+async function fetchUsage(days: number): Promise<UsageResult> {
+  const response = await fetch(`/api/admin/usage?days=${days}`)
+  if (response.status === 403) {
+    return { forbidden: true }
+  }
+
+  const data = await response.json()
+  if (!response.ok) {
+    return { error: data.error || 'Failed to load usage' }
+  }
+  return { report: data }
+}
+
+function formatCost(value: number): string {
+  return value.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value > 0 && value < 1 ? 4 : 2,
+  })
+}
+
+function formatTokens(value: number): string {
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value)
+}
+
+// Share of prompt tokens served from the prompt cache
+function formatCacheHitRate(row: Omit<UsageRow, 'key' | 'label'>): string {
+  const promptTokens = row.inputTokens + row.cacheCreationTokens + row.cacheReadTokens
+  if (promptTokens === 0) return '-'
+  return `${Math.round((row.cacheReadTokens / promptTokens) * 100)}%`
+}
+
+function UsageTable({ title, description, rows }: { title: string; description: string; rows: UsageRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No usage in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Input</TableHead>
+                <TableHead className="text-right">Output</TableHead>
+                <TableHead className="text-right">Cached</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="max-w-[240px] truncate">{row.label || row.key}</TableCell>
+                  <TableCell className="text-right">{row.calls.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {formatTokens(row.inputTokens + row.cacheCreationTokens + row.cacheReadTokens)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatTokens(row.outputTokens)}</TableCell>
+                  <TableCell className="text-right">{formatCacheHitRate(row)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCost(row.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function UsagePage() {
+  const [days, setDays] = useState(30)
+  const [report, setReport] = useState<UsageReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [forbidden, setForbidden] = useState(false)
+
+  const applyUsage = (result: UsageResult) => {
+    if (result.forbidden) {
+      setForbidden(true)
+    } else if (result.error) {
+      toast.error(result.error)
+    } else if (result.report) {
+      setReport(result.report)
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchUsage(30).then(applyUsage)
+  }, [])
+
+  const changePeriod = async (period: number) => {
+    setDays(period)
+    setLoading(true)
+    applyUsage(await fetchUsage(period))
+  }
+
+  if (forbidden) {
+    return (
+      <div className="max-w-2xl mx-auto p-6">
+        <h1 className="text-2xl font-bold">Usage</h1>
+        <p className="text-muted-foreground">Only organization admins can view usage and cost.</p>
+      </div>
+    )
+  }
+
+  if (loading && !report) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  const totals = report?.totals
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Usage</h1>
+          <p className="text-muted-foreground">
+            Model calls and estimated cost for your organization, from list prices per model.
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin text-muted-foreground" />}
+          {PERIODS.map((period) => (
+            <Button
+              key={period}
+              variant={days === period ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => changePeriod(period)}
+            >
+              {period} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {totals && (
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Estimated cost</CardDescription>
+              <CardTitle className="text-2xl">{formatCost(totals.costUsd)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Model calls</CardDescription>
+              <CardTitle className="text-2xl">{totals.calls.toLocaleString()}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Input tokens</CardDescription>
+              <CardTitle className="text-2xl">
+                {formatTokens(totals.inputTokens + totals.cacheCreationTokens + totals.cacheReadTokens)}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs text-muted-foreground">
+              {formatTokens(totals.cacheReadTokens)} served from cache ({formatCacheHitRate(totals)} hit rate),{' '}
+              {formatTokens(totals.cacheCreationTokens)} written
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Output tokens</CardDescription>
+              <CardTitle className="text-2xl">{formatTokens(totals.outputTokens)}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Cost per day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report?.byDay.length ? (
+            <ResponsiveContainer width="100%" height={240}>
+              <BarChart data={report.byDay}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="key" fontSize={12} />
+                <YAxis fontSize={12} tickFormatter={(value: number) => `$${value}`} />
+                <Tooltip formatter={(value) => formatCost(Number(value))} />
+                <Bar dataKey="costUsd" name="Cost" fill="var(--primary)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground">No usage in this period.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <UsageTable title="By feature" description="What the calls were made for" rows={report?.byFeature || []} />
+        <UsageTable title="By model" description="Provider models that served the calls" rows={report?.byModel || []} />
+        <UsageTable title="By user" description="Members of your organization" rows={report?.byUser || []} />
+        <UsageTable title="Top threads" description="Chat threads with the highest cost" rows={report?.byThread || []} />
+      </div>
+    </div>
+  )
+}
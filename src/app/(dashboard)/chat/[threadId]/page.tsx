@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, use, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
 import { createClient } from '@/lib/supabase/client'
 import { MessageList } from '@/components/chat/message-list'
 import { MessageInput } from '@/components/chat/message-input'
@@ -9,6 +10,7 @@ import { Header } from '@/components/layout/header'
 import { CanvasPanel, type CanvasContent } from '@/components/canvas/canvas-panel'
 import type { Message, Thread } from '@/types/database'
 import { buildFeedbackMessage, type ImageFeedbackData } from '@/lib/agents/image-feedback-utils'
+import type { AnswerStyle } from '@/lib/agents/answer-style'
 
 interface PageProps {
   params: Promise<{ threadId: string }>
@@ -17,7 +19,7 @@ interface PageProps {
 export default function ThreadPage({ params }: PageProps) {
   const { threadId } = use(params)
   const [thread, setThread] = useState<Thread | null>(null)
-  const [messages, setMessages] = useState<(Message & { isStreaming?: boolean; streamingContent?: string })[]>([])
+  const [messages, setMessages] = useState<(Message & { isStreaming?: boolean; streamingContent?: string; toolActivity?: string })[]>([])
   const [isStreaming, setIsStreaming] = useState(false)
   const [canvasOpen, setCanvasOpen] = useState(false)
   const [canvasContent, setCanvasContent] = useState<CanvasContent | null>(null)
@@ -125,7 +127,7 @@ export default function ThreadPage({ params }: PageProps) {
     }
   }, [threadId, router])
 
-  const handleSend = useCallback(async (message: string, files?: File[]) => {
+  const handleSend = useCallback(async (message: string, files?: File[], answerStyle?: AnswerStyle) => {
     // Add user message immediately
     const userMessage: Message = {
       id: crypto.randomUUID(),
@@ -136,13 +138,15 @@ export default function ThreadPage({ params }: PageProps) {
       citations: [],
       canvas_content: null,
       token_usage: null,
+      prompt_versions: [],
+      claim_verifications: null,
       created_at: new Date().toISOString(),
     }
     setMessages((prev) => [...prev, userMessage])
     setIsStreaming(true)
 
     // Add placeholder for assistant message
-    const assistantMessage: Message & { isStreaming?: boolean; streamingContent?: string } = {
+    const assistantMessage: Message & { isStreaming?: boolean; streamingContent?: string; toolActivity?: string } = {
       id: crypto.randomUUID(),
       thread_id: threadId,
       role: 'assistant',
@@ -151,6 +155,8 @@ export default function ThreadPage({ params }: PageProps) {
       citations: [],
       canvas_content: null,
       token_usage: null,
+      prompt_versions: [],
+      claim_verifications: null,
       created_at: new Date().toISOString(),
       isStreaming: true,
       streamingContent: '',
@@ -161,9 +167,14 @@ export default function ThreadPage({ params }: PageProps) {
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ threadId, message }),
+        body: JSON.stringify({ threadId, message, answerStyle }),
       })
 
+      if (response.status === 429) {
+        const data = await response.json()
+        toast.error(data.error)
+        throw new Error(data.error)
+      }
       if (!response.ok) {
         throw new Error('Failed to send message')
       }
@@ -180,20 +191,22 @@ export default function ThreadPage({ params }: PageProps) {
 
         buffer += decoder.decode(value, { stream: true })
 
-        // Parse SSE events
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
-
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i]
-          if (line.startsWith('event: ')) {
-            const event = line.slice(7)
-            const dataLine = lines[i + 1]
-            if (dataLine?.startsWith('data: ')) {
+        // Parse SSE events - frames are separated by a blank line, and a frame
+        // may be split across chunks, so keep the trailing partial frame buffered
+        const frames = buffer.split('\n\n')
+        buffer = frames.pop() || ''
+
+        for (const frame of frames) {
+          const lines = frame.split('\n')
+          const eventLine = lines.find(l => l.startsWith('event: '))
+          const dataLine = lines.find(l => l.startsWith('data: '))
+          if (eventLine) {
+            const event = eventLine.slice(7)
+            if (dataLine) {
               const data = JSON.parse(dataLine.slice(6))
-              i++ // Skip data line
 
               switch (event) {
+                case 'text_delta':
                 case 'text':
                   setMessages((prev) => {
                     // Create a new array reference to ensure React detects the change
@@ -209,6 +222,41 @@ export default function ThreadPage({ params }: PageProps) {
                     return updated
                   })
                   break
+                case 'tool_start':
+                  setMessages((prev) => {
+                    return prev.map((msg, idx) => {
+                      if (idx === prev.length - 1 && msg.role === 'assistant') {
+                        const toolCalls = (msg.tool_calls as unknown[] | null) || []
+                        return {
+                          ...msg,
+                          tool_calls: [...toolCalls, { id: data.toolUseId, name: data.tool }] as typeof msg.tool_calls,
+                          toolActivity: `Running ${data.tool.replace(/_/g, ' ')}...`,
+                        }
+                      }
+                      return msg
+                    })
+                  })
+                  break
+                case 'tool_progress':
+                  setMessages((prev) => {
+                    return prev.map((msg, idx) => {
+                      if (idx === prev.length - 1 && msg.role === 'assistant') {
+                        return { ...msg, toolActivity: data.message }
+                      }
+                      return msg
+                    })
+                  })
+                  break
+                case 'tool_result':
+                  setMessages((prev) => {
+                    return prev.map((msg, idx) => {
+                      if (idx === prev.length - 1 && msg.role === 'assistant') {
+                        return { ...msg, toolActivity: undefined }
+                      }
+                      return msg
+                    })
+                  })
+                  break
                 case 'canvas':
                   // Create canvas item with unique ID
                   const canvasItem: CanvasContent = {
@@ -247,11 +295,21 @@ export default function ThreadPage({ params }: PageProps) {
                     })
                   })
                   break
+                case 'verification':
+                  setMessages((prev) => {
+                    return prev.map((msg, idx) => {
+                      if (idx === prev.length - 1 && msg.role === 'assistant') {
+                        return { ...msg, claim_verifications: data.claims }
+                      }
+                      return msg
+                    })
+                  })
+                  break
                 case 'done':
                   setMessages((prev) => {
                     return prev.map((msg, idx) => {
                       if (idx === prev.length - 1 && msg.role === 'assistant') {
-                        const streamingMsg = msg as Message & { isStreaming?: boolean; streamingContent?: string }
+                        const streamingMsg = msg as Message & { isStreaming?: boolean; streamingContent?: string; toolActivity?: string }
                         return {
                           ...msg,
                           content: streamingMsg.streamingContent || '',
@@ -2,11 +2,13 @@
 
 import { useState, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
 import { MessageList } from '@/components/chat/message-list'
 import { MessageInput } from '@/components/chat/message-input'
 import { Header } from '@/components/layout/header'
 import { CanvasPanel, type CanvasContent } from '@/components/canvas/canvas-panel'
 import type { Message } from '@/types/database'
+import type { AnswerStyle } from '@/lib/agents/answer-style'
 import { TrendingUp, MessageSquarePlus, FileText, Calculator, BarChart3 } from 'lucide-react'
 
 export default function ChatPage() {
@@ -17,7 +19,7 @@ export default function ChatPage() {
   const [allCanvasItems, setAllCanvasItems] = useState<CanvasContent[]>([])
   const router = useRouter()
 
-  const handleSend = useCallback(async (message: string, files?: File[]) => {
+  const handleSend = useCallback(async (message: string, files?: File[], answerStyle?: AnswerStyle) => {
     // Add user message immediately
     const userMessage: Message = {
       id: crypto.randomUUID(),
@@ -28,6 +30,8 @@ export default function ChatPage() {
       citations: [],
       canvas_content: null,
       token_usage: null,
+      prompt_versions: [],
+      claim_verifications: null,
       created_at: new Date().toISOString(),
     }
     setMessages((prev) => [...prev, userMessage])
@@ -43,6 +47,8 @@ export default function ChatPage() {
       citations: [],
       canvas_content: null,
       token_usage: null,
+      prompt_versions: [],
+      claim_verifications: null,
       created_at: new Date().toISOString(),
       isStreaming: true,
       streamingContent: '',
@@ -53,9 +59,14 @@ export default function ChatPage() {
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message }),
+        body: JSON.stringify({ message, answerStyle }),
       })
 
+      if (response.status === 429) {
+        const data = await response.json()
+        toast.error(data.error)
+        throw new Error(data.error)
+      }
       if (!response.ok) {
         throw new Error('Failed to send message')
       }
@@ -73,23 +84,25 @@ export default function ChatPage() {
 
         buffer += decoder.decode(value, { stream: true })
 
-        // Parse SSE events
-        const lines = buffer.split('\n')
-        buffer = lines.pop() || ''
+        // Parse SSE events - frames are separated by a blank line, and a frame
+        // may be split across chunks, so keep the trailing partial frame buffered
+        const frames = buffer.split('\n\n')
+        buffer = frames.pop() || ''
 
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i]
-          if (line.startsWith('event: ')) {
-            const event = line.slice(7)
-            const dataLine = lines[i + 1]
-            if (dataLine?.startsWith('data: ')) {
+        for (const frame of frames) {
+          const lines = frame.split('\n')
+          const eventLine = lines.find(l => l.startsWith('event: '))
+          const dataLine = lines.find(l => l.startsWith('data: '))
+          if (eventLine) {
+            const event = eventLine.slice(7)
+            if (dataLine) {
               const data = JSON.parse(dataLine.slice(6))
-              i++ // Skip data line
 
               switch (event) {
                 case 'thread':
                   threadId = data.threadId
                   break
+                case 'text_delta':
                 case 'text':
                   setMessages((prev) => {
                     const updated = [...prev]
@@ -137,6 +150,16 @@ export default function ChatPage() {
                     return updated
                   })
                   break
+                case 'verification':
+                  setMessages((prev) => {
+                    const updated = [...prev]
+                    const lastMsg = updated[updated.length - 1]
+                    if (lastMsg.role === 'assistant') {
+                      lastMsg.claim_verifications = data.claims
+                    }
+                    return updated
+                  })
+                  break
                 case 'done':
                   setMessages((prev) => {
                     const updated = [...prev]
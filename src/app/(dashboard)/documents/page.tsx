@@ -54,10 +54,12 @@ import {
   Plus,
   Type,
   X,
+  ShieldAlert,
 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import { toast } from 'sonner'
 import type { Document } from '@/types/database'
+import type { InjectionScan } from '@/lib/llm'
 
 interface DocumentVersion {
   version: number
@@ -103,6 +105,10 @@ export default function DocumentsPage() {
   })
   const [creatingTextEntry, setCreatingTextEntry] = useState(false)
 
+  // Quarantine review dialog state
+  const [reviewDocument, setReviewDocument] = useState<Document | null>(null)
+  const [releasing, setReleasing] = useState(false)
+
   const loadDocuments = useCallback(async () => {
     const supabase = createClient()
     const { data } = await supabase
@@ -151,6 +157,9 @@ export default function DocumentsPage() {
 
         if (response.ok) {
           toast.success(`Uploaded ${file.name}`)
+        } else if (response.status === 429) {
+          const data = await response.json()
+          toast.error(`${file.name}: ${data.error}`)
         } else {
           toast.error(`Failed to upload ${file.name}`)
         }
@@ -187,6 +196,12 @@ export default function DocumentsPage() {
   }
 
   const handleToggleEnabled = async (doc: Document) => {
+    // Quarantined documents are enabled by releasing them after review
+    if (doc.status === 'quarantined') {
+      setReviewDocument(doc)
+      return
+    }
+
     try {
       const response = await fetch(`/api/documents/${doc.id}`, {
         method: 'PATCH',
@@ -206,6 +221,33 @@ export default function DocumentsPage() {
     }
   }
 
+  const handleReleaseQuarantine = async () => {
+    if (!reviewDocument) return
+
+    setReleasing(true)
+    try {
+      const response = await fetch(`/api/documents/${reviewDocument.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ release_quarantine: true }),
+      })
+
+      if (response.ok) {
+        toast.success('Released to knowledge base')
+        setReviewDocument(null)
+        loadDocuments()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || 'Failed to release document')
+      }
+    } catch (error) {
+      console.error('Release error:', error)
+      toast.error('Error releasing document')
+    } finally {
+      setReleasing(false)
+    }
+  }
+
   const openEditDialog = (doc: Document) => {
     setEditingDocument(doc)
     setEditForm({
@@ -294,9 +336,13 @@ export default function DocumentsPage() {
 
       if (response.ok) {
         const data = await response.json()
-        toast.success('Text entry created successfully', {
-          description: `${data.chunksCreated} chunks created for search`,
-        })
+        if (data.quarantined) {
+          toast.warning(data.message)
+        } else {
+          toast.success('Text entry created successfully', {
+            description: `${data.chunksCreated} chunks created for search`,
+          })
+        }
         setTextEntryDialogOpen(false)
         setTextEntryForm({ title: '', content: '', description: '', tags: '' })
         loadDocuments()
@@ -400,6 +446,13 @@ export default function DocumentsPage() {
             Failed
           </Badge>
         )
+      case 'quarantined':
+        return (
+          <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+            <ShieldAlert className="h-3 w-3 mr-1" />
+            Quarantined
+          </Badge>
+        )
       default:
         return <Badge variant="outline">{status}</Badge>
     }
@@ -531,6 +584,12 @@ export default function DocumentsPage() {
                           <History className="mr-2 h-4 w-4" />
                           Version history
                         </DropdownMenuItem>
+                        {doc.status === 'quarantined' && (
+                          <DropdownMenuItem onClick={() => setReviewDocument(doc)}>
+                            <ShieldAlert className="mr-2 h-4 w-4" />
+                            Review flagged content
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem onClick={() => handleToggleEnabled(doc)}>
                           {doc.is_enabled === false ? (
                             <>
@@ -637,6 +696,15 @@ export default function DocumentsPage() {
                     </TooltipProvider>
                   </div>
 
+                  {doc.status === 'quarantined' && (
+                    <button
+                      onClick={() => setReviewDocument(doc)}
+                      className="text-xs text-amber-700 mt-2 text-left hover:underline"
+                    >
+                      Contains instruction-like text. Review before it is used in answers.
+                    </button>
+                  )}
+
                   {doc.status === 'failed' && doc.processing_error && (
                     <p className="text-xs text-destructive mt-2 truncate" title={doc.processing_error}>
                       {doc.processing_error}
@@ -789,6 +857,61 @@ export default function DocumentsPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Quarantine Review Dialog */}
+      <Dialog open={!!reviewDocument} onOpenChange={(open) => !open && setReviewDocument(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-amber-600" />
+              Review Quarantined Document
+            </DialogTitle>
+            <DialogDescription>
+              {reviewDocument?.name} contains text that reads like instructions to the assistant.
+              It is kept out of search and the knowledge base until you release it.
+              Release it only if the passages below are legitimate content.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-4 max-h-[400px] overflow-auto">
+            {((reviewDocument?.injection_scan as InjectionScan | null)?.findings || []).map((finding, idx) => (
+              <div key={idx} className="p-3 border rounded-lg">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">{finding.description}</span>
+                  <Badge variant={finding.severity === 'high' ? 'destructive' : 'outline'} className="text-xs">
+                    {finding.severity}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground mt-2 font-mono break-words">{finding.excerpt}</p>
+                <p className="text-xs text-muted-foreground mt-1">Section {finding.chunkIndex + 1}</p>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              className="text-destructive"
+              onClick={() => {
+                if (reviewDocument) handleDelete(reviewDocument.id, reviewDocument.name)
+                setReviewDocument(null)
+              }}
+              disabled={releasing}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+            <Button onClick={handleReleaseQuarantine} disabled={releasing}>
+              {releasing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Releasing...
+                </>
+              ) : (
+                'Release to knowledge base'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Text Entry Dialog */}
       <Dialog open={textEntryDialogOpen} onOpenChange={setTextEntryDialogOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -10,13 +10,22 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Loader2, Save, User } from 'lucide-react'
-import type { Profile } from '@/types/database'
+import { cn } from '@/lib/utils'
+import {
+  ANSWER_STYLES,
+  DEFAULT_ANSWER_STYLE,
+  getPreferredAnswerStyle,
+  type AnswerStyle,
+} from '@/lib/agents/answer-style'
+import type { Json, Profile } from '@/types/database'
 
 export default function SettingsPage() {
   const [profile, setProfile] = useState<Profile | null>(null)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [fullName, setFullName] = useState('')
+  const [answerStyle, setAnswerStyle] = useState<AnswerStyle>(DEFAULT_ANSWER_STYLE)
+  const [savingStyle, setSavingStyle] = useState(false)
 
   useEffect(() => {
     const loadProfile = async () => {
@@ -33,6 +42,7 @@ export default function SettingsPage() {
         if (data) {
           setProfile(data)
           setFullName(data.full_name || '')
+          setAnswerStyle(getPreferredAnswerStyle(data.preferences) || DEFAULT_ANSWER_STYLE)
         }
       }
       setLoading(false)
@@ -56,6 +66,29 @@ export default function SettingsPage() {
     setSaving(false)
   }
 
+  const handleAnswerStyleChange = async (style: AnswerStyle) => {
+    if (!profile || style === answerStyle) return
+
+    setAnswerStyle(style)
+    setSavingStyle(true)
+    const supabase = createClient()
+
+    // Merge so other preferences are kept
+    const currentPreferences =
+      profile.preferences && typeof profile.preferences === 'object' && !Array.isArray(profile.preferences)
+        ? profile.preferences
+        : {}
+    const preferences: Json = { ...currentPreferences, answerStyle: style }
+
+    await supabase
+      .from('profiles')
+      .update({ preferences })
+      .eq('id', profile.id)
+
+    setProfile({ ...profile, preferences })
+    setSavingStyle(false)
+  }
+
   const getInitials = (name: string | null) => {
     if (!name) return 'U'
     return name
@@ -172,9 +205,30 @@ export default function SettingsPage() {
               Customize your Ask Finance experience
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            <p className="text-sm text-muted-foreground">
-              More preferences coming soon...
+          <CardContent className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Label>Default answer style</Label>
+              {savingStyle && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+            </div>
+            <div className="grid gap-2 sm:grid-cols-3">
+              {ANSWER_STYLES.map((style) => (
+                <button
+                  key={style.value}
+                  type="button"
+                  onClick={() => handleAnswerStyleChange(style.value)}
+                  disabled={savingStyle}
+                  className={cn(
+                    'rounded-lg border p-3 text-left transition-colors hover:bg-muted',
+                    answerStyle === style.value && 'border-primary bg-primary/5'
+                  )}
+                >
+                  <p className="text-sm font-medium">{style.label}</p>
+                  <p className="text-xs text-muted-foreground">{style.description}</p>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              You can also change the style for a single message from the chat input.
             </p>
           </CardContent>
         </Card>
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAdminOrganizationId } from '@/lib/organizations/admin'
+import { clearPromptCache } from '@/lib/prompts'
+
+export const runtime = 'nodejs'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// PATCH - Make an earlier version the active one (rollback)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const organizationId = await getAdminOrganizationId(supabase, user.id)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Only organization admins can manage prompts' }, { status: 403 })
+    }
+
+    const { data: template } = await supabase
+      .from('prompt_templates')
+      .select('id')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .single()
+
+    if (!template) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 })
+    }
+
+    const { error } = await supabase.rpc('activate_prompt_template', { p_template_id: id })
+
+    if (error) {
+      console.error('Activate prompt template error:', error)
+      return NextResponse.json({ error: 'Failed to activate prompt template' }, { status: 500 })
+    }
+
+    clearPromptCache()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Activate prompt template error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAdminOrganizationId } from '@/lib/organizations/admin'
+import { clearPromptCache, parseCustomVariables, validateOverride } from '@/lib/prompts'
+import { PROMPT_TEMPLATES, getPromptTemplate } from '@/lib/prompts/catalog'
+
+export const runtime = 'nodejs'
+
+// GET - List prompt templates with the organization's versions
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const organizationId = await getAdminOrganizationId(supabase, user.id)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Only organization admins can manage prompts' }, { status: 403 })
+    }
+
+    const { data: versions, error } = await supabase
+      .from('prompt_templates')
+      .select('id, key, version, content, variables, note, is_active, created_by, created_at')
+      .eq('organization_id', organizationId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      console.error('List prompt templates error:', error)
+      return NextResponse.json({ error: 'Failed to fetch prompt templates' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      templates: PROMPT_TEMPLATES.map(template => ({
+        key: template.key,
+        name: template.name,
+        description: template.description,
+        variables: template.variables,
+        required: template.required || [],
+        defaultContent: template.content,
+        versions: (versions || []).filter(v => v.key === template.key),
+      })),
+    })
+  } catch (error) {
+    console.error('List prompt templates error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Publish a new version of a template for the organization
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const organizationId = await getAdminOrganizationId(supabase, user.id)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Only organization admins can manage prompts' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const template = getPromptTemplate(body.key)
+    if (!template) {
+      return NextResponse.json({ error: 'Unknown prompt template' }, { status: 400 })
+    }
+
+    const content = typeof body.content === 'string' ? body.content : ''
+    const variables = parseCustomVariables(body.variables)
+    const errors = validateOverride(template, content, variables)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid prompt template', errors }, { status: 400 })
+    }
+
+    const { data: id, error } = await supabase.rpc('publish_prompt_template', {
+      p_organization_id: organizationId,
+      p_key: template.key,
+      p_content: content,
+      p_variables: variables,
+      p_note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : undefined,
+    })
+
+    if (error) {
+      console.error('Publish prompt template error:', error)
+      return NextResponse.json({ error: 'Failed to publish prompt template' }, { status: 500 })
+    }
+
+    clearPromptCache()
+
+    return NextResponse.json({ id }, { status: 201 })
+  } catch (error) {
+    console.error('Publish prompt template error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Go back to the built-in template (?key=...); versions are kept
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const organizationId = await getAdminOrganizationId(supabase, user.id)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Only organization admins can manage prompts' }, { status: 403 })
+    }
+
+    const key = new URL(request.url).searchParams.get('key')
+    if (!key || !getPromptTemplate(key)) {
+      return NextResponse.json({ error: 'Unknown prompt template' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('prompt_templates')
+      .update({ is_active: false })
+      .eq('organization_id', organizationId)
+      .eq('key', key)
+      .eq('is_active', true)
+
+    if (error) {
+      console.error('Reset prompt template error:', error)
+      return NextResponse.json({ error: 'Failed to reset prompt template' }, { status: 500 })
+    }
+
+    clearPromptCache()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Reset prompt template error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
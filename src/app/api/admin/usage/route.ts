@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { getAdminOrganizationId } from '@/lib/organizations/admin'
+
+export const runtime = 'nodejs'
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+const TOP_THREADS = 20
+
+const DIMENSIONS = ['day', 'feature', 'model', 'user', 'thread'] as const
+
+type Dimension = (typeof DIMENSIONS)[number]
+
+interface UsageRow {
+  key: string
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cacheCreationTokens: number
+  cacheReadTokens: number
+  costUsd: number
+  label?: string
+}
+
+// GET - Model usage and cost of the admin's organization (?days=30)
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const organizationId = await getAdminOrganizationId(supabase, user.id)
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Only organization admins can view usage' }, { status: 403 })
+    }
+
+    const requestedDays = Number(new URL(request.url).searchParams.get('days'))
+    const days = Number.isInteger(requestedDays) && requestedDays > 0
+      ? Math.min(requestedDays, MAX_DAYS)
+      : DEFAULT_DAYS
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    const breakdowns = await Promise.all(DIMENSIONS.map(async dimension => {
+      const { data, error } = await supabase.rpc('usage_cost_breakdown', {
+        p_organization_id: organizationId,
+        p_since: since,
+        p_group_by: dimension,
+      })
+      if (error) throw error
+
+      const rows: UsageRow[] = (data || []).map(row => ({
+        key: row.key,
+        calls: Number(row.calls),
+        inputTokens: Number(row.input_tokens),
+        outputTokens: Number(row.output_tokens),
+        cacheCreationTokens: Number(row.cache_creation_tokens),
+        cacheReadTokens: Number(row.cache_read_tokens),
+        costUsd: Number(row.cost_usd),
+      }))
+      return [dimension, rows] as const
+    }))
+    const usage = Object.fromEntries(breakdowns) as Record<Dimension, UsageRow[]>
+
+    // Names for the user and thread rows; other members' rows aren't visible to the caller's client
+    const service = await createServiceClient()
+    const threads = usage.thread.slice(0, TOP_THREADS)
+    const [{ data: profiles }, { data: threadRows }] = await Promise.all([
+      service.from('profiles').select('id, full_name, email').in('id', usage.user.map(row => row.key)),
+      service.from('threads').select('id, title').in('id', threads.map(row => row.key)),
+    ])
+
+    const totals = usage.day.reduce(
+      (sum, row) => ({
+        calls: sum.calls + row.calls,
+        inputTokens: sum.inputTokens + row.inputTokens,
+        outputTokens: sum.outputTokens + row.outputTokens,
+        cacheCreationTokens: sum.cacheCreationTokens + row.cacheCreationTokens,
+        cacheReadTokens: sum.cacheReadTokens + row.cacheReadTokens,
+        costUsd: sum.costUsd + row.costUsd,
+      }),
+      { calls: 0, inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, costUsd: 0 }
+    )
+
+    return NextResponse.json({
+      days,
+      since,
+      totals,
+      byDay: [...usage.day].sort((a, b) => a.key.localeCompare(b.key)),
+      byFeature: usage.feature,
+      byModel: usage.model,
+      byUser: usage.user.map(row => {
+        const profile = profiles?.find(p => p.id === row.key)
+        return { ...row, label: profile?.full_name || profile?.email || 'Unknown user' }
+      }),
+      byThread: threads.map(row => ({
+        ...row,
+        label: threadRows?.find(t => t.id === row.key)?.title || 'Untitled thread',
+      })),
+    })
+  } catch (error) {
+    console.error('Usage dashboard error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
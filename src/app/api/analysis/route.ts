@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { financialOrchestrator, reportEvaluator } from '@/lib/agents/orchestrator'
-import { documentAnalyzer } from '@/lib/agents/document-analyzer'
+import { FinancialOrchestrator, ReportEvaluator } from '@/lib/agents/orchestrator'
+import { DocumentAnalyzer } from '@/lib/agents/document-analyzer'
 import { getStructuredFinancialAnswer, extractFinancialMetrics } from '@/lib/agents/json-mode'
+import { admitRequest, quotaExceededResponse } from '@/lib/organizations/quotas'
 
 export const runtime = 'nodejs'
 export const maxDuration = 120 // Allow longer for complex analysis
@@ -50,6 +51,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Per-role rate limit and daily quotas
+    const quotaDenial = await admitRequest(user.id, 'analysis')
+    if (quotaDenial) {
+      return quotaExceededResponse(quotaDenial)
+    }
+
     // Parse request body
     const body: AnalysisRequest = await request.json()
 
@@ -64,7 +71,7 @@ export async function POST(request: NextRequest) {
           )
         }
 
-        const result = await financialOrchestrator.analyze(body.query, {
+        const result = await new FinancialOrchestrator(user.id).analyze(body.query, {
           targetAudience: body.options?.targetAudience,
         })
 
@@ -97,6 +104,7 @@ export async function POST(request: NextRequest) {
         }
 
         const criteria = body.options?.evaluationCriteria || {}
+        const reportEvaluator = new ReportEvaluator(user.id)
         const evaluation = await reportEvaluator.evaluate(body.report, criteria)
 
         // If report needs improvement and maxIterations is set, optimize it
@@ -155,7 +163,7 @@ export async function POST(request: NextRequest) {
         const mimeType = body.documentMimeType || 'application/pdf'
 
         if (mimeType === 'application/pdf') {
-          const result = await documentAnalyzer.analyzePdf(body.documentBase64, {
+          const result = await new DocumentAnalyzer(user.id).analyzePdf(body.documentBase64, {
             extractCharts: body.options?.extractCharts,
             extractTables: body.options?.extractTables,
             generateNarration: body.options?.generateNarration,
@@ -179,7 +187,7 @@ export async function POST(request: NextRequest) {
             ...result,
           })
         } else if (mimeType.startsWith('image/')) {
-          const result = await documentAnalyzer.analyzeImage(
+          const result = await new DocumentAnalyzer(user.id).analyzeImage(
             body.documentBase64,
             mimeType,
             body.query
@@ -216,7 +224,7 @@ export async function POST(request: NextRequest) {
           )
         }
 
-        const result = await getStructuredFinancialAnswer(body.query)
+        const result = await getStructuredFinancialAnswer(body.query, undefined, user.id)
 
         // Log usage
         await supabase.from('usage_logs').insert({
@@ -278,7 +286,7 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const metrics = await extractFinancialMetrics(text, focus || undefined)
+    const metrics = await extractFinancialMetrics(text, focus || undefined, user.id)
 
     return NextResponse.json({
       success: true,
@@ -1,6 +1,24 @@
-import { NextRequest } from 'next/server'
+import { NextRequest, after } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { streamFinanceChat, createToolContextAccumulator, type ChatMessage } from '@/lib/agents/finance-agent'
+import {
+  streamFinanceChat,
+  createToolContextAccumulator,
+  type ChatMessage,
+  type FinanceChatOptions,
+  type RunUsage,
+  type StreamCallbacks,
+  type ToolProgress,
+} from '@/lib/agents/finance-agent'
+import { isSessionBackendEnabled, streamFinanceSession } from '@/lib/agents/session-agent'
+import { attachExportsToMessage } from '@/lib/exports/storage'
+import { resolveRunBudget } from '@/lib/agents/run-budget'
+import { admitRequest, quotaExceededResponse } from '@/lib/organizations/quotas'
+import { financeToolRegistry, type CanvasType } from '@/lib/agents/tools'
+import { resolveAnswerStyle } from '@/lib/agents/answer-style'
+import { verifyAnswerClaims, type VerifiedToolCall } from '@/lib/agents/claim-verifier'
+import { readThreadSummary, updateThreadSummary, type ThreadSummary } from '@/lib/agents/thread-summary'
+import type { PromptVersion } from '@/lib/prompts'
+import type { Json } from '@/types/database'
 
 export const runtime = 'nodejs'
 export const maxDuration = 60
@@ -42,6 +60,8 @@ export async function POST(request: NextRequest) {
     // Parse request body
     const body = await request.json()
     const { message, threadId, sessionId } = body
+    // A style chosen for this message wins over the user's saved default
+    const answerStyle = resolveAnswerStyle(body.answerStyle, profile.preferences)
 
     if (!message || typeof message !== 'string') {
       return new Response(
@@ -50,9 +70,27 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Per-role rate limit and daily quotas
+    const quotaDenial = await admitRequest(user.id, 'chat', { role: profile.role })
+    if (quotaDenial) {
+      return quotaExceededResponse(quotaDenial)
+    }
+
     // Get or create thread
     let currentThreadId = threadId
-    if (!currentThreadId) {
+    // Agent SDK session to resume (session backend only)
+    let resumeSessionId: string | null = null
+    // Rolling summary of the messages older than the history window
+    let threadSummary: ThreadSummary | null = null
+    if (currentThreadId) {
+      const { data: thread } = await supabase
+        .from('threads')
+        .select('session_id, metadata')
+        .eq('id', currentThreadId)
+        .single()
+      resumeSessionId = thread?.session_id ?? null
+      threadSummary = readThreadSummary(thread?.metadata)
+    } else {
       // Create new thread
       const { data: newThread, error: threadError } = await supabase
         .from('threads')
@@ -74,61 +112,34 @@ export async function POST(request: NextRequest) {
       currentThreadId = newThread.id
     }
 
-    // Context Management Strategy:
+    // Context Management Strategy (Messages API backend, and the seed for a new
+    // session when the session backend can't resume one):
     // 1. Limit to last 6 message pairs (12 messages) to stay well under 200k token limit
     // 2. Truncate individual messages that are too long
-    // 3. Prioritize recent context over older messages
-    // 4. Keep ~50k tokens of conversation history to leave room for:
-    //    - System prompt (~5k tokens)
-    //    - Knowledge base context (~30k tokens)
-    //    - Tool results and visualizations (~50k tokens)
-    //    - New response generation (~10k tokens)
+    // 3. Messages older than the window are folded into the thread summary
+    //    (threads.metadata.summary) after the answer, and only unsummarized
+    //    messages are loaded here, so nothing else is dropped
     const MAX_MESSAGES = 12 // 6 turns of conversation
     const MAX_MESSAGE_LENGTH = 4000 // ~1k tokens per message max
-    const MAX_TOTAL_CONTENT_LENGTH = 50000 // ~12.5k tokens total for history
 
-    const { data: previousMessages } = await supabase
+    let previousMessagesQuery = supabase
       .from('messages')
       .select('role, content, created_at')
       .eq('thread_id', currentThreadId)
       .order('created_at', { ascending: false })
       .limit(MAX_MESSAGES)
+    if (threadSummary) {
+      previousMessagesQuery = previousMessagesQuery.gt('created_at', threadSummary.summarizedThrough)
+    }
+    const { data: previousMessages } = await previousMessagesQuery
 
     // Reverse to get chronological order
-    const chronologicalMessages = (previousMessages || []).reverse()
-
-    // Smart truncation: keep recent messages fuller, truncate older ones more aggressively
-    let totalLength = 0
-    const limitedMessages: ChatMessage[] = []
-
-    for (let i = chronologicalMessages.length - 1; i >= 0; i--) {
-      const m = chronologicalMessages[i]
-      const isRecent = i >= chronologicalMessages.length - 4 // Last 2 turns get full content
-
-      // Calculate allowed length based on position
-      const allowedLength = isRecent ? MAX_MESSAGE_LENGTH : Math.floor(MAX_MESSAGE_LENGTH / 2)
-
-      let content = m.content
-      if (content.length > allowedLength) {
-        content = content.substring(0, allowedLength) + '\n\n[Content summarized for context limit...]'
-      }
-
-      // Check if adding this message would exceed total limit
-      if (totalLength + content.length > MAX_TOTAL_CONTENT_LENGTH && limitedMessages.length >= 2) {
-        // Add a summary note and stop
-        limitedMessages.unshift({
-          role: 'assistant' as const,
-          content: '[Earlier conversation history omitted to stay within context limits. Key points from the conversation are preserved in recent messages.]'
-        })
-        break
-      }
-
-      totalLength += content.length
-      limitedMessages.unshift({
-        role: m.role as 'user' | 'assistant',
-        content
-      })
-    }
+    const limitedMessages: ChatMessage[] = (previousMessages || []).reverse().map(m => ({
+      role: m.role as 'user' | 'assistant',
+      content: m.content.length > MAX_MESSAGE_LENGTH
+        ? m.content.substring(0, MAX_MESSAGE_LENGTH) + '\n\n[Content summarized for context limit...]'
+        : m.content,
+    }))
 
     // Build messages array
     const messages: ChatMessage[] = [
@@ -143,6 +154,15 @@ export async function POST(request: NextRequest) {
       content: message,
     })
 
+    // Fold messages that fell out of the history window into the summary for the
+    // next turn, once the response has finished so the client isn't kept waiting
+    let answerSaved = false
+    after(async () => {
+      if (answerSaved) {
+        await updateThreadSummary(currentThreadId, { windowSize: MAX_MESSAGES, userId: user.id })
+      }
+    })
+
     // Create streaming response
     const stream = new ReadableStream({
       async start(controller) {
@@ -150,7 +170,12 @@ export async function POST(request: NextRequest) {
         const citations: unknown[] = []
         const canvasContents: unknown[] = []  // Support multiple canvas items
         const toolCalls: unknown[] = []
+        const exportIds: string[] = []  // Generated files to link to the saved message
         const toolContextAccumulator = createToolContextAccumulator()  // For multi-turn image generation
+        const canvasTypes = financeToolRegistry.canvasTypes()
+        let promptVersions: PromptVersion[] = []
+        let tokenUsage: RunUsage | null = null
+        let agentSessionId: string | null = null
 
         const sendEvent = (event: string, data: unknown) => {
           controller.enqueue(
@@ -162,28 +187,37 @@ export async function POST(request: NextRequest) {
         sendEvent('thread', { threadId: currentThreadId })
 
         try {
-          // Run the finance agent with callbacks
-          await streamFinanceChat(
-            messages,
+          // Run the finance agent with callbacks; the session backend resumes the thread's Agent SDK session
+          const runAgent = (agentCallbacks: StreamCallbacks, agentOptions: FinanceChatOptions) =>
+            isSessionBackendEnabled()
+              ? streamFinanceSession(messages, agentCallbacks, { ...agentOptions, resumeSessionId })
+              : streamFinanceChat(messages, agentCallbacks, agentOptions)
+
+          await runAgent(
             {
               onText: (text: string) => {
                 fullResponse += text
-                sendEvent('text', { content: text })
+                sendEvent('text_delta', { content: text })
               },
-              onToolStart: (tool: string, input: unknown) => {
-                toolCalls.push({ name: tool, input })
-                sendEvent('tool_start', { tool, input })
+              onToolStart: (tool: string, input: unknown, toolUseId: string) => {
+                toolCalls.push({ id: toolUseId, name: tool, input })
+                sendEvent('tool_start', { tool, input, toolUseId })
               },
-              onToolResult: (tool: string, result: unknown) => {
-                const lastToolCall = toolCalls[toolCalls.length - 1] as { output?: unknown } | undefined
-                if (lastToolCall) {
-                  lastToolCall.output = result
+              onToolResult: (tool: string, result: unknown, toolUseId: string) => {
+                // Tools run concurrently, so match the result to its call by id
+                const toolCall = (toolCalls as { id: string; output?: unknown }[]).find(c => c.id === toolUseId)
+                if (toolCall) {
+                  toolCall.output = result
                 }
-                sendEvent('tool_result', { tool, result })
+                sendEvent('tool_result', { tool, result, toolUseId })
 
-                // Check if result contains canvas data (chart, table, image, etc.)
+                // Check if result contains canvas data (any canvas type declared in the tool registry)
                 const resultObj = result as { type?: string; data?: unknown }
-                if (resultObj?.type === 'chart' || resultObj?.type === 'table' || resultObj?.type === 'image') {
+                if (resultObj?.type === 'export') {
+                  const exportId = (resultObj.data as { exportId?: string })?.exportId
+                  if (exportId) exportIds.push(exportId)
+                }
+                if (resultObj?.type && canvasTypes.has(resultObj.type as CanvasType)) {
                   // The result already has {type, data} structure, use it directly
                   canvasContents.push(resultObj)
                   sendEvent('canvas', resultObj)
@@ -191,37 +225,77 @@ export async function POST(request: NextRequest) {
 
                 // Check for citations
                 const citationResult = result as { citations?: unknown[] }
-                if (citationResult?.citations) {
+                if (citationResult?.citations?.length) {
                   citations.push(...citationResult.citations)
                   sendEvent('citations', { citations: citationResult.citations })
                 }
               },
+              onToolProgress: (tool: string, progress: ToolProgress) => {
+                sendEvent('tool_progress', { tool, ...progress })
+              },
               onError: (error: Error) => {
                 sendEvent('error', { message: error.message })
               },
-              onDone: () => {
+              onSession: (id: string) => {
+                agentSessionId = id
+              },
+              onDone: ({ promptVersions: versions, ...usage }) => {
+                promptVersions = versions
+                tokenUsage = usage
                 sendEvent('done', {
                   threadId: currentThreadId,
-                  sessionId,
+                  sessionId: agentSessionId || sessionId,
+                  usage,
+                  budgetExhausted: usage.budgetExhausted,
                 })
               },
             },
-            { sessionId, userId: user.id, toolContextAccumulator }
+            {
+              sessionId,
+              userId: user.id,
+              threadId: currentThreadId,
+              role: profile.role,
+              answerStyle,
+              conversationSummary: threadSummary?.text,
+              toolContextAccumulator,
+              runBudget: resolveRunBudget(profile.role, profile.agent_budget),
+            }
           )
 
           // Save assistant message
           if (fullResponse) {
+            // Check the figures in the answer against the tool results and knowledge base
+            const claimVerifications = await verifyAnswerClaims(
+              fullResponse,
+              toolCalls as VerifiedToolCall[],
+              { userId: user.id }
+            )
+            if (claimVerifications.length > 0) {
+              sendEvent('verification', { claims: claimVerifications })
+            }
+
             // Store the last canvas content (or first chart/table) for the message
             const primaryCanvas = canvasContents.length > 0 ? canvasContents[canvasContents.length - 1] : null
 
-            await supabase.from('messages').insert({
-              thread_id: currentThreadId,
-              role: 'assistant' as const,
-              content: fullResponse,
-              citations: (citations.length > 0 ? citations : null) as any,
-              canvas_content: primaryCanvas as any,
-              tool_calls: (toolCalls.length > 0 ? toolCalls : null) as any,
-            })
+            const { data: savedMessage } = await supabase
+              .from('messages')
+              .insert({
+                thread_id: currentThreadId,
+                role: 'assistant' as const,
+                content: fullResponse,
+                citations: (citations.length > 0 ? citations : null) as any,
+                canvas_content: primaryCanvas as any,
+                tool_calls: (toolCalls.length > 0 ? toolCalls : null) as any,
+                prompt_versions: promptVersions as unknown as Json,
+                token_usage: tokenUsage as unknown as Json,
+                claim_verifications: (claimVerifications.length > 0 ? claimVerifications : null) as unknown as Json,
+              })
+              .select('id')
+              .single()
+
+            if (savedMessage) {
+              await attachExportsToMessage(exportIds, savedMessage.id)
+            }
 
             // Update thread title if needed
             if (!threadId) {
@@ -232,11 +306,16 @@ export async function POST(request: NextRequest) {
                 .eq('id', currentThreadId)
             }
 
-            // Update thread's updated_at
+            // Update thread's updated_at, and the session the next message resumes
             await supabase
               .from('threads')
-              .update({ updated_at: new Date().toISOString() })
+              .update({
+                updated_at: new Date().toISOString(),
+                ...(agentSessionId ? { session_id: agentSessionId } : {}),
+              })
               .eq('id', currentThreadId)
+
+            answerSaved = true
           }
 
           // Log usage
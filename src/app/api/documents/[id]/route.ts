@@ -54,6 +54,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       is_enabled,
       visibility,
       tags,
+      release_quarantine,
     } = body
 
     // Build update object with only provided fields
@@ -64,6 +65,33 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     if (visibility !== undefined) updates.visibility = visibility
     if (tags !== undefined) updates.tags = tags
 
+    // Quarantined documents stay out of the knowledge base until the owner releases them
+    if (is_enabled === true || release_quarantine) {
+      const { data: current } = await supabase
+        .from('documents')
+        .select('status, injection_scan')
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .single()
+
+      if (current?.status === 'quarantined') {
+        if (!release_quarantine) {
+          return NextResponse.json(
+            { error: 'This document is quarantined. Review its flagged content before enabling it.' },
+            { status: 409 }
+          )
+        }
+        updates.status = 'completed'
+        updates.is_enabled = true
+        updates.injection_scan = {
+          ...(current.injection_scan as Record<string, unknown> | null),
+          review: { reviewedBy: user.id, reviewedAt: new Date().toISOString() },
+        }
+      } else if (release_quarantine) {
+        return NextResponse.json({ error: 'Document is not quarantined' }, { status: 400 })
+      }
+    }
+
     if (Object.keys(updates).length === 0) {
       return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
     }
@@ -95,7 +123,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     } as any)
 
     // If is_enabled changed, trigger knowledge base re-synthesis
-    if (is_enabled !== undefined) {
+    if (is_enabled !== undefined || release_quarantine) {
       synthesizeKnowledgeBase(user.id).catch((err) => {
         console.error('Knowledge synthesis failed:', err)
       })
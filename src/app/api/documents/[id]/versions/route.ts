@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient, createServiceClient } from '@/lib/supabase/server'
 import { processDocument } from '@/lib/gemini/document-processor'
 import { generateEmbeddings } from '@/lib/embeddings/openai'
+import { ingestionStatusUpdate, scanForInjection } from '@/lib/llm'
+import { admitRequest, quotaExceededResponse } from '@/lib/organizations/quotas'
+import { buildWorkbookModelRecords } from '@/lib/spreadsheets/what-if'
+import type { Json } from '@/types/database'
 
 export const runtime = 'nodejs'
 export const maxDuration = 60
@@ -106,6 +110,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
 
+    // A new version counts as an upload
+    const quotaDenial = await admitRequest(user.id, 'upload', { uploadBytes: file.size })
+    if (quotaDenial) {
+      return quotaExceededResponse(quotaDenial)
+    }
+
     // Upload new file
     const newFilePath = `${user.id}/${Date.now()}_v${(currentDoc.version || 1) + 1}_${file.name}`
     const fileBuffer = Buffer.from(await file.arrayBuffer())
@@ -165,7 +175,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       .eq('document_id', id)
 
     // Process the new version asynchronously
-    processNewVersion(id, fileBuffer, file.type, file.name, serviceSupabase)
+    processNewVersion(id, fileBuffer, file.type, file.name, serviceSupabase, user.id)
 
     // Log the version update
     await supabase.from('usage_logs').insert({
@@ -195,15 +205,41 @@ async function processNewVersion(
   fileBuffer: Buffer,
   mimeType: string,
   fileName: string,
-  supabase: Awaited<ReturnType<typeof createServiceClient>>
+  supabase: Awaited<ReturnType<typeof createServiceClient>>,
+  userId: string
 ) {
   try {
     // Process with Gemini
-    const result = await processDocument(fileBuffer, mimeType, fileName)
+    const result = await processDocument(fileBuffer, mimeType, fileName, userId)
+
+    // The formula graph belongs to the version it was parsed from
+    const financeMetadata: Record<string, unknown> = { ...result.metadata }
+    const workbookModel = mimeType.includes('spreadsheet') || mimeType.includes('excel')
+      ? buildWorkbookModelRecords(fileBuffer, mimeType, fileName)
+      : null
+    if (workbookModel) {
+      financeMetadata.workbook_model = workbookModel.summary
+    }
 
-    // Generate embeddings for chunks
+    // Each version is scanned again; a new version needs a new review. A
+    // suspicious version is disabled before its chunks are inserted.
     const chunkContents = result.chunks.map((c) => c.content)
-    const embeddings = await generateEmbeddings(chunkContents)
+    const injectionScan = scanForInjection(chunkContents)
+    const statusUpdate = {
+      ...ingestionStatusUpdate(injectionScan),
+      finance_metadata: financeMetadata as any,
+      workbook_graph: (workbookModel?.graph ?? null) as unknown as Json,
+    }
+    if (injectionScan.suspicious) {
+      const { error: quarantineError } = await supabase
+        .from('documents')
+        .update(statusUpdate)
+        .eq('id', documentId)
+      if (quarantineError) throw quarantineError
+    }
+
+    // Generate embeddings for chunks
+    const embeddings = await generateEmbeddings(chunkContents, userId)
 
     // Insert chunks with embeddings
     const chunksToInsert = result.chunks.map((chunk, index) => ({
@@ -216,14 +252,17 @@ async function processNewVersion(
 
     await supabase.from('document_chunks').insert(chunksToInsert as any)
 
+    if (injectionScan.suspicious) {
+      console.warn(`Document ${documentId} new version quarantined: ${injectionScan.findings.map(f => f.rule).join(', ')}`)
+      return
+    }
+
     // Update document status
-    await supabase
+    const { error: updateError } = await supabase
       .from('documents')
-      .update({
-        status: 'completed' as const,
-        finance_metadata: result.metadata as any,
-      })
+      .update(statusUpdate)
       .eq('id', documentId)
+    if (updateError) throw updateError
 
     console.log(`Document ${documentId} new version processed successfully`)
   } catch (error) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { generateEmbeddings } from '@/lib/embeddings/openai'
+import { ingestionStatusUpdate, scanForInjection } from '@/lib/llm'
+import { admitRequest, quotaExceededResponse } from '@/lib/organizations/quotas'
 
 export const runtime = 'nodejs'
 export const maxDuration = 60
@@ -99,6 +101,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // A text entry counts as an upload of its size
+    const contentBytes = new Blob([content]).size
+    const quotaDenial = await admitRequest(user.id, 'upload', { uploadBytes: contentBytes })
+    if (quotaDenial) {
+      return quotaExceededResponse(quotaDenial)
+    }
+
     // Create document record for text entry
     const { data: document, error: docError } = await supabase
       .from('documents')
@@ -106,7 +115,7 @@ export async function POST(request: NextRequest) {
         user_id: user.id,
         name: title,
         file_path: `text://${user.id}/${Date.now()}`, // Virtual path for text entries
-        file_size: new Blob([content]).size,
+        file_size: contentBytes,
         mime_type: 'text/plain',
         document_type: 'other',
         status: 'processing',
@@ -138,9 +147,21 @@ export async function POST(request: NextRequest) {
         title,
       })
 
-      // Generate embeddings for chunks
+      // Instruction-like text quarantines the entry until it is reviewed.
+      // It is disabled before its chunks are inserted, so they never reach search.
       const chunkContents = chunks.map((c) => c.content)
-      const embeddings = await generateEmbeddings(chunkContents)
+      const injectionScan = scanForInjection(chunkContents)
+      const statusUpdate = ingestionStatusUpdate(injectionScan)
+      if (injectionScan.suspicious) {
+        const { error: quarantineError } = await supabase
+          .from('documents')
+          .update(statusUpdate)
+          .eq('id', document.id)
+        if (quarantineError) throw quarantineError
+      }
+
+      // Generate embeddings for chunks
+      const embeddings = await generateEmbeddings(chunkContents, user.id)
 
       // Insert chunks with embeddings
       const chunksToInsert = chunks.map((chunk, index) => ({
@@ -153,13 +174,14 @@ export async function POST(request: NextRequest) {
 
       await supabase.from('document_chunks').insert(chunksToInsert as any)
 
-      // Update document status to completed
-      await supabase
-        .from('documents')
-        .update({
-          status: 'completed' as const,
-        })
-        .eq('id', document.id)
+      // Update document status
+      if (!injectionScan.suspicious) {
+        const { error: updateError } = await supabase
+          .from('documents')
+          .update(statusUpdate)
+          .eq('id', document.id)
+        if (updateError) throw updateError
+      }
 
       // Log the action
       await supabase.from('usage_logs').insert({
@@ -171,13 +193,17 @@ export async function POST(request: NextRequest) {
           title,
           contentLength: content.length,
           chunksCreated: chunks.length,
+          quarantined: injectionScan.suspicious,
         },
       })
 
       return NextResponse.json({
-        document: { ...document, status: 'completed' },
-        message: 'Text entry created and processed successfully',
+        document: { ...document, ...statusUpdate },
+        message: injectionScan.suspicious
+          ? 'Text entry quarantined: it contains instruction-like text and needs review before it is searchable'
+          : 'Text entry created and processed successfully',
         chunksCreated: chunks.length,
+        quarantined: injectionScan.suspicious,
       })
     } catch (processingError) {
       console.error('Text processing error:', processingError)
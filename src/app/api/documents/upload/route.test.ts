@@ -0,0 +1,98 @@
+import * as XLSX from 'xlsx'
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fakeSupabase, type FakeRpcHandler } from '@/test/fake-supabase'
+import { ejectCassette, playCassette } from '@/test/cassettes'
+import { POST } from './route'
+
+vi.mock('@/lib/supabase/server', async () => (await import('@/test/fake-supabase')).supabaseServerMock)
+
+const USER_ID = 'user-1'
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+const noUsageYet: FakeRpcHandler = () => [{ requests: 0, tokens: 0, images: 0, upload_bytes: 0 }]
+const admitted: FakeRpcHandler = () => null
+
+const getOrCreateKnowledgeBase: FakeRpcHandler = ({ p_user_id }, db) => {
+  const rows = db.rows('knowledge_bases')
+  if (!rows.some(row => row.user_id === p_user_id)) {
+    rows.push(db.newRow({ user_id: p_user_id, synthesis_status: 'pending', document_count: 0 }, 'knowledge_bases'))
+  }
+  return null
+}
+
+function buildBudgetWorkbook(): Buffer {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ['Line', 'Q3 Budget'],
+    ['Revenue', 4000000],
+    ['Operating expenses', 1800000],
+    ['Operating profit', 2200000],
+  ])
+  sheet.B4 = { t: 'n', v: 2200000, f: 'B2-B3' }
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Budget')
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+}
+
+function uploadRequest(file: File): NextRequest {
+  const form = new FormData()
+  form.append('file', file)
+  return new NextRequest('http://localhost/api/documents/upload', { method: 'POST', body: form })
+}
+
+describe('POST /api/documents/upload', () => {
+  beforeEach(() => {
+    fakeSupabase.reset({
+      user: { id: USER_ID, email: 'analyst@example.com' },
+      tables: { profiles: [{ id: USER_ID, role: 'analyst' }] },
+      defaults: { documents: { is_enabled: true, is_latest: true } },
+      rpc: {
+        usage_quota_consumption: noUsageYet,
+        admit_api_request: admitted,
+        get_or_create_knowledge_base: getOrCreateKnowledgeBase,
+      },
+    })
+    playCassette('document-upload')
+  })
+
+  afterEach(() => ejectCassette())
+
+  it('extracts, embeds and indexes the document, then refreshes the knowledge base', async () => {
+    const response = await POST(uploadRequest(new File([new Uint8Array(buildBudgetWorkbook())], 'Q3 Budget.xlsx', { type: XLSX_MIME })))
+    expect(response.status).toBe(200)
+
+    const { document } = await response.json()
+    expect(document).toMatchObject({ name: 'Q3 Budget.xlsx', document_type: 'excel', status: 'processing' })
+    expect(fakeSupabase.files.has(`documents/${document.file_path}`)).toBe(true)
+
+    // Processing and synthesis continue after the response
+    await vi.waitFor(() => {
+      expect(fakeSupabase.rows('knowledge_bases')[0]?.synthesis_status).toBe('completed')
+    }, { timeout: 5000 })
+
+    const [stored] = fakeSupabase.rows('documents')
+    expect(stored).toMatchObject({ status: 'completed', injection_scan: { suspicious: false } })
+    expect(stored.finance_metadata).toMatchObject({
+      documentType: 'Budget',
+      period: 'Q3 FY2024',
+      keyMetrics: { revenue: 4000000, operatingExpenses: 1800000 },
+    })
+    expect(Object.keys((stored.workbook_graph as { formulas: object }).formulas)).toEqual(['Budget!B4'])
+
+    const chunks = fakeSupabase.rows('document_chunks')
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0]).toMatchObject({ document_id: document.id, chunk_index: 0 })
+    expect(JSON.parse(chunks[0].embedding as string)).toHaveLength(8)
+
+    expect(fakeSupabase.rows('knowledge_bases')[0]).toMatchObject({ document_count: 1 })
+  })
+
+  it('rejects unauthenticated uploads', async () => {
+    fakeSupabase.user = null
+
+    const response = await POST(uploadRequest(new File(['a,b'], 'data.csv', { type: 'text/csv' })))
+
+    expect(response.status).toBe(401)
+    expect(fakeSupabase.rows('documents')).toHaveLength(0)
+  })
+})
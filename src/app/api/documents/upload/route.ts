@@ -2,8 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient, createServiceClient } from '@/lib/supabase/server'
 import { processDocument } from '@/lib/gemini/document-processor'
 import { generateEmbeddings } from '@/lib/embeddings/openai'
+import { ingestionStatusUpdate, scanForInjection } from '@/lib/llm'
 import { synthesizeKnowledgeBase } from '@/lib/knowledge/synthesis'
-import type { DocumentType } from '@/types/database'
+import { buildWorkbookModelRecords } from '@/lib/spreadsheets/what-if'
+import { admitRequest, quotaExceededResponse } from '@/lib/organizations/quotas'
+import type { DocumentType, Json } from '@/types/database'
 
 export const runtime = 'nodejs'
 export const maxDuration = 60
@@ -36,6 +39,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
 
+    // Per-role rate limit and daily upload quota
+    const quotaDenial = await admitRequest(user.id, 'upload', { uploadBytes: file.size })
+    if (quotaDenial) {
+      return quotaExceededResponse(quotaDenial)
+    }
+
     // Upload to Supabase Storage
     const filePath = `${user.id}/${Date.now()}_${file.name}`
     const fileBuffer = Buffer.from(await file.arrayBuffer())
@@ -75,7 +84,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Process document asynchronously
-    processDocumentAsync(document.id, fileBuffer, file.type, file.name, serviceSupabase)
+    processDocumentAsync(document.id, fileBuffer, file.type, file.name, serviceSupabase, user.id)
 
     return NextResponse.json({
       document,
@@ -92,15 +101,41 @@ async function processDocumentAsync(
   fileBuffer: Buffer,
   mimeType: string,
   fileName: string,
-  supabase: Awaited<ReturnType<typeof createServiceClient>>
+  supabase: Awaited<ReturnType<typeof createServiceClient>>,
+  userId: string
 ) {
   try {
     // Process with Gemini
-    const result = await processDocument(fileBuffer, mimeType, fileName)
+    const result = await processDocument(fileBuffer, mimeType, fileName, userId)
+
+    // Keep the formula structure of Excel models for what-if analysis
+    const financeMetadata: Record<string, unknown> = { ...result.metadata }
+    const workbookModel = getDocumentType(mimeType) === 'excel'
+      ? buildWorkbookModelRecords(fileBuffer, mimeType, fileName)
+      : null
+    if (workbookModel) {
+      financeMetadata.workbook_model = workbookModel.summary
+    }
 
-    // Generate embeddings for chunks
+    // Instruction-like text quarantines the document until it is reviewed.
+    // It is disabled before its chunks are inserted, so they never reach search.
     const chunkContents = result.chunks.map((c) => c.content)
-    const embeddings = await generateEmbeddings(chunkContents)
+    const injectionScan = scanForInjection(chunkContents)
+    const statusUpdate = {
+      ...ingestionStatusUpdate(injectionScan),
+      finance_metadata: financeMetadata as any,
+      workbook_graph: (workbookModel?.graph ?? null) as unknown as Json,
+    }
+    if (injectionScan.suspicious) {
+      const { error: quarantineError } = await supabase
+        .from('documents')
+        .update(statusUpdate)
+        .eq('id', documentId)
+      if (quarantineError) throw quarantineError
+    }
+
+    // Generate embeddings for chunks
+    const embeddings = await generateEmbeddings(chunkContents, userId)
 
     // Insert chunks with embeddings
     const chunksToInsert = result.chunks.map((chunk, index) => ({
@@ -113,16 +148,19 @@ async function processDocumentAsync(
 
     await supabase.from('document_chunks').insert(chunksToInsert as any)
 
+    if (injectionScan.suspicious) {
+      console.warn(`Document ${documentId} quarantined: ${injectionScan.findings.map(f => f.rule).join(', ')}`)
+      return
+    }
+
     // Update document status
-    const { data: updatedDoc } = await supabase
+    const { data: updatedDoc, error: updateError } = await supabase
       .from('documents')
-      .update({
-        status: 'completed' as const,
-        finance_metadata: result.metadata as any,
-      })
+      .update(statusUpdate)
       .eq('id', documentId)
       .select('user_id')
       .single()
+    if (updateError) throw updateError
 
     console.log(`Document ${documentId} processed successfully`)
 
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createExportDownloadUrl } from '@/lib/exports/storage'
+
+export const runtime = 'nodejs'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET - Redirect to a fresh signed download URL for a stored export
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // RLS limits this to the caller's own exports
+    const { data: exportRecord, error } = await supabase
+      .from('exports')
+      .select('id, file_name, storage_path')
+      .eq('id', id)
+      .single()
+
+    if (error || !exportRecord) {
+      return NextResponse.json({ error: 'Export not found' }, { status: 404 })
+    }
+
+    const { downloadUrl } = await createExportDownloadUrl(
+      exportRecord.storage_path,
+      exportRecord.file_name
+    )
+
+    return NextResponse.redirect(downloadUrl)
+  } catch (error) {
+    console.error('Get export error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
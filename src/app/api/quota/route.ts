@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getQuotaAllowance } from '@/lib/organizations/quotas'
+
+export const runtime = 'nodejs'
+
+// GET - The current user's quota and what remains of it
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await getQuotaAllowance(user.id))
+  } catch (error) {
+    console.error('Quota API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
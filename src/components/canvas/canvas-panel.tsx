@@ -428,6 +428,17 @@ export function CanvasPanel({ content, allItems = [], onClose, onExport, onSelec
     const isExcel = exportData?.format === 'excel' || exportData?.sheets
     const endpoint = isExcel ? '/api/export/excel' : '/api/export/powerpoint'
 
+    // Files generated by the agent are already stored; fetch them via a fresh signed URL
+    if (exportData.exportId) {
+      const link = document.createElement('a')
+      link.href = `/api/exports/${exportData.exportId}`
+      link.download = exportData.filename || ''
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      return
+    }
+
     setIsDownloading(true)
 
     try {
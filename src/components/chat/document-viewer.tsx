@@ -33,6 +33,11 @@ interface Citation {
   pageNumber?: number
   excerpt: string
   storagePath?: string
+  relevance?: {
+    strategy: string
+    score: number
+    reason: string
+  }
 }
 
 interface DocumentViewerProps {
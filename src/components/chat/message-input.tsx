@@ -9,17 +9,42 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
-import { Send, Paperclip, StopCircle, Loader2 } from 'lucide-react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Send, Paperclip, StopCircle, Loader2, SlidersHorizontal } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { ANSWER_STYLES, isAnswerStyle, type AnswerStyle } from '@/lib/agents/answer-style'
+import type { QuotaAllowance } from '@/lib/organizations/quotas'
 
 interface MessageInputProps {
-  onSend: (message: string, files?: File[]) => void
+  // answerStyle is only set when the user picked a style for this message
+  onSend: (message: string, files?: File[], answerStyle?: AnswerStyle) => void
   onStop?: () => void
   disabled?: boolean
   isStreaming?: boolean
   placeholder?: string
 }
 
+async function fetchAllowance(): Promise<QuotaAllowance | null> {
+  try {
+    const response = await fetch('/api/quota')
+    return response.ok ? await response.json() : null
+  } catch {
+    return null
+  }
+}
+
+function formatCount(value: number): string {
+  return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value)
+}
+
 export function MessageInput({
   onSend,
   onStop,
@@ -29,6 +54,9 @@ export function MessageInput({
 }: MessageInputProps) {
   const [message, setMessage] = useState('')
   const [files, setFiles] = useState<File[]>([])
+  // null uses the default style from Settings
+  const [answerStyle, setAnswerStyle] = useState<AnswerStyle | null>(null)
+  const [allowance, setAllowance] = useState<QuotaAllowance | null>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -43,9 +71,16 @@ export function MessageInput({
     }
   }, [message])
 
+  // Refresh the remaining allowance once each answer has finished
+  useEffect(() => {
+    if (!isStreaming) {
+      fetchAllowance().then(setAllowance)
+    }
+  }, [isStreaming])
+
   const handleSubmit = () => {
     if (message.trim() || files.length > 0) {
-      onSend(message.trim(), files.length > 0 ? files : undefined)
+      onSend(message.trim(), files.length > 0 ? files : undefined, answerStyle || undefined)
       setMessage('')
       setFiles([])
     }
@@ -123,6 +158,52 @@ export function MessageInput({
             </Tooltip>
           </TooltipProvider>
 
+          <DropdownMenu>
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      disabled={disabled || isStreaming}
+                      className={cn('shrink-0', answerStyle && 'text-primary')}
+                    >
+                      <SlidersHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                </TooltipTrigger>
+                <TooltipContent>
+                  Answer style: {ANSWER_STYLES.find((s) => s.value === answerStyle)?.label || 'Default'}
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            <DropdownMenuContent align="start" className="w-64">
+              <DropdownMenuLabel>Answer style</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuRadioGroup
+                value={answerStyle || 'default'}
+                onValueChange={(value) => setAnswerStyle(isAnswerStyle(value) ? value : null)}
+              >
+                <DropdownMenuRadioItem value="default">
+                  <div className="flex flex-col">
+                    <span>Default</span>
+                    <span className="text-xs text-muted-foreground">Your style from Settings</span>
+                  </div>
+                </DropdownMenuRadioItem>
+                {ANSWER_STYLES.map((style) => (
+                  <DropdownMenuRadioItem key={style.value} value={style.value}>
+                    <div className="flex flex-col">
+                      <span>{style.label}</span>
+                      <span className="text-xs text-muted-foreground">{style.description}</span>
+                    </div>
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
           <div className="flex-1 relative">
             <Textarea
               ref={textareaRef}
@@ -182,6 +263,18 @@ export function MessageInput({
 
         <p className="text-xs text-muted-foreground text-center mt-2">
           Ask Finance uses AI to analyze your financial data. Always verify important decisions.
+          {allowance && (
+            <span
+              className={cn(
+                'ml-1',
+                allowance.remaining.dailyTokens < allowance.limits.dailyTokens * 0.1 && 'text-amber-600 dark:text-amber-400'
+              )}
+              title={`Daily limits reset at ${new Date(allowance.resetsAt).toLocaleTimeString()}`}
+            >
+              {formatCount(allowance.remaining.dailyTokens)} tokens and{' '}
+              {allowance.remaining.dailyImageGenerations} images left today.
+            </span>
+          )}
         </p>
       </div>
     </div>
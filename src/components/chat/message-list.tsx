@@ -18,10 +18,13 @@ import {
   Download,
   Loader2,
   Sparkles,
+  CircleCheck,
+  CircleAlert,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import type { Message } from '@/types/database'
-import ReactMarkdown from 'react-markdown'
+import type { ClaimVerification } from '@/lib/finance/claims'
+import ReactMarkdown, { type Components } from 'react-markdown'
 import { DocumentViewer } from './document-viewer'
 
 export interface Citation {
@@ -30,6 +33,11 @@ export interface Citation {
   pageNumber?: number
   excerpt: string
   storagePath?: string
+  relevance?: {
+    strategy: string
+    score: number
+    reason: string
+  }
 }
 
 export interface CanvasContent {
@@ -39,9 +47,62 @@ export interface CanvasContent {
   error?: string
 }
 
+const CLAIM_HREF_PREFIX = '#claim-'
+
+/**
+ * Wrap each verified/unverified number in a link the markdown renderer turns
+ * into a badge. Verdicts whose offsets no longer match the text are skipped.
+ */
+function annotateClaims(content: string, claims: ClaimVerification[] | undefined): string {
+  if (!claims?.length) return content
+
+  let annotated = content
+  claims
+    .map((claim, index) => ({ claim, index }))
+    .filter(({ claim }) => content.slice(claim.start, claim.end) === claim.text)
+    .sort((a, b) => b.claim.start - a.claim.start)
+    .forEach(({ claim, index }) => {
+      annotated = `${annotated.slice(0, claim.start)}[${claim.text}](${CLAIM_HREF_PREFIX}${index})${annotated.slice(claim.end)}`
+    })
+  return annotated
+}
+
+function claimMarkdownComponents(claims: ClaimVerification[] | undefined): Components {
+  return {
+    a: ({ href, children, ...props }) => {
+      // react-markdown passes its syntax tree node, which isn't an attribute of <a>
+      delete props.node
+      const claim = href?.startsWith(CLAIM_HREF_PREFIX)
+        ? claims?.[Number(href.slice(CLAIM_HREF_PREFIX.length))]
+        : undefined
+      if (!claim) {
+        return <a href={href} {...props}>{children}</a>
+      }
+
+      const verified = claim.status === 'verified'
+      const Icon = verified ? CircleCheck : CircleAlert
+      return (
+        <span
+          title={verified ? `Verified: ${claim.source?.label}` : 'Not found in the retrieved sources'}
+          className={cn(
+            'inline-flex items-center gap-0.5 rounded px-1 font-medium not-prose',
+            verified
+              ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-950/50 dark:text-emerald-300'
+              : 'bg-amber-50 text-amber-700 dark:bg-amber-950/50 dark:text-amber-300'
+          )}
+        >
+          {children}
+          <Icon className="h-3 w-3" />
+        </span>
+      )
+    },
+  }
+}
+
 interface ExtendedMessage extends Message {
   isStreaming?: boolean
   streamingContent?: string
+  toolActivity?: string // Live status of the tool currently running
 }
 
 interface MessageListProps {
@@ -91,6 +152,7 @@ export function MessageList({
               <button
                 key={`${citation.documentId}-${index}`}
                 onClick={() => handleCitationClick(citation)}
+                title={citation.relevance?.reason}
                 className="group inline-flex items-center gap-2 px-3 py-2 text-sm bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-950/50 dark:to-indigo-950/50 text-blue-700 dark:text-blue-300 rounded-lg border border-blue-200 dark:border-blue-800 hover:border-blue-400 dark:hover:border-blue-600 hover:shadow-md transition-all duration-200"
               >
                 <div className="p-1 bg-blue-100 dark:bg-blue-900 rounded">
@@ -278,6 +340,10 @@ export function MessageList({
               : message.content
             const citations = message.citations as unknown as Citation[] | undefined
             const canvas = message.canvas_content as unknown as CanvasContent | undefined
+            // Number badges once the answer is complete; offsets refer to the final text
+            const claims = message.isStreaming
+              ? undefined
+              : (message.claim_verifications as unknown as ClaimVerification[] | null) ?? undefined
 
             return (
               <div
@@ -313,14 +379,16 @@ export function MessageList({
                       <p className="text-sm whitespace-pre-wrap">{displayContent}</p>
                     ) : (
                       <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-headings:my-3 prose-ul:my-2 prose-li:my-0.5">
-                        <ReactMarkdown>{displayContent || ''}</ReactMarkdown>
+                        <ReactMarkdown components={claimMarkdownComponents(claims)}>
+                          {annotateClaims(displayContent || '', claims)}
+                        </ReactMarkdown>
                       </div>
                     )}
 
                     {message.isStreaming && (
                       <span className="inline-flex items-center gap-1 mt-1">
                         <Loader2 className="h-3 w-3 animate-spin" />
-                        <span className="text-xs opacity-70">Thinking...</span>
+                        <span className="text-xs opacity-70">{message.toolActivity || 'Thinking...'}</span>
                       </span>
                     )}
                   </div>
@@ -32,6 +32,8 @@ import {
   ChevronLeft,
   ChevronRight,
   MoreHorizontal,
+  ScrollText,
+  Receipt,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import type { Profile, Thread } from '@/types/database'
@@ -235,6 +237,36 @@ export function Sidebar({
           <FileText className="h-4 w-4" />
           {!collapsed && 'Documents'}
         </Link>
+        {user?.role === 'admin' && (
+          <Link
+            href="/admin/prompts"
+            className={cn(
+              'flex items-center gap-2 px-3 py-2 rounded-md text-sm transition-colors',
+              pathname === '/admin/prompts'
+                ? 'bg-slate-700 text-white'
+                : 'text-slate-400 hover:text-white hover:bg-slate-800',
+              collapsed && 'justify-center px-2'
+            )}
+          >
+            <ScrollText className="h-4 w-4" />
+            {!collapsed && 'Prompts'}
+          </Link>
+        )}
+        {user?.role === 'admin' && (
+          <Link
+            href="/admin/usage"
+            className={cn(
+              'flex items-center gap-2 px-3 py-2 rounded-md text-sm transition-colors',
+              pathname === '/admin/usage'
+                ? 'bg-slate-700 text-white'
+                : 'text-slate-400 hover:text-white hover:bg-slate-800',
+              collapsed && 'justify-center px-2'
+            )}
+          >
+            <Receipt className="h-4 w-4" />
+            {!collapsed && 'Usage'}
+          </Link>
+        )}
         <Link
           href="/settings"
           className={cn(
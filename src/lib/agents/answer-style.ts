@@ -0,0 +1,99 @@
+/**
+ * Answer Styles
+ *
+ * How much visual output the finance agent produces. Users pick a default in
+ * Settings (profiles.preferences.answerStyle) and can override it for a
+ * single message from the chat input. The style decides the response
+ * instructions in the system prompt and whether the first model call must
+ * use a tool.
+ *
+ * Shared by the chat UI and the agent, so this module has no server imports.
+ */
+
+export type AnswerStyle = 'concise' | 'table' | 'visual'
+
+export const ANSWER_STYLES: { value: AnswerStyle; label: string; description: string }[] = [
+  { value: 'concise', label: 'Concise', description: 'Short text answer, visuals only when asked' },
+  { value: 'table', label: 'Text + table', description: 'Explanation with a table of the key figures' },
+  { value: 'visual', label: 'Full visual', description: 'Explanation with a chart and a table' },
+]
+
+// Matches the behaviour before styles were selectable
+export const DEFAULT_ANSWER_STYLE: AnswerStyle = 'visual'
+
+export function isAnswerStyle(value: unknown): value is AnswerStyle {
+  return ANSWER_STYLES.some(style => style.value === value)
+}
+
+/**
+ * Read the saved default from profiles.preferences
+ */
+export function getPreferredAnswerStyle(preferences: unknown): AnswerStyle | null {
+  if (!preferences || typeof preferences !== 'object') return null
+  const value = (preferences as Record<string, unknown>).answerStyle
+  return isAnswerStyle(value) ? value : null
+}
+
+/**
+ * Style for one message: the per-message choice, then the saved preference, then the default
+ */
+export function resolveAnswerStyle(requested: unknown, preferences: unknown): AnswerStyle {
+  if (isAnswerStyle(requested)) return requested
+  return getPreferredAnswerStyle(preferences) || DEFAULT_ANSWER_STYLE
+}
+
+/**
+ * System prompt section with the response instructions for a style.
+ * Only mentions tools that are offered in this run.
+ */
+export function buildAnswerStylePrompt(style: AnswerStyle, toolNames: string[]): string {
+  const has = (name: string) => toolNames.includes(name)
+  const citations = has('search_documents')
+    ? 'Citations from the knowledge base when applicable (use search_documents)'
+    : 'Sources for any figures you quote'
+
+  if (style === 'concise') {
+    return `## Response Style: Concise
+The user wants short, direct answers.
+1. Answer in a few sentences or a short list - lead with the answer itself
+2. ${citations}
+3. Do not create charts, tables or images unless the user explicitly asks for one
+4. Use calculation tools when the answer depends on a computed figure`
+  }
+
+  if (style === 'table') {
+    const table = has('generate_table')
+      ? 'A data table with the key figures (use generate_table) when the answer involves more than one or two numbers'
+      : 'A markdown table with the key figures when the answer involves more than one or two numbers'
+
+    return `## Response Style: Text + Table
+Every response should include:
+1. Clear textual explanation
+2. ${table}
+3. ${citations}
+
+Only create charts or images when the user explicitly asks for one.`
+  }
+
+  const visuals = [
+    has('generate_chart') ? 'A relevant chart visualization (use generate_chart)' : null,
+    has('generate_table') ? 'A data table with key information (use generate_table)' : null,
+  ].filter((line): line is string => line !== null)
+  const steps = ['Clear textual explanation', ...visuals, citations]
+
+  return `## Response Style: Full Visual
+For EVERY response about financial topics, include visuals - even for explanatory questions, create educational visualizations. For example:
+- "What is EBITDA?" → A bar chart showing EBITDA components and a breakdown table
+- "Explain ROI" → A comparison chart and a calculation table
+- "What is variance analysis?" → A variance comparison chart
+
+Every response should include:
+${steps.map((step, index) => `${index + 1}. ${step}`).join('\n')}`
+}
+
+/**
+ * Full visual answers must call a tool on the first turn; the other styles let the model decide
+ */
+export function requiresToolUse(style: AnswerStyle): boolean {
+  return style === 'visual'
+}
@@ -0,0 +1,101 @@
+import { extractNumericClaims, verifyNumericClaims, type ClaimSource, type ClaimVerification, type SourceValue } from '@/lib/finance/claims'
+import type { FinancialCalculationResult } from '@/lib/finance/calculator'
+import { getKnowledgeMetricsForUser } from '@/lib/knowledge/synthesis'
+import type { SearchDocumentsResult } from './document-search'
+
+/**
+ * Answer Claim Verifier
+ *
+ * Runs after an answer is generated: every figure in it is checked against
+ * the chunks search_documents retrieved, the financial_calculation results
+ * and the user's knowledge base metrics. The verdicts are saved on the
+ * message (messages.claim_verifications) and shown next to each number.
+ */
+
+export interface VerifiedToolCall {
+  name: string
+  output?: unknown
+}
+
+function collectNumbers(value: unknown, into: SourceValue[] = []): SourceValue[] {
+  if (typeof value === 'number') {
+    into.push({ value })
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectNumbers(item, into))
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectNumbers(item, into))
+  }
+  return into
+}
+
+function toolSources(toolCall: VerifiedToolCall): ClaimSource[] {
+  if (toolCall.name === 'search_documents') {
+    const result = toolCall.output as SearchDocumentsResult | undefined
+    if (result?.status !== 'ok' || result.sandbox) return []
+
+    return result.results.map(hit => ({
+      type: 'document' as const,
+      label: hit.pageNumber ? `${hit.documentName}, page ${hit.pageNumber}` : hit.documentName,
+      text: hit.content,
+    }))
+  }
+
+  if (toolCall.name === 'financial_calculation') {
+    const result = toolCall.output as FinancialCalculationResult | undefined
+    if (result?.type !== 'calculation') return []
+
+    return [{
+      type: 'calculation',
+      label: `${result.operation} calculation`,
+      values: [
+        ...(result.result !== null ? [{ value: result.result, percent: result.unit === 'percent' }] : []),
+        // Inputs support claims that restate them
+        ...collectNumbers(result.inputs),
+      ],
+    }]
+  }
+
+  return []
+}
+
+async function knowledgeBaseSources(userId: string): Promise<ClaimSource[]> {
+  try {
+    const metrics = await getKnowledgeMetricsForUser(userId)
+    return metrics.map(metric => {
+      const label = metric.period ? `${metric.name} (${metric.period})` : metric.name
+      const percent = metric.unit === '%'
+      if (typeof metric.value === 'number') {
+        // A % metric may be stored as 12.5 or as 0.125
+        return {
+          type: 'knowledge_base' as const,
+          label,
+          values: [{ value: metric.value, percent }, ...(percent ? [{ value: metric.value }] : [])],
+        }
+      }
+      return { type: 'knowledge_base' as const, label, text: `${metric.value} ${metric.unit || ''}` }
+    })
+  } catch (error) {
+    // Claims are still checked against the tool results
+    console.error('Failed to load knowledge base metrics:', error)
+    return []
+  }
+}
+
+/**
+ * Verify the numbers in an answer against the tool results of its run and
+ * the user's knowledge base. Tool sources are checked first, so a verdict
+ * names the chunk or calculation the answer most likely used.
+ */
+export async function verifyAnswerClaims(
+  answer: string,
+  toolCalls: VerifiedToolCall[],
+  options: { userId?: string } = {}
+): Promise<ClaimVerification[]> {
+  if (extractNumericClaims(answer).length === 0) return []
+
+  const sources = [
+    ...toolCalls.flatMap(toolSources),
+    ...(options.userId ? await knowledgeBaseSources(options.userId) : []),
+  ]
+  return verifyNumericClaims(answer, sources)
+}
@@ -1,4 +1,6 @@
-import Anthropic from '@anthropic-ai/sdk'
+import type Anthropic from '@anthropic-ai/sdk'
+import { getAnthropicClient, getRedactorForUser, withModelFallback } from '@/lib/llm'
+import { definePromptTemplate, renderPrompt, type PromptTemplate, type PromptVariables } from '@/lib/prompts'
 
 /**
  * Document Analyzer with Chart/Graph Reading
@@ -11,15 +13,8 @@ import Anthropic from '@anthropic-ai/sdk'
  * - Financial document understanding
  */
 
-// Initialize Anthropic client with PDF beta support
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-  defaultHeaders: {
-    'anthropic-beta': 'pdfs-2024-09-25',
-  },
-})
-
-const MODEL_NAME = 'claude-sonnet-4-20250514'
+// PDF beta support for document blocks
+const PDF_BETA_HEADERS = { 'anthropic-beta': 'pdfs-2024-09-25' }
 
 export interface DocumentAnalysisResult {
   summary: string
@@ -72,10 +67,172 @@ function safeJsonParse<T>(json: string, fallback: T): T {
   }
 }
 
+// Prompts below can be overridden per organization; keep their XML output tags
+export const DOCUMENT_SUMMARY_PROMPT = definePromptTemplate({
+  key: 'document.summary',
+  name: 'PDF summary',
+  description: 'Summarizes a PDF and extracts its key metrics. Output must keep the summary and key_metrics tags.',
+  variables: {},
+  content: `Analyze this financial document and provide:
+
+<summary>
+A comprehensive summary of the document's key points, focusing on financial data and insights.
+</summary>
+
+<document_type>
+The type of document (earnings report, financial statement, presentation, etc.)
+</document_type>
+
+<time_period>
+The time period covered by the document
+</time_period>
+
+<key_metrics>
+JSON array of key metrics found:
+[
+  {"name": "metric_name", "value": "value", "change": percent_change, "period": "period"}
+]
+</key_metrics>`,
+})
+
+export const NARRATION_PROMPT = definePromptTemplate({
+  key: 'document.narration',
+  name: 'Slide deck narration',
+  description: 'Describes every page of a PDF for search indexing. Output must keep the narration tag.',
+  variables: {},
+  content: `You are narrating this financial document as if presenting to stakeholders.
+
+Create a detailed text narration that describes EVERYTHING visible in the document, including:
+- All text content
+- Every chart and graph with specific data points
+- Every table with all values
+- Visual elements and their meaning
+- Page-by-page breakdown
+
+This narration will be used for search indexing, so do not leave any details un-narrated.
+Vision-impaired users depend on this narration to understand the document.
+
+Format your response as:
+
+<narration>
+<page id="1">
+[Complete narration of page 1 with all visual elements described]
+</page>
+
+<page id="2">
+[Complete narration of page 2...]
+</page>
+...
+</narration>`,
+})
+
+export const IMAGE_ANALYSIS_PROMPT = definePromptTemplate({
+  key: 'document.image',
+  name: 'Chart and image analysis',
+  description: 'Reads a chart or financial image. Output must keep the description and data tags.',
+  variables: {},
+  content: `Analyze this financial chart or image.
+
+Describe:
+1. The type of visualization
+2. All data points visible (be precise with numbers)
+3. Trends or patterns
+4. Key insights
+
+<description>
+Your detailed description
+</description>
+
+<data>
+JSON object with extracted numerical data
+</data>`,
+})
+
+export const COMPARISON_PROMPT = definePromptTemplate({
+  key: 'document.comparison',
+  name: 'Document comparison',
+  description: 'Compares analyzed PDFs. Output must keep the comparison, differences, commonalities and recommendation tags.',
+  variables: {
+    documents: 'Name, summary and key metrics of each document',
+    focus: 'A "Focus on: ..." line when the caller names one, otherwise empty',
+  },
+  required: ['documents'],
+  content: `Compare these financial documents:
+{documents}
+
+{focus}
+
+Provide:
+
+<comparison>
+Detailed comparison of the documents
+</comparison>
+
+<differences>
+["difference 1", "difference 2", ...]
+</differences>
+
+<commonalities>
+["common point 1", "common point 2", ...]
+</commonalities>
+
+<recommendation>
+Your recommendation based on the comparison
+</recommendation>`,
+})
+
 /**
  * Document Analyzer Class
  */
 export class DocumentAnalyzer {
+  // Selects the organization's model configuration
+  private userId?: string
+
+  constructor(userId?: string) {
+    this.userId = userId
+  }
+
+  /**
+   * Create a message on the extraction route's Anthropic models (native PDF input).
+   * Text is redacted under the organization's policy; PDFs and images can't
+   * be, and are only sent when the policy allows it.
+   */
+  private async createMessage(params: Omit<Anthropic.MessageCreateParamsNonStreaming, 'model'>) {
+    const redactor = await getRedactorForUser(this.userId)
+    const messages = params.messages.map(message => {
+      if (typeof message.content === 'string') {
+        return { ...message, content: redactor.redact(message.content) }
+      }
+      return {
+        ...message,
+        content: message.content.map(block => {
+          if (block.type === 'document' || block.type === 'image') {
+            redactor.assertUnredactedAllowed('This document')
+          }
+          return block.type === 'text' ? { ...block, text: redactor.redact(block.text) } : block
+        }),
+      }
+    })
+
+    const response = await withModelFallback(
+      'extraction',
+      target => getAnthropicClient().messages.create({ ...params, messages, model: target.model }, { headers: PDF_BETA_HEADERS }),
+      { userId: this.userId, providers: ['anthropic'], usage: { feature: 'document_analysis' } }
+    )
+    return {
+      ...response,
+      content: response.content.map(block => (block.type === 'text' ? { ...block, text: redactor.restore(block.text) } : block)),
+    }
+  }
+
+  /**
+   * Render a prompt with the organization's template version
+   */
+  private async prompt(template: PromptTemplate, variables: PromptVariables): Promise<string> {
+    const { text } = await renderPrompt(template, variables, { userId: this.userId })
+    return text
+  }
+
   /**
    * Analyze a PDF document for financial insights
    */
@@ -93,8 +250,8 @@ export class DocumentAnalyzer {
     }
 
     // Step 1: Get document summary
-    const summaryResponse = await anthropic.messages.create({
-      model: MODEL_NAME,
+    const summaryPrompt = await this.prompt(DOCUMENT_SUMMARY_PROMPT, {})
+    const summaryResponse = await this.createMessage({
       max_tokens: 4096,
       messages: [
         {
@@ -110,26 +267,7 @@ export class DocumentAnalyzer {
             },
             {
               type: 'text',
-              text: `Analyze this financial document and provide:
-
-<summary>
-A comprehensive summary of the document's key points, focusing on financial data and insights.
-</summary>
-
-<document_type>
-The type of document (earnings report, financial statement, presentation, etc.)
-</document_type>
-
-<time_period>
-The time period covered by the document
-</time_period>
-
-<key_metrics>
-JSON array of key metrics found:
-[
-  {"name": "metric_name", "value": "value", "change": percent_change, "period": "period"}
-]
-</key_metrics>`,
+              text: summaryPrompt,
             },
           ],
         },
@@ -147,8 +285,7 @@ JSON array of key metrics found:
 
     // Step 2: Extract charts if requested
     if (options?.extractCharts) {
-      const chartsResponse = await anthropic.messages.create({
-        model: MODEL_NAME,
+      const chartsResponse = await this.createMessage({
         max_tokens: 8192,
         messages: [
           {
@@ -196,8 +333,7 @@ Be precise with numbers. If you can't read exact values, provide your best estim
 
     // Step 3: Extract tables if requested
     if (options?.extractTables) {
-      const tablesResponse = await anthropic.messages.create({
-        model: MODEL_NAME,
+      const tablesResponse = await this.createMessage({
         max_tokens: 8192,
         messages: [
           {
@@ -252,8 +388,7 @@ Preserve exact values and formatting where possible.`,
       const extractedData: Record<string, unknown> = {}
 
       for (const question of options.specificQuestions) {
-        const answerResponse = await anthropic.messages.create({
-          model: MODEL_NAME,
+        const answerResponse = await this.createMessage({
           max_tokens: 1024,
           messages: [
             {
@@ -294,8 +429,8 @@ Preserve exact values and formatting where possible.`,
    * This creates text descriptions of visual content for vector search
    */
   async generateNarration(base64Data: string): Promise<string> {
-    const response = await anthropic.messages.create({
-      model: MODEL_NAME,
+    const narrationPrompt = await this.prompt(NARRATION_PROMPT, {})
+    const response = await this.createMessage({
       max_tokens: 16384,
       messages: [
         {
@@ -311,30 +446,7 @@ Preserve exact values and formatting where possible.`,
             },
             {
               type: 'text',
-              text: `You are narrating this financial document as if presenting to stakeholders.
-
-Create a detailed text narration that describes EVERYTHING visible in the document, including:
-- All text content
-- Every chart and graph with specific data points
-- Every table with all values
-- Visual elements and their meaning
-- Page-by-page breakdown
-
-This narration will be used for search indexing, so do not leave any details un-narrated.
-Vision-impaired users depend on this narration to understand the document.
-
-Format your response as:
-
-<narration>
-<page id="1">
-[Complete narration of page 1 with all visual elements described]
-</page>
-
-<page id="2">
-[Complete narration of page 2...]
-</page>
-...
-</narration>`,
+              text: narrationPrompt,
             },
           ],
         },
@@ -357,24 +469,9 @@ Format your response as:
     description: string
     extractedData?: Record<string, unknown>
   }> {
-    const analysisPrompt = prompt || `Analyze this financial chart or image.
-
-Describe:
-1. The type of visualization
-2. All data points visible (be precise with numbers)
-3. Trends or patterns
-4. Key insights
-
-<description>
-Your detailed description
-</description>
-
-<data>
-JSON object with extracted numerical data
-</data>`
+    const analysisPrompt = prompt || (await this.prompt(IMAGE_ANALYSIS_PROMPT, {}))
 
-    const response = await anthropic.messages.create({
-      model: MODEL_NAME,
+    const response = await this.createMessage({
       max_tokens: 4096,
       messages: [
         {
@@ -440,40 +537,20 @@ JSON object with extracted numerical data
     )
 
     // Then create comparison
-    const comparisonPrompt = `Compare these financial documents:
-
-${analyses
-  .map(
-    (a, i) => `
+    const comparisonPrompt = await this.prompt(COMPARISON_PROMPT, {
+      documents: analyses
+        .map(
+          (a, i) => `
 Document ${i + 1}: ${a.name}
 Summary: ${a.summary}
 Key Metrics: ${JSON.stringify(a.keyMetrics)}
 `
-  )
-  .join('\n')}
-
-${comparisonFocus ? `Focus on: ${comparisonFocus}` : ''}
-
-Provide:
-
-<comparison>
-Detailed comparison of the documents
-</comparison>
-
-<differences>
-["difference 1", "difference 2", ...]
-</differences>
-
-<commonalities>
-["common point 1", "common point 2", ...]
-</commonalities>
-
-<recommendation>
-Your recommendation based on the comparison
-</recommendation>`
+        )
+        .join('\n'),
+      focus: comparisonFocus ? `Focus on: ${comparisonFocus}` : '',
+    })
 
-    const response = await anthropic.messages.create({
-      model: MODEL_NAME,
+    const response = await this.createMessage({
       max_tokens: 4096,
       messages: [
         {
@@ -0,0 +1,288 @@
+import { createClient } from '@/lib/supabase/server'
+import { generateEmbedding } from '@/lib/embeddings/openai'
+import { wrapUntrusted } from '@/lib/llm'
+import { getReranker, getRerankConfigForUser, type RerankStrategy } from './reranker'
+
+/**
+ * Document Search
+ *
+ * Hybrid keyword + vector search over the user's knowledge base for the
+ * search_documents tool, followed by a configurable reranking stage.
+ * Results are typed so the agent can tell "nothing relevant" apart from
+ * "search failed" - real citations are never invented. Chunk content is
+ * returned wrapped as untrusted data, so instructions inside a document are
+ * read rather than followed. Excerpts are raw text for the citations the
+ * client shows, so they are left out of the result the model is sent.
+ */
+
+export interface SearchDocumentsInput {
+  query: string
+  limit?: number
+  documentType?: string
+  period?: string
+  tags?: string[]
+  businessUnit?: string
+  uploadedAfter?: string
+  uploadedBefore?: string
+  // 0 = keyword only, 1 = semantic only; defaults to an even blend
+  semanticWeight?: number
+}
+
+export interface DocumentSearchHit {
+  documentId: string
+  documentName: string
+  content: string
+  excerpt: string
+  pageNumber?: number
+  similarity: number
+  keywordRank: number
+  score: number
+  rerankScore: number
+  rerankReason: string
+}
+
+export interface DocumentCitation {
+  documentId: string
+  documentName: string
+  pageNumber?: number
+  excerpt: string
+  storagePath: string | null
+  // Why this passage was chosen
+  relevance?: {
+    strategy: RerankStrategy
+    score: number
+    reason: string
+  }
+}
+
+export type SearchDocumentsResult =
+  | {
+      status: 'ok'
+      results: DocumentSearchHit[]
+      citations: DocumentCitation[]
+      message: string
+      sandbox?: boolean
+    }
+  | {
+      status: 'no_matches'
+      results: []
+      citations: []
+      message: string
+    }
+  | {
+      status: 'error'
+      results: []
+      citations: []
+      error: string
+      message: string
+    }
+
+interface MatchedChunk {
+  id: string
+  document_id: string
+  content: string
+  metadata: { page_number?: number } | null
+  similarity: number
+  keyword_rank: number
+  score: number
+}
+
+const DEFAULT_SEMANTIC_WEIGHT = 0.5
+
+/**
+ * Normalize an ISO date (or date-time) filter; invalid dates are rejected
+ * rather than silently widening the search. A bare end date covers the whole day.
+ */
+function parseDateFilter(value: string | undefined, name: string, endOfDay = false): string | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new Error(`${name} must be an ISO date (YYYY-MM-DD), got "${value}"`)
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999)
+  }
+  return date.toISOString()
+}
+
+function describeFilters(input: SearchDocumentsInput): string {
+  const parts: string[] = []
+  if (input.documentType && input.documentType !== 'all') parts.push(`type ${input.documentType}`)
+  if (input.period) parts.push(`period ${input.period}`)
+  if (input.tags?.length) parts.push(`tags ${input.tags.join(', ')}`)
+  if (input.businessUnit) parts.push(`business unit ${input.businessUnit}`)
+  if (input.uploadedAfter) parts.push(`uploaded after ${input.uploadedAfter}`)
+  if (input.uploadedBefore) parts.push(`uploaded before ${input.uploadedBefore}`)
+  return parts.length > 0 ? ` (filters: ${parts.join('; ')})` : ''
+}
+
+/**
+ * Sandbox workspaces (demos, local development without ingested documents)
+ * may fall back to placeholder results. Never enabled by default.
+ */
+export function isSandboxWorkspace(): boolean {
+  return process.env.SANDBOX_WORKSPACE === 'true'
+}
+
+function sandboxResults(query: string): SearchDocumentsResult {
+  return {
+    status: 'ok',
+    sandbox: true,
+    results: [
+      {
+        documentId: 'sandbox-1',
+        documentName: 'Sandbox Reference (placeholder)',
+        content: `Placeholder reference material for: ${query}`,
+        excerpt: `Sandbox workspace placeholder for ${query}. This is not a real document.`,
+        similarity: 0,
+        keywordRank: 0,
+        score: 0,
+        rerankScore: 0,
+        rerankReason: 'Sandbox placeholder',
+      },
+    ],
+    citations: [],
+    message: `Sandbox workspace: no real documents matched "${query}". Placeholder content returned; do not cite it as a source.`,
+  }
+}
+
+function withoutExcerpt<T extends { excerpt: string }>(item: T): Partial<T> {
+  const copy: Partial<T> = { ...item }
+  delete copy.excerpt
+  return copy
+}
+
+/**
+ * The result without its excerpts, which aren't wrapped as untrusted data
+ */
+export function searchResultForModel(result: SearchDocumentsResult): unknown {
+  return {
+    ...result,
+    results: result.results.map(withoutExcerpt),
+    citations: result.citations.map(withoutExcerpt),
+  }
+}
+
+/**
+ * Search the user's enabled documents for chunks relevant to the query
+ */
+export async function searchDocuments(
+  input: SearchDocumentsInput,
+  userId?: string
+): Promise<SearchDocumentsResult> {
+  try {
+    const supabase = await createClient()
+
+    // Generate embedding for the query
+    const embedding = await generateEmbedding(input.query, userId)
+
+    const limit = input.limit || 5
+    const rerankConfig = await getRerankConfigForUser(userId)
+    const candidateCount = rerankConfig.strategy === 'none' ? limit : limit * rerankConfig.candidateMultiplier
+
+    const semanticWeight = Math.min(Math.max(input.semanticWeight ?? DEFAULT_SEMANTIC_WEIGHT, 0), 1)
+
+    // Hybrid keyword + vector search with user filtering for knowledge base isolation
+    // Only searches user's own documents and enabled documents
+    const { data, error } = await supabase
+      .rpc('match_document_chunks', {
+        query_embedding: JSON.stringify(embedding),
+        query_text: input.query,
+        match_threshold: 0.5,
+        match_count: candidateCount,
+        filter_user_id: userId || undefined, // Filter by user for isolation
+        include_disabled: false, // Only search enabled documents
+        semantic_weight: semanticWeight,
+        filter_document_type: input.documentType && input.documentType !== 'all' ? input.documentType : undefined,
+        filter_period: input.period || undefined,
+        filter_tags: input.tags?.length ? input.tags : undefined,
+        filter_business_unit: input.businessUnit || undefined,
+        filter_uploaded_after: parseDateFilter(input.uploadedAfter, 'uploadedAfter'),
+        filter_uploaded_before: parseDateFilter(input.uploadedBefore, 'uploadedBefore', true),
+      })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const candidates = (data || []) as MatchedChunk[]
+
+    if (candidates.length === 0) {
+      if (isSandboxWorkspace()) {
+        return sandboxResults(input.query)
+      }
+
+      return {
+        status: 'no_matches',
+        results: [],
+        citations: [],
+        message: `No documents in the knowledge base matched "${input.query}"${describeFilters(input)}`,
+      }
+    }
+
+    // Second-stage rerank; fall back to retrieval order if the reranker fails.
+    // appliedStrategy is the one that produced the order citations report.
+    const reranker = getReranker(rerankConfig.strategy)
+    let appliedStrategy = reranker.strategy
+    const reranked = await reranker
+      .rerank(input.query, candidates, limit, rerankConfig)
+      .catch(async error => {
+        console.error(`Rerank (${reranker.strategy}) failed:`, error)
+        const fallback = getReranker('none')
+        appliedStrategy = fallback.strategy
+        return fallback.rerank(input.query, candidates, limit, rerankConfig)
+      })
+    const chunks = reranked.map(r => r.candidate)
+
+    // Get document details
+    const documentIds = [...new Set(chunks.map(c => c.document_id))]
+    const { data: documents } = await supabase
+      .from('documents')
+      .select('id, name, file_path')
+      .in('id', documentIds)
+
+    const docMap = new Map(documents?.map(d => [d.id, d]) || [])
+
+    const results: DocumentSearchHit[] = reranked.map(({ candidate: chunk, rerankScore, reason }) => ({
+      documentId: chunk.document_id,
+      documentName: docMap.get(chunk.document_id)?.name || 'Unknown Document',
+      content: wrapUntrusted(chunk.content),
+      excerpt: chunk.content.substring(0, 200),
+      pageNumber: chunk.metadata?.page_number,
+      similarity: chunk.similarity,
+      keywordRank: chunk.keyword_rank,
+      score: chunk.score,
+      rerankScore,
+      rerankReason: reason,
+    }))
+
+    const citations: DocumentCitation[] = reranked.map(({ candidate: chunk, rerankScore, reason }) => ({
+      documentId: chunk.document_id,
+      documentName: docMap.get(chunk.document_id)?.name || 'Unknown Document',
+      pageNumber: chunk.metadata?.page_number,
+      excerpt: chunk.content.substring(0, 150),
+      storagePath: docMap.get(chunk.document_id)?.file_path || null,
+      relevance: {
+        strategy: appliedStrategy,
+        score: rerankScore,
+        reason,
+      },
+    }))
+
+    return {
+      status: 'ok',
+      results,
+      citations,
+      message: `Found ${results.length} relevant document sections${describeFilters(input)}`,
+    }
+  } catch (error) {
+    console.error('Search error:', error)
+    return {
+      status: 'error',
+      results: [],
+      citations: [],
+      error: error instanceof Error ? error.message : 'Search failed',
+      message: 'Document search failed; no sources could be retrieved',
+    }
+  }
+}
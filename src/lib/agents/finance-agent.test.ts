@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fakeSupabase } from '@/test/fake-supabase'
+import { ejectCassette, playCassette } from '@/test/cassettes'
+import { DEFAULT_REDACTION_POLICY, Redactor } from '@/lib/llm'
+import { restoringCallbacks, streamFinanceChat, type StreamCallbacks } from './finance-agent'
+import type { SearchDocumentsResult } from './document-search'
+
+vi.mock('@/lib/supabase/server', async () => (await import('@/test/fake-supabase')).supabaseServerMock)
+
+const USER_ID = 'user-1'
+
+function collectStream() {
+  const events = {
+    text: '',
+    toolStarts: [] as { name: string; input: unknown }[],
+    toolResults: [] as { name: string; result: unknown }[],
+    done: undefined as Parameters<StreamCallbacks['onDone']>[0] | undefined,
+    error: undefined as Error | undefined,
+  }
+  const callbacks: StreamCallbacks = {
+    onText: text => { events.text += text },
+    onToolStart: (name, input) => { events.toolStarts.push({ name, input }) },
+    onToolResult: (name, result) => { events.toolResults.push({ name, result }) },
+    onDone: usage => { events.done = usage },
+    onError: error => { events.error = error },
+  }
+  return { events, callbacks }
+}
+
+describe('streamFinanceChat', () => {
+  beforeEach(() => {
+    fakeSupabase.reset({
+      tables: {
+        documents: [
+          { id: 'doc-1', user_id: USER_ID, name: 'Q3 Board Pack.pdf', file_path: `${USER_ID}/q3-board-pack.pdf` },
+        ],
+      },
+      rpc: {
+        match_document_chunks: () => [
+          {
+            id: 'chunk-1',
+            document_id: 'doc-1',
+            content: 'Q3 FY2024 revenue was $4.2M, up 12% on Q2, driven by enterprise renewals.',
+            metadata: { page_number: 3 },
+            similarity: 0.82,
+            keyword_rank: 0.4,
+            score: 0.016,
+          },
+        ],
+      },
+    })
+    playCassette('finance-chat')
+  })
+
+  afterEach(() => ejectCassette())
+
+  it('searches the documents and answers from the result', async () => {
+    const { events, callbacks } = collectStream()
+
+    await streamFinanceChat([{ role: 'user', content: 'What was revenue in Q3?' }], callbacks, {
+      userId: USER_ID,
+      role: 'analyst',
+      answerStyle: 'concise',
+    })
+
+    expect(events.error).toBeUndefined()
+    expect(events.toolStarts).toEqual([{ name: 'search_documents', input: { query: 'Q3 revenue' } }])
+
+    const search = events.toolResults[0].result as SearchDocumentsResult
+    expect(search.status).toBe('ok')
+    expect(search.citations).toMatchObject([{ documentName: 'Q3 Board Pack.pdf', pageNumber: 3 }])
+
+    expect(events.text).toBe(
+      "I'll check the Q3 board pack.\n\nQ3 FY2024 revenue was $4.2M, up 12% on Q2 (Q3 Board Pack.pdf, p. 3)."
+    )
+    expect(events.done).toMatchObject({ inputTokens: 3550, outputTokens: 78 })
+    expect(events.done?.promptVersions.map(v => v.key)).toEqual(['finance.system'])
+  })
+
+  it('meters every model call', async () => {
+    const { callbacks } = collectStream()
+
+    await streamFinanceChat([{ role: 'user', content: 'What was revenue in Q3?' }], callbacks, {
+      userId: USER_ID,
+      role: 'analyst',
+      answerStyle: 'concise',
+    })
+
+    const features = fakeSupabase.rows('usage_logs').map(row => (row.details as { feature: string }).feature)
+    expect(features.filter(feature => feature === 'chat')).toHaveLength(2)
+    expect(features).toContain('embedding')
+  })
+})
+
+describe('restoringCallbacks', () => {
+  const IBAN = 'GB82 WEST 1234 5698 7654 32'
+
+  beforeEach(() => fakeSupabase.reset())
+
+  it('restores a token from an earlier run in the thread for roles that see the values', async () => {
+    const earlier = new Redactor(DEFAULT_REDACTION_POLICY, 'org-1')
+    const token = earlier.redact(IBAN)
+    await earlier.saveThread('thread-1')
+
+    const redactor = new Redactor(DEFAULT_REDACTION_POLICY, 'org-1')
+    await redactor.loadThread('thread-1')
+    const { events, callbacks } = collectStream()
+    const restoring = restoringCallbacks(callbacks, redactor, 'analyst')
+    restoring.onText(`Pay into ${token.slice(0, 5)}`)
+    restoring.onText(`${token.slice(5)}.`)
+    restoring.onDone({ inputTokens: 0, outputTokens: 0, costUsd: 0, promptVersions: [] })
+
+    expect(events.text).toBe(`Pay into ${IBAN}.`)
+  })
+
+  it('redacts tool results for roles that may not see the values', () => {
+    const redactor = new Redactor(DEFAULT_REDACTION_POLICY, 'org-1')
+    const { events, callbacks } = collectStream()
+    const result = {
+      type: 'table',
+      data: { rows: [{ Payee: 'Jane Smith', IBAN: IBAN }] },
+      citations: [{ excerpt: `Remit to ${IBAN}` }],
+    }
+
+    restoringCallbacks(callbacks, redactor, 'viewer').onToolResult('create_table', result, 'tool-1')
+
+    expect(JSON.stringify(events.toolResults[0].result)).not.toMatch(/Jane Smith|GB82/)
+  })
+})
@@ -1,150 +1,126 @@
-import Anthropic from '@anthropic-ai/sdk'
-import { createClient, createServiceClient } from '@/lib/supabase/server'
-import { generateEmbedding } from '@/lib/embeddings/openai'
+import type Anthropic from '@anthropic-ai/sdk'
 import {
-  generateImage,
-  generateChartImage,
-  generateInfographic,
-  generateFinancialDashboard,
-  generateDemonstrationImage,
-} from '@/lib/gemini/image-generator'
-import { financialOrchestrator, reportEvaluator } from './orchestrator'
-import { documentAnalyzer } from './document-analyzer'
-import { extractFinancialMetrics, transformToChartData, transformToTableData } from './json-mode'
+  addTokenUsage,
+  estimateCostUsd,
+  extractTokenUsage,
+  getAnthropicClient,
+  getRedactorForUser,
+  UNTRUSTED_CONTENT_PROMPT,
+  withModelFallback,
+  wrapUntrusted,
+  type Redactor,
+  type TokenUsage,
+} from '@/lib/llm'
 import { getKnowledgeBaseForUser } from '@/lib/knowledge/synthesis'
-import { ToolContextAccumulator, createToolContextAccumulator } from './tool-context'
+import { definePromptTemplate, renderPrompt, type PromptVersion, type RenderedPrompt } from '@/lib/prompts'
+import type { Database } from '@/types/database'
+import { ToolContextAccumulator } from './tool-context'
+import { runToolCalls } from './tool-runner'
+import { buildAnswerStylePrompt, requiresToolUse, DEFAULT_ANSWER_STYLE, type AnswerStyle } from './answer-style'
+import { RunBudgetTracker, DEFAULT_RUN_BUDGET, type RunBudget, type BudgetExhaustedReason } from './run-budget'
 import {
-  isImageRefinementRequest,
-  parseImageRefinementRequest,
-  getRefinementPromptModifier,
-  generateImageId,
-} from './image-feedback-utils'
-
-// Initialize Anthropic client with beta headers for PDF support and prompt caching
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-})
+  financeToolRegistry,
+  buildToolPrompt,
+  executeRegisteredTool,
+  getToolSettingsForUser,
+  modelToolResult,
+  toAnthropicTools,
+  type FinanceTool,
+} from './tools'
+
+/**
+ * Prompt caching
+ *
+ * Anthropic caches request prefixes in the order tools -> system -> messages,
+ * and a cached prefix is only reused when it is byte-identical. Requests are
+ * therefore laid out from most to least stable, with cache breakpoints on the
+ * boundaries between the layers:
+ *
+ * 1. Tool definitions (same for every user with the same role and settings)
+ * 2. The finance prompt (same per organization, role and answer style)
+ * 3. The user's knowledge base (changes when it is re-synthesized)
+ * 4. Document context and thread summary (no breakpoint of their own)
+ * 5. Conversation history, with the last breakpoint on the newest block that
+ *    the next request will resend unchanged
+ *
+ * Nothing volatile (timestamps, the new user message) sits before a
+ * breakpoint. Cache reads and writes are metered per call in usage_logs
+ * (see lib/llm/usage) and shown as the hit rate on the admin usage page.
+ */
+const EPHEMERAL_CACHE = { type: 'ephemeral' as const }
+
+/**
+ * Finance domain system prompt. Organizations can override it (e.g. to add
+ * house style) as long as the tool and answer style sections stay in.
+ */
+export const FINANCE_SYSTEM_PROMPT = definePromptTemplate({
+  key: 'finance.system',
+  name: 'Finance assistant',
+  description: 'System prompt for chat. The knowledge base summary is appended after it.',
+  variables: {
+    answer_style: 'Response instructions for the answer style the user picked',
+    tools: 'Descriptions and usage guidance for the tools offered to the user',
+  },
+  required: ['answer_style', 'tools'],
+  content: `You are Ask Finance, an AI-powered financial assistant with expertise in financial analysis.
+
+{answer_style}
 
-// Cache timestamp for prompt caching (5-minute TTL)
-// This enables 90% cost reduction and 2x+ latency improvement
-let cacheTimestamp = Math.floor(Date.now() / 300000) * 300000
-
-// Finance domain system prompt - ENHANCED to always use visualizations
-const FINANCE_SYSTEM_PROMPT = `You are Ask Finance, an AI-powered financial assistant with expertise in financial analysis.
-
-## CRITICAL: Always Use Visualizations
-For EVERY response about financial topics, you MUST:
-1. **Always generate a chart** using the generate_chart tool to visualize the concept
-2. **Always generate a table** using the generate_table tool to show structured data
-3. **Always search for relevant documents** using search_documents to provide citations
-
-Even for explanatory questions, create educational visualizations. For example:
-- "What is EBITDA?" → Generate a bar chart showing EBITDA components and a breakdown table
-- "Explain ROI" → Generate a comparison chart and a calculation table
-- "What is variance analysis?" → Generate a variance comparison chart
-
-## Response Structure
-Every response should include:
-1. Clear textual explanation
-2. A relevant chart visualization (use generate_chart)
-3. A data table with key information (use generate_table)
-4. Citations from the knowledge base when applicable (use search_documents)
-
-## Available Tools
-- **search_documents**: Search knowledge base - USE THIS FIRST to find relevant context
-- **generate_chart**: Create interactive chart visualizations (bar, line, pie, area charts)
-- **generate_table**: Create formatted data tables with professional styling
-- **generate_image**: Create AI-generated images, infographics, and dashboards using Gemini
-- **export_file**: Export data to Excel (.xlsx) or PowerPoint (.pptx) files
-- **financial_calculation**: Perform financial calculations (variance, ROI, NPV, etc.)
-- **spreadsheet_operation**: Read, write, and analyze Excel/CSV spreadsheets
-
-## When to Use Each Tool
-- **generate_chart**: For interactive data visualizations that users can hover over
-- **generate_table**: For structured data display with formatting
-- **generate_image**: For AI-generated visuals like infographics, executive dashboards, custom illustrations
-- **export_file**: When user asks to "export", "download", "create a file", or "save as Excel/PowerPoint"
-
-## Chart Types
-- bar: For comparisons, breakdowns, components
-- line: For trends over time
-- pie: For composition/percentage breakdowns
-- area: For cumulative data
-
-## Image Types (generate_image)
-- dashboard: Executive KPI dashboards with metrics
-- infographic: Visual summaries with icons and data points
-- chart: AI-generated chart images
-- demonstration: Educational images explaining financial concepts - USE THIS for explanatory responses!
-- custom: Any custom financial visualization
-
-## When to Generate Demonstration Images
-Use generate_image with type "demonstration" when:
-- Explaining a financial concept (e.g., "What is EBITDA?", "How does DCF work?")
-- Answering educational questions about finance
-- Illustrating a process or methodology
-- Making complex topics visually understandable
-
-Example: For "What is variance analysis?", generate a demonstration image showing budget vs actual comparison visually.
-
-## Export Formats (export_file)
-- excel: Create .xlsx files with formatted data
-- powerpoint: Create .pptx presentations
+{tools}
 
 ## Guidelines
 1. Always be precise with numbers and calculations
 2. Use proper number formatting (e.g., $1,234,567.89)
 3. Include percentage changes where relevant
 4. Highlight significant variances
-5. Provide actionable insights
-6. When asked to create/generate images, use generate_image tool
-7. When asked to export/download, use export_file tool
-
-Remember: NEVER respond without using at least generate_chart and generate_table tools!
-
-## Image Refinement Protocol
-When you receive a message starting with "[Image Refinement Request]":
-1. Parse the refinement action (regenerate, change_style, more_detail, simplify, different_layout, custom)
-2. Reference the original image context and user's new requirements
-3. Call generate_image with:
-   - The refined prompt incorporating the feedback
-   - The same type or a more appropriate type
-   - Enhanced context from your previous analysis
-4. Maintain visual consistency where appropriate
-5. Always acknowledge the user's feedback and explain what you changed
+5. Provide actionable insights`,
+})
 
-For refinements, use the context from your previous tool executions (charts, tables, calculations) to create data-informed images.`
+/**
+ * Render the finance prompt for a run. Tool sections come from the registry,
+ * so only the tools offered are described; the response instructions follow
+ * the user's answer style.
+ */
+function buildFinanceSystemPrompt(
+  tools: FinanceTool[],
+  answerStyle: AnswerStyle,
+  userId?: string
+): Promise<RenderedPrompt> {
+  return renderPrompt(FINANCE_SYSTEM_PROMPT, {
+    answer_style: buildAnswerStylePrompt(answerStyle, tools.map(tool => tool.name)),
+    tools: buildToolPrompt(tools),
+  }, { userId })
+}
 
 /**
- * Build system prompt with user's knowledge base context
- * This provides the agent with accumulated knowledge from all enabled documents
+ * The user's knowledge base as a system prompt section, or null when they
+ * have none. Provides the agent with accumulated knowledge from all enabled
+ * documents. The text depends only on the stored synthesis, so it stays
+ * byte-identical (and cacheable) until the knowledge base is re-synthesized.
  */
-async function buildSystemPromptWithKnowledge(userId: string): Promise<string> {
+async function buildKnowledgeBasePrompt(userId: string): Promise<string | null> {
   try {
     const kb = await getKnowledgeBaseForUser(userId)
 
     if (!kb || !kb.synthesis_text || kb.document_count === 0) {
-      return FINANCE_SYSTEM_PROMPT
+      return null
     }
 
+    // Not toLocaleString: the server's locale and time zone must not change the prompt
     const lastUpdated = kb.last_synthesized_at
-      ? new Date(kb.last_synthesized_at).toLocaleString()
+      ? `${new Date(kb.last_synthesized_at).toISOString().slice(0, 16).replace('T', ' ')} UTC`
       : 'Unknown'
 
-    return `${FINANCE_SYSTEM_PROMPT}
-
----
-
-## 📚 User's Knowledge Base
+    return `## 📚 User's Knowledge Base
 
 You have access to synthesized knowledge from **${kb.document_count} documents** in the user's knowledge base.
 Last updated: ${lastUpdated}
 
 ### Executive Summary
-${kb.synthesis_summary}
+${wrapUntrusted(kb.synthesis_summary || '')}
 
 ### Detailed Knowledge
-${kb.synthesis_text}
+${wrapUntrusted(kb.synthesis_text)}
 
 ---
 
@@ -158,1066 +134,430 @@ ${kb.synthesis_text}
 This knowledge should inform your reasoning and provide context, but always use search_documents for specific queries.`
   } catch (error) {
     console.error('Failed to load knowledge base:', error)
-    return FINANCE_SYSTEM_PROMPT
+    return null
   }
 }
 
-// Tool definitions for finance operations
-const financeTools: Anthropic.Tool[] = [
-  {
-    name: 'search_documents',
-    description: 'Search the knowledge base for relevant financial documents and data. Always use this first to find context and citations.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        query: {
-          type: 'string',
-          description: 'The search query to find relevant documents',
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum number of results to return',
-          default: 5,
-        },
-        documentType: {
-          type: 'string',
-          enum: ['pdf', 'excel', 'csv', 'image', 'all'],
-          description: 'Filter by document type',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'financial_calculation',
-    description: 'Perform financial calculations like variance, ROI, NPV, ratios',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        operation: {
-          type: 'string',
-          enum: ['variance', 'variance_percent', 'roi', 'npv', 'irr', 'ratio', 'yoy', 'qoq', 'cagr', 'ebitda_margin'],
-          description: 'The type of calculation to perform',
-        },
-        values: {
-          type: 'array',
-          items: { type: 'number' },
-          description: 'Numeric values for the calculation',
-        },
-        params: {
-          type: 'object',
-          description: 'Additional parameters (e.g., discount rate for NPV)',
-        },
-      },
-      required: ['operation', 'values'],
-    },
-  },
-  {
-    name: 'generate_chart',
-    description: 'Generate a chart visualization. ALWAYS use this for every financial response to provide visual context.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        chartType: {
-          type: 'string',
-          enum: ['line', 'bar', 'pie', 'area', 'composed'],
-          description: 'Type of chart to generate',
-        },
-        title: {
-          type: 'string',
-          description: 'Chart title',
-        },
-        data: {
-          type: 'array',
-          items: { type: 'object' },
-          description: 'Data points for the chart. Each object should have a name/label and numeric values.',
-        },
-        xAxisKey: {
-          type: 'string',
-          description: 'Key for X-axis values (e.g., "name", "month", "category")',
-        },
-        yAxisKeys: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Keys for Y-axis values (e.g., ["value", "revenue", "cost"])',
-        },
-        xAxisLabel: { type: 'string', description: 'X-axis label' },
-        yAxisLabel: { type: 'string', description: 'Y-axis label' },
-      },
-      required: ['chartType', 'title', 'data', 'xAxisKey', 'yAxisKeys'],
-    },
-  },
-  {
-    name: 'generate_table',
-    description: 'Generate a formatted data table. ALWAYS use this to show structured financial data.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        title: {
-          type: 'string',
-          description: 'Table title',
-        },
-        columns: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Column names',
-        },
-        rows: {
-          type: 'array',
-          items: { type: 'object' },
-          description: 'Row data as objects with column keys',
-        },
-        highlightColumn: {
-          type: 'string',
-          description: 'Column to highlight (optional)',
-        },
-      },
-      required: ['title', 'columns', 'rows'],
-    },
-  },
-  {
-    name: 'spreadsheet_operation',
-    description: 'Read, write, or analyze Excel/CSV spreadsheet data',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        action: {
-          type: 'string',
-          enum: ['read', 'write', 'analyze', 'transform'],
-          description: 'The operation to perform',
-        },
-        filePath: {
-          type: 'string',
-          description: 'Path to the spreadsheet file',
-        },
-        sheet: {
-          type: 'string',
-          description: 'Sheet name (for Excel files)',
-        },
-        range: {
-          type: 'string',
-          description: 'Cell range (e.g., A1:D10)',
-        },
-        data: {
-          type: 'array',
-          items: { type: 'array' },
-          description: 'Data to write (for write operation)',
-        },
-      },
-      required: ['action'],
-    },
-  },
-  {
-    name: 'generate_image',
-    description: 'Generate a professional AI image visualization using Gemini. Use this for creating infographics, dashboards, demonstration images, and custom financial visualizations. Use type "demonstration" to create educational visual aids that explain financial concepts. For image refinements, include refinementOf and refinementType parameters.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        type: {
-          type: 'string',
-          enum: ['infographic', 'dashboard', 'chart', 'demonstration', 'custom'],
-          description: 'Type of image to generate. Use "demonstration" for educational concept visualizations.',
-        },
-        prompt: {
-          type: 'string',
-          description: 'Description of the image to generate. For demonstration type, describe the financial concept to visualize.',
-        },
-        title: {
-          type: 'string',
-          description: 'Title for the visualization',
-        },
-        metrics: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              name: { type: 'string' },
-              value: { type: 'string' },
-              change: { type: 'number' },
-              trend: { type: 'string', enum: ['up', 'down', 'neutral'] },
-            },
-          },
-          description: 'Metrics to display (for dashboard/infographic)',
-        },
-        period: {
-          type: 'string',
-          description: 'Time period for the data',
-        },
-        context: {
-          type: 'string',
-          description: 'Additional context for demonstration images (e.g., user question being answered)',
-        },
-        refinementOf: {
-          type: 'string',
-          description: 'Image ID of the previous image being refined (for refinement requests)',
-        },
-        refinementType: {
-          type: 'string',
-          enum: ['regenerate', 'change_style', 'more_detail', 'simplify', 'different_layout', 'custom'],
-          description: 'Type of refinement being requested',
-        },
-        previousPrompt: {
-          type: 'string',
-          description: 'The original prompt used to generate the previous image (for context during refinement)',
-        },
-        analysisContext: {
-          type: 'string',
-          description: 'Context from previous tool executions (charts, calculations, tables) to inform the image generation',
-        },
-      },
-      required: ['type', 'prompt'],
-    },
-  },
-  {
-    name: 'complex_analysis',
-    description: 'Perform deep, multi-faceted financial analysis using the orchestrator-workers pattern. Use this for complex queries that need variance, trend, ratio, and comparative analysis combined.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        query: {
-          type: 'string',
-          description: 'The complex financial analysis query',
-        },
-        targetAudience: {
-          type: 'string',
-          enum: ['executive', 'analyst', 'general'],
-          description: 'Target audience for the analysis output',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
-    name: 'evaluate_report',
-    description: 'Evaluate and optionally optimize a financial report for quality. Returns scores for accuracy, completeness, clarity, and actionability.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        report: {
-          type: 'string',
-          description: 'The financial report text to evaluate',
-        },
-        optimize: {
-          type: 'boolean',
-          description: 'If true, will automatically improve the report based on feedback',
-        },
-        maxIterations: {
-          type: 'number',
-          description: 'Maximum optimization iterations (default: 3)',
-        },
-      },
-      required: ['report'],
-    },
-  },
-  {
-    name: 'analyze_document',
-    description: 'Analyze a PDF document or image for financial insights. Extracts charts, tables, key metrics, and can generate narration for RAG.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        documentBase64: {
-          type: 'string',
-          description: 'Base64 encoded document data',
-        },
-        mimeType: {
-          type: 'string',
-          description: 'Document MIME type (application/pdf or image/*)',
-        },
-        extractCharts: {
-          type: 'boolean',
-          description: 'Extract chart data from the document',
-        },
-        extractTables: {
-          type: 'boolean',
-          description: 'Extract table data from the document',
-        },
-        generateNarration: {
-          type: 'boolean',
-          description: 'Generate text narration for RAG indexing',
-        },
-        question: {
-          type: 'string',
-          description: 'Specific question to answer from the document',
-        },
-      },
-      required: ['documentBase64', 'mimeType'],
-    },
-  },
-  {
-    name: 'export_file',
-    description: 'Export financial data to Excel (.xlsx) or PowerPoint (.pptx) format. Use this when the user asks to download, export, or create a file.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        format: {
-          type: 'string',
-          enum: ['excel', 'powerpoint'],
-          description: 'Export format - excel for .xlsx, powerpoint for .pptx',
-        },
-        title: {
-          type: 'string',
-          description: 'Title for the exported file',
-        },
-        data: {
-          type: 'object',
-          properties: {
-            sheets: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  name: { type: 'string' },
-                  columns: { type: 'array', items: { type: 'string' } },
-                  rows: { type: 'array', items: { type: 'object' } },
-                },
-              },
-              description: 'For Excel: array of sheets with columns and rows',
-            },
-            slides: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  title: { type: 'string' },
-                  content: { type: 'string' },
-                  chartData: { type: 'object' },
-                  tableData: { type: 'object' },
-                },
-              },
-              description: 'For PowerPoint: array of slides with content',
-            },
-          },
-          description: 'Data to export',
-        },
-        filename: {
-          type: 'string',
-          description: 'Custom filename (without extension)',
-        },
-      },
-      required: ['format', 'title', 'data'],
-    },
-  },
-]
-
 export interface ChatMessage {
   role: 'user' | 'assistant'
   content: string
 }
 
+// Token usage and estimated cost of a run; assistant messages store it in token_usage
+export type RunUsage = TokenUsage & {
+  costUsd: number // Estimated from the price table (see lib/llm/usage)
+  budgetExhausted?: BudgetExhaustedReason
+}
+
 export interface StreamCallbacks {
   onText: (text: string) => void
-  onToolStart: (toolName: string, input: unknown) => void
-  onToolResult: (toolName: string, result: unknown) => void
-  onDone: (usage: { inputTokens: number; outputTokens: number }) => void
+  onToolStart: (toolName: string, input: unknown, toolUseId: string) => void
+  onToolResult: (toolName: string, result: unknown, toolUseId: string) => void
+  onToolProgress?: (toolName: string, progress: ToolProgress) => void
+  onDone: (usage: RunUsage & {
+    promptVersions: PromptVersion[] // Prompt templates the answer was produced with
+  }) => void
   onError: (error: Error) => void
+  onSession?: (sessionId: string) => void // Agent SDK session the thread continues in (session backend)
 }
 
-// Re-export ToolContextAccumulator for use in chat API
-export { ToolContextAccumulator, createToolContextAccumulator } from './tool-context'
-
-// Tool execution handlers
-async function executeSearchDocuments(input: { query: string; limit?: number; documentType?: string }, userId?: string) {
-  try {
-    const supabase = await createClient()
-
-    // Generate embedding for the query
-    const embedding = await generateEmbedding(input.query)
-
-    // Perform vector search with user filtering for knowledge base isolation
-    // Only searches user's own documents and enabled documents
-    const { data: chunks, error } = await supabase
-      .rpc('match_document_chunks', {
-        query_embedding: JSON.stringify(embedding),
-        match_threshold: 0.5,
-        match_count: input.limit || 5,
-        filter_user_id: userId || null, // Filter by user for isolation
-        include_disabled: false, // Only search enabled documents
-      })
-
-    if (error || !chunks || chunks.length === 0) {
-      // Return sample data for demo purposes
-      return {
-        results: [
-          {
-            documentId: 'demo-1',
-            documentName: 'Financial Analysis Guide',
-            content: `Reference material for: ${input.query}`,
-            excerpt: `This document contains information about ${input.query} and related financial concepts.`,
-            pageNumber: 1,
-            similarity: 0.85,
-          },
-        ],
-        citations: [
-          {
-            documentId: 'demo-1',
-            documentName: 'Financial Analysis Guide',
-            pageNumber: 1,
-            excerpt: `Reference for ${input.query}`,
-            storagePath: null,
-          },
-        ],
-        message: `Found reference materials for "${input.query}"`,
-      }
-    }
-
-    // Get document details
-    const documentIds = [...new Set(chunks.map((c: any) => c.document_id))]
-    const { data: documents } = await supabase
-      .from('documents')
-      .select('id, name, file_path')
-      .in('id', documentIds)
-
-    const docMap = new Map(documents?.map((d: any) => [d.id, d]) || [])
-
-    const results = chunks.map((chunk: any) => ({
-      documentId: chunk.document_id,
-      documentName: docMap.get(chunk.document_id)?.name || 'Unknown Document',
-      content: chunk.content,
-      excerpt: chunk.content.substring(0, 200),
-      pageNumber: chunk.metadata?.page_number,
-      similarity: chunk.similarity,
-    }))
-
-    const citations = chunks.map((chunk: any) => ({
-      documentId: chunk.document_id,
-      documentName: docMap.get(chunk.document_id)?.name || 'Unknown Document',
-      pageNumber: chunk.metadata?.page_number,
-      excerpt: chunk.content.substring(0, 150),
-      storagePath: docMap.get(chunk.document_id)?.file_path,
-    }))
+export interface ToolProgress {
+  toolUseId: string
+  elapsedMs: number
+  message: string
+}
 
-    return {
-      results,
-      citations,
-      message: `Found ${results.length} relevant document sections`,
-    }
-  } catch (error) {
-    console.error('Search error:', error)
-    // Return demo data on error
-    return {
-      results: [
-        {
-          documentId: 'demo-1',
-          documentName: 'Financial Knowledge Base',
-          content: `Information about: ${input.query}`,
-          excerpt: `Reference material for ${input.query}`,
-          similarity: 0.8,
-        },
-      ],
-      citations: [
-        {
-          documentId: 'demo-1',
-          documentName: 'Financial Knowledge Base',
-          excerpt: `Reference for ${input.query}`,
-        },
-      ],
-      message: `Found reference materials for "${input.query}"`,
-    }
-  }
+// Instruction appended when the run budget is exhausted mid-loop
+const BUDGET_EXHAUSTED_PROMPTS: Record<BudgetExhaustedReason, string> = {
+  iterations: 'You have reached the maximum number of tool rounds for this request.',
+  time: 'You have run out of time for this request.',
+  tokens: 'You have reached the token budget for this request.',
 }
+const BUDGET_EXHAUSTED_INSTRUCTION = 'Do not call any more tools. Summarize what you have found so far from the tool results above, state clearly which parts of the question remain unanswered, and suggest how the user could narrow the request.'
 
-async function executeFinancialCalculation(input: { operation: string; values: number[]; params?: Record<string, unknown> }) {
-  const { operation, values, params } = input
+export const BUDGET_EXHAUSTED_FALLBACK = 'I ran out of budget for this request before I could finish the analysis. Please try a narrower question.'
 
-  switch (operation) {
-    case 'variance':
-      return {
-        result: values[0] - values[1],
-        formula: `${values[0]} - ${values[1]}`,
-        type: 'calculation',
-      }
-    case 'variance_percent':
-      const variance = ((values[0] - values[1]) / values[1]) * 100
-      return {
-        result: variance.toFixed(2) + '%',
-        formula: `((${values[0]} - ${values[1]}) / ${values[1]}) × 100`,
-        type: 'calculation',
-      }
-    case 'roi':
-      const roi = ((values[0] - values[1]) / values[1]) * 100
-      return {
-        result: roi.toFixed(2) + '%',
-        formula: `((Gain - Cost) / Cost) × 100`,
-        type: 'calculation',
-      }
-    case 'ebitda_margin':
-      const ebitdaMargin = (values[0] / values[1]) * 100
-      return {
-        result: ebitdaMargin.toFixed(2) + '%',
-        ebitda: values[0],
-        revenue: values[1],
-        formula: `(EBITDA / Revenue) × 100`,
-        type: 'calculation',
-      }
-    case 'npv':
-      const rate = (params?.discountRate as number) || 0.1
-      let npv = 0
-      values.forEach((cf, i) => {
-        npv += cf / Math.pow(1 + rate, i)
-      })
-      return {
-        result: npv.toFixed(2),
-        discountRate: rate,
-        formula: 'Σ CF_t / (1 + r)^t',
-        type: 'calculation',
-      }
-    default:
-      return { error: `Unknown operation: ${operation}`, type: 'error' }
+/**
+ * Append a text block to the trailing user turn (tool results), or add a new user turn
+ */
+function appendUserText(messages: Anthropic.MessageParam[], text: string): Anthropic.MessageParam[] {
+  const last = messages[messages.length - 1]
+  if (last?.role === 'user' && Array.isArray(last.content)) {
+    return [...messages.slice(0, -1), { role: 'user', content: [...last.content, { type: 'text', text }] }]
   }
+  return [...messages, { role: 'user', content: text }]
 }
 
-async function executeGenerateChart(input: {
-  chartType: string;
-  title: string;
-  data: unknown[];
-  xAxisKey: string;
-  yAxisKeys: string[];
-  xAxisLabel?: string;
-  yAxisLabel?: string;
-}) {
-  return {
-    type: 'chart',
-    data: {
-      chartType: input.chartType,
-      title: input.title,
-      data: input.data,
-      xAxisKey: input.xAxisKey,
-      yAxisKeys: input.yAxisKeys,
-      xAxisLabel: input.xAxisLabel,
-      yAxisLabel: input.yAxisLabel,
-      colors: ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6'],
-    },
-  }
+// A content block of a message; the newest block the next request resends unchanged
+interface CacheAnchor {
+  message: number
+  block: number
 }
 
-async function executeGenerateTable(input: {
-  title: string;
-  columns: string[];
-  rows: unknown[];
-  highlightColumn?: string;
-}) {
-  return {
-    type: 'table',
-    data: {
-      title: input.title,
-      columns: input.columns,
-      rows: input.rows,
-      highlightColumn: input.highlightColumn,
-    },
-  }
+function lastBlockIndex(message: Anthropic.MessageParam): number {
+  return typeof message.content === 'string' ? 0 : message.content.length - 1
 }
 
-async function executeSpreadsheetOperation(input: { action: string; filePath?: string; sheet?: string; range?: string; data?: unknown[][] }) {
-  return {
-    action: input.action,
-    message: `Spreadsheet ${input.action} operation completed`,
-    preview: input.data?.slice(0, 5),
-    type: 'spreadsheet',
-  }
+/**
+ * Copy of the messages with a cache breakpoint on the anchor block
+ */
+function withCacheBreakpoint(messages: Anthropic.MessageParam[], anchor: CacheAnchor | null): Anthropic.MessageParam[] {
+  const message = anchor ? messages[anchor.message] : undefined
+  if (!anchor || !message) return messages
+
+  const content: Anthropic.ContentBlockParam[] = typeof message.content === 'string'
+    ? [{ type: 'text', text: message.content }]
+    : message.content
+  const block = content[anchor.block]
+  // Thinking blocks can't carry cache_control
+  if (!block || block.type === 'thinking' || block.type === 'redacted_thinking') return messages
+
+  const cached = [...content]
+  cached[anchor.block] = { ...block, cache_control: EPHEMERAL_CACHE }
+  return messages.map((m, index) => (index === anchor.message ? { ...m, content: cached } : m))
 }
 
-async function executeGenerateImage(input: {
-  type: 'infographic' | 'dashboard' | 'chart' | 'demonstration' | 'custom'
-  prompt: string
-  title?: string
-  metrics?: { name: string; value: string | number; change?: number; trend?: 'up' | 'down' | 'neutral' }[]
-  period?: string
-  context?: string
-  refinementOf?: string
-  refinementType?: 'regenerate' | 'change_style' | 'more_detail' | 'simplify' | 'different_layout' | 'custom'
-  previousPrompt?: string
-  analysisContext?: string
-}) {
-  try {
-    let result: { imageData: string; mimeType: string; prompt: string }
-
-    // Build enhanced prompt with analysis context if available
-    let enhancedPrompt = input.prompt
-    if (input.analysisContext) {
-      enhancedPrompt = `${input.prompt}\n\n## Data Context from Analysis\n${input.analysisContext}`
-    }
-
-    // For refinements, apply the refinement modifier to the prompt
-    if (input.refinementType && input.previousPrompt) {
-      const modifier = getRefinementPromptModifier(input.refinementType, undefined, input.previousPrompt)
-      enhancedPrompt = `${modifier}\n\nNew prompt: ${input.prompt}`
-    }
-
-    switch (input.type) {
-      case 'dashboard':
-        if (input.metrics && input.title) {
-          result = await generateFinancialDashboard(input.title, input.metrics, input.period)
-        } else {
-          result = await generateImage(enhancedPrompt, { style: 'financial' })
-        }
-        break
-
-      case 'infographic':
-        if (input.metrics && input.title) {
-          const sections = input.metrics.map(m => ({
-            label: m.name,
-            value: m.value,
-          }))
-          result = await generateInfographic(input.title, sections)
-        } else {
-          result = await generateImage(enhancedPrompt, { style: 'infographic' })
-        }
-        break
-
-      case 'chart':
-        result = await generateImage(enhancedPrompt, { style: 'chart' })
-        break
+// Re-export ToolContextAccumulator for use in chat API
+export { ToolContextAccumulator, createToolContextAccumulator } from './tool-context'
 
-      case 'demonstration':
-        // Generate educational demonstration image to explain financial concepts
-        result = await generateDemonstrationImage(enhancedPrompt, input.context)
-        break
+export interface FinanceChatOptions {
+  sessionId?: string
+  userId?: string
+  threadId?: string // Thread that generated exports are linked to
+  role?: Database['public']['Enums']['user_role'] | null // Filters role-restricted tools
+  answerStyle?: AnswerStyle // Response format (default: full visual)
+  documentContext?: string // Optional document context for RAG
+  conversationSummary?: string // Rolling summary of messages older than the history sent
+  toolContextAccumulator?: ToolContextAccumulator // Accumulator for tool context (for image generation)
+  toolConcurrency?: number // Max tools executed at once per turn (default 4)
+  toolTimeoutsMs?: Record<string, number> // Per-tool timeout overrides
+  runBudget?: RunBudget // Iteration, time and token limits for this run
+}
 
-      default:
-        result = await generateImage(enhancedPrompt, { style: 'financial' })
-    }
+// Introduces the rolling thread summary in the system prompt
+const CONVERSATION_SUMMARY_PREAMBLE = 'Summary of the earlier part of this conversation, whose messages are no longer shown. Treat the figures, assumptions and decisions in it as agreed unless the user revises them.'
 
-    // Generate unique image ID for tracking refinements
-    const imageId = generateImageId()
+/**
+ * The thread summary as a system prompt section
+ */
+export function formatConversationSummary(summary: string): string {
+  return `<conversation_summary>\n${CONVERSATION_SUMMARY_PREAMBLE}\n\n${summary}\n</conversation_summary>`
+}
 
-    // Return image data for display in canvas
-    return {
-      type: 'image',
-      data: {
-        imageId,
-        title: input.title || 'Generated Visualization',
-        imageData: result.imageData,
-        mimeType: result.mimeType,
-        prompt: result.prompt,
-        originalPrompt: input.prompt,
-        refinementOf: input.refinementOf,
-        refinementType: input.refinementType,
-      },
-    }
-  } catch (error) {
-    console.error('Image generation error:', error)
-    return {
-      type: 'image',
-      data: {
-        imageId: generateImageId(),
-        title: input.title || 'Image Generation',
-        error: error instanceof Error ? error.message : 'Failed to generate image',
-        prompt: input.prompt,
-        originalPrompt: input.prompt,
-      },
-    }
-  }
+export interface FinanceRun {
+  tools: FinanceTool[]
+  toolTimeoutsMs: Record<string, number>
+  systemPrompt: string // Finance prompt, shared by users with the same role and answer style
+  knowledgeBasePrompt: string | null // The user's knowledge base section
+  promptVersions: PromptVersion[]
 }
 
 /**
- * Execute complex financial analysis using orchestrator-workers pattern
+ * Tools, timeouts and system prompt for a run; shared by both agent backends
  */
-async function executeComplexAnalysis(input: { query: string; targetAudience?: string }) {
-  try {
-    const result = await financialOrchestrator.analyze(input.query, {
-      targetAudience: input.targetAudience,
-    })
+export async function prepareFinanceRun(options?: FinanceChatOptions): Promise<FinanceRun> {
+  // Tools offered for this run: the registry filtered by role and organization settings
+  const tools = financeToolRegistry.resolve(options?.role, await getToolSettingsForUser(options?.userId))
+  const toolTimeoutsMs = {
+    ...Object.fromEntries(tools.flatMap(tool => (tool.timeoutMs ? [[tool.name, tool.timeoutMs]] : []))),
+    ...options?.toolTimeoutsMs,
+  }
 
-    return {
-      type: 'analysis',
-      data: {
-        summary: result.synthesis,
-        analysis: result.analysis,
-        workerResults: result.workerResults.map(w => ({
-          type: w.type,
-          description: w.description,
-          findings: w.result,
-          metrics: w.metrics,
-        })),
-      },
-    }
-  } catch (error) {
-    console.error('Complex analysis error:', error)
-    return {
-      type: 'error',
-      error: error instanceof Error ? error.message : 'Analysis failed',
-    }
+  // The knowledge base is kept apart from the finance prompt so the latter can be cached across users
+  const [financeSystemPrompt, knowledgeBasePrompt] = await Promise.all([
+    buildFinanceSystemPrompt(tools, options?.answerStyle || DEFAULT_ANSWER_STYLE, options?.userId),
+    options?.userId ? buildKnowledgeBasePrompt(options.userId) : null,
+  ])
+
+  return {
+    tools,
+    toolTimeoutsMs,
+    // Not part of the template, so an organization override can't drop it
+    systemPrompt: `${financeSystemPrompt.text}\n\n${UNTRUSTED_CONTENT_PROMPT}`,
+    knowledgeBasePrompt,
+    promptVersions: [financeSystemPrompt.version],
   }
 }
 
 /**
- * Evaluate and optionally optimize a financial report
+ * Callbacks that restore redacted values in what the user is shown, for the
+ * roles the organization's policy reveals them to. Other roles see tokens,
+ * so tool results (and the canvas data and citations in them) are redacted
+ * for them as well.
  */
-async function executeEvaluateReport(input: { report: string; optimize?: boolean; maxIterations?: number }) {
-  try {
-    const evaluation = await reportEvaluator.evaluate(input.report)
-
-    if (input.optimize && evaluation.status !== 'PASS') {
-      const optimized = await reportEvaluator.optimize(
-        input.report,
-        evaluation.feedback,
-        input.maxIterations || 3
-      )
-
-      return {
-        type: 'evaluation',
-        data: {
-          initialStatus: evaluation.status,
-          initialScores: evaluation.scores,
-          feedback: evaluation.feedback,
-          optimizedReport: optimized.optimizedReport,
-          finalScores: optimized.finalScore,
-          iterations: optimized.iterations,
-        },
-      }
-    }
-
+export function restoringCallbacks(
+  callbacks: StreamCallbacks,
+  redactor: Redactor,
+  role?: FinanceChatOptions['role']
+): StreamCallbacks {
+  if (!redactor.active) return callbacks
+  if (!redactor.canReveal(role)) {
     return {
-      type: 'evaluation',
-      data: {
-        status: evaluation.status,
-        scores: evaluation.scores,
-        feedback: evaluation.feedback,
+      ...callbacks,
+      onToolResult: (toolName, result, toolUseId) => {
+        callbacks.onToolResult(toolName, redactor.redactValue(result), toolUseId)
       },
     }
-  } catch (error) {
-    console.error('Report evaluation error:', error)
-    return {
-      type: 'error',
-      error: error instanceof Error ? error.message : 'Evaluation failed',
-    }
   }
-}
 
-/**
- * Analyze a document (PDF or image) for financial insights
- */
-async function executeAnalyzeDocument(input: {
-  documentBase64: string
-  mimeType: string
-  extractCharts?: boolean
-  extractTables?: boolean
-  generateNarration?: boolean
-  question?: string
-}) {
-  try {
-    if (input.mimeType === 'application/pdf') {
-      const result = await documentAnalyzer.analyzePdf(input.documentBase64, {
-        extractCharts: input.extractCharts,
-        extractTables: input.extractTables,
-        generateNarration: input.generateNarration,
-        specificQuestions: input.question ? [input.question] : undefined,
-      })
-
-      return {
-        type: 'document_analysis',
-        data: {
-          summary: result.summary,
-          charts: result.charts,
-          tables: result.tables,
-          keyMetrics: result.keyMetrics,
-          narration: result.narration,
-          extractedData: result.extractedData,
-        },
-      }
-    } else if (input.mimeType.startsWith('image/')) {
-      const result = await documentAnalyzer.analyzeImage(
-        input.documentBase64,
-        input.mimeType,
-        input.question
-      )
-
-      return {
-        type: 'image_analysis',
-        data: {
-          description: result.description,
-          extractedData: result.extractedData,
-        },
-      }
-    }
+  const stream = redactor.createStreamRestorer()
+  const flush = () => {
+    const rest = stream.flush()
+    if (rest) callbacks.onText(rest)
+  }
 
-    return {
-      type: 'error',
-      error: 'Unsupported document type',
-    }
-  } catch (error) {
-    console.error('Document analysis error:', error)
-    return {
-      type: 'error',
-      error: error instanceof Error ? error.message : 'Document analysis failed',
-    }
+  return {
+    ...callbacks,
+    onText: text => {
+      const restored = stream.push(text)
+      if (restored) callbacks.onText(restored)
+    },
+    onToolStart: (toolName, input, toolUseId) => {
+      flush()
+      callbacks.onToolStart(toolName, redactor.restoreValue(input), toolUseId)
+    },
+    onDone: usage => {
+      flush()
+      callbacks.onDone(usage)
+    },
+    onError: error => {
+      flush()
+      callbacks.onError(error)
+    },
   }
 }
 
 /**
- * Export data to Excel or PowerPoint file
+ * The input a tool runs with. The model names redacted values by token and
+ * tools need the originals, but a generated file can't be redacted once it
+ * is built: exports keep the tokens for roles that may not see the values.
  */
-async function executeExportFile(input: {
-  format: 'excel' | 'powerpoint'
-  title: string
-  data: {
-    sheets?: { name: string; columns: string[]; rows: Record<string, unknown>[] }[]
-    slides?: { title: string; content?: string; chartData?: unknown; tableData?: unknown }[]
-  }
-  filename?: string
-}) {
-  try {
-    const timestamp = new Date().toISOString().slice(0, 10)
-    const baseFilename = input.filename || input.title.toLowerCase().replace(/\s+/g, '-')
-
-    if (input.format === 'excel') {
-      // For Excel, we return the data structure that the frontend can use
-      // In a full implementation, this would use xlsx or exceljs to create a real file
-      const filename = `${baseFilename}-${timestamp}.xlsx`
-
-      return {
-        type: 'export',
-        data: {
-          format: 'excel',
-          filename,
-          title: input.title,
-          sheets: input.data.sheets || [{
-            name: 'Sheet1',
-            columns: ['Column1', 'Column2'],
-            rows: [{ Column1: 'No data provided', Column2: '' }],
-          }],
-          downloadReady: true,
-          message: `Excel file "${filename}" is ready for download`,
-        },
-      }
-    } else {
-      // For PowerPoint
-      const filename = `${baseFilename}-${timestamp}.pptx`
-
-      return {
-        type: 'export',
-        data: {
-          format: 'powerpoint',
-          filename,
-          title: input.title,
-          slides: input.data.slides || [{
-            title: input.title,
-            content: 'No content provided',
-          }],
-          downloadReady: true,
-          message: `PowerPoint file "${filename}" is ready for download`,
-        },
-      }
-    }
-  } catch (error) {
-    console.error('Export file error:', error)
-    return {
-      type: 'error',
-      error: error instanceof Error ? error.message : 'Export failed',
-    }
-  }
+export function toolInput(toolName: string, input: unknown, redactor: Redactor, role?: FinanceChatOptions['role']): unknown {
+  if (!redactor.canReveal(role) && financeToolRegistry.get(toolName)?.canvasType === 'export') return input
+  return redactor.restoreValue(input)
 }
 
-async function executeTool(name: string, input: unknown, userId?: string): Promise<unknown> {
-  switch (name) {
-    case 'search_documents':
-      return executeSearchDocuments(input as { query: string; limit?: number; documentType?: string }, userId)
-    case 'financial_calculation':
-      return executeFinancialCalculation(input as { operation: string; values: number[]; params?: Record<string, unknown> })
-    case 'generate_chart':
-      return executeGenerateChart(input as { chartType: string; title: string; data: unknown[]; xAxisKey: string; yAxisKeys: string[]; xAxisLabel?: string; yAxisLabel?: string })
-    case 'generate_table':
-      return executeGenerateTable(input as { title: string; columns: string[]; rows: unknown[]; highlightColumn?: string })
-    case 'spreadsheet_operation':
-      return executeSpreadsheetOperation(input as { action: string; filePath?: string; sheet?: string; range?: string; data?: unknown[][] })
-    case 'generate_image':
-      return executeGenerateImage(input as {
-        type: 'infographic' | 'dashboard' | 'chart' | 'demonstration' | 'custom'
-        prompt: string
-        title?: string
-        metrics?: { name: string; value: string | number; change?: number; trend?: 'up' | 'down' | 'neutral' }[]
-        period?: string
-        context?: string
-        refinementOf?: string
-        refinementType?: 'regenerate' | 'change_style' | 'more_detail' | 'simplify' | 'different_layout' | 'custom'
-        previousPrompt?: string
-        analysisContext?: string
-      })
-    case 'complex_analysis':
-      return executeComplexAnalysis(input as { query: string; targetAudience?: string })
-    case 'evaluate_report':
-      return executeEvaluateReport(input as { report: string; optimize?: boolean; maxIterations?: number })
-    case 'analyze_document':
-      return executeAnalyzeDocument(input as {
-        documentBase64: string
-        mimeType: string
-        extractCharts?: boolean
-        extractTables?: boolean
-        generateNarration?: boolean
-        question?: string
-      })
-    case 'export_file':
-      return executeExportFile(input as {
-        format: 'excel' | 'powerpoint'
-        title: string
-        data: {
-          sheets?: { name: string; columns: string[]; rows: Record<string, unknown>[] }[]
-          slides?: { title: string; content?: string; chartData?: unknown; tableData?: unknown }[]
-        }
-        filename?: string
-      })
-    default:
-      return { error: `Unknown tool: ${name}` }
-  }
+/**
+ * Progress line for a tool that is still running
+ */
+export function toolProgressMessage(toolName: string, elapsedMs: number): string {
+  const label = financeToolRegistry.get(toolName)?.progressMessage || `Running ${toolName}`
+  return `${label}... ${Math.round(elapsedMs / 1000)}s`
 }
 
 export async function streamFinanceChat(
   messages: ChatMessage[],
   callbacks: StreamCallbacks,
-  options?: {
-    sessionId?: string
-    userId?: string
-    documentContext?: string // Optional document context for RAG
-    toolContextAccumulator?: ToolContextAccumulator // Accumulator for tool context (for image generation)
-  }
+  options?: FinanceChatOptions
 ) {
+  // Sensitive values are swapped for tokens in everything sent to the model
+  const redactor = await getRedactorForUser(options?.userId)
   try {
-    // Update cache timestamp (refresh every 5 minutes)
-    const currentTime = Math.floor(Date.now() / 300000) * 300000
-    if (currentTime !== cacheTimestamp) {
-      cacheTimestamp = currentTime
-    }
+    await redactor.loadThread(options?.threadId)
+    callbacks = restoringCallbacks(callbacks, redactor, options?.role)
 
-    // Convert to Anthropic format with caching support
-    const anthropicMessages: Anthropic.MessageParam[] = messages.map((m, index) => {
-      const role = m.role === 'user' ? 'user' : 'assistant'
-      // Cache the last user message for multi-turn efficiency
-      if (m.role === 'user' && index === messages.length - 1) {
-        return {
-          role: role as 'user',
-          content: [
-            {
-              type: 'text' as const,
-              text: m.content,
-              cache_control: { type: 'ephemeral' as const },
-            },
-          ],
-        }
-      }
-      return {
-        role: role as 'user' | 'assistant',
-        content: m.content,
-      }
-    })
-
-    // Build system prompt with knowledge base if user is authenticated
-    // This loads the synthesized knowledge from all enabled documents
-    const baseSystemPrompt = options?.userId
-      ? await buildSystemPromptWithKnowledge(options.userId)
-      : FINANCE_SYSTEM_PROMPT
-
-    // Build system prompt with caching
-    // The system prompt is stable and should be cached for efficiency
-    const systemWithCache: Anthropic.MessageCreateParams['system'] = [
-      {
-        type: 'text' as const,
-        text: `${cacheTimestamp}\n${baseSystemPrompt}`,
-        cache_control: { type: 'ephemeral' as const },
-      },
+    const anthropicMessages: Anthropic.MessageParam[] = messages.map(m => ({
+      role: m.role === 'user' ? 'user' : 'assistant',
+      content: redactor.redact(m.content),
+    }))
+
+    const { tools, toolTimeoutsMs, systemPrompt, knowledgeBasePrompt, promptVersions } = await prepareFinanceRun(options)
+    const answerStyle = options?.answerStyle || DEFAULT_ANSWER_STYLE
+
+    // Breakpoint 1: the last tool definition caches the whole tool list
+    const anthropicTools = toAnthropicTools(tools).map((tool, index, all) =>
+      index === all.length - 1 ? { ...tool, cache_control: EPHEMERAL_CACHE } : tool
+    )
+
+    // Breakpoint 2: the finance prompt; breakpoint 3: the user's knowledge base
+    const systemWithCache: Anthropic.TextBlockParam[] = [
+      { type: 'text', text: redactor.redact(systemPrompt), cache_control: EPHEMERAL_CACHE },
     ]
+    if (knowledgeBasePrompt) {
+      systemWithCache.push({
+        type: 'text',
+        text: `\n\n---\n\n${redactor.redact(knowledgeBasePrompt)}`,
+        cache_control: EPHEMERAL_CACHE,
+      })
+    }
 
-    // Add document context if provided (also cached)
+    // Per-request context, cached as part of the history prefix
     if (options?.documentContext) {
       systemWithCache.push({
-        type: 'text' as const,
-        text: `\n\n<document_context>\n${options.documentContext}\n</document_context>`,
-        cache_control: { type: 'ephemeral' as const },
+        type: 'text',
+        text: `\n\n<document_context>\n${wrapUntrusted(redactor.redact(options.documentContext))}\n</document_context>`,
       })
     }
 
-    let continueLoop = true
+    // Thread summary last: it changes every few turns, the blocks before it rarely do
+    if (options?.conversationSummary) {
+      systemWithCache.push({
+        type: 'text',
+        text: `\n\n${formatConversationSummary(redactor.redact(options.conversationSummary))}`,
+      })
+    }
+
+    // Breakpoint 4 moves with the conversation: first the end of the history
+    // (the new user message isn't resent as is), then the latest tool results
+    const historyEnd = anthropicMessages.length - 2
+    let cacheAnchor: CacheAnchor | null = historyEnd >= 0
+      ? { message: historyEnd, block: lastBlockIndex(anthropicMessages[historyEnd]) }
+      : null
+
+    const budget = new RunBudgetTracker(options?.runBudget || DEFAULT_RUN_BUDGET)
     let currentMessages = anthropicMessages
-    let iterations = 0
-    const maxIterations = 5 // Prevent infinite loops
     let accumulatedText = '' // Accumulate text across iterations
-    let totalInputTokens = 0
-    let totalOutputTokens = 0
-
-    while (continueLoop && iterations < maxIterations) {
-      iterations++
-
-      const stream = await anthropic.messages.stream({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 4096,
-        system: systemWithCache,
-        tools: financeTools,
-        messages: currentMessages,
-      })
+    let totalUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 }
+    let totalCostUsd = 0
 
-      let assistantContent: Anthropic.ContentBlock[] = []
+    // Run one model call, forwarding text as it arrives (including reasoning between tool calls).
+    // Falls back to the next chat model only if nothing has been streamed yet.
+    const streamIteration = async (toolChoice?: Anthropic.ToolChoice) => {
       let iterationText = '' // Text from this iteration only
+      let model = ''
+
+      const finalMessage = await withModelFallback('chat', async target => {
+        model = target.model
+        const stream = getAnthropicClient().messages.stream({
+          model: target.model,
+          max_tokens: 4096,
+          system: systemWithCache,
+          tools: anthropicTools,
+          ...(toolChoice ? { tool_choice: toolChoice } : {}),
+          messages: withCacheBreakpoint(currentMessages, cacheAnchor),
+        })
 
-      for await (const event of stream) {
-        if (event.type === 'content_block_delta') {
-          if (event.delta.type === 'text_delta') {
-            iterationText += event.delta.text
+        for await (const event of stream) {
+          if (event.type === 'content_block_delta') {
+            if (event.delta.type === 'text_delta') {
+              // Separate this iteration's text from what was streamed before the tools ran
+              if (!iterationText && accumulatedText && !accumulatedText.endsWith('\n')) {
+                callbacks.onText('\n\n')
+                accumulatedText += '\n\n'
+              }
+              iterationText += event.delta.text
+              accumulatedText += event.delta.text
+              callbacks.onText(event.delta.text)
+            }
           }
         }
-      }
 
-      const finalMessage = await stream.finalMessage()
-      assistantContent = finalMessage.content
-      totalInputTokens += finalMessage.usage.input_tokens
-      totalOutputTokens += finalMessage.usage.output_tokens
+        return stream.finalMessage()
+      }, {
+        userId: options?.userId,
+        providers: ['anthropic'],
+        canFallback: () => !iterationText,
+        usage: { threadId: options?.threadId, feature: 'chat' },
+      })
 
-      // Check for tool use
-      const toolUseBlocks = assistantContent.filter(
-        (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
-      )
+      const usage = extractTokenUsage(finalMessage)
+      if (usage) {
+        totalUsage = addTokenUsage(totalUsage, usage)
+        totalCostUsd += estimateCostUsd(model, usage)
+      }
+      budget.recordIteration(finalMessage.usage)
 
-      if (toolUseBlocks.length > 0) {
-        // Execute tools and collect results
-        const toolResults: Anthropic.ToolResultBlockParam[] = []
+      return finalMessage
+    }
 
-        for (const toolUse of toolUseBlocks) {
-          callbacks.onToolStart(toolUse.name, toolUse.input)
+    while (true) {
+      const exhausted = budget.exhaustedReason()
 
-          const result = await executeTool(toolUse.name, toolUse.input, options?.userId)
+      if (exhausted) {
+        // Out of budget with tool results pending - force a final answer without tools
+        currentMessages = appendUserText(
+          currentMessages,
+          `${BUDGET_EXHAUSTED_PROMPTS[exhausted]} ${BUDGET_EXHAUSTED_INSTRUCTION}`
+        )
+        // Tools stay declared so earlier tool_use blocks remain valid, but can't be called
+        await streamIteration({ type: 'none' })
 
-          // Accumulate tool context for image generation
-          if (options?.toolContextAccumulator) {
-            options.toolContextAccumulator.add(toolUse.name, result)
-          }
+        if (!accumulatedText.trim()) {
+          callbacks.onText(BUDGET_EXHAUSTED_FALLBACK)
+        }
 
-          callbacks.onToolResult(toolUse.name, result)
+        callbacks.onDone({
+          ...totalUsage,
+          costUsd: totalCostUsd,
+          budgetExhausted: exhausted,
+          promptVersions,
+        })
+        return
+      }
 
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: toolUse.id,
-            content: JSON.stringify(result),
-          })
-        }
+      // Full visual answers must start with a tool call; later turns are free to finish
+      const mustUseTool = requiresToolUse(answerStyle) && currentMessages === anthropicMessages && tools.length > 0
+      const finalMessage = await streamIteration(mustUseTool ? { type: 'any' } : undefined)
+      const assistantContent = finalMessage.content
 
-        // Add assistant message and tool results to conversation
-        currentMessages = [
-          ...currentMessages,
-          { role: 'assistant', content: assistantContent },
-          { role: 'user', content: toolResults },
-        ]
-
-        // Don't stream intermediate text - only accumulate it
-        // The final response will have all the context
-      } else {
-        // No tool use, this is the final response - stream it now
-        // Stream the text character by character for smooth display
-        for (const char of iterationText) {
-          callbacks.onText(char)
-        }
-        accumulatedText = iterationText
+      // Check for tool use
+      const toolUseBlocks = assistantContent.filter(
+        (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+      )
 
-        continueLoop = false
+      if (toolUseBlocks.length === 0) {
+        // No tool use, this is the final response - already streamed above
         callbacks.onDone({
-          inputTokens: totalInputTokens,
-          outputTokens: totalOutputTokens,
+          ...totalUsage,
+          costUsd: totalCostUsd,
+          promptVersions,
         })
+        return
       }
 
-      // Check stop reason
-      if (finalMessage.stop_reason === 'end_turn' && toolUseBlocks.length === 0) {
-        continueLoop = false
+      // Execute independent tools concurrently; results come back in block order
+      for (const toolUse of toolUseBlocks) {
+        callbacks.onToolStart(toolUse.name, toolUse.input, toolUse.id)
       }
+
+      const results = await runToolCalls(
+        toolUseBlocks,
+        toolUse => executeRegisteredTool(tools, toolUse.name, toolInput(toolUse.name, toolUse.input, redactor, options?.role), {
+          userId: options?.userId,
+          threadId: options?.threadId,
+          role: options?.role,
+        }),
+        {
+          concurrency: options?.toolConcurrency,
+          timeoutsMs: toolTimeoutsMs,
+          // The budget is only checked between iterations; don't let a tool round outlast it
+          maxTimeoutMs: budget.remainingMs(),
+          onProgress: (toolUse, elapsedMs) => {
+            callbacks.onToolProgress?.(toolUse.name, {
+              toolUseId: toolUse.id,
+              elapsedMs,
+              message: toolProgressMessage(toolUse.name, elapsedMs),
+            })
+          },
+          onResult: (toolUse, result) => {
+            // Accumulate tool context for image generation
+            if (options?.toolContextAccumulator) {
+              options.toolContextAccumulator.add(toolUse.name, result)
+            }
+
+            callbacks.onToolResult(toolUse.name, result, toolUse.id)
+          },
+        }
+      )
+
+      const toolResults: Anthropic.ToolResultBlockParam[] = toolUseBlocks.map((toolUse, index) => ({
+        type: 'tool_result',
+        tool_use_id: toolUse.id,
+        content: JSON.stringify(redactor.redactValue(modelToolResult(tools, toolUse.name, results[index]))),
+        is_error: (results[index] as { type?: string } | undefined)?.type === 'error',
+      }))
+
+      // Add assistant message and tool results to conversation
+      currentMessages = [
+        ...currentMessages,
+        { role: 'assistant', content: assistantContent },
+        { role: 'user', content: toolResults },
+      ]
+      cacheAnchor = { message: currentMessages.length - 1, block: toolResults.length - 1 }
     }
   } catch (error) {
     callbacks.onError(error instanceof Error ? error : new Error(String(error)))
+  } finally {
+    await redactor.saveThread(options?.threadId)
   }
 }
@@ -1,4 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk'
+import { generateText, getAnthropicClient, getRedactorForUser, withModelFallback, type ModelRole } from '@/lib/llm'
 
 /**
  * JSON Mode and Structured Output Helpers
@@ -10,12 +10,6 @@ import Anthropic from '@anthropic-ai/sdk'
  * 3. Schema validation
  */
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-})
-
-const MODEL_NAME = 'claude-sonnet-4-20250514'
-
 /**
  * Extract JSON from XML-wrapped response
  */
@@ -52,7 +46,8 @@ export async function requestJsonOutput<T>(
     properties?: Record<string, { type: string; description: string }>
   },
   options?: {
-    model?: string
+    role?: ModelRole // Model route, defaults to extraction
+    userId?: string // Selects the organization's model configuration
     maxTokens?: number
     temperature?: number
   }
@@ -81,21 +76,16 @@ ${JSON.stringify(schema.example, null, 2)}
 
 Always ensure your JSON is valid and matches the expected schema.`
 
-  const response = await anthropic.messages.create({
-    model: options?.model || MODEL_NAME,
-    max_tokens: options?.maxTokens || 4096,
-    temperature: options?.temperature ?? 0,
-    system: systemPrompt,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  })
-
-  const textContent = response.content.find((block) => block.type === 'text')
-  const raw = textContent?.type === 'text' ? textContent.text : ''
+  const { text: raw } = await generateText(
+    options?.role || 'extraction',
+    {
+      system: systemPrompt,
+      prompt,
+      maxTokens: options?.maxTokens || 4096,
+      temperature: options?.temperature ?? 0,
+    },
+    { userId: options?.userId }
+  )
 
   return {
     result: extractJsonFromXml<T>(raw, 'json'),
@@ -105,33 +95,34 @@ Always ensure your JSON is valid and matches the expected schema.`
 
 /**
  * JSON Prefill technique - more reliable for simple structures
- * Uses assistant prefilling to force JSON output
+ * Uses assistant prefilling to force JSON output (Anthropic models only)
  */
 export async function requestJsonWithPrefill<T>(
   prompt: string,
   options?: {
-    model?: string
+    userId?: string
     maxTokens?: number
   }
 ): Promise<{ result: T | null; raw: string }> {
-  const response = await anthropic.messages.create({
-    model: options?.model || MODEL_NAME,
+  const redactor = await getRedactorForUser(options?.userId)
+  const response = await withModelFallback('extraction', target => getAnthropicClient().messages.create({
+    model: target.model,
     max_tokens: options?.maxTokens || 4096,
     messages: [
       {
         role: 'user',
-        content: `${prompt}\n\nRespond with valid JSON only.`,
+        content: `${redactor.redact(prompt)}\n\nRespond with valid JSON only.`,
       },
       {
         role: 'assistant',
         content: '{',
       },
     ],
-  })
+  }), { userId: options?.userId, providers: ['anthropic'] })
 
   const textContent = response.content.find((block) => block.type === 'text')
   const partialJson = textContent?.type === 'text' ? textContent.text : ''
-  const fullJson = '{' + partialJson
+  const fullJson = '{' + redactor.restore(partialJson)
 
   try {
     return {
@@ -182,7 +173,8 @@ export interface TableRow {
  */
 export async function extractFinancialMetrics(
   text: string,
-  focus?: string
+  focus?: string,
+  userId?: string
 ): Promise<FinancialMetric[]> {
   const prompt = `Extract all financial metrics from this text:
 
@@ -212,7 +204,7 @@ Return a JSON array of financial metrics.`
       change: { type: 'number', description: 'Percent change (optional)' },
       trend: { type: 'string', description: 'Trend direction: up, down, or stable (optional)' },
     },
-  })
+  }, { userId })
 
   return result || []
 }
@@ -373,7 +365,8 @@ export interface FinancialAnswer {
  */
 export async function getStructuredFinancialAnswer(
   question: string,
-  context?: string
+  context?: string,
+  userId?: string
 ): Promise<FinancialAnswer> {
   const prompt = `Answer this financial question with structured data:
 
@@ -408,7 +401,7 @@ Provide a comprehensive answer with calculations and visualization suggestions.`
       ],
       followUpQuestions: ['What factors influenced the ROI improvement?'],
     },
-  })
+  }, { userId })
 
   return (
     result || {
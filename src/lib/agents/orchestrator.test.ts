@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fakeSupabase } from '@/test/fake-supabase'
+import { ejectCassette, playCassette } from '@/test/cassettes'
+import { FinancialOrchestrator } from './orchestrator'
+
+vi.mock('@/lib/supabase/server', async () => (await import('@/test/fake-supabase')).supabaseServerMock)
+
+const VARIANCE_TASK = 'Explain the Q3 operating expense variance against budget for the CFO'
+
+describe('FinancialOrchestrator.analyze', () => {
+  beforeEach(() => {
+    fakeSupabase.reset()
+    playCassette('orchestrator-analyze')
+  })
+
+  afterEach(() => ejectCassette())
+
+  it('plans subtasks, runs a worker for each and synthesizes the results', async () => {
+    const result = await new FinancialOrchestrator('user-1').analyze(VARIANCE_TASK, {
+      documentContent: 'Q3 opex: budget $1.80M, actual $1.95M. Travel $0.21M vs $0.12M budget; headcount on plan.',
+      targetAudience: 'CFO',
+    })
+
+    expect(result.analysis).toContain('budget-to-actual variance')
+    expect(result.workerResults.map(r => r.type)).toEqual(['variance_analysis', 'executive_summary'])
+    expect(result.workerResults[0].metrics).toEqual({ budget: 1800000, actual: 1950000, variance_pct: 8.3 })
+    expect(result.workerResults[0].result).toContain('Recommendation: Cap discretionary travel')
+    expect(result.synthesis).toMatch(/^Q3 operating expenses ran 8\.3% \(\$150K\) over budget/)
+    expect(result.synthesis).toContain('Recommendations:\n1. Reinstate travel pre-approval')
+  })
+
+  it('records the usage of each worker call', async () => {
+    await new FinancialOrchestrator('user-1').analyze(VARIANCE_TASK, {
+      documentContent: 'Q3 opex: budget $1.80M, actual $1.95M. Travel $0.21M vs $0.12M budget; headcount on plan.',
+      targetAudience: 'CFO',
+    })
+
+    const logs = fakeSupabase.rows('usage_logs')
+    expect(logs).toHaveLength(4)
+    expect(logs.every(row => (row.details as { feature: string }).feature === 'orchestrator')).toBe(true)
+  })
+})
@@ -1,4 +1,5 @@
-import Anthropic from '@anthropic-ai/sdk'
+import { generateText, wrapUntrusted } from '@/lib/llm'
+import { definePromptTemplate, renderPrompt, type PromptTemplate, type PromptVariables } from '@/lib/prompts'
 
 /**
  * Orchestrator-Workers Pattern Implementation
@@ -8,10 +9,6 @@ import Anthropic from '@anthropic-ai/sdk'
  * that can be processed by specialized workers.
  */
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-})
-
 // Task types for financial analysis
 export type FinancialTaskType =
   | 'variance_analysis'
@@ -42,7 +39,16 @@ export interface OrchestratorResult {
 }
 
 // Orchestrator prompt for financial analysis
-const ORCHESTRATOR_PROMPT = `You are a financial analysis orchestrator. Your role is to analyze complex financial tasks and break them down into specialized subtasks.
+export const ORCHESTRATOR_PROMPT = definePromptTemplate({
+  key: 'orchestrator.plan',
+  name: 'Analysis planner',
+  description: 'Breaks a complex analysis request into 2-4 subtasks for the workers.',
+  variables: {
+    task: 'The analysis request',
+    target_audience: 'A "Target Audience: ..." line when the caller names one, otherwise empty',
+  },
+  required: ['task'],
+  content: `You are a financial analysis orchestrator. Your role is to analyze complex financial tasks and break them down into specialized subtasks.
 
 For each task, identify 2-4 distinct analysis approaches that would provide comprehensive insights.
 
@@ -68,10 +74,24 @@ Consider the stakeholder needs and what insights would drive decisions.
     <priority>[1-4, where 1 is highest]</priority>
     <description>Specific instructions for this analysis, including what metrics to focus on</description>
   </task>
-</tasks>`
+</tasks>
+
+Task: {task}{target_audience}`,
+})
 
 // Worker prompt template
-const WORKER_PROMPT = `You are a specialized financial analyst. Generate a detailed analysis based on:
+export const WORKER_PROMPT = definePromptTemplate({
+  key: 'orchestrator.worker',
+  name: 'Analysis worker',
+  description: 'Runs one subtask from the planner.',
+  variables: {
+    original_task: 'The analysis request',
+    task_type: 'Analysis type of the subtask, e.g. variance_analysis',
+    task_description: 'Instructions for the subtask from the planner',
+    context: 'Document content and historical data, when provided',
+  },
+  required: ['original_task', 'task_type', 'task_description'],
+  content: `You are a specialized financial analyst. Generate a detailed analysis based on:
 
 Original Request: {original_task}
 Analysis Type: {task_type}
@@ -99,10 +119,20 @@ Key metrics in JSON format (if applicable):
 
 <recommendation>
 Actionable recommendations based on your analysis
-</recommendation>`
+</recommendation>`,
+})
 
 // Synthesis prompt for combining worker results
-const SYNTHESIS_PROMPT = `You are a senior financial analyst. Synthesize the following analysis results into a cohesive executive summary.
+export const SYNTHESIS_PROMPT = definePromptTemplate({
+  key: 'orchestrator.synthesis',
+  name: 'Analysis synthesis',
+  description: 'Combines the worker results into an executive summary.',
+  variables: {
+    original_task: 'The analysis request',
+    worker_results: 'Results of each worker, with their metrics',
+  },
+  required: ['original_task', 'worker_results'],
+  content: `You are a senior financial analyst. Synthesize the following analysis results into a cohesive executive summary.
 
 Original Task: {original_task}
 
@@ -128,7 +158,8 @@ Your synthesized summary here
 
 <recommendations>
 Prioritized list of recommendations with expected impact
-</recommendations>`
+</recommendations>`,
+})
 
 /**
  * Parse XML tasks from orchestrator response
@@ -168,20 +199,11 @@ function extractXml(content: string, tag: string): string {
 }
 
 /**
- * Make an LLM call
+ * Make an LLM call on the worker model route
  */
-async function llmCall(
-  prompt: string,
-  model: string = 'claude-sonnet-4-20250514'
-): Promise<string> {
-  const response = await anthropic.messages.create({
-    model,
-    max_tokens: 4096,
-    messages: [{ role: 'user', content: prompt }],
-  })
-
-  const textBlock = response.content.find((block) => block.type === 'text')
-  return textBlock?.type === 'text' ? textBlock.text : ''
+async function llmCall(prompt: string, userId?: string): Promise<string> {
+  const { text } = await generateText('worker', { prompt, maxTokens: 4096 }, { userId, usage: { feature: 'orchestrator' } })
+  return text
 }
 
 /**
@@ -189,10 +211,19 @@ async function llmCall(
  * Breaks down complex financial analysis into specialized subtasks
  */
 export class FinancialOrchestrator {
-  private model: string
+  // Selects the organization's model configuration
+  private userId?: string
 
-  constructor(model: string = 'claude-sonnet-4-20250514') {
-    this.model = model
+  constructor(userId?: string) {
+    this.userId = userId
+  }
+
+  /**
+   * Render a prompt with the organization's template version
+   */
+  private async prompt(template: PromptTemplate, variables: PromptVariables): Promise<string> {
+    const { text } = await renderPrompt(template, variables, { userId: this.userId })
+    return text
   }
 
   /**
@@ -207,11 +238,12 @@ export class FinancialOrchestrator {
     }
   ): Promise<OrchestratorResult> {
     // Step 1: Orchestrator analyzes task and creates subtasks
-    const orchestratorInput = `${ORCHESTRATOR_PROMPT}\n\nTask: ${task}${
-      context?.targetAudience ? `\nTarget Audience: ${context.targetAudience}` : ''
-    }`
+    const orchestratorInput = await this.prompt(ORCHESTRATOR_PROMPT, {
+      task,
+      target_audience: context?.targetAudience ? `\nTarget Audience: ${context.targetAudience}` : '',
+    })
 
-    const orchestratorResponse = await llmCall(orchestratorInput, this.model)
+    const orchestratorResponse = await llmCall(orchestratorInput, this.userId)
 
     const analysis = extractXml(orchestratorResponse, 'analysis')
     const tasksXml = extractXml(orchestratorResponse, 'tasks')
@@ -228,19 +260,20 @@ export class FinancialOrchestrator {
       // Build context string
       let contextStr = ''
       if (context?.documentContent) {
-        contextStr += `\n<document_context>\n${context.documentContent}\n</document_context>`
+        contextStr += `\n<document_context>\n${wrapUntrusted(context.documentContent)}\n</document_context>`
       }
       if (context?.historicalData) {
         contextStr += `\n<historical_data>\n${JSON.stringify(context.historicalData, null, 2)}\n</historical_data>`
       }
 
-      const workerInput = WORKER_PROMPT
-        .replace('{original_task}', task)
-        .replace('{task_type}', subtask.type)
-        .replace('{task_description}', subtask.description)
-        .replace('{context}', contextStr)
+      const workerInput = await this.prompt(WORKER_PROMPT, {
+        original_task: task,
+        task_type: subtask.type,
+        task_description: subtask.description,
+        context: contextStr,
+      })
 
-      const workerResponse = await llmCall(workerInput, this.model)
+      const workerResponse = await llmCall(workerInput, this.userId)
 
       const analysisContent = extractXml(workerResponse, 'analysis')
       const metricsJson = extractXml(workerResponse, 'metrics')
@@ -277,11 +310,12 @@ export class FinancialOrchestrator {
       )
       .join('\n')
 
-    const synthesisInput = SYNTHESIS_PROMPT
-      .replace('{original_task}', task)
-      .replace('{worker_results}', workerResultsFormatted)
+    const synthesisInput = await this.prompt(SYNTHESIS_PROMPT, {
+      original_task: task,
+      worker_results: workerResultsFormatted,
+    })
 
-    const synthesisResponse = await llmCall(synthesisInput, this.model)
+    const synthesisResponse = await llmCall(synthesisInput, this.userId)
 
     const executiveSummary = extractXml(synthesisResponse, 'executive_summary')
     const keyInsights = extractXml(synthesisResponse, 'key_insights')
@@ -302,10 +336,11 @@ export class FinancialOrchestrator {
  * Based on: https://github.com/anthropics/claude-cookbooks/blob/main/patterns/agents/evaluator_optimizer.ipynb
  */
 export class ReportEvaluator {
-  private model: string
+  // Selects the organization's model configuration
+  private userId?: string
 
-  constructor(model: string = 'claude-sonnet-4-20250514') {
-    this.model = model
+  constructor(userId?: string) {
+    this.userId = userId
   }
 
   /**
@@ -361,7 +396,7 @@ PASS, NEEDS_IMPROVEMENT, or FAIL
 Specific feedback for improvement, organized by criterion
 </feedback>`
 
-    const response = await llmCall(evaluationPrompt, this.model)
+    const response = await llmCall(evaluationPrompt, this.userId)
 
     const scoresJson = extractXml(response, 'scores')
     const evaluation = extractXml(response, 'evaluation').trim()
@@ -427,7 +462,7 @@ Maintain the same structure but enhance quality.
 Your improved report here
 </improved_report>`
 
-      const response = await llmCall(optimizePrompt, this.model)
+      const response = await llmCall(optimizePrompt, this.userId)
       currentReport = extractXml(response, 'improved_report') || currentReport
     }
 
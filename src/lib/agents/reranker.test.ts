@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fakeSupabase } from '@/test/fake-supabase'
+import { requestJsonOutput } from './json-mode'
+import { DEFAULT_RERANK_CONFIG, getRerankConfigForUser, getReranker, type RerankStrategy } from './reranker'
+
+vi.mock('@/lib/supabase/server', async () => (await import('@/test/fake-supabase')).supabaseServerMock)
+
+vi.mock('./json-mode', async importOriginal => {
+  const actual = await importOriginal<typeof import('./json-mode')>()
+  return { ...actual, requestJsonOutput: vi.fn(actual.requestJsonOutput) }
+})
+
+// The provider sees only what is sent to messages.create
+const anthropicCreate = vi.hoisted(() => vi.fn())
+vi.mock('@/lib/llm/clients', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/llm/clients')>(),
+  getAnthropicClient: () => ({ messages: { create: anthropicCreate } }),
+}))
+
+function withOrganizationSettings(settings: Record<string, unknown>) {
+  fakeSupabase.reset({
+    tables: {
+      organization_members: [{ user_id: 'user-1', organization_id: 'org-1', organizations: { settings } }],
+    },
+  })
+}
+
+function withRerankSettings(rerank: unknown) {
+  withOrganizationSettings({ search: { rerank } })
+}
+
+describe('getRerankConfigForUser', () => {
+
+  it('accepts configured strategies', async () => {
+    withRerankSettings({ strategy: 'llm', candidateMultiplier: 4 })
+    await expect(getRerankConfigForUser('user-1')).resolves.toMatchObject({ strategy: 'llm', candidateMultiplier: 4 })
+  })
+
+  it('ignores inherited object keys as strategies', async () => {
+    for (const strategy of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      withRerankSettings({ strategy })
+      await expect(getRerankConfigForUser('user-1')).resolves.toMatchObject({ strategy: DEFAULT_RERANK_CONFIG.strategy })
+    }
+  })
+
+  it('clamps the candidate multiplier and MMR lambda', async () => {
+    withRerankSettings({ candidateMultiplier: 50, mmrLambda: -1 })
+    await expect(getRerankConfigForUser('user-1')).resolves.toMatchObject({ candidateMultiplier: 5, mmrLambda: 0 })
+  })
+})
+
+describe('getReranker', () => {
+  it('falls back to the default reranker for unknown strategies', () => {
+    expect(getReranker('constructor' as RerankStrategy).strategy).toBe(DEFAULT_RERANK_CONFIG.strategy)
+  })
+
+  it('keeps retrieval order with the none strategy', async () => {
+    const candidates = [
+      { id: 'a', content: 'Revenue rose', score: 0.3 },
+      { id: 'b', content: 'Costs fell', score: 0.2 },
+    ]
+    const ranked = await getReranker('none').rerank('revenue', candidates, 2, DEFAULT_RERANK_CONFIG)
+    expect(ranked.map(r => r.candidate.id)).toEqual(['a', 'b'])
+  })
+})
+
+describe('mmr reranker', () => {
+  const candidates = [
+    { id: 'q3', content: 'Revenue grew 10% to $5.2m in Q3 2024.', score: 0.9 },
+    { id: 'q3-restated', content: 'Restated: revenue grew 10% to $5.2m in Q3 2024.', score: 0.85 },
+    { id: 'costs', content: 'Operating costs fell 4% on lower headcount.', score: 0.6 },
+    { id: 'outlook', content: 'Management expects flat margins next year.', score: 0.1 },
+  ]
+
+  it('suppresses near-duplicate passages', async () => {
+    const ranked = await getReranker('mmr').rerank('Q3 revenue', candidates, 3, DEFAULT_RERANK_CONFIG)
+
+    expect(ranked.map(r => r.candidate.id)).toEqual(['q3', 'costs', 'q3-restated'])
+    expect(ranked[2].reason).toMatch(/\d+% overlap with passages already selected/)
+    expect(ranked[2].rerankScore).toBeLessThan(ranked[1].rerankScore)
+  })
+
+  it('keeps retrieval order when lambda favours relevance only', async () => {
+    const ranked = await getReranker('mmr').rerank('Q3 revenue', candidates, 3, { ...DEFAULT_RERANK_CONFIG, mmrLambda: 1 })
+    expect(ranked.map(r => r.candidate.id)).toEqual(['q3', 'q3-restated', 'costs'])
+  })
+})
+
+describe('llm reranker', () => {
+  const candidates = [
+    { id: 'a', content: 'Interest expense was $1.2m in Q3.', score: 0.8 },
+    { id: 'b', content: 'The board met four times.', score: 0.7 },
+    { id: 'c', content: 'Net debt fell to $10m.', score: 0.6 },
+  ]
+  const config = { ...DEFAULT_RERANK_CONFIG, strategy: 'llm' as const }
+
+  it('records the model score and reason for each result', async () => {
+    vi.mocked(requestJsonOutput).mockResolvedValueOnce({
+      result: {
+        rankings: [
+          { index: 1, score: 2, reason: 'Unrelated' },
+          { index: 2, score: 6, reason: '' },
+          { index: 0, score: 9, reason: 'States Q3 interest expense' },
+          { index: 0, score: 1, reason: 'Duplicate' },
+        ],
+      },
+      raw: '',
+    })
+
+    const ranked = await getReranker('llm').rerank('Q3 interest expense', candidates, 2, config)
+
+    expect(ranked.map(r => [r.candidate.id, r.rerankScore, r.reason])).toEqual([
+      ['a', 0.9, 'States Q3 interest expense'],
+      ['c', 0.6, 'LLM relevance 6/10'],
+    ])
+  })
+
+  it('falls back to retrieval order when the model output is unusable', async () => {
+    vi.mocked(requestJsonOutput).mockResolvedValueOnce({ result: { rankings: [{ index: 7, score: 10, reason: 'Out of range' }] }, raw: '' })
+    const outOfRange = await getReranker('llm').rerank('Q3 interest expense', candidates, 2, config)
+    expect(outOfRange.map(r => r.candidate.id)).toEqual(['a', 'b'])
+
+    vi.mocked(requestJsonOutput).mockResolvedValueOnce({ result: null, raw: 'not json' })
+    const unparsed = await getReranker('llm').rerank('Q3 interest expense', candidates, 2, config)
+    expect(unparsed.map(r => r.reason)).toEqual(['Retrieval rank 1', 'Retrieval rank 2'])
+  })
+})
+
+describe('llm reranker redaction', () => {
+  it('sends the passages redacted under the organization policy and meters the call', async () => {
+    withOrganizationSettings({ search: { rerank: { strategy: 'llm' } }, redaction: { kinds: ['iban', 'email'] } })
+    anthropicCreate.mockResolvedValueOnce({
+      content: [{ type: 'text', text: '<json>{"rankings":[{"index":1,"score":9,"reason":"Names the payment account"}]}</json>' }],
+      usage: { input_tokens: 420, output_tokens: 30 },
+    })
+    const candidates = [
+      { id: 'a', content: 'The board met four times.', score: 0.8 },
+      { id: 'b', content: 'Supplier payments go to GB82WEST12345698765432, contact ap@example.com.', score: 0.7 },
+    ]
+
+    const config = await getRerankConfigForUser('user-1')
+    const ranked = await getReranker(config.strategy).rerank('Which account are suppliers paid from?', candidates, 1, config)
+
+    expect(ranked.map(r => r.candidate.id)).toEqual(['b'])
+    const { messages } = anthropicCreate.mock.calls[0][0] as { messages: { content: string }[] }
+    expect(messages[0].content).not.toContain('GB82WEST12345698765432')
+    expect(messages[0].content).not.toContain('ap@example.com')
+    expect(messages[0].content).toMatch(/\[\[IBAN_[0-9a-f]{8}\]\].*\[\[EMAIL_[0-9a-f]{8}\]\]/)
+    expect(fakeSupabase.rows('usage_logs')).toEqual([
+      expect.objectContaining({ user_id: 'user-1', action: 'llm_usage', details: expect.objectContaining({ role: 'extraction', inputTokens: 420 }) }),
+    ])
+  })
+})
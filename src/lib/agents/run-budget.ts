@@ -0,0 +1,89 @@
+import type { Database, Json } from '@/types/database'
+
+/**
+ * Agent Run Budget
+ *
+ * Caps a single streamFinanceChat run by model iterations, wall-clock time
+ * and total tokens. Defaults are set per role; profiles.agent_budget can
+ * override individual limits for a user.
+ */
+
+type UserRole = Database['public']['Enums']['user_role']
+
+export interface RunBudget {
+  maxIterations: number
+  maxDurationMs: number
+  maxTotalTokens: number
+}
+
+export type BudgetExhaustedReason = 'iterations' | 'time' | 'tokens'
+
+// /api/chat has maxDuration = 60; leave headroom for the forced final answer.
+// Tool timeouts are capped at the time left, so tool rounds end within the budget too.
+export const MAX_RUN_DURATION_MS = 45000
+
+export const ROLE_RUN_BUDGETS: Record<UserRole, RunBudget> = {
+  viewer: { maxIterations: 4, maxDurationMs: 35000, maxTotalTokens: 80000 },
+  analyst: { maxIterations: 6, maxDurationMs: 45000, maxTotalTokens: 150000 },
+  bu_manager: { maxIterations: 6, maxDurationMs: 45000, maxTotalTokens: 150000 },
+  group_cfo: { maxIterations: 8, maxDurationMs: 45000, maxTotalTokens: 250000 },
+  admin: { maxIterations: 8, maxDurationMs: 45000, maxTotalTokens: 250000 },
+}
+
+export const DEFAULT_RUN_BUDGET: RunBudget = ROLE_RUN_BUDGETS.analyst
+
+function positive(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined
+}
+
+/**
+ * Resolve the budget for a role, applying any per-profile overrides
+ */
+export function resolveRunBudget(role?: UserRole | null, override?: Json | null): RunBudget {
+  const base = (role && ROLE_RUN_BUDGETS[role]) || DEFAULT_RUN_BUDGET
+  const raw = (override && typeof override === 'object' && !Array.isArray(override) ? override : {}) as Record<string, unknown>
+
+  return {
+    maxIterations: Math.round(positive(raw.maxIterations) ?? base.maxIterations),
+    // An override can shorten the run but not eat into the final answer's headroom
+    maxDurationMs: Math.min(positive(raw.maxDurationMs) ?? base.maxDurationMs, MAX_RUN_DURATION_MS),
+    maxTotalTokens: positive(raw.maxTotalTokens) ?? base.maxTotalTokens,
+  }
+}
+
+/**
+ * Tracks consumption against a budget over the course of one run
+ */
+export class RunBudgetTracker {
+  private readonly startedAt = Date.now()
+  private iterations = 0
+  private tokens = 0
+
+  constructor(readonly budget: RunBudget) {}
+
+  recordIteration(usage: { input_tokens: number; output_tokens: number }) {
+    this.iterations++
+    this.tokens += usage.input_tokens + usage.output_tokens
+  }
+
+  get elapsedMs(): number {
+    return Date.now() - this.startedAt
+  }
+
+  /**
+   * Wall-clock time left before the time limit, never negative
+   */
+  remainingMs(): number {
+    return Math.max(this.budget.maxDurationMs - this.elapsedMs, 0)
+  }
+
+  /**
+   * The first limit that has been reached, or null while budget remains
+   */
+  exhaustedReason(): BudgetExhaustedReason | null {
+    if (this.iterations >= this.budget.maxIterations) return 'iterations'
+    if (this.elapsedMs >= this.budget.maxDurationMs) return 'time'
+    if (this.tokens >= this.budget.maxTotalTokens) return 'tokens'
+    return null
+  }
+}
@@ -0,0 +1,383 @@
+import { createSdkMcpServer, query, tool, type ModelUsage, type SDKMessage } from '@anthropic-ai/claude-agent-sdk'
+import type { z } from 'zod'
+import {
+  addTokenUsage,
+  estimateCostUsd,
+  extractTokenUsage,
+  getRedactorForUser,
+  recordUsage,
+  resolveModelTargets,
+  wrapUntrusted,
+  type TokenUsage,
+} from '@/lib/llm'
+import { executeRegisteredTool, modelToolResult, type FinanceTool } from './tools'
+import { runToolCalls } from './tool-runner'
+import { RunBudgetTracker, DEFAULT_RUN_BUDGET, type BudgetExhaustedReason } from './run-budget'
+import {
+  BUDGET_EXHAUSTED_FALLBACK,
+  formatConversationSummary,
+  prepareFinanceRun,
+  restoringCallbacks,
+  toolInput,
+  toolProgressMessage,
+  type ChatMessage,
+  type FinanceChatOptions,
+  type StreamCallbacks,
+} from './finance-agent'
+
+/**
+ * Session Agent Backend (Claude Agent SDK)
+ *
+ * Runs the finance agent as an Agent SDK session instead of a hand-rolled
+ * Messages API loop. The session keeps the full conversation - tool calls,
+ * tool results and earlier answers - so a follow-up resumes it by id
+ * (threads.session_id) rather than replaying a truncated message history.
+ *
+ * Enabled with FINANCE_AGENT_BACKEND=agent-sdk. Finance tools are served
+ * from an in-process MCP server; Claude Code's built-in tools are disabled.
+ *
+ * The SDK stores sessions on the server's disk (under CLAUDE_CONFIG_DIR,
+ * ~/.claude by default), so instances that serve the same threads need to
+ * share that directory. When a session can't be resumed - another instance,
+ * a redeploy, a thread that predates sessions - the run starts a new session
+ * seeded with the recent history, which is what the Messages API backend sends.
+ */
+
+const MCP_SERVER_NAME = 'finance'
+const MCP_TOOL_PREFIX = `mcp__${MCP_SERVER_NAME}__`
+
+// Appended to the system prompt, which names tools without the MCP prefix
+const TOOL_NAMING_NOTE = `Tools are provided by the "${MCP_SERVER_NAME}" server: a tool named search_documents in these instructions is called ${MCP_TOOL_PREFIX}search_documents, and so on.`
+
+export function isSessionBackendEnabled(): boolean {
+  return process.env.FINANCE_AGENT_BACKEND === 'agent-sdk'
+}
+
+interface StartedCall {
+  id: string
+  name: string
+  inputKey: string
+  claimed: boolean
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+function toolShape(financeTool: FinanceTool): z.ZodRawShape {
+  const shape = (financeTool.schema as Partial<z.ZodObject<z.ZodRawShape>>).shape
+  if (!shape) {
+    throw new Error(`Tool ${financeTool.name} needs an object schema to run in an Agent SDK session`)
+  }
+  return shape
+}
+
+/**
+ * The prompt for a session turn. A new session gets the recent history inline,
+ * since it has no transcript of its own yet.
+ */
+function buildSessionPrompt(messages: ChatMessage[], resuming: boolean): string {
+  const latest = messages[messages.length - 1]?.content || ''
+  const history = messages.slice(0, -1)
+  if (resuming || history.length === 0) return latest
+
+  const transcript = history.map(m => `<${m.role}>\n${m.content}\n</${m.role}>`).join('\n\n')
+  return `<conversation_history>\n${transcript}\n</conversation_history>\n\n${latest}`
+}
+
+type SessionOutcome = 'done' | 'resume_failed'
+
+interface ModelRunUsage {
+  model: string
+  usage: TokenUsage
+  costUsd: number
+}
+
+/**
+ * Per-model usage from a session result. The fallback model can take over
+ * part way through, so the run is metered against every model that ran.
+ */
+function sessionModelUsage(modelUsage: Record<string, ModelUsage> | undefined): ModelRunUsage[] {
+  return Object.entries(modelUsage || {}).map(([model, usage]) => ({
+    model,
+    usage: {
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheCreationTokens: usage.cacheCreationInputTokens,
+      cacheReadTokens: usage.cacheReadInputTokens,
+    },
+    costUsd: usage.costUSD,
+  }))
+}
+
+export async function streamFinanceSession(
+  messages: ChatMessage[],
+  callbacks: StreamCallbacks,
+  options: FinanceChatOptions & { resumeSessionId?: string | null }
+) {
+  // Sensitive values are swapped for tokens in everything sent to the model
+  const redactor = await getRedactorForUser(options.userId)
+  try {
+    // A resumed session only gets the new message, but can name values from earlier turns
+    await redactor.loadThread(options.threadId)
+    callbacks = restoringCallbacks(callbacks, redactor, options.role)
+    messages.forEach(m => redactor.redact(m.content))
+
+    const run = await prepareFinanceRun(options)
+    const budget = options.runBudget || DEFAULT_RUN_BUDGET
+    const [target, fallback] = await resolveModelTargets('chat', {
+      userId: options.userId,
+      providers: ['anthropic'],
+    })
+
+    // A resumed session has the whole conversation; a new one gets the thread summary with its seeded history.
+    // Most stable sections first, so the cached prompt prefix is shared across users and turns.
+    const buildSystemPrompt = (resuming: boolean) => redactor.redact([
+      run.systemPrompt,
+      TOOL_NAMING_NOTE,
+      run.knowledgeBasePrompt || '',
+      options.documentContext ? `<document_context>\n${wrapUntrusted(options.documentContext)}\n</document_context>` : '',
+      !resuming && options.conversationSummary ? formatConversationSummary(options.conversationSummary) : '',
+    ].filter(Boolean).join('\n\n'))
+
+    const runSession = async (resumeSessionId?: string): Promise<SessionOutcome> => {
+      const startedCalls: StartedCall[] = []
+      const countedMessages = new Set<string>()
+      let accumulatedText = ''
+      let iterationText = ''
+      let produced = false // Anything streamed to the client yet
+      let totalUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 }
+      // Usage by the model named in each API response, for a session that ends without a result
+      const streamedUsage = new Map<string, TokenUsage>()
+      // The run's usage, recorded in usage_logs once the session ends
+      let metered: { usage: TokenUsage; costUsd: number; models: ModelRunUsage[] } | undefined
+      const streamedModels = (): ModelRunUsage[] =>
+        [...streamedUsage].map(([model, usage]) => ({ model, usage, costUsd: estimateCostUsd(model, usage) }))
+      let exhausted: BudgetExhaustedReason | undefined
+
+      const abortController = new AbortController()
+      const stopForBudget = (reason: BudgetExhaustedReason) => {
+        exhausted = exhausted || reason
+        abortController.abort()
+      }
+      const timer = setTimeout(() => stopForBudget('time'), budget.maxDurationMs)
+      const clock = new RunBudgetTracker(budget)
+
+      // Tool handlers don't get the tool_use id; match them to the blocks the model sent
+      const claimCallId = (name: string, input: unknown): string => {
+        const inputKey = canonicalJson(input)
+        const call =
+          startedCalls.find(c => !c.claimed && c.name === name && c.inputKey === inputKey) ||
+          startedCalls.find(c => !c.claimed && c.name === name)
+        if (call) {
+          call.claimed = true
+          return call.id
+        }
+
+        const id = `${name}-${startedCalls.length + 1}`
+        startedCalls.push({ id, name, inputKey, claimed: true })
+        callbacks.onToolStart(name, input, id)
+        return id
+      }
+
+      const executeTool = async (financeTool: FinanceTool, input: unknown) => {
+        const id = claimCallId(financeTool.name, input)
+        produced = true
+
+        const [result] = await runToolCalls(
+          [{ id, name: financeTool.name, input }],
+          call => executeRegisteredTool(run.tools, call.name, toolInput(call.name, call.input, redactor, options.role), {
+            userId: options.userId,
+            threadId: options.threadId,
+            role: options.role,
+          }),
+          {
+            timeoutsMs: run.toolTimeoutsMs,
+            // Aborting the session doesn't stop a running tool; end it with the budget
+            maxTimeoutMs: clock.remainingMs(),
+            onProgress: (call, elapsedMs) => {
+              callbacks.onToolProgress?.(call.name, {
+                toolUseId: call.id,
+                elapsedMs,
+                message: toolProgressMessage(call.name, elapsedMs),
+              })
+            },
+            onResult: (call, toolResult) => {
+              options.toolContextAccumulator?.add(call.name, toolResult)
+              callbacks.onToolResult(call.name, toolResult, call.id)
+            },
+          }
+        )
+        return result
+      }
+
+      const server = createSdkMcpServer({
+        name: MCP_SERVER_NAME,
+        version: '1.0.0',
+        tools: run.tools.map(financeTool =>
+          tool(financeTool.name, financeTool.description, toolShape(financeTool), async args => {
+            const result = await executeTool(financeTool, args)
+            return {
+              content: [{ type: 'text' as const, text: JSON.stringify(redactor.redactValue(modelToolResult(run.tools, financeTool.name, result))) }],
+              isError: (result as { type?: string } | undefined)?.type === 'error',
+            }
+          })
+        ),
+      })
+
+      const handleMessage = (message: SDKMessage) => {
+        // Subagent output isn't part of the answer
+        if ('parent_tool_use_id' in message && message.parent_tool_use_id) return
+
+        if (message.type === 'stream_event') {
+          const event = message.event
+          if (event.type === 'message_start') {
+            iterationText = ''
+          } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            // Separate this model call's text from what was streamed before the tools ran
+            if (!iterationText && accumulatedText && !accumulatedText.endsWith('\n')) {
+              callbacks.onText('\n\n')
+              accumulatedText += '\n\n'
+            }
+            iterationText += event.delta.text
+            accumulatedText += event.delta.text
+            produced = true
+            callbacks.onText(event.delta.text)
+          }
+          return
+        }
+
+        if (message.type === 'assistant') {
+          const apiMessage = message.message
+          // One API response can arrive as several messages, one per content block
+          if (!countedMessages.has(apiMessage.id)) {
+            countedMessages.add(apiMessage.id)
+            const usage = extractTokenUsage(apiMessage) || { inputTokens: 0, outputTokens: 0 }
+            totalUsage = addTokenUsage(totalUsage, usage)
+            streamedUsage.set(apiMessage.model, addTokenUsage(streamedUsage.get(apiMessage.model) || { inputTokens: 0, outputTokens: 0 }, usage))
+            if (totalUsage.inputTokens + totalUsage.outputTokens >= budget.maxTotalTokens) stopForBudget('tokens')
+          }
+
+          for (const block of apiMessage.content) {
+            if (block.type !== 'tool_use' || !block.name.startsWith(MCP_TOOL_PREFIX)) continue
+            const name = block.name.slice(MCP_TOOL_PREFIX.length)
+            startedCalls.push({ id: block.id, name, inputKey: canonicalJson(block.input), claimed: false })
+            produced = true
+            callbacks.onToolStart(name, block.input, block.id)
+          }
+          return
+        }
+
+        if (message.type === 'result') {
+          if (message.subtype === 'error_max_turns') {
+            exhausted = exhausted || 'iterations'
+          } else if (message.subtype !== 'success') {
+            throw new Error(message.errors.join('; ') || `Agent session failed: ${message.subtype}`)
+          }
+
+          callbacks.onSession?.(message.session_id)
+          if (exhausted && !accumulatedText.trim()) {
+            callbacks.onText(BUDGET_EXHAUSTED_FALLBACK)
+          }
+          // The SDK reports the cost of the whole session turn
+          const reported = sessionModelUsage(message.modelUsage)
+          metered = {
+            usage: extractTokenUsage(message) || totalUsage,
+            costUsd: message.total_cost_usd,
+            models: reported.length > 0 ? reported : streamedModels(),
+          }
+          callbacks.onDone({
+            ...metered.usage,
+            costUsd: metered.costUsd,
+            budgetExhausted: exhausted,
+            promptVersions: run.promptVersions,
+          })
+        }
+      }
+
+      const recordRunUsage = async () => {
+        if (!metered) return
+        for (const { model, usage, costUsd } of metered.models) {
+          await recordUsage('chat', { provider: target.provider, model }, usage, {
+            userId: options.userId,
+            threadId: options.threadId,
+            feature: 'chat',
+            costUsd,
+          })
+        }
+      }
+
+      try {
+        const session = query({
+          prompt: redactor.redact(buildSessionPrompt(messages, !!resumeSessionId)),
+          options: {
+            model: target.model,
+            fallbackModel: fallback?.model,
+            systemPrompt: buildSystemPrompt(!!resumeSessionId),
+            tools: [], // No built-in Claude Code tools, only the finance server
+            mcpServers: { [MCP_SERVER_NAME]: server },
+            allowedTools: run.tools.map(t => `${MCP_TOOL_PREFIX}${t.name}`),
+            permissionMode: 'dontAsk',
+            settingSources: [],
+            includePartialMessages: true,
+            // The final answer needs a turn after the last tool round
+            maxTurns: budget.maxIterations + 1,
+            resume: resumeSessionId,
+            abortController,
+          },
+        })
+
+        for await (const message of session) {
+          handleMessage(message)
+        }
+        await recordRunUsage()
+        return 'done'
+      } catch (error) {
+        if (exhausted) {
+          // Stopped for budget before a result arrived; the session is still saved
+          if (!accumulatedText.trim()) {
+            callbacks.onText(BUDGET_EXHAUSTED_FALLBACK)
+          }
+          const models = streamedModels()
+          metered = {
+            usage: totalUsage,
+            costUsd: models.reduce((sum, run) => sum + run.costUsd, 0),
+            models,
+          }
+          callbacks.onDone({
+            ...metered.usage,
+            costUsd: metered.costUsd,
+            budgetExhausted: exhausted,
+            promptVersions: run.promptVersions,
+          })
+          await recordRunUsage()
+          return 'done'
+        }
+        if (resumeSessionId && !produced) {
+          console.error('Agent session resume error:', error)
+          return 'resume_failed'
+        }
+        throw error
+      } finally {
+        clearTimeout(timer)
+      }
+    }
+
+    if (options.resumeSessionId) {
+      const outcome = await runSession(options.resumeSessionId)
+      if (outcome === 'done') return
+    }
+    await runSession()
+  } catch (error) {
+    callbacks.onError(error instanceof Error ? error : new Error(String(error)))
+  } finally {
+    await redactor.saveThread(options.threadId)
+  }
+}
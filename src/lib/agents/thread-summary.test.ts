@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fakeSupabase } from '@/test/fake-supabase'
+import { generateText } from '@/lib/llm'
+import { readThreadSummary, updateThreadSummary } from './thread-summary'
+
+vi.mock('@/lib/supabase/server', async () => (await import('@/test/fake-supabase')).supabaseServerMock)
+
+vi.mock('@/lib/llm', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/llm')>(),
+  generateText: vi.fn(),
+}))
+
+const THREAD_ID = 'thread-1'
+const WINDOW_SIZE = 12
+
+function messages(from: number, to: number) {
+  return Array.from({ length: to - from + 1 }, (_, i) => {
+    const n = from + i
+    return {
+      thread_id: THREAD_ID,
+      role: n % 2 === 1 ? 'user' : 'assistant',
+      content: `Message ${n}`,
+      created_at: new Date(Date.UTC(2024, 9, 1, 9, n)).toISOString(),
+    }
+  })
+}
+
+function promptSent(call: number): string {
+  return vi.mocked(generateText).mock.calls[call][1].prompt as string
+}
+
+describe('updateThreadSummary', () => {
+  beforeEach(() => {
+    vi.mocked(generateText).mockReset()
+    vi.mocked(generateText).mockResolvedValue({ text: '- **Key figures**: Q3 revenue $4.2M' } as Awaited<ReturnType<typeof generateText>>)
+    fakeSupabase.reset({
+      tables: {
+        threads: [{ id: THREAD_ID, metadata: { model: 'claude-sonnet' } }],
+        messages: messages(1, 20),
+      },
+    })
+  })
+
+  it('folds the messages that left the window into the summary', async () => {
+    const summary = await updateThreadSummary(THREAD_ID, { windowSize: WINDOW_SIZE, userId: 'user-1' })
+
+    // The newest windowSize - 4 messages stay out of the summary
+    expect(summary).toMatchObject({ messageCount: 12, summarizedThrough: messages(12, 12)[0].created_at })
+    expect(promptSent(0)).toContain('Message 1\n')
+    expect(promptSent(0)).toContain('Message 12\n')
+    expect(promptSent(0)).not.toContain('Message 13\n')
+
+    const metadata = fakeSupabase.rows('threads')[0].metadata as Record<string, unknown>
+    expect(metadata.model).toBe('claude-sonnet')
+    expect(readThreadSummary(metadata as never)).toEqual(summary)
+  })
+
+  it('only folds messages after the summarizedThrough cutoff', async () => {
+    const first = await updateThreadSummary(THREAD_ID, { windowSize: WINDOW_SIZE })
+
+    // Eight unsummarized messages fit the window: no model call
+    await expect(updateThreadSummary(THREAD_ID, { windowSize: WINDOW_SIZE })).resolves.toEqual(first)
+    expect(generateText).toHaveBeenCalledTimes(1)
+
+    fakeSupabase.rows('messages').push(...messages(21, 26))
+    const second = await updateThreadSummary(THREAD_ID, { windowSize: WINDOW_SIZE })
+
+    expect(second).toMatchObject({ messageCount: 18, summarizedThrough: messages(18, 18)[0].created_at })
+    expect(promptSent(1)).toContain('Q3 revenue $4.2M')
+    expect(promptSent(1)).not.toContain('Message 12\n')
+    expect(promptSent(1)).toContain('Message 13\n')
+    expect(promptSent(1)).toContain('Message 18\n')
+    expect(promptSent(1)).not.toContain('Message 19\n')
+  })
+})
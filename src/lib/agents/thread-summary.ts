@@ -0,0 +1,174 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { generateText } from '@/lib/llm'
+import { definePromptTemplate, renderPrompt } from '@/lib/prompts'
+import type { Json } from '@/types/database'
+
+/**
+ * Rolling Thread Summary
+ *
+ * The chat route only sends the most recent messages of a thread to the
+ * model. Messages that age out of that window are folded into a running
+ * summary stored in threads.metadata.summary, so figures, assumptions and
+ * decisions agreed early in a long thread stay in context.
+ *
+ * Folding runs after an answer is saved and only once the thread has grown
+ * past the window, then leaves some headroom, so most turns make no extra
+ * model call. Every message is either in the summary or in the window.
+ */
+
+export interface ThreadSummary {
+  text: string
+  summarizedThrough: string // created_at of the newest message folded in
+  messageCount: number // Messages folded in so far
+  updatedAt: string
+}
+
+interface SummarizableMessage {
+  role: string
+  content: string
+  created_at: string | null
+}
+
+// Messages kept out of the summary after folding, so the next few turns don't fold again
+const FOLD_HEADROOM = 4
+// Most aged-out messages folded in one call (older ones in long legacy threads are skipped)
+const MAX_FOLD_MESSAGES = 40
+// Per-message cap in the transcript sent to the summarizer
+const MAX_TRANSCRIPT_MESSAGE_LENGTH = 3000
+const MAX_SUMMARY_LENGTH = 6000
+
+export const THREAD_SUMMARY_PROMPT = definePromptTemplate({
+  key: 'thread.summary',
+  name: 'Conversation summary',
+  description: 'Folds messages that leave the chat context window into the running summary of a thread.',
+  variables: {
+    previous_summary: 'The summary so far, or "(none yet)"',
+    transcript: 'The messages to fold in, oldest first',
+    max_length: 'Maximum summary length in characters',
+  },
+  required: ['previous_summary', 'transcript'],
+  content: `You maintain the running summary of a conversation between a user and Ask Finance, a financial assistant. Older messages are removed from the assistant's context, so this summary is all it will remember of them.
+
+## Current Summary
+{previous_summary}
+
+## Messages To Fold In
+{transcript}
+
+## Your Task
+Rewrite the summary so it also covers the messages above. Keep these sections:
+- **Key figures** - every number stated or agreed, with its metric, period, unit and source
+- **Assumptions** - rates, scenarios, adjustments and definitions in use
+- **Decisions** - what the user chose, approved or ruled out
+- **Open questions** - what is unresolved or was asked for next
+
+Copy numbers exactly; never round or recompute them. When a figure or assumption was revised, keep only the latest value and say it replaced the earlier one. Leave out greetings, formatting chatter and chart details.
+
+Use short markdown bullets under those headings, at most {max_length} characters. Respond with the summary only.`,
+})
+
+/**
+ * Read the summary from threads.metadata; null if the thread has none
+ */
+export function readThreadSummary(metadata: Json | null | undefined): ThreadSummary | null {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return null
+  const summary = metadata.summary
+  if (!summary || typeof summary !== 'object' || Array.isArray(summary)) return null
+  if (typeof summary.text !== 'string' || typeof summary.summarizedThrough !== 'string') return null
+
+  return {
+    text: summary.text,
+    summarizedThrough: summary.summarizedThrough,
+    messageCount: typeof summary.messageCount === 'number' ? summary.messageCount : 0,
+    updatedAt: typeof summary.updatedAt === 'string' ? summary.updatedAt : summary.summarizedThrough,
+  }
+}
+
+function formatTranscript(messages: SummarizableMessage[]): string {
+  return messages
+    .map(m => {
+      const content = m.content.length > MAX_TRANSCRIPT_MESSAGE_LENGTH
+        ? `${m.content.substring(0, MAX_TRANSCRIPT_MESSAGE_LENGTH)}\n[...]`
+        : m.content
+      return `<${m.role}>\n${content}\n</${m.role}>`
+    })
+    .join('\n\n')
+}
+
+/**
+ * Fold the messages that fell out of the context window into the thread's
+ * summary. windowSize is the number of recent messages the chat route sends;
+ * nothing happens until the thread has more unsummarized messages than that.
+ * Failures are logged and retried on a later turn.
+ */
+export async function updateThreadSummary(
+  threadId: string,
+  options: { windowSize: number; userId?: string }
+): Promise<ThreadSummary | null> {
+  try {
+    const supabase = await createServiceClient()
+
+    const { data: thread, error: threadError } = await supabase
+      .from('threads')
+      .select('metadata')
+      .eq('id', threadId)
+      .single()
+    if (threadError) throw threadError
+
+    const previous = readThreadSummary(thread.metadata)
+
+    let query = supabase
+      .from('messages')
+      .select('role, content, created_at')
+      .eq('thread_id', threadId)
+      .order('created_at', { ascending: false })
+      .limit(options.windowSize + MAX_FOLD_MESSAGES)
+    if (previous) {
+      query = query.gt('created_at', previous.summarizedThrough)
+    }
+
+    const { data: newestFirst, error: messagesError } = await query
+    if (messagesError) throw messagesError
+    if (!newestFirst || newestFirst.length <= options.windowSize) return previous
+
+    // Keep the newest messages out of the summary, with some headroom
+    const keep = Math.max(options.windowSize - FOLD_HEADROOM, 2)
+    const agedOut = newestFirst.slice(keep).reverse()
+    const summarizedThrough = agedOut[agedOut.length - 1].created_at
+    if (!summarizedThrough) return previous
+
+    const { text: prompt } = await renderPrompt(THREAD_SUMMARY_PROMPT, {
+      previous_summary: previous?.text || '(none yet)',
+      transcript: formatTranscript(agedOut),
+      max_length: String(MAX_SUMMARY_LENGTH),
+    }, { userId: options.userId })
+
+    const { text } = await generateText('synthesis', { prompt, maxTokens: 2048, temperature: 0 }, {
+      userId: options.userId,
+      usage: { threadId, feature: 'thread_summary' },
+    })
+    if (!text.trim()) return previous
+
+    const summary: ThreadSummary = {
+      text: text.trim().slice(0, MAX_SUMMARY_LENGTH),
+      summarizedThrough,
+      messageCount: (previous?.messageCount || 0) + agedOut.length,
+      updatedAt: new Date().toISOString(),
+    }
+
+    // Other metadata keys (e.g. model) are kept
+    const metadata = thread.metadata && typeof thread.metadata === 'object' && !Array.isArray(thread.metadata)
+      ? thread.metadata
+      : {}
+    const { error: updateError } = await supabase
+      .from('threads')
+      .update({ metadata: { ...metadata, summary: { ...summary } } })
+      .eq('id', threadId)
+    if (updateError) throw updateError
+
+    return summary
+  } catch (error) {
+    console.error('Failed to update thread summary:', error)
+    return null
+  }
+}
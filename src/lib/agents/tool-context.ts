@@ -112,7 +112,9 @@ export class ToolContextAccumulator {
     // Handle search results
     if (toolName === 'search_documents' || toolName.includes('search')) {
       const citations = resultObj.citations as unknown[] || []
-      context.summary = `Found ${citations.length} relevant document sections`
+      context.summary = resultObj.status === 'ok'
+        ? `Found ${citations.length} relevant document sections`
+        : String(resultObj.message || 'No supporting documents found')
       return context
     }
 
@@ -235,7 +237,7 @@ export class ToolContextAccumulator {
         dataPoints.push({
           label: field.charAt(0).toUpperCase() + field.slice(1),
           value: result[field] as number,
-          unit: field.includes('percent') || field.includes('roi') ? '%' : undefined,
+          unit: result.unit === 'percent' || field.includes('percent') || field.includes('roi') ? '%' : undefined,
         })
       }
     }
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { runToolCalls, type ToolTimeoutResult } from './tool-runner'
+import { RunBudgetTracker } from './run-budget'
+
+const never = () => new Promise<unknown>(() => {})
+
+describe('runToolCalls', () => {
+  it('returns results in call order', async () => {
+    const calls = [
+      { id: '1', name: 'slow', input: 30 },
+      { id: '2', name: 'fast', input: 1 },
+    ]
+    const reported: string[] = []
+    const results = await runToolCalls(
+      calls,
+      call => new Promise(resolve => setTimeout(() => resolve(call.name), call.input as number)),
+      { onResult: call => reported.push(call.id) }
+    )
+
+    expect(results).toEqual(['slow', 'fast'])
+    expect(reported).toEqual(['1', '2'])
+  })
+
+  it('caps per-tool timeouts at maxTimeoutMs', async () => {
+    const [result] = await runToolCalls([{ id: '1', name: 'search', input: {} }], never, {
+      timeoutsMs: { search: 30000 },
+      maxTimeoutMs: 20,
+    })
+
+    expect((result as ToolTimeoutResult).status).toBe('timeout')
+    expect((result as ToolTimeoutResult).timeoutMs).toBe(20)
+  })
+
+  it('times tools out immediately once the run budget is spent', async () => {
+    const budget = new RunBudgetTracker({ maxIterations: 4, maxDurationMs: 0, maxTotalTokens: 1000 })
+    const [result] = await runToolCalls([{ id: '1', name: 'search', input: {} }], never, {
+      maxTimeoutMs: budget.remainingMs(),
+    })
+
+    expect((result as ToolTimeoutResult).timeoutMs).toBe(0)
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Concurrent Tool Runner
+ *
+ * Executes the tool_use blocks of one assistant turn concurrently, up to a
+ * concurrency limit. Results are always returned - and reported through
+ * onResult - in the original block order, so the conversation sent back to
+ * the model and the SSE stream are deterministic regardless of which tool
+ * finishes first. A tool that exceeds its timeout yields a structured
+ * timeout result instead of failing the turn.
+ */
+
+export interface ToolCall {
+  id: string
+  name: string
+  input: unknown
+}
+
+export interface ToolTimeoutResult {
+  type: 'error'
+  status: 'timeout'
+  tool: string
+  timeoutMs: number
+  error: string
+}
+
+export interface ToolRunnerOptions {
+  concurrency?: number
+  // Per-tool timeouts; tools not listed use DEFAULT_TOOL_TIMEOUT_MS
+  timeoutsMs?: Record<string, number>
+  // Upper bound on every timeout, e.g. the time left in the run budget
+  maxTimeoutMs?: number
+  onResult?: (call: ToolCall, result: unknown, index: number) => void
+  // Heartbeat for tools still running after each progress interval
+  onProgress?: (call: ToolCall, elapsedMs: number) => void
+  progressIntervalMs?: number
+}
+
+export const DEFAULT_TOOL_CONCURRENCY = 4
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 30000
+
+export const DEFAULT_PROGRESS_INTERVAL_MS = 3000
+
+function timeoutFor(name: string, overrides?: Record<string, number>, maxMs?: number): number {
+  const ms = overrides?.[name] ?? DEFAULT_TOOL_TIMEOUT_MS
+  return maxMs === undefined ? ms : Math.max(Math.min(ms, maxMs), 0)
+}
+
+/**
+ * Resolve with the promise's value, or with onTimeout() once ms elapse.
+ * The underlying work is not cancelled; its eventual result is discarded.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, onTimeout: () => T): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<T>(resolve => {
+    timer = setTimeout(() => resolve(onTimeout()), ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Run tool calls with bounded concurrency, preserving input order
+ */
+export async function runToolCalls(
+  calls: ToolCall[],
+  execute: (call: ToolCall) => Promise<unknown>,
+  options: ToolRunnerOptions = {}
+): Promise<unknown[]> {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_TOOL_CONCURRENCY)
+  const results: unknown[] = new Array(calls.length)
+  const settled: boolean[] = new Array(calls.length).fill(false)
+  let nextToStart = 0
+  let nextToReport = 0
+
+  // Report completed results in order, as soon as every earlier call is done
+  const flush = () => {
+    while (nextToReport < calls.length && settled[nextToReport]) {
+      options.onResult?.(calls[nextToReport], results[nextToReport], nextToReport)
+      nextToReport++
+    }
+  }
+
+  const runOne = async (index: number) => {
+    const call = calls[index]
+    const ms = timeoutFor(call.name, options.timeoutsMs, options.maxTimeoutMs)
+    const startedAt = Date.now()
+    const progressTimer = options.onProgress
+      ? setInterval(
+          () => options.onProgress?.(call, Date.now() - startedAt),
+          options.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS
+        )
+      : undefined
+
+    try {
+      results[index] = await withTimeout<unknown>(
+        execute(call),
+        ms,
+        (): ToolTimeoutResult => ({
+          type: 'error',
+          status: 'timeout',
+          tool: call.name,
+          timeoutMs: ms,
+          error: `${call.name} timed out after ${ms / 1000}s`,
+        })
+      )
+    } catch (error) {
+      console.error(`Tool ${call.name} error:`, error)
+      results[index] = {
+        type: 'error',
+        error: error instanceof Error ? error.message : `${call.name} failed`,
+      }
+    } finally {
+      clearInterval(progressTimer)
+    }
+
+    settled[index] = true
+    flush()
+  }
+
+  const worker = async () => {
+    while (nextToStart < calls.length) {
+      await runOne(nextToStart++)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, calls.length) }, worker))
+
+  return results
+}
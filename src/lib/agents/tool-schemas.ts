@@ -0,0 +1,203 @@
+import type Anthropic from '@anthropic-ai/sdk'
+import { z } from 'zod'
+import { FINANCIAL_OPERATIONS } from '@/lib/finance/calculator'
+
+/**
+ * Tool Input Schemas
+ *
+ * Each finance tool's input is defined once as a zod schema. The same schema
+ * produces the Anthropic input_schema (JSON Schema) and validates the model's
+ * input at runtime before the executor runs.
+ */
+
+const row = z.record(z.string(), z.unknown())
+const aggregateFn = z.enum(['sum', 'avg', 'min', 'max', 'count'])
+
+export const searchDocumentsSchema = z.object({
+  query: z.string().min(1).describe('The search query to find relevant documents'),
+  limit: z.number().int().min(1).max(20).default(5).describe('Maximum number of results to return'),
+  documentType: z.enum(['pdf', 'excel', 'csv', 'image', 'all']).optional().describe('Filter by document type'),
+  period: z.string().optional().describe('Filter by the reporting period extracted from the document, e.g. "Q3 2024" or "FY2024" (partial match)'),
+  tags: z.array(z.string()).optional().describe('Only documents carrying at least one of these tags, e.g. ["budget"]'),
+  businessUnit: z.string().optional().describe('Business unit id, code or name, e.g. "EMEA"'),
+  uploadedAfter: z.string().optional().describe('Only documents uploaded on or after this ISO date (YYYY-MM-DD)'),
+  uploadedBefore: z.string().optional().describe('Only documents uploaded on or before this ISO date (YYYY-MM-DD)'),
+  semanticWeight: z.number().min(0).max(1).default(0.5).describe('Balance between meaning-based (1) and exact keyword (0) matching. Lower it when searching for account codes, invoice numbers or exact line-item names.'),
+})
+
+export const financialCalculationSchema = z.object({
+  operation: z.enum(FINANCIAL_OPERATIONS).describe('The type of calculation to perform'),
+  values: z.array(z.number()).optional().describe('Numeric inputs. Pairs are [actual, baseline] for variance/variance_percent/yoy/qoq, [gain, cost] for roi, [ebitda, revenue] for ebitda_margin, [numerator, denominator] for ratio, [beginning, ending] (or a yearly series) for cagr. Cash flows starting at t = 0 for npv, irr, xnpv, xirr, payback and discounted_payback. Not needed for pmt, fv and pv.'),
+  params: z.record(z.string(), z.unknown()).optional().describe('Additional parameters: discountRate (decimal) for npv/xnpv/discounted_payback, dates (ISO strings, one per cash flow) for xnpv/xirr, years for cagr, guess for irr/xirr, rate/nper/pv/fv/pmt/type (0 = end, 1 = beginning of period) for pmt/fv/pv, label for ratio'),
+})
+
+export const generateChartSchema = z.object({
+  chartType: z.enum(['line', 'bar', 'pie', 'area', 'composed']).describe('Type of chart to generate'),
+  title: z.string().describe('Chart title'),
+  data: z.array(row).describe('Data points for the chart. Each object should have a name/label and numeric values.'),
+  xAxisKey: z.string().describe('Key for X-axis values (e.g., "name", "month", "category")'),
+  yAxisKeys: z.array(z.string()).min(1).describe('Keys for Y-axis values (e.g., ["value", "revenue", "cost"])'),
+  xAxisLabel: z.string().optional().describe('X-axis label'),
+  yAxisLabel: z.string().optional().describe('Y-axis label'),
+})
+
+export const generateTableSchema = z.object({
+  title: z.string().describe('Table title'),
+  columns: z.array(z.string()).min(1).describe('Column names'),
+  rows: z.array(row).describe('Row data as objects with column keys'),
+  highlightColumn: z.string().optional().describe('Column to highlight (optional)'),
+})
+
+export const spreadsheetOperationSchema = z.object({
+  action: z.enum(['read', 'analyze', 'transform']).describe('read: rows from a sheet/range; analyze: detected headers and column statistics; transform: filter, group_by, pivot or join'),
+  documentId: z.string().describe('ID of the uploaded spreadsheet document'),
+  sheet: z.string().optional().describe('Sheet name (for Excel files, defaults to the first sheet)'),
+  range: z.string().optional().describe('Cell range in A1 notation (e.g., A1:D10)'),
+  limit: z.number().int().min(1).max(500).optional().describe('Maximum rows to return (default 100, max 500)'),
+  transform: z.object({
+    operation: z.enum(['filter', 'group_by', 'pivot', 'join']),
+    filters: z.array(z.object({
+      column: z.string(),
+      operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in']),
+      value: z.unknown(),
+    })).optional().describe('Row filters, applied before any other operation'),
+    groupBy: z.array(z.string()).optional().describe('Columns to group by (group_by)'),
+    aggregations: z.array(z.object({
+      column: z.string(),
+      fn: aggregateFn,
+      as: z.string().optional(),
+    })).optional().describe('Aggregations per group (group_by)'),
+    pivot: z.object({
+      index: z.string(),
+      columns: z.string(),
+      values: z.string(),
+      fn: aggregateFn.optional(),
+    }).optional().describe('Pivot definition: rows from index, columns from columns, cells aggregate values'),
+    join: z.object({
+      documentId: z.string().optional(),
+      sheet: z.string(),
+      range: z.string().optional(),
+      leftKey: z.string(),
+      rightKey: z.string(),
+      type: z.enum(['inner', 'left']).optional(),
+    }).optional().describe('Join the sheet with another sheet (optionally from another document)'),
+  }).optional().describe('Transform parameters (required when action is transform)'),
+}).refine(input => input.action !== 'transform' || input.transform, {
+  message: 'transform is required when action is "transform"',
+  path: ['transform'],
+})
+
+export const whatIfAnalysisSchema = z.object({
+  documentId: z.string().describe('ID of the uploaded Excel model'),
+  changes: z.array(z.object({
+    cell: z.string().describe('Cell reference, e.g. B5 or Assumptions!B5'),
+    sheet: z.string().optional().describe('Sheet name when cell has no sheet prefix'),
+    value: z.union([z.number(), z.string(), z.boolean()]).describe('New value or formula'),
+  })).min(1).describe('Cells to change. A value starting with "=" is applied as a formula (e.g. "=B2*0.1").'),
+  outputs: z.array(z.string()).optional().describe('Output cells to report. Defaults to every cell whose value changed.'),
+  title: z.string().optional().describe('Title for the result table'),
+})
+
+export const generateImageSchema = z.object({
+  type: z.enum(['infographic', 'dashboard', 'chart', 'demonstration', 'custom']).describe('Type of image to generate. Use "demonstration" for educational concept visualizations.'),
+  prompt: z.string().describe('Description of the image to generate. For demonstration type, describe the financial concept to visualize.'),
+  title: z.string().optional().describe('Title for the visualization'),
+  metrics: z.array(z.object({
+    name: z.string(),
+    value: z.union([z.string(), z.number()]),
+    change: z.number().optional(),
+    trend: z.enum(['up', 'down', 'neutral']).optional(),
+  })).optional().describe('Metrics to display (for dashboard/infographic)'),
+  period: z.string().optional().describe('Time period for the data'),
+  context: z.string().optional().describe('Additional context for demonstration images (e.g., user question being answered)'),
+  refinementOf: z.string().optional().describe('Image ID of the previous image being refined (for refinement requests)'),
+  refinementType: z.enum(['regenerate', 'change_style', 'more_detail', 'simplify', 'different_layout', 'custom']).optional().describe('Type of refinement being requested'),
+  previousPrompt: z.string().optional().describe('The original prompt used to generate the previous image (for context during refinement)'),
+  analysisContext: z.string().optional().describe('Context from previous tool executions (charts, calculations, tables) to inform the image generation'),
+})
+
+export const complexAnalysisSchema = z.object({
+  query: z.string().describe('The complex financial analysis query'),
+  targetAudience: z.enum(['executive', 'analyst', 'general']).optional().describe('Target audience for the analysis output'),
+})
+
+export const evaluateReportSchema = z.object({
+  report: z.string().describe('The financial report text to evaluate'),
+  optimize: z.boolean().optional().describe('If true, will automatically improve the report based on feedback'),
+  maxIterations: z.number().int().min(1).max(5).optional().describe('Maximum optimization iterations (default: 3)'),
+})
+
+export const analyzeDocumentSchema = z.object({
+  documentBase64: z.string().describe('Base64 encoded document data'),
+  mimeType: z.string().describe('Document MIME type (application/pdf or image/*)'),
+  extractCharts: z.boolean().optional().describe('Extract chart data from the document'),
+  extractTables: z.boolean().optional().describe('Extract table data from the document'),
+  generateNarration: z.boolean().optional().describe('Generate text narration for RAG indexing'),
+  question: z.string().optional().describe('Specific question to answer from the document'),
+})
+
+export const exportFileSchema = z.object({
+  format: z.enum(['excel', 'powerpoint']).describe('Export format - excel for .xlsx, powerpoint for .pptx'),
+  title: z.string().describe('Title for the exported file'),
+  data: z.object({
+    sheets: z.array(z.object({
+      name: z.string(),
+      columns: z.array(z.string()).optional(),
+      rows: z.array(row).optional(),
+    })).optional().describe('For Excel: array of sheets with columns and rows'),
+    slides: z.array(z.object({
+      title: z.string(),
+      content: z.string().optional(),
+      bullets: z.array(z.string()).optional(),
+      chartData: z.object({
+        chartType: z.string().optional(),
+        data: z.array(row).optional(),
+        xAxisKey: z.string().optional(),
+        yAxisKeys: z.array(z.string()).optional(),
+      }).optional().describe('{ chartType, data, xAxisKey, yAxisKeys } - same shape as generate_chart'),
+      tableData: z.object({
+        columns: z.array(z.string()).optional(),
+        rows: z.array(row).optional(),
+      }).optional().describe('{ columns, rows } - same shape as generate_table'),
+    })).optional().describe('For PowerPoint: array of slides with content'),
+  }).describe('Data to export'),
+  filename: z.string().optional().describe('Custom filename (without extension)'),
+})
+
+/**
+ * Convert a zod schema to the JSON Schema shape Anthropic expects for input_schema
+ */
+export function toInputSchema(schema: z.ZodType): Anthropic.Tool.InputSchema {
+  const jsonSchema = { ...z.toJSONSchema(schema, { io: 'input' }) } as Record<string, unknown>
+  delete jsonSchema.$schema
+  return jsonSchema as Anthropic.Tool.InputSchema
+}
+
+export type ToolInputValidation<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; issues: { path: string; message: string }[] }
+
+/**
+ * Validate a tool's input, producing a message the model can act on
+ */
+export function validateToolInput<T>(
+  toolName: string,
+  schema: z.ZodType<T>,
+  input: unknown
+): ToolInputValidation<T> {
+  const parsed = schema.safeParse(input)
+  if (parsed.success) {
+    return { success: true, data: parsed.data }
+  }
+
+  const issues = parsed.error.issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }))
+
+  return {
+    success: false,
+    error: `Invalid input for ${toolName}: ${issues.map(i => `${i.path}: ${i.message}`).join('; ')}. Fix the input and call the tool again.`,
+    issues,
+  }
+}
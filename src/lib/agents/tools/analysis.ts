@@ -0,0 +1,164 @@
+import type { z } from 'zod'
+import { FinancialOrchestrator, ReportEvaluator } from '../orchestrator'
+import { DocumentAnalyzer } from '../document-analyzer'
+import { analyzeDocumentSchema, complexAnalysisSchema, evaluateReportSchema } from '../tool-schemas'
+import { defineTool } from './registry'
+
+/**
+ * Execute complex financial analysis using orchestrator-workers pattern
+ */
+async function executeComplexAnalysis(input: z.output<typeof complexAnalysisSchema>, userId?: string) {
+  try {
+    const result = await new FinancialOrchestrator(userId).analyze(input.query, {
+      targetAudience: input.targetAudience,
+    })
+
+    return {
+      type: 'analysis',
+      data: {
+        summary: result.synthesis,
+        analysis: result.analysis,
+        workerResults: result.workerResults.map(w => ({
+          type: w.type,
+          description: w.description,
+          findings: w.result,
+          metrics: w.metrics,
+        })),
+      },
+    }
+  } catch (error) {
+    console.error('Complex analysis error:', error)
+    return {
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Analysis failed',
+    }
+  }
+}
+
+/**
+ * Evaluate and optionally optimize a financial report
+ */
+async function executeEvaluateReport(input: z.output<typeof evaluateReportSchema>, userId?: string) {
+  const reportEvaluator = new ReportEvaluator(userId)
+
+  try {
+    const evaluation = await reportEvaluator.evaluate(input.report)
+
+    if (input.optimize && evaluation.status !== 'PASS') {
+      const optimized = await reportEvaluator.optimize(
+        input.report,
+        evaluation.feedback,
+        input.maxIterations || 3
+      )
+
+      return {
+        type: 'evaluation',
+        data: {
+          initialStatus: evaluation.status,
+          initialScores: evaluation.scores,
+          feedback: evaluation.feedback,
+          optimizedReport: optimized.optimizedReport,
+          finalScores: optimized.finalScore,
+          iterations: optimized.iterations,
+        },
+      }
+    }
+
+    return {
+      type: 'evaluation',
+      data: {
+        status: evaluation.status,
+        scores: evaluation.scores,
+        feedback: evaluation.feedback,
+      },
+    }
+  } catch (error) {
+    console.error('Report evaluation error:', error)
+    return {
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Evaluation failed',
+    }
+  }
+}
+
+/**
+ * Analyze a document (PDF or image) for financial insights
+ */
+async function executeAnalyzeDocument(input: z.output<typeof analyzeDocumentSchema>, userId?: string) {
+  const documentAnalyzer = new DocumentAnalyzer(userId)
+
+  try {
+    if (input.mimeType === 'application/pdf') {
+      const result = await documentAnalyzer.analyzePdf(input.documentBase64, {
+        extractCharts: input.extractCharts,
+        extractTables: input.extractTables,
+        generateNarration: input.generateNarration,
+        specificQuestions: input.question ? [input.question] : undefined,
+      })
+
+      return {
+        type: 'document_analysis',
+        data: {
+          summary: result.summary,
+          charts: result.charts,
+          tables: result.tables,
+          keyMetrics: result.keyMetrics,
+          narration: result.narration,
+          extractedData: result.extractedData,
+        },
+      }
+    } else if (input.mimeType.startsWith('image/')) {
+      const result = await documentAnalyzer.analyzeImage(
+        input.documentBase64,
+        input.mimeType,
+        input.question
+      )
+
+      return {
+        type: 'image_analysis',
+        data: {
+          description: result.description,
+          extractedData: result.extractedData,
+        },
+      }
+    }
+
+    return {
+      type: 'error',
+      error: 'Unsupported document type',
+    }
+  } catch (error) {
+    console.error('Document analysis error:', error)
+    return {
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Document analysis failed',
+    }
+  }
+}
+
+export const complexAnalysisTool = defineTool({
+  name: 'complex_analysis',
+  description: 'Perform deep, multi-faceted financial analysis using the orchestrator-workers pattern. Use this for complex queries that need variance, trend, ratio, and comparative analysis combined.',
+  schema: complexAnalysisSchema,
+  execute: (input, { userId }) => executeComplexAnalysis(input, userId),
+  progressMessage: 'Running multi-step analysis',
+  timeoutMs: 45000,
+})
+
+export const evaluateReportTool = defineTool({
+  name: 'evaluate_report',
+  description: 'Evaluate and optionally optimize a financial report for quality. Returns scores for accuracy, completeness, clarity, and actionability.',
+  schema: evaluateReportSchema,
+  execute: (input, { userId }) => executeEvaluateReport(input, userId),
+  progressMessage: 'Evaluating report',
+  timeoutMs: 45000,
+})
+
+export const analyzeDocumentTool = defineTool({
+  name: 'analyze_document',
+  description: 'Analyze a PDF document or image for financial insights. Extracts charts, tables, key metrics, and can generate narration for RAG.',
+  schema: analyzeDocumentSchema,
+  execute: (input, { userId }) => executeAnalyzeDocument(input, userId),
+  progressMessage: 'Analyzing document',
+  timeoutMs: 45000,
+})
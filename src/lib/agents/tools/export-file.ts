@@ -0,0 +1,121 @@
+import { buildExcelWorkbook, EXCEL_MIME_TYPE, type ExcelSheetConfig } from '@/lib/exports/excel'
+import { buildPowerPointDeck, POWERPOINT_MIME_TYPE, type PowerPointSlideConfig } from '@/lib/exports/powerpoint'
+import { sanitizeFilename, storeExport } from '@/lib/exports/storage'
+import { exportFileSchema } from '../tool-schemas'
+import { defineTool, type ToolContext } from './registry'
+
+interface ExportFileInput {
+  format: 'excel' | 'powerpoint'
+  title: string
+  data: {
+    sheets?: ExcelSheetConfig[]
+    slides?: PowerPointSlideConfig[]
+  }
+  filename?: string
+}
+
+/**
+ * Export data to Excel or PowerPoint file
+ *
+ * Builds the file server-side, stores it in the exports bucket and returns a
+ * signed download URL.
+ */
+async function executeExportFile(input: ExportFileInput, { userId, threadId }: ToolContext) {
+  try {
+    if (!userId) {
+      throw new Error('Exports require an authenticated user')
+    }
+
+    const timestamp = new Date().toISOString().slice(0, 10)
+    const baseFilename = sanitizeFilename(input.filename || input.title) || 'export'
+
+    if (input.format === 'excel') {
+      const sheets = input.data?.sheets?.length ? input.data.sheets : null
+      if (!sheets) {
+        throw new Error('Excel exports require at least one sheet')
+      }
+
+      const filename = `${baseFilename}-${timestamp}.xlsx`
+      const buffer = await buildExcelWorkbook({ title: input.title, sheets })
+      const stored = await storeExport({
+        userId,
+        threadId,
+        format: 'excel',
+        title: input.title,
+        fileName: filename,
+        mimeType: EXCEL_MIME_TYPE,
+        buffer,
+      })
+
+      return {
+        type: 'export',
+        data: {
+          format: 'excel',
+          filename,
+          title: input.title,
+          sheets,
+          ...stored,
+          downloadReady: true,
+          message: `Excel file "${filename}" is ready for download`,
+        },
+      }
+    } else if (input.format === 'powerpoint') {
+      const slides = input.data?.slides?.length ? input.data.slides : null
+      if (!slides) {
+        throw new Error('PowerPoint exports require at least one slide')
+      }
+
+      const filename = `${baseFilename}-${timestamp}.pptx`
+      const buffer = await buildPowerPointDeck({ title: input.title, slides })
+      const stored = await storeExport({
+        userId,
+        threadId,
+        format: 'powerpoint',
+        title: input.title,
+        fileName: filename,
+        mimeType: POWERPOINT_MIME_TYPE,
+        buffer,
+      })
+
+      return {
+        type: 'export',
+        data: {
+          format: 'powerpoint',
+          filename,
+          title: input.title,
+          slides,
+          ...stored,
+          downloadReady: true,
+          message: `PowerPoint file "${filename}" is ready for download`,
+        },
+      }
+    }
+
+    throw new Error(`Unsupported export format: ${input.format}`)
+  } catch (error) {
+    console.error('Export file error:', error)
+    return {
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Export failed',
+    }
+  }
+}
+
+export const exportFileTool = defineTool({
+  name: 'export_file',
+  description: 'Export financial data to Excel (.xlsx) or PowerPoint (.pptx) format. Use this when the user asks to download, export, or create a file.',
+  schema: exportFileSchema,
+  canvasType: 'export',
+  // Viewers cannot export, matching the /api/export routes
+  roles: ['analyst', 'bu_manager', 'group_cfo', 'admin'],
+  execute: (input, context) => executeExportFile(input as ExportFileInput, context),
+  progressMessage: 'Building export file',
+  prompt: {
+    summary: 'Export data to Excel (.xlsx) or PowerPoint (.pptx) files',
+    whenToUse: 'When user asks to "export", "download", "create a file", or "save as Excel/PowerPoint"',
+    guidance: `## Export Formats (export_file)
+- excel: Create .xlsx files with formatted data (one sheet per table)
+- powerpoint: Create .pptx presentations (content, bullet, chart and table slides)
+- Files are generated server-side and returned with a download link; reuse the rows and chart data you already produced`,
+  },
+})
@@ -0,0 +1,14 @@
+import { runFinancialCalculation, type FinancialCalculationInput } from '@/lib/finance/calculator'
+import { financialCalculationSchema } from '../tool-schemas'
+import { defineTool } from './registry'
+
+export const financialCalculationTool = defineTool({
+  name: 'financial_calculation',
+  description: 'Perform deterministic financial calculations (variance, growth rates, ROI, NPV/IRR, XNPV/XIRR, payback, PMT/FV/PV). Use this instead of doing arithmetic yourself; the result includes the formula and inputs used.',
+  schema: financialCalculationSchema,
+  execute: async input => runFinancialCalculation(input as FinancialCalculationInput),
+  prompt: {
+    summary: 'Perform financial calculations (variance, YoY/QoQ, CAGR, ratios, ROI, NPV/IRR, XNPV/XIRR, payback, PMT/FV/PV)',
+    whenToUse: 'For any figure you would otherwise compute yourself - never do the arithmetic in your head',
+  },
+})
@@ -0,0 +1,140 @@
+import type { z } from 'zod'
+import {
+  generateImage,
+  generateInfographic,
+  generateFinancialDashboard,
+  generateDemonstrationImage,
+} from '@/lib/gemini/image-generator'
+import { checkImageQuota } from '@/lib/organizations/quotas'
+import { getRefinementPromptModifier, generateImageId } from '../image-feedback-utils'
+import { generateImageSchema } from '../tool-schemas'
+import { defineTool } from './registry'
+
+async function executeGenerateImage(input: z.output<typeof generateImageSchema>, userId?: string) {
+  try {
+    const quotaDenial = userId ? await checkImageQuota(userId) : null
+    if (quotaDenial) {
+      throw new Error(quotaDenial.message)
+    }
+
+    let result: { imageData: string; mimeType: string; prompt: string }
+
+    // Build enhanced prompt with analysis context if available
+    let enhancedPrompt = input.prompt
+    if (input.analysisContext) {
+      enhancedPrompt = `${input.prompt}\n\n## Data Context from Analysis\n${input.analysisContext}`
+    }
+
+    // For refinements, apply the refinement modifier to the prompt
+    if (input.refinementType && input.previousPrompt) {
+      const modifier = getRefinementPromptModifier(input.refinementType, undefined, input.previousPrompt)
+      enhancedPrompt = `${modifier}\n\nNew prompt: ${input.prompt}`
+    }
+
+    switch (input.type) {
+      case 'dashboard':
+        if (input.metrics && input.title) {
+          result = await generateFinancialDashboard(input.title, input.metrics, input.period, userId)
+        } else {
+          result = await generateImage(enhancedPrompt, { style: 'financial', userId })
+        }
+        break
+
+      case 'infographic':
+        if (input.metrics && input.title) {
+          const sections = input.metrics.map(m => ({
+            label: m.name,
+            value: m.value,
+          }))
+          result = await generateInfographic(input.title, sections, userId)
+        } else {
+          result = await generateImage(enhancedPrompt, { style: 'infographic', userId })
+        }
+        break
+
+      case 'chart':
+        result = await generateImage(enhancedPrompt, { style: 'chart', userId })
+        break
+
+      case 'demonstration':
+        // Generate educational demonstration image to explain financial concepts
+        result = await generateDemonstrationImage(enhancedPrompt, input.context, userId)
+        break
+
+      default:
+        result = await generateImage(enhancedPrompt, { style: 'financial', userId })
+    }
+
+    // Generate unique image ID for tracking refinements
+    const imageId = generateImageId()
+
+    // Return image data for display in canvas
+    return {
+      type: 'image',
+      data: {
+        imageId,
+        title: input.title || 'Generated Visualization',
+        imageData: result.imageData,
+        mimeType: result.mimeType,
+        prompt: result.prompt,
+        originalPrompt: input.prompt,
+        refinementOf: input.refinementOf,
+        refinementType: input.refinementType,
+      },
+    }
+  } catch (error) {
+    console.error('Image generation error:', error)
+    return {
+      type: 'image',
+      data: {
+        imageId: generateImageId(),
+        title: input.title || 'Image Generation',
+        error: error instanceof Error ? error.message : 'Failed to generate image',
+        prompt: input.prompt,
+        originalPrompt: input.prompt,
+      },
+    }
+  }
+}
+
+export const generateImageTool = defineTool({
+  name: 'generate_image',
+  description: 'Generate a professional AI image visualization using Gemini. Use this for creating infographics, dashboards, demonstration images, and custom financial visualizations. Use type "demonstration" to create educational visual aids that explain financial concepts. For image refinements, include refinementOf and refinementType parameters.',
+  schema: generateImageSchema,
+  canvasType: 'image',
+  execute: (input, { userId }) => executeGenerateImage(input, userId),
+  progressMessage: 'Generating image',
+  timeoutMs: 45000,
+  prompt: {
+    summary: 'Create AI-generated images, infographics, and dashboards using Gemini',
+    whenToUse: 'For AI-generated visuals like infographics, executive dashboards, custom illustrations - and whenever the user asks to create or generate an image',
+    guidance: `## Image Types (generate_image)
+- dashboard: Executive KPI dashboards with metrics
+- infographic: Visual summaries with icons and data points
+- chart: AI-generated chart images
+- demonstration: Educational images explaining financial concepts - USE THIS for explanatory responses!
+- custom: Any custom financial visualization
+
+## When to Generate Demonstration Images
+Use generate_image with type "demonstration" when:
+- Explaining a financial concept (e.g., "What is EBITDA?", "How does DCF work?")
+- Answering educational questions about finance
+- Illustrating a process or methodology
+- Making complex topics visually understandable
+
+Example: For "What is variance analysis?", generate a demonstration image showing budget vs actual comparison visually.
+
+## Image Refinement Protocol
+When you receive a message starting with "[Image Refinement Request]":
+1. Parse the refinement action (regenerate, change_style, more_detail, simplify, different_layout, custom)
+2. Reference the original image context and user's new requirements
+3. Call generate_image with:
+   - The refined prompt incorporating the feedback
+   - The same type or a more appropriate type
+   - Enhanced context from your previous analysis
+4. Maintain visual consistency where appropriate
+5. Always acknowledge the user's feedback and explain what you changed
+
+For refinements, use the context from your previous tool executions (charts, tables, calculations) to create data-informed images.`,
+  },
+})
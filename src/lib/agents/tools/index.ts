@@ -0,0 +1,40 @@
+import { ToolRegistry } from './registry'
+import { searchDocumentsTool } from './search-documents'
+import { financialCalculationTool } from './financial-calculation'
+import { generateChartTool, generateTableTool } from './visualizations'
+import { spreadsheetOperationTool, whatIfAnalysisTool } from './spreadsheets'
+import { generateImageTool } from './generate-image'
+import { analyzeDocumentTool, complexAnalysisTool, evaluateReportTool } from './analysis'
+import { exportFileTool } from './export-file'
+
+/**
+ * Built-in finance tools, in the order they are offered to the model
+ */
+export const financeToolRegistry = new ToolRegistry().register(
+  searchDocumentsTool,
+  financialCalculationTool,
+  generateChartTool,
+  generateTableTool,
+  spreadsheetOperationTool,
+  whatIfAnalysisTool,
+  generateImageTool,
+  complexAnalysisTool,
+  evaluateReportTool,
+  analyzeDocumentTool,
+  exportFileTool,
+)
+
+export {
+  ToolRegistry,
+  defineTool,
+  getToolSettingsForUser,
+  toAnthropicTools,
+  buildToolPrompt,
+  executeRegisteredTool,
+  modelToolResult,
+  type FinanceTool,
+  type FinanceToolDefinition,
+  type ToolContext,
+  type ToolSettings,
+  type CanvasType,
+} from './registry'
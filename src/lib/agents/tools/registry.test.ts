@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { z } from 'zod'
+import {
+  exportFileSchema,
+  financialCalculationSchema,
+  generateChartSchema,
+  searchDocumentsSchema,
+  whatIfAnalysisSchema,
+} from '../tool-schemas'
+import { defineTool, executeRegisteredTool } from './registry'
+
+function toolWithSpy(name: string, schema: z.ZodType) {
+  const execute = vi.fn(async () => ({ type: 'ok' }))
+  return { tool: defineTool({ name, description: name, schema, execute }), execute }
+}
+
+describe('executeRegisteredTool', () => {
+  it.each([
+    ['search_documents', searchDocumentsSchema, { query: '', limit: 50 }, ['query', 'limit']],
+    ['financial_calculation', financialCalculationSchema, { operation: 'goodwill', values: ['100'] }, ['operation', 'values.0']],
+    ['generate_chart', generateChartSchema, { chartType: 'radar', title: 'Revenue', data: [], xAxisKey: 'month', yAxisKeys: [] }, ['chartType', 'yAxisKeys']],
+    ['what_if_analysis', whatIfAnalysisSchema, { documentId: 'doc-1', changes: [] }, ['changes']],
+    ['export_file', exportFileSchema, { format: 'pdf', data: {} }, ['format', 'title']],
+  ])('rejects invalid %s input without running the tool', async (name, schema, input, paths) => {
+    const { tool, execute } = toolWithSpy(name, schema)
+
+    const result = await executeRegisteredTool([tool], name, input, { userId: 'user-1' })
+
+    expect(result).toMatchObject({ type: 'error', status: 'invalid_input' })
+    expect((result as { issues: { path: string }[] }).issues.map(issue => issue.path)).toEqual(paths)
+    expect(execute).not.toHaveBeenCalled()
+  })
+
+  it('runs the tool with the parsed input', async () => {
+    const { tool, execute } = toolWithSpy('search_documents', searchDocumentsSchema)
+
+    await executeRegisteredTool([tool], 'search_documents', { query: 'Q3 revenue' }, { userId: 'user-1' })
+
+    expect(execute).toHaveBeenCalledWith({ query: 'Q3 revenue', limit: 5, semanticWeight: 0.5 }, { userId: 'user-1' })
+  })
+})
@@ -0,0 +1,199 @@
+import type Anthropic from '@anthropic-ai/sdk'
+import type { z } from 'zod'
+import type { Database } from '@/types/database'
+import { getOrganizationSettingsForUser } from '@/lib/organizations/settings'
+import { toInputSchema, validateToolInput } from '../tool-schemas'
+
+/**
+ * Finance Tool Registry
+ *
+ * Each tool module declares everything the agent needs to know about it:
+ * input schema, executor, the canvas output it produces, which roles may use
+ * it and the guidance it contributes to the system prompt. streamFinanceChat
+ * assembles the tool list, prompt and dispatch from the registry, so adding
+ * a tool means adding a module - not editing the core loop.
+ *
+ * Organizations can switch tools off (or restrict to an allow-list) in
+ * organizations.settings.tools: { enabled?: string[], disabled?: string[] }.
+ */
+
+type UserRole = Database['public']['Enums']['user_role']
+
+// Result types rendered in the canvas panel
+export type CanvasType = 'chart' | 'table' | 'image' | 'export'
+
+export interface ToolContext {
+  userId?: string
+  threadId?: string
+  role?: UserRole | null
+}
+
+export interface FinanceToolDefinition<S extends z.ZodType> {
+  name: string
+  description: string
+  schema: S
+  execute: (input: z.output<S>, context: ToolContext) => Promise<unknown>
+  // Results of this type ({ type, data }) are shown in the canvas
+  canvasType?: CanvasType
+  // Roles allowed to call the tool; all roles when omitted
+  roles?: UserRole[]
+  prompt?: {
+    // One-line entry under "Available Tools"
+    summary?: string
+    // One-line entry under "When to Use Each Tool"
+    whenToUse?: string
+    // Additional system prompt section (markdown, with its own heading)
+    guidance?: string
+  }
+  // Status line shown while the tool is still running
+  progressMessage?: string
+  // Overrides the tool runner's default timeout
+  timeoutMs?: number
+  // What the model is sent instead of the full result, which still goes to the client
+  toModelResult?: (result: unknown) => unknown
+}
+
+/**
+ * A registered tool. The executor takes input already parsed by its schema
+ * (see executeRegisteredTool), so tools with different schemas share one type.
+ */
+export interface FinanceTool extends Omit<FinanceToolDefinition<z.ZodType>, 'execute'> {
+  execute: (input: unknown, context: ToolContext) => Promise<unknown>
+}
+
+export interface ToolSettings {
+  enabled?: string[]
+  disabled?: string[]
+}
+
+/**
+ * Declare a tool; infers the executor's input type from its schema
+ */
+export function defineTool<S extends z.ZodType>(tool: FinanceToolDefinition<S>): FinanceTool {
+  return {
+    ...tool,
+    // Only called with the output of validateToolInput against tool.schema
+    execute: (input, context) => tool.execute(input as z.output<S>, context),
+  }
+}
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, FinanceTool>()
+
+  register(...tools: FinanceTool[]): this {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Tool already registered: ${tool.name}`)
+      }
+      this.tools.set(tool.name, tool)
+    }
+    return this
+  }
+
+  get(name: string): FinanceTool | undefined {
+    return this.tools.get(name)
+  }
+
+  list(): FinanceTool[] {
+    return [...this.tools.values()]
+  }
+
+  canvasTypes(): Set<CanvasType> {
+    return new Set(this.list().flatMap(tool => (tool.canvasType ? [tool.canvasType] : [])))
+  }
+
+  /**
+   * Tools available to a role, after applying the organization's settings
+   */
+  resolve(role?: UserRole | null, settings: ToolSettings = {}): FinanceTool[] {
+    return this.list().filter(tool =>
+      isRoleAllowed(tool, role) &&
+      (!settings.enabled || settings.enabled.includes(tool.name)) &&
+      !settings.disabled?.includes(tool.name)
+    )
+  }
+}
+
+function isRoleAllowed(tool: FinanceTool, role?: UserRole | null): boolean {
+  return !tool.roles || (!!role && tool.roles.includes(role))
+}
+
+function stringList(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined
+}
+
+/**
+ * Read the tool settings for the user's organization
+ */
+export async function getToolSettingsForUser(userId?: string): Promise<ToolSettings> {
+  const settings = await getOrganizationSettingsForUser(userId)
+  const raw = (settings.tools && typeof settings.tools === 'object' ? settings.tools : {}) as Record<string, unknown>
+
+  return {
+    enabled: stringList(raw.enabled),
+    disabled: stringList(raw.disabled),
+  }
+}
+
+/**
+ * Anthropic tool definitions for a resolved tool set
+ */
+export function toAnthropicTools(tools: FinanceTool[]): Anthropic.Tool[] {
+  return tools.map(({ name, description, schema }) => ({
+    name,
+    description,
+    input_schema: toInputSchema(schema),
+  }))
+}
+
+/**
+ * System prompt sections describing a resolved tool set
+ */
+export function buildToolPrompt(tools: FinanceTool[]): string {
+  const summaries = tools
+    .filter(tool => tool.prompt?.summary)
+    .map(tool => `- **${tool.name}**: ${tool.prompt!.summary}`)
+  const whenToUse = tools
+    .filter(tool => tool.prompt?.whenToUse)
+    .map(tool => `- **${tool.name}**: ${tool.prompt!.whenToUse}`)
+  const guidance = tools.flatMap(tool => (tool.prompt?.guidance ? [tool.prompt.guidance] : []))
+
+  return [
+    summaries.length > 0 ? `## Available Tools\n${summaries.join('\n')}` : '',
+    whenToUse.length > 0 ? `## When to Use Each Tool\n${whenToUse.join('\n')}` : '',
+    ...guidance,
+  ].filter(Boolean).join('\n\n')
+}
+
+/**
+ * Validate input and run a tool from the resolved set. Tools outside the set
+ * (unknown, disabled for the organization or not allowed for the role) are
+ * rejected with an error the model can see.
+ */
+export async function executeRegisteredTool(
+  tools: FinanceTool[],
+  name: string,
+  rawInput: unknown,
+  context: ToolContext
+): Promise<unknown> {
+  const tool = tools.find(t => t.name === name)
+  if (!tool) {
+    return { type: 'error', error: `Tool ${name} is not available` }
+  }
+
+  // Reject malformed input before it reaches an executor; the model sees the issues and can retry
+  const validation = validateToolInput(name, tool.schema, rawInput)
+  if (!validation.success) {
+    return { type: 'error', status: 'invalid_input', error: validation.error, issues: validation.issues }
+  }
+
+  return tool.execute(validation.data, context)
+}
+
+/**
+ * A tool result as the model sees it
+ */
+export function modelToolResult(tools: FinanceTool[], name: string, result: unknown): unknown {
+  const tool = tools.find(t => t.name === name)
+  return tool?.toModelResult ? tool.toModelResult(result) : result
+}
@@ -0,0 +1,49 @@
+import { runSpreadsheetOperation, type SpreadsheetOperationInput } from '@/lib/spreadsheets/operations'
+import { runWhatIfAnalysis } from '@/lib/spreadsheets/what-if'
+import { spreadsheetOperationSchema, whatIfAnalysisSchema } from '../tool-schemas'
+import { defineTool } from './registry'
+
+export const spreadsheetOperationTool = defineTool({
+  name: 'spreadsheet_operation',
+  description: 'Read, analyze, or transform an uploaded Excel/CSV document. Use the documentId from search_documents results. Returns a table that is shown in the canvas.',
+  schema: spreadsheetOperationSchema,
+  canvasType: 'table',
+  execute: async input => {
+    try {
+      return await runSpreadsheetOperation(input as SpreadsheetOperationInput)
+    } catch (error) {
+      console.error('Spreadsheet operation error:', error)
+      return {
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Spreadsheet operation failed',
+      }
+    }
+  },
+  prompt: {
+    summary: 'Read, analyze, filter, group, pivot and join uploaded Excel/CSV documents (by documentId)',
+    whenToUse: 'When the user asks about figures in an uploaded spreadsheet - work on the actual rows instead of the search excerpt',
+  },
+})
+
+export const whatIfAnalysisTool = defineTool({
+  name: 'what_if_analysis',
+  description: 'Change input cells in an uploaded Excel model and recalculate its formulas. Returns the recalculated outputs with before/after values and deltas as a table. Use for scenario questions like "what if marketing is 10% of revenue?". The documentId comes from search_documents; input cells are listed in the document\'s workbook_model metadata when available.',
+  schema: whatIfAnalysisSchema,
+  canvasType: 'table',
+  execute: async input => {
+    try {
+      return await runWhatIfAnalysis(input)
+    } catch (error) {
+      console.error('What-if analysis error:', error)
+      return {
+        type: 'error',
+        error: error instanceof Error ? error.message : 'What-if analysis failed',
+      }
+    }
+  },
+  progressMessage: 'Recalculating workbook',
+  prompt: {
+    summary: 'Change inputs in an uploaded Excel model and recalculate its formulas',
+    whenToUse: 'For scenario questions on an uploaded model ("what if...", "how does X change if...") - never estimate the recalculation yourself',
+  },
+})
@@ -0,0 +1,53 @@
+import { generateChartSchema, generateTableSchema } from '../tool-schemas'
+import { defineTool } from './registry'
+
+const CHART_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6']
+
+export const generateChartTool = defineTool({
+  name: 'generate_chart',
+  description: 'Generate a chart visualization to provide visual context for financial data.',
+  schema: generateChartSchema,
+  canvasType: 'chart',
+  execute: async input => ({
+    type: 'chart',
+    data: {
+      chartType: input.chartType,
+      title: input.title,
+      data: input.data,
+      xAxisKey: input.xAxisKey,
+      yAxisKeys: input.yAxisKeys,
+      xAxisLabel: input.xAxisLabel,
+      yAxisLabel: input.yAxisLabel,
+      colors: CHART_COLORS,
+    },
+  }),
+  prompt: {
+    summary: 'Create interactive chart visualizations (bar, line, pie, area charts)',
+    whenToUse: 'For interactive data visualizations that users can hover over',
+    guidance: `## Chart Types
+- bar: For comparisons, breakdowns, components
+- line: For trends over time
+- pie: For composition/percentage breakdowns
+- area: For cumulative data`,
+  },
+})
+
+export const generateTableTool = defineTool({
+  name: 'generate_table',
+  description: 'Generate a formatted data table to show structured financial data.',
+  schema: generateTableSchema,
+  canvasType: 'table',
+  execute: async input => ({
+    type: 'table',
+    data: {
+      title: input.title,
+      columns: input.columns,
+      rows: input.rows,
+      highlightColumn: input.highlightColumn,
+    },
+  }),
+  prompt: {
+    summary: 'Create formatted data tables with professional styling',
+    whenToUse: 'For structured data display with formatting',
+  },
+})
@@ -1,29 +1,38 @@
-import OpenAI from 'openai'
+import { getOpenAIClient, getRedactorForUser, withModelFallback } from '@/lib/llm'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-})
+// Text is redacted under the user's organization policy before it is embedded;
+// tokens are deterministic, so queries and chunks naming the same value still match
 
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-ada-002',
-    input: text,
-  })
+export async function generateEmbedding(text: string, userId?: string): Promise<number[]> {
+  const redactor = await getRedactorForUser(userId)
+  const response = await withModelFallback(
+    'embedding',
+    target => getOpenAIClient().embeddings.create({
+      model: target.model,
+      input: redactor.redact(text),
+    }),
+    { userId, providers: ['openai'] }
+  )
 
   return response.data[0].embedding
 }
 
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+export async function generateEmbeddings(texts: string[], userId?: string): Promise<number[][]> {
+  const redactor = await getRedactorForUser(userId)
   // Batch embeddings for efficiency
   const batchSize = 100
   const embeddings: number[][] = []
 
   for (let i = 0; i < texts.length; i += batchSize) {
-    const batch = texts.slice(i, i + batchSize)
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-ada-002',
-      input: batch,
-    })
+    const batch = texts.slice(i, i + batchSize).map(text => redactor.redact(text))
+    const response = await withModelFallback(
+      'embedding',
+      target => getOpenAIClient().embeddings.create({
+        model: target.model,
+        input: batch,
+      }),
+      { userId, providers: ['openai'] }
+    )
 
     embeddings.push(...response.data.map((d) => d.embedding))
   }
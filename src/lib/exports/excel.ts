@@ -0,0 +1,164 @@
+import ExcelJS from 'exceljs'
+
+/**
+ * Excel Workbook Builder
+ *
+ * Shared by the /api/export/excel route and the export_file agent tool.
+ */
+
+export interface ExcelSheetConfig {
+  name: string
+  type?: 'data' | 'summary' | 'chart'
+  columns?: string[]
+  // Rows for data sheets, key/value object for summary sheets, { data: [...] } for chart sheets
+  data?: unknown
+  // Alias for data rows, as produced by the export_file tool
+  rows?: Record<string, unknown>[]
+}
+
+export interface ExcelWorkbookConfig {
+  title: string
+  sheets: ExcelSheetConfig[]
+}
+
+export const EXCEL_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+function formatHeader(key: string): string {
+  return key
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/_/g, ' ')
+    .replace(/^./, str => str.toUpperCase())
+    .trim()
+}
+
+function addDataSheet(worksheet: ExcelJS.Worksheet, data: Record<string, unknown>[], columns?: string[]) {
+  // Add column headers
+  const headers = columns || (data.length > 0 ? Object.keys(data[0]) : [])
+
+  // Style for header row
+  const headerRow = worksheet.addRow(headers.map((h: string) => formatHeader(h)))
+  headerRow.font = { bold: true, color: { argb: 'FFFFFF' } }
+  headerRow.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: '1E3A8A' },
+  }
+  headerRow.alignment = { vertical: 'middle', horizontal: 'center' }
+  headerRow.height = 25
+
+  // Add data rows
+  data.forEach((row, index) => {
+    const dataRow = worksheet.addRow(headers.map((h: string) => row[h] as ExcelJS.CellValue))
+
+    // Alternate row colors
+    if (index % 2 === 1) {
+      dataRow.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'F3F4F6' },
+      }
+    }
+  })
+
+  // Auto-fit columns
+  worksheet.columns.forEach((column, index) => {
+    let maxLength = headers[index]?.length || 10
+    data.forEach(row => {
+      const value = row[headers[index]]
+      if (value) {
+        const length = String(value).length
+        if (length > maxLength) maxLength = length
+      }
+    })
+    column.width = Math.min(maxLength + 2, 50)
+  })
+
+  // Add filters
+  if (headers.length > 0) {
+    worksheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: headers.length },
+    }
+  }
+
+  // Freeze header row
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }]
+}
+
+function addSummarySheet(worksheet: ExcelJS.Worksheet, title: string, data: unknown) {
+  // Summary sheet with key metrics
+  worksheet.addRow([title])
+  worksheet.mergeCells('A1:D1')
+  const titleCell = worksheet.getCell('A1')
+  titleCell.font = { bold: true, size: 16 }
+  titleCell.alignment = { horizontal: 'center' }
+
+  worksheet.addRow([])
+  worksheet.addRow(['Generated:', new Date().toLocaleString()])
+  worksheet.addRow(['Generated by:', 'Ask Finance AI'])
+  worksheet.addRow([])
+
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    for (const [key, value] of Object.entries(data)) {
+      worksheet.addRow([formatHeader(key), value as ExcelJS.CellValue])
+    }
+  }
+}
+
+function addChartSheet(worksheet: ExcelJS.Worksheet, data: unknown) {
+  // Note: ExcelJS chart support is limited
+  // Add chart data and instructions
+  worksheet.addRow(['Chart Data'])
+  worksheet.getCell('A1').font = { bold: true, size: 14 }
+
+  const chartData = (data as { data?: unknown })?.data
+  if (Array.isArray(chartData)) {
+    const rows = chartData as Record<string, unknown>[]
+    const keys = rows.length > 0 ? Object.keys(rows[0]) : []
+
+    worksheet.addRow(keys)
+    for (const row of rows) {
+      worksheet.addRow(keys.map(k => row[k] as ExcelJS.CellValue))
+    }
+  }
+}
+
+/**
+ * Build a formatted .xlsx workbook and return it as a Buffer
+ */
+export async function buildExcelWorkbook({ title, sheets }: ExcelWorkbookConfig): Promise<Buffer> {
+  // Create workbook
+  const workbook = new ExcelJS.Workbook()
+  workbook.creator = 'Ask Finance'
+  workbook.created = new Date()
+  workbook.modified = new Date()
+
+  // Add metadata
+  workbook.title = title
+  workbook.subject = 'Financial Report'
+  workbook.keywords = 'finance, report, analysis'
+
+  for (const sheetConfig of sheets) {
+    const { name, columns, data, rows } = sheetConfig
+    const type = sheetConfig.type || 'data'
+
+    const worksheet = workbook.addWorksheet(name || 'Sheet1', {
+      properties: { tabColor: { argb: '3B82F6' } },
+      pageSetup: { paperSize: 9, orientation: 'landscape' },
+    })
+
+    if (type === 'data') {
+      const dataRows = rows || (Array.isArray(data) ? (data as Record<string, unknown>[]) : undefined)
+      if (dataRows) {
+        addDataSheet(worksheet, dataRows, columns)
+      }
+    } else if (type === 'summary') {
+      addSummarySheet(worksheet, title, data)
+    } else if (type === 'chart') {
+      addChartSheet(worksheet, data)
+    }
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  return Buffer.from(buffer as ArrayBuffer)
+}
@@ -0,0 +1,249 @@
+import PptxGenJS from 'pptxgenjs'
+
+/**
+ * PowerPoint Deck Builder
+ *
+ * Shared by the /api/export/powerpoint route and the export_file agent tool.
+ */
+
+export interface PowerPointSlideConfig {
+  title: string
+  type?: 'content' | 'chart' | 'table' | 'summary'
+  content?: string | Record<string, unknown>
+  bullets?: string[]
+  chartData?: {
+    chartType?: string
+    data?: Record<string, unknown>[]
+    xAxisKey?: string
+    yAxisKeys?: string[]
+  }
+  tableData?: {
+    columns?: string[]
+    rows?: Record<string, unknown>[]
+  }
+}
+
+export interface PowerPointDeckConfig {
+  title: string
+  slides: PowerPointSlideConfig[]
+  author?: string
+}
+
+export const POWERPOINT_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+
+function formatLabel(key: string): string {
+  return key
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/_/g, ' ')
+    .replace(/^./, str => str.toUpperCase())
+    .trim()
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '-'
+  if (typeof value === 'number') {
+    if (Math.abs(value) >= 1000000) {
+      return `$${(value / 1000000).toFixed(1)}M`
+    }
+    if (Math.abs(value) >= 1000) {
+      return `$${(value / 1000).toFixed(0)}K`
+    }
+    return value.toLocaleString()
+  }
+  return String(value)
+}
+
+function mapChartType(type?: string): PptxGenJS.CHART_NAME {
+  const mapping: Record<string, PptxGenJS.CHART_NAME> = {
+    'line': 'line',
+    'bar': 'bar',
+    'pie': 'pie',
+    'area': 'area',
+    'composed': 'bar',
+  }
+  return (type && mapping[type]) || 'bar'
+}
+
+/**
+ * Slides from the export_file tool carry no explicit type; infer it from
+ * which payload is present
+ */
+function slideType(slide: PowerPointSlideConfig): NonNullable<PowerPointSlideConfig['type']> {
+  if (slide.type) return slide.type
+  if (slide.tableData) return 'table'
+  if (slide.chartData) return 'chart'
+  return 'content'
+}
+
+/**
+ * Build a branded .pptx deck and return it as a Buffer
+ */
+export async function buildPowerPointDeck({ title, slides, author }: PowerPointDeckConfig): Promise<Buffer> {
+  // Create presentation
+  const pptx = new PptxGenJS()
+  pptx.title = title
+  pptx.subject = 'Financial Report'
+  pptx.author = author || 'Ask Finance AI'
+  pptx.company = 'Ask Finance'
+
+  // Define master slide
+  pptx.defineSlideMaster({
+    title: 'MASTER_SLIDE',
+    background: { color: 'FFFFFF' },
+    objects: [
+      // Header bar
+      {
+        rect: {
+          x: 0, y: 0, w: '100%', h: 0.7,
+          fill: { color: '1E3A8A' }
+        }
+      },
+      // Footer
+      {
+        text: {
+          text: 'Ask Finance | Confidential',
+          options: {
+            x: 0.5, y: 5.2, w: 4, h: 0.3,
+            fontSize: 8, color: '666666'
+          }
+        }
+      },
+      // Page number
+      {
+        text: {
+          text: 'Page',
+          options: {
+            x: 8.5, y: 5.2, w: 1, h: 0.3,
+            fontSize: 8, color: '666666'
+          }
+        }
+      },
+    ],
+  })
+
+  // Add title slide
+  const titleSlide = pptx.addSlide()
+  titleSlide.addText(title, {
+    x: 0.5, y: 2, w: 9, h: 1.5,
+    fontSize: 36, bold: true, color: '1E3A8A',
+    align: 'center', valign: 'middle'
+  })
+  titleSlide.addText(new Date().toLocaleDateString('en-US', {
+    year: 'numeric', month: 'long', day: 'numeric'
+  }), {
+    x: 0.5, y: 3.5, w: 9, h: 0.5,
+    fontSize: 14, color: '666666',
+    align: 'center'
+  })
+  titleSlide.addText('Generated by Ask Finance AI', {
+    x: 0.5, y: 4, w: 9, h: 0.5,
+    fontSize: 12, color: '999999',
+    align: 'center'
+  })
+
+  // Add content slides
+  for (const slideConfig of slides) {
+    const slide = pptx.addSlide({ masterName: 'MASTER_SLIDE' })
+
+    // Add slide title
+    slide.addText(slideConfig.title, {
+      x: 0.5, y: 0.15, w: 9, h: 0.5,
+      fontSize: 18, bold: true, color: 'FFFFFF'
+    })
+
+    const { content, bullets, chartData, tableData } = slideConfig
+    const type = slideType(slideConfig)
+
+    if (type === 'content' && typeof content === 'string' && content) {
+      // Text content slide
+      slide.addText(content, {
+        x: 0.5, y: 1, w: 9, h: 4,
+        fontSize: 14, color: '333333',
+        valign: 'top'
+      })
+    }
+
+    if (type === 'content' && bullets && Array.isArray(bullets)) {
+      // Bullet points
+      const bulletText = bullets.map((b: string) => ({
+        text: b,
+        options: { bullet: { type: 'bullet' as const }, fontSize: 14 }
+      }))
+      slide.addText(bulletText, {
+        x: 0.5, y: 1, w: 9, h: 4,
+        color: '333333', valign: 'top'
+      })
+    }
+
+    if (type === 'chart' && chartData) {
+      // Chart slide
+      const { chartType, data, xAxisKey = 'name', yAxisKeys } = chartData
+
+      if (data && Array.isArray(data) && data.length > 0) {
+        // Prepare chart data for pptxgenjs
+        const labels = data.map(d => String(d[xAxisKey] || ''))
+        const chartDataSeries = (yAxisKeys || []).map((key: string) => ({
+          name: formatLabel(key),
+          labels,
+          values: data.map(d => Number(d[key]) || 0)
+        }))
+
+        slide.addChart(mapChartType(chartType), chartDataSeries, {
+          x: 0.5, y: 1.2, w: 9, h: 4,
+          showLegend: true,
+          legendPos: 'b',
+          showTitle: false,
+          chartColors: ['3B82F6', '10B981', 'F59E0B', 'EF4444', '8B5CF6'],
+        })
+      }
+    }
+
+    if (type === 'table' && tableData) {
+      // Table slide
+      const { rows } = tableData
+      const columns = tableData.columns || (rows && rows.length > 0 ? Object.keys(rows[0]) : undefined)
+
+      if (columns && rows && Array.isArray(rows)) {
+        const tableRows: PptxGenJS.TableRow[] = [
+          columns.map((col: string) => ({
+            text: formatLabel(col),
+            options: { bold: true, fill: { color: '1E3A8A' }, color: 'FFFFFF' }
+          })),
+          ...rows.map(row =>
+            columns.map((col: string) => ({
+              text: formatValue(row[col]),
+              options: { fill: { color: 'F3F4F6' } }
+            }))
+          )
+        ]
+
+        slide.addTable(tableRows, {
+          x: 0.5, y: 1.2, w: 9,
+          fontSize: 10,
+          border: { pt: 0.5, color: 'CCCCCC' },
+          align: 'center',
+          valign: 'middle',
+        })
+      }
+    }
+
+    if (type === 'summary') {
+      // Summary slide with key metrics
+      if (content && typeof content === 'object') {
+        const rows: PptxGenJS.TableRow[] = Object.entries(content).map(([key, value]) => [
+          { text: formatLabel(key), options: { bold: true } },
+          { text: formatValue(value), options: { align: 'right' as const } }
+        ])
+
+        slide.addTable(rows, {
+          x: 1, y: 1.5, w: 8,
+          fontSize: 14,
+          border: { pt: 0, color: 'FFFFFF' },
+        })
+      }
+    }
+  }
+
+  // Generate buffer
+  return (await pptx.write({ outputType: 'nodebuffer' })) as Buffer
+}
@@ -0,0 +1,130 @@
+import { createServiceClient } from '@/lib/supabase/server'
+
+/**
+ * Export Storage
+ *
+ * Persists generated files in the private "exports" bucket, records them in
+ * the exports table and mints short-lived signed download URLs.
+ */
+
+export type ExportFormat = 'excel' | 'powerpoint'
+
+export interface StoreExportParams {
+  userId: string
+  threadId?: string
+  format: ExportFormat
+  title: string
+  fileName: string
+  mimeType: string
+  buffer: Buffer
+}
+
+export interface StoredExport {
+  exportId: string
+  storagePath: string
+  downloadUrl: string
+  expiresAt: string
+}
+
+const EXPORTS_BUCKET = 'exports'
+
+// Signed URLs expire after 1 hour; /api/exports/[id] mints a fresh one on demand
+export const EXPORT_URL_TTL_SECONDS = 3600
+
+export function sanitizeFilename(name: string): string {
+  return name
+    .replace(/[^a-zA-Z0-9\s-_]/g, '')
+    .replace(/\s+/g, '_')
+    .substring(0, 50)
+}
+
+/**
+ * Create a signed download URL for a stored export
+ */
+export async function createExportDownloadUrl(
+  storagePath: string,
+  fileName: string
+): Promise<{ downloadUrl: string; expiresAt: string }> {
+  const supabase = await createServiceClient()
+
+  const { data, error } = await supabase.storage
+    .from(EXPORTS_BUCKET)
+    .createSignedUrl(storagePath, EXPORT_URL_TTL_SECONDS, { download: fileName })
+
+  if (error || !data) {
+    throw new Error(`Failed to create download URL: ${error?.message || 'unknown error'}`)
+  }
+
+  return {
+    downloadUrl: data.signedUrl,
+    expiresAt: new Date(Date.now() + EXPORT_URL_TTL_SECONDS * 1000).toISOString(),
+  }
+}
+
+/**
+ * Upload a generated file and record it in the exports table
+ */
+export async function storeExport(params: StoreExportParams): Promise<StoredExport> {
+  const { userId, threadId, format, title, fileName, mimeType, buffer } = params
+  const supabase = await createServiceClient()
+
+  const storagePath = `${userId}/${Date.now()}_${fileName}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(EXPORTS_BUCKET)
+    .upload(storagePath, buffer, {
+      contentType: mimeType,
+      upsert: false,
+    })
+
+  if (uploadError) {
+    throw new Error(`Failed to upload export: ${uploadError.message}`)
+  }
+
+  const { data: record, error: insertError } = await supabase
+    .from('exports')
+    .insert({
+      user_id: userId,
+      thread_id: threadId || null,
+      format,
+      title,
+      file_name: fileName,
+      storage_path: storagePath,
+      mime_type: mimeType,
+      file_size: buffer.length,
+    })
+    .select('id')
+    .single()
+
+  if (insertError || !record) {
+    // Don't leave an orphaned file behind
+    await supabase.storage.from(EXPORTS_BUCKET).remove([storagePath])
+    throw new Error(`Failed to record export: ${insertError?.message || 'unknown error'}`)
+  }
+
+  const { downloadUrl, expiresAt } = await createExportDownloadUrl(storagePath, fileName)
+
+  return {
+    exportId: record.id,
+    storagePath,
+    downloadUrl,
+    expiresAt,
+  }
+}
+
+/**
+ * Link exports created during a chat turn to the saved assistant message
+ */
+export async function attachExportsToMessage(exportIds: string[], messageId: string): Promise<void> {
+  if (exportIds.length === 0) return
+
+  const supabase = await createServiceClient()
+  const { error } = await supabase
+    .from('exports')
+    .update({ message_id: messageId })
+    .in('id', exportIds)
+
+  if (error) {
+    console.error('Failed to link exports to message:', error)
+  }
+}
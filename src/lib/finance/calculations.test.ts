@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import {
+  discountedPaybackPeriod,
+  fv,
+  irr,
+  npv,
+  paybackPeriod,
+  pmt,
+  pv,
+  xirr,
+  xnpv,
+} from './calculations'
+
+// Excel's XIRR/XNPV documentation example
+const DATED_FLOWS = [
+  { amount: -10000, date: '2008-01-01' },
+  { amount: 2750, date: '2008-03-01' },
+  { amount: 4250, date: '2008-10-30' },
+  { amount: 3250, date: '2009-02-15' },
+  { amount: 2750, date: '2009-04-01' },
+]
+
+describe('npv', () => {
+  it('leaves the first cash flow undiscounted', () => {
+    expect(npv(0.1, [-1000, 300, 400, 500])).toBeCloseTo(-21.04, 2)
+    expect(npv(0.1, [-1000])).toBe(-1000)
+  })
+
+  it('sums the cash flows at a rate of 0', () => {
+    expect(npv(0, [-1000, 300, 400, 500])).toBe(200)
+  })
+
+  it('rejects rates at or below -100% and empty cash flows', () => {
+    expect(() => npv(-1, [-1000, 500])).toThrow('greater than -100%')
+    expect(() => npv(0.1, [])).toThrow('At least one cash flow')
+  })
+})
+
+describe('irr', () => {
+  it('matches Excel for known cash flows', () => {
+    expect(irr([-1000, 300, 400, 500])).toBeCloseTo(0.088963, 6)
+    expect(irr([-70000, 12000, 15000, 18000, 21000, 26000])).toBeCloseTo(0.086631, 6)
+  })
+
+  it('is the rate at which npv is zero', () => {
+    const flows = [-5000, 1200, 1800, 2500, 900]
+    expect(npv(irr(flows), flows)).toBeCloseTo(0, 6)
+  })
+
+  it('gives no IRR when the cash flows never change sign', () => {
+    expect(() => irr([1000, 200, 300])).toThrow('at least one positive and one negative')
+    expect(() => irr([-1000, -200, -300])).toThrow('at least one positive and one negative')
+  })
+
+  it('needs at least two cash flows', () => {
+    expect(() => irr([-1000])).toThrow('At least two cash flows')
+  })
+})
+
+describe('xnpv and xirr', () => {
+  it('match Excel for dated cash flows', () => {
+    expect(xnpv(0.09, DATED_FLOWS)).toBeCloseTo(2086.65, 2)
+    expect(xirr(DATED_FLOWS)).toBeCloseTo(0.373363, 6)
+  })
+
+  it('accept Date objects as well as ISO strings', () => {
+    const flows = DATED_FLOWS.map(cf => ({ ...cf, date: new Date(cf.date) }))
+    expect(xirr(flows)).toBeCloseTo(xirr(DATED_FLOWS), 10)
+  })
+
+  it('give no XIRR when the cash flows never change sign', () => {
+    expect(() => xirr(DATED_FLOWS.map(cf => ({ ...cf, amount: Math.abs(cf.amount) })))).toThrow(
+      'at least one positive and one negative'
+    )
+  })
+
+  it('reject flows dated before the first one and invalid dates', () => {
+    expect(() => xirr([{ amount: -100, date: '2024-06-01' }, { amount: 110, date: '2024-01-01' }])).toThrow(
+      'dated before the first cash flow'
+    )
+    expect(() => xirr([{ amount: -100, date: 'not a date' }, { amount: 110, date: '2024-01-01' }])).toThrow(
+      'Invalid date'
+    )
+  })
+})
+
+describe('paybackPeriod', () => {
+  it('interpolates within the recovery period', () => {
+    expect(paybackPeriod([-1000, 300, 400, 500])).toBeCloseTo(2.6, 10)
+  })
+
+  it('is 0 when nothing is invested up front', () => {
+    expect(paybackPeriod([0, 100, 100])).toBe(0)
+  })
+
+  it('is null when the investment is never recovered', () => {
+    expect(paybackPeriod([-1000, 100, 100, 100])).toBeNull()
+  })
+})
+
+describe('discountedPaybackPeriod', () => {
+  it('takes longer than the undiscounted payback', () => {
+    const flows = [-1000, 300, 400, 500, 600]
+    expect(discountedPaybackPeriod(0.1, flows)).toBeCloseTo(3.0513, 4)
+    expect(discountedPaybackPeriod(0.1, flows)!).toBeGreaterThan(paybackPeriod(flows)!)
+  })
+
+  it('is null when discounting means the investment is never recovered', () => {
+    expect(discountedPaybackPeriod(0.1, [-1000, 300, 400, 500])).toBeNull()
+  })
+})
+
+describe('pmt', () => {
+  it('matches Excel for a loan', () => {
+    expect(pmt(0.08 / 12, 10, 10000)).toBeCloseTo(-1037.03, 2)
+  })
+
+  it('handles a rate of 0', () => {
+    expect(pmt(0, 12, 1200)).toBe(-100)
+    expect(pmt(0, 10, 1000, 500)).toBe(-150)
+  })
+
+  it('pays less per period when payments are at the beginning', () => {
+    const end = pmt(0.05, 10, 10000)
+    const beginning = pmt(0.05, 10, 10000, 0, 1)
+    expect(beginning).toBeCloseTo(end / 1.05, 8)
+  })
+
+  it('rejects a non-positive number of periods', () => {
+    expect(() => pmt(0.05, 0, 1000)).toThrow('greater than zero')
+  })
+})
+
+describe('fv and pv', () => {
+  it('match Excel', () => {
+    expect(fv(0.06 / 12, 10, -200, -500, 1)).toBeCloseTo(2581.4, 2)
+    expect(pv(0.08 / 12, 240, 500)).toBeCloseTo(-59777.15, 2)
+  })
+
+  it('handle a rate of 0', () => {
+    expect(fv(0, 10, -100, -1000)).toBe(2000)
+    expect(pv(0, 10, -100)).toBe(1000)
+  })
+
+  it('are consistent with pmt', () => {
+    const payment = pmt(0.04, 15, -25000)
+    expect(pv(0.04, 15, payment)).toBeCloseTo(-25000, 6)
+    expect(fv(0.04, 15, payment, -25000)).toBeCloseTo(0, 6)
+  })
+})
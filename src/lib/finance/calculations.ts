@@ -0,0 +1,411 @@
+/**
+ * Finance Math Library
+ *
+ * Pure, deterministic implementations of the calculations exposed through
+ * the financial_calculation tool. Nothing in here touches the network or
+ * the database, so results are reproducible and safe to cite.
+ *
+ * Conventions:
+ * - Rates are decimals (0.1 = 10%), results are decimals unless noted
+ * - Cash flows are ordered; index 0 is the initial (t = 0) flow
+ * - PMT/FV/PV follow Excel sign conventions (money paid out is negative)
+ */
+
+const DAYS_PER_YEAR = 365
+const MAX_ITERATIONS = 200
+const TOLERANCE = 1e-10
+
+export interface DatedCashFlow {
+  amount: number
+  date: Date | string
+}
+
+/**
+ * 0 = payments at the end of each period (Excel default), 1 = at the beginning
+ */
+export type PaymentTiming = 0 | 1
+
+function assertFinite(value: number, name: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${name} must be a finite number`)
+  }
+}
+
+function assertNonZero(value: number, name: string): void {
+  assertFinite(value, name)
+  if (value === 0) {
+    throw new Error(`${name} must not be zero`)
+  }
+}
+
+function assertCashFlows(cashFlows: number[]): void {
+  if (!Array.isArray(cashFlows) || cashFlows.length < 2) {
+    throw new Error('At least two cash flows are required')
+  }
+  cashFlows.forEach((cf, i) => assertFinite(cf, `Cash flow ${i}`))
+}
+
+function assertSignChange(cashFlows: number[]): void {
+  const hasPositive = cashFlows.some(cf => cf > 0)
+  const hasNegative = cashFlows.some(cf => cf < 0)
+  if (!hasPositive || !hasNegative) {
+    throw new Error('Cash flows must contain at least one positive and one negative value')
+  }
+}
+
+function toDate(value: Date | string): Date {
+  const date = value instanceof Date ? value : new Date(value)
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${String(value)}`)
+  }
+  return date
+}
+
+/**
+ * Find a root of f using Newton-Raphson, falling back to bisection when
+ * Newton diverges or the derivative vanishes.
+ */
+function solveRate(
+  f: (rate: number) => number,
+  df: (rate: number) => number,
+  guess: number
+): number {
+  let rate = guess
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const value = f(rate)
+    if (Math.abs(value) < TOLERANCE) return rate
+
+    const derivative = df(rate)
+    if (derivative === 0 || !Number.isFinite(derivative)) break
+
+    const next = rate - value / derivative
+    if (!Number.isFinite(next) || next <= -1) break
+    if (Math.abs(next - rate) < TOLERANCE) return next
+    rate = next
+  }
+
+  // Bisection over a wide bracket: -99.99% to +1,000,000%
+  let low = -0.9999
+  let high = 10000
+  let fLow = f(low)
+  const fHigh = f(high)
+  if (!Number.isFinite(fLow) || !Number.isFinite(fHigh) || fLow * fHigh > 0) {
+    throw new Error('Rate did not converge for the given cash flows')
+  }
+
+  for (let i = 0; i < MAX_ITERATIONS * 5; i++) {
+    const mid = (low + high) / 2
+    const fMid = f(mid)
+    if (Math.abs(fMid) < TOLERANCE || (high - low) / 2 < TOLERANCE) return mid
+    if (fMid * fLow < 0) {
+      high = mid
+    } else {
+      low = mid
+      fLow = fMid
+    }
+  }
+
+  return (low + high) / 2
+}
+
+// ============================================
+// Growth and comparison
+// ============================================
+
+/**
+ * Absolute variance: actual - baseline
+ */
+export function variance(actual: number, baseline: number): number {
+  assertFinite(actual, 'Actual')
+  assertFinite(baseline, 'Baseline')
+  return actual - baseline
+}
+
+/**
+ * Relative variance: (actual - baseline) / |baseline|
+ * Uses the absolute baseline so a smaller loss reads as a positive change.
+ */
+export function variancePercent(actual: number, baseline: number): number {
+  assertFinite(actual, 'Actual')
+  assertNonZero(baseline, 'Baseline')
+  return (actual - baseline) / Math.abs(baseline)
+}
+
+/**
+ * Year-over-year growth: (current - prior year) / |prior year|
+ */
+export function yoy(current: number, priorYear: number): number {
+  return variancePercent(current, priorYear)
+}
+
+/**
+ * Quarter-over-quarter growth: (current - prior quarter) / |prior quarter|
+ */
+export function qoq(current: number, priorQuarter: number): number {
+  return variancePercent(current, priorQuarter)
+}
+
+/**
+ * Compound annual growth rate: (ending / beginning)^(1 / years) - 1
+ */
+export function cagr(beginning: number, ending: number, years: number): number {
+  assertFinite(beginning, 'Beginning value')
+  assertFinite(ending, 'Ending value')
+  assertFinite(years, 'Years')
+  if (years <= 0) {
+    throw new Error('Years must be greater than zero')
+  }
+  if (beginning <= 0 || ending < 0) {
+    throw new Error('CAGR requires a positive beginning value and a non-negative ending value')
+  }
+  return Math.pow(ending / beginning, 1 / years) - 1
+}
+
+/**
+ * Simple ratio: numerator / denominator
+ */
+export function ratio(numerator: number, denominator: number): number {
+  assertFinite(numerator, 'Numerator')
+  assertNonZero(denominator, 'Denominator')
+  return numerator / denominator
+}
+
+/**
+ * Return on investment: (gain - cost) / cost
+ */
+export function roi(gain: number, cost: number): number {
+  assertFinite(gain, 'Gain')
+  assertNonZero(cost, 'Cost')
+  return (gain - cost) / cost
+}
+
+/**
+ * EBITDA margin: EBITDA / revenue
+ */
+export function ebitdaMargin(ebitda: number, revenue: number): number {
+  assertFinite(ebitda, 'EBITDA')
+  assertNonZero(revenue, 'Revenue')
+  return ebitda / revenue
+}
+
+// ============================================
+// Discounted cash flow
+// ============================================
+
+/**
+ * Net present value with the first cash flow at t = 0 (undiscounted)
+ */
+export function npv(rate: number, cashFlows: number[]): number {
+  assertFinite(rate, 'Discount rate')
+  if (rate <= -1) {
+    throw new Error('Discount rate must be greater than -100%')
+  }
+  if (!Array.isArray(cashFlows) || cashFlows.length === 0) {
+    throw new Error('At least one cash flow is required')
+  }
+  cashFlows.forEach((cf, i) => assertFinite(cf, `Cash flow ${i}`))
+
+  return cashFlows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + rate, t), 0)
+}
+
+/**
+ * Internal rate of return for evenly spaced cash flows
+ */
+export function irr(cashFlows: number[], guess: number = 0.1): number {
+  assertCashFlows(cashFlows)
+  assertSignChange(cashFlows)
+
+  return solveRate(
+    rate => cashFlows.reduce((sum, cf, t) => sum + cf / Math.pow(1 + rate, t), 0),
+    rate => cashFlows.reduce((sum, cf, t) => sum - (t * cf) / Math.pow(1 + rate, t + 1), 0),
+    guess
+  )
+}
+
+/**
+ * Net present value for irregularly dated cash flows (Excel XNPV, actual/365)
+ */
+export function xnpv(rate: number, cashFlows: DatedCashFlow[]): number {
+  assertFinite(rate, 'Discount rate')
+  if (rate <= -1) {
+    throw new Error('Discount rate must be greater than -100%')
+  }
+  const { amounts, years } = normalizeDatedCashFlows(cashFlows)
+
+  return amounts.reduce((sum, cf, i) => sum + cf / Math.pow(1 + rate, years[i]), 0)
+}
+
+/**
+ * Internal rate of return for irregularly dated cash flows (Excel XIRR)
+ */
+export function xirr(cashFlows: DatedCashFlow[], guess: number = 0.1): number {
+  const { amounts, years } = normalizeDatedCashFlows(cashFlows)
+  assertSignChange(amounts)
+
+  return solveRate(
+    rate => amounts.reduce((sum, cf, i) => sum + cf / Math.pow(1 + rate, years[i]), 0),
+    rate => amounts.reduce((sum, cf, i) => sum - (years[i] * cf) / Math.pow(1 + rate, years[i] + 1), 0),
+    guess
+  )
+}
+
+function normalizeDatedCashFlows(cashFlows: DatedCashFlow[]): { amounts: number[]; years: number[] } {
+  if (!Array.isArray(cashFlows) || cashFlows.length < 2) {
+    throw new Error('At least two dated cash flows are required')
+  }
+
+  const amounts = cashFlows.map((cf, i) => {
+    assertFinite(cf.amount, `Cash flow ${i}`)
+    return cf.amount
+  })
+  const dates = cashFlows.map(cf => toDate(cf.date))
+  const start = dates[0].getTime()
+
+  const years = dates.map((date, i) => {
+    const days = (date.getTime() - start) / 86400000
+    if (days < 0) {
+      throw new Error(`Cash flow ${i} is dated before the first cash flow`)
+    }
+    return days / DAYS_PER_YEAR
+  })
+
+  return { amounts, years }
+}
+
+/**
+ * Number of periods until cumulative cash flow turns non-negative.
+ * Interpolates within the recovery period. Returns null if never recovered.
+ */
+export function paybackPeriod(cashFlows: number[]): number | null {
+  assertCashFlows(cashFlows)
+  return computePayback(cashFlows)
+}
+
+/**
+ * Payback period using discounted cash flows at the given rate.
+ * Returns null if the investment is never recovered.
+ */
+export function discountedPaybackPeriod(rate: number, cashFlows: number[]): number | null {
+  assertFinite(rate, 'Discount rate')
+  if (rate <= -1) {
+    throw new Error('Discount rate must be greater than -100%')
+  }
+  assertCashFlows(cashFlows)
+  return computePayback(cashFlows.map((cf, t) => cf / Math.pow(1 + rate, t)))
+}
+
+function computePayback(cashFlows: number[]): number | null {
+  let cumulative = cashFlows[0]
+  if (cumulative >= 0) return 0
+
+  for (let t = 1; t < cashFlows.length; t++) {
+    const previous = cumulative
+    cumulative += cashFlows[t]
+    if (cumulative >= 0) {
+      // Fraction of period t needed to cover the remaining shortfall
+      return t - 1 + -previous / cashFlows[t]
+    }
+  }
+
+  return null
+}
+
+// ============================================
+// Time value of money (Excel-compatible)
+// ============================================
+
+/**
+ * Periodic payment for a loan or annuity (Excel PMT)
+ */
+export function pmt(
+  rate: number,
+  nper: number,
+  presentValue: number,
+  futureValue: number = 0,
+  type: PaymentTiming = 0
+): number {
+  assertTvmInputs(rate, nper)
+  assertFinite(presentValue, 'Present value')
+  assertFinite(futureValue, 'Future value')
+
+  if (rate === 0) {
+    return -(presentValue + futureValue) / nper
+  }
+
+  const factor = Math.pow(1 + rate, nper)
+  return -(rate * (presentValue * factor + futureValue)) / ((1 + rate * type) * (factor - 1))
+}
+
+/**
+ * Future value of a series of payments and a present value (Excel FV)
+ */
+export function fv(
+  rate: number,
+  nper: number,
+  payment: number,
+  presentValue: number = 0,
+  type: PaymentTiming = 0
+): number {
+  assertTvmInputs(rate, nper)
+  assertFinite(payment, 'Payment')
+  assertFinite(presentValue, 'Present value')
+
+  if (rate === 0) {
+    return -(presentValue + payment * nper)
+  }
+
+  const factor = Math.pow(1 + rate, nper)
+  return -(presentValue * factor + (payment * (1 + rate * type) * (factor - 1)) / rate)
+}
+
+/**
+ * Present value of a series of payments and a future value (Excel PV)
+ */
+export function pv(
+  rate: number,
+  nper: number,
+  payment: number,
+  futureValue: number = 0,
+  type: PaymentTiming = 0
+): number {
+  assertTvmInputs(rate, nper)
+  assertFinite(payment, 'Payment')
+  assertFinite(futureValue, 'Future value')
+
+  if (rate === 0) {
+    return -(futureValue + payment * nper)
+  }
+
+  const factor = Math.pow(1 + rate, nper)
+  return -(futureValue + (payment * (1 + rate * type) * (factor - 1)) / rate) / factor
+}
+
+function assertTvmInputs(rate: number, nper: number): void {
+  assertFinite(rate, 'Rate')
+  assertFinite(nper, 'Number of periods')
+  if (rate <= -1) {
+    throw new Error('Rate must be greater than -100%')
+  }
+  if (nper <= 0) {
+    throw new Error('Number of periods must be greater than zero')
+  }
+}
+
+// ============================================
+// Formatting helpers
+// ============================================
+
+/**
+ * Round to a fixed number of decimals without floating point noise
+ */
+export function roundTo(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round((value + Number.EPSILON) * factor) / factor
+}
+
+/**
+ * Format a decimal rate as a percentage string (0.1234 -> "12.34%")
+ */
+export function formatPercent(value: number, decimals: number = 2): string {
+  return `${roundTo(value * 100, decimals).toFixed(decimals)}%`
+}
@@ -0,0 +1,375 @@
+/**
+ * Financial Calculation Router
+ *
+ * Maps financial_calculation tool operations onto the pure functions in
+ * ./calculations and returns a structured result with the formula and the
+ * inputs that produced it, so the model can cite the math instead of
+ * redoing it in prose.
+ */
+
+import {
+  variance,
+  variancePercent,
+  yoy,
+  qoq,
+  cagr,
+  ratio,
+  roi,
+  ebitdaMargin,
+  npv,
+  irr,
+  xnpv,
+  xirr,
+  paybackPeriod,
+  discountedPaybackPeriod,
+  pmt,
+  fv,
+  pv,
+  roundTo,
+  formatPercent,
+  type PaymentTiming,
+} from './calculations'
+
+export const FINANCIAL_OPERATIONS = [
+  'variance',
+  'variance_percent',
+  'roi',
+  'npv',
+  'irr',
+  'xnpv',
+  'xirr',
+  'ratio',
+  'yoy',
+  'qoq',
+  'cagr',
+  'ebitda_margin',
+  'payback',
+  'discounted_payback',
+  'pmt',
+  'fv',
+  'pv',
+] as const
+
+export type FinancialOperation = (typeof FINANCIAL_OPERATIONS)[number]
+
+export interface FinancialCalculationInput {
+  operation: string
+  values?: number[]
+  params?: Record<string, unknown>
+}
+
+export interface FinancialCalculationResult {
+  type: 'calculation'
+  operation: FinancialOperation
+  result: number | null
+  formatted: string
+  unit: 'currency' | 'percent' | 'ratio' | 'periods'
+  formula: string
+  inputs: Record<string, unknown>
+}
+
+export interface FinancialCalculationError {
+  type: 'error'
+  operation: string
+  error: string
+}
+
+const DEFAULT_DISCOUNT_RATE = 0.1
+
+function numberParam(params: Record<string, unknown> | undefined, key: string): number | undefined {
+  const value = params?.[key]
+  if (value === undefined || value === null || value === '') return undefined
+  const parsed = typeof value === 'number' ? value : Number(value)
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Parameter "${key}" must be a number`)
+  }
+  return parsed
+}
+
+function requireNumberParam(params: Record<string, unknown> | undefined, key: string): number {
+  const value = numberParam(params, key)
+  if (value === undefined) {
+    throw new Error(`Parameter "${key}" is required`)
+  }
+  return value
+}
+
+function requireValues(values: number[], count: number, labels: string[]): void {
+  if (values.length < count) {
+    throw new Error(`Expected ${count} values: ${labels.join(', ')}`)
+  }
+}
+
+function timingParam(params: Record<string, unknown> | undefined): PaymentTiming {
+  const type = params?.type
+  return type === 1 || type === '1' || type === 'begin' ? 1 : 0
+}
+
+function formatNumber(value: number): string {
+  return roundTo(value, 2).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })
+}
+
+function percentResult(
+  operation: FinancialOperation,
+  value: number,
+  formula: string,
+  inputs: Record<string, unknown>
+): FinancialCalculationResult {
+  return {
+    type: 'calculation',
+    operation,
+    result: roundTo(value * 100, 4),
+    formatted: formatPercent(value),
+    unit: 'percent',
+    formula,
+    inputs,
+  }
+}
+
+function amountResult(
+  operation: FinancialOperation,
+  value: number,
+  formula: string,
+  inputs: Record<string, unknown>
+): FinancialCalculationResult {
+  return {
+    type: 'calculation',
+    operation,
+    result: roundTo(value, 2),
+    formatted: formatNumber(value),
+    unit: 'currency',
+    formula,
+    inputs,
+  }
+}
+
+function periodsResult(
+  operation: FinancialOperation,
+  value: number | null,
+  formula: string,
+  inputs: Record<string, unknown>
+): FinancialCalculationResult {
+  return {
+    type: 'calculation',
+    operation,
+    result: value === null ? null : roundTo(value, 2),
+    formatted: value === null ? 'Not recovered within the cash flow horizon' : `${roundTo(value, 2)} periods`,
+    unit: 'periods',
+    formula,
+    inputs,
+  }
+}
+
+function datesParam(params: Record<string, unknown> | undefined, count: number): string[] {
+  const dates = params?.dates
+  if (!Array.isArray(dates) || dates.length !== count) {
+    throw new Error(`Parameter "dates" must be an array with one date per cash flow (${count})`)
+  }
+  return dates.map(d => String(d))
+}
+
+function calculate(operation: FinancialOperation, values: number[], params?: Record<string, unknown>): FinancialCalculationResult {
+  switch (operation) {
+    case 'variance': {
+      requireValues(values, 2, ['actual', 'baseline'])
+      const [actual, baseline] = values
+      return amountResult(operation, variance(actual, baseline), `${actual} - ${baseline}`, { actual, baseline })
+    }
+
+    case 'variance_percent': {
+      requireValues(values, 2, ['actual', 'baseline'])
+      const [actual, baseline] = values
+      return percentResult(
+        operation,
+        variancePercent(actual, baseline),
+        `((${actual} - ${baseline}) / |${baseline}|) × 100`,
+        { actual, baseline }
+      )
+    }
+
+    case 'yoy': {
+      requireValues(values, 2, ['current', 'priorYear'])
+      const [current, priorYear] = values
+      return percentResult(
+        operation,
+        yoy(current, priorYear),
+        `((${current} - ${priorYear}) / |${priorYear}|) × 100`,
+        { current, priorYear }
+      )
+    }
+
+    case 'qoq': {
+      requireValues(values, 2, ['current', 'priorQuarter'])
+      const [current, priorQuarter] = values
+      return percentResult(
+        operation,
+        qoq(current, priorQuarter),
+        `((${current} - ${priorQuarter}) / |${priorQuarter}|) × 100`,
+        { current, priorQuarter }
+      )
+    }
+
+    case 'cagr': {
+      requireValues(values, 2, ['beginning', 'ending'])
+      // With a full series and no explicit years, treat each value as one year apart
+      const beginning = values[0]
+      const ending = values[values.length - 1]
+      const years = numberParam(params, 'years') ?? values.length - 1
+      return percentResult(
+        operation,
+        cagr(beginning, ending, years),
+        `((${ending} / ${beginning})^(1 / ${years}) - 1) × 100`,
+        { beginning, ending, years }
+      )
+    }
+
+    case 'ratio': {
+      requireValues(values, 2, ['numerator', 'denominator'])
+      const [numerator, denominator] = values
+      const value = ratio(numerator, denominator)
+      return {
+        type: 'calculation',
+        operation,
+        result: roundTo(value, 4),
+        formatted: `${roundTo(value, 2)}x`,
+        unit: 'ratio',
+        formula: `${numerator} / ${denominator}`,
+        inputs: { numerator, denominator, label: params?.label },
+      }
+    }
+
+    case 'roi': {
+      requireValues(values, 2, ['gain', 'cost'])
+      const [gain, cost] = values
+      return percentResult(operation, roi(gain, cost), `((${gain} - ${cost}) / ${cost}) × 100`, { gain, cost })
+    }
+
+    case 'ebitda_margin': {
+      requireValues(values, 2, ['ebitda', 'revenue'])
+      const [ebitda, revenue] = values
+      return percentResult(operation, ebitdaMargin(ebitda, revenue), `(${ebitda} / ${revenue}) × 100`, { ebitda, revenue })
+    }
+
+    case 'npv': {
+      const discountRate = numberParam(params, 'discountRate') ?? DEFAULT_DISCOUNT_RATE
+      return amountResult(operation, npv(discountRate, values), 'Σ CF_t / (1 + r)^t', {
+        cashFlows: values,
+        discountRate,
+      })
+    }
+
+    case 'irr': {
+      const guess = numberParam(params, 'guess')
+      return percentResult(operation, irr(values, guess), 'r such that Σ CF_t / (1 + r)^t = 0', {
+        cashFlows: values,
+      })
+    }
+
+    case 'xnpv': {
+      const discountRate = numberParam(params, 'discountRate') ?? DEFAULT_DISCOUNT_RATE
+      const dates = datesParam(params, values.length)
+      const cashFlows = values.map((amount, i) => ({ amount, date: dates[i] }))
+      return amountResult(operation, xnpv(discountRate, cashFlows), 'Σ CF_i / (1 + r)^((d_i - d_0) / 365)', {
+        cashFlows,
+        discountRate,
+      })
+    }
+
+    case 'xirr': {
+      const guess = numberParam(params, 'guess')
+      const dates = datesParam(params, values.length)
+      const cashFlows = values.map((amount, i) => ({ amount, date: dates[i] }))
+      return percentResult(operation, xirr(cashFlows, guess), 'r such that Σ CF_i / (1 + r)^((d_i - d_0) / 365) = 0', {
+        cashFlows,
+      })
+    }
+
+    case 'payback':
+      return periodsResult(operation, paybackPeriod(values), 'First t where Σ CF_0..t ≥ 0 (interpolated)', {
+        cashFlows: values,
+      })
+
+    case 'discounted_payback': {
+      const discountRate = numberParam(params, 'discountRate') ?? DEFAULT_DISCOUNT_RATE
+      return periodsResult(
+        operation,
+        discountedPaybackPeriod(discountRate, values),
+        'First t where Σ CF_0..t / (1 + r)^t ≥ 0 (interpolated)',
+        { cashFlows: values, discountRate }
+      )
+    }
+
+    case 'pmt': {
+      const rate = requireNumberParam(params, 'rate')
+      const nper = requireNumberParam(params, 'nper')
+      const presentValue = requireNumberParam(params, 'pv')
+      const futureValue = numberParam(params, 'fv') ?? 0
+      const type = timingParam(params)
+      return amountResult(
+        operation,
+        pmt(rate, nper, presentValue, futureValue, type),
+        '-(r × (PV × (1 + r)^n + FV)) / ((1 + r × type) × ((1 + r)^n - 1))',
+        { rate, nper, pv: presentValue, fv: futureValue, type }
+      )
+    }
+
+    case 'fv': {
+      const rate = requireNumberParam(params, 'rate')
+      const nper = requireNumberParam(params, 'nper')
+      const payment = requireNumberParam(params, 'pmt')
+      const presentValue = numberParam(params, 'pv') ?? 0
+      const type = timingParam(params)
+      return amountResult(
+        operation,
+        fv(rate, nper, payment, presentValue, type),
+        '-(PV × (1 + r)^n + PMT × (1 + r × type) × ((1 + r)^n - 1) / r)',
+        { rate, nper, pmt: payment, pv: presentValue, type }
+      )
+    }
+
+    case 'pv': {
+      const rate = requireNumberParam(params, 'rate')
+      const nper = requireNumberParam(params, 'nper')
+      const payment = requireNumberParam(params, 'pmt')
+      const futureValue = numberParam(params, 'fv') ?? 0
+      const type = timingParam(params)
+      return amountResult(
+        operation,
+        pv(rate, nper, payment, futureValue, type),
+        '-(FV + PMT × (1 + r × type) × ((1 + r)^n - 1) / r) / (1 + r)^n',
+        { rate, nper, pmt: payment, fv: futureValue, type }
+      )
+    }
+  }
+}
+
+function isFinancialOperation(operation: string): operation is FinancialOperation {
+  return (FINANCIAL_OPERATIONS as readonly string[]).includes(operation)
+}
+
+/**
+ * Run a financial_calculation tool request.
+ * Never throws; invalid input comes back as a structured error for the model.
+ */
+export function runFinancialCalculation(
+  input: FinancialCalculationInput
+): FinancialCalculationResult | FinancialCalculationError {
+  const { operation, values = [], params } = input
+
+  if (!isFinancialOperation(operation)) {
+    return { type: 'error', operation, error: `Unknown operation: ${operation}` }
+  }
+
+  try {
+    return calculate(operation, values, params)
+  } catch (error) {
+    return {
+      type: 'error',
+      operation,
+      error: error instanceof Error ? error.message : 'Calculation failed',
+    }
+  }
+}
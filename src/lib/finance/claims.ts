@@ -0,0 +1,250 @@
+/**
+ * Numeric Claim Verification
+ *
+ * Extracts the monetary, percentage and count claims from an answer and
+ * checks each one against the numbers in its sources (retrieved chunks,
+ * calculation results, knowledge base metrics). Pure and deterministic, like
+ * the finance math library, and safe to import on the client.
+ *
+ * Matching allows for how people write numbers:
+ * - Scale words and suffixes: $1.2M, 1.2 million, 1,200k are the same value
+ * - Declared source scales: 1,234 in a table "in thousands" is 1,234,000
+ * - Rounding: a claim matches when the source rounds to it at the precision
+ *   written ($1.2M covers 1,150,000 - 1,250,000)
+ * - Fractions: 0.125 in a calculation input supports a 12.5% claim
+ * - Signs: "down $5k" and a variance of -5,000 match
+ */
+
+export type ClaimKind = 'money' | 'percent' | 'count'
+
+export type ClaimSourceType = 'document' | 'calculation' | 'knowledge_base'
+
+export interface ClaimVerification {
+  text: string // As written in the answer
+  start: number // Offsets into the answer text
+  end: number
+  kind: ClaimKind
+  value: number // In base units (percent points for percentages)
+  status: 'verified' | 'unverified'
+  source?: { type: ClaimSourceType; label: string } // First source that matched
+}
+
+export interface SourceValue {
+  value: number
+  percent?: boolean // Already in percent points (12.5 = 12.5%)
+}
+
+export interface ClaimSource {
+  type: ClaimSourceType
+  label: string
+  text?: string // Free text; numbers and declared scales are read from it
+  values?: SourceValue[] // Exact structured values
+}
+
+interface NumericToken {
+  text: string
+  start: number
+  end: number
+  value: number // Scale applied
+  tolerance: number // Half a unit of the last digit written, scale applied
+  percent: boolean
+  currency: boolean
+  scaled: boolean // Had a scale word or suffix
+}
+
+interface NumericClaim extends NumericToken {
+  kind: ClaimKind
+}
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+  tn: 1e12,
+  trillion: 1e12,
+}
+
+const CURRENCY_CODES = 'USD|EUR|GBP|CHF|JPY|CAD|AUD'
+
+// [-][currency]number[ scale][%|percent][ code]; not inside words like Q3 or FY2024
+const NUMBER_PATTERN = new RegExp(
+  String.raw`(?<![\w.,])(?<neg>[-−])?(?<cur>[$€£¥]|(?:${CURRENCY_CODES})\s?)?` +
+    String.raw`(?<num>\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)` +
+    String.raw`(?:\s?(?<word>thousand|million|billion|trillion|mn|bn|tn)\b|(?<suffix>mm|k|m|b)\b)?` +
+    String.raw`(?<pct>\s?%|\s(?:percent|per cent)\b)?` +
+    String.raw`(?:\s(?<code>${CURRENCY_CODES})\b)?`,
+  'gi'
+)
+
+// Markdown where a number can't be wrapped or isn't prose: code and links
+const EXCLUDED_PATTERN = /```[\s\S]*?```|`[^`\n]*`|!?\[[^\]\n]*\]\([^)\n]*\)/g
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)'
+const FOLLOWED_BY_MONTH = new RegExp(`^${MONTH}\\b`, 'i')
+const PRECEDED_BY_MONTH = new RegExp(`\\b${MONTH}\\.?\\s+$`, 'i')
+
+// "in thousands", "(000s)", "$'000", "USD m" - unscaled numbers in the text use this scale
+const DECLARED_SCALES: Array<{ pattern: RegExp; scale: number }> = [
+  { pattern: /\bin\s+(?:[A-Z]{3}\s+|[$€£]\s?)?thousands\b|\(\s*(?:[$€£]\s?)?0{3}'?s?\s*\)|[$€£]\s?'?000s?\b|\b[A-Z]{3}\s?'?000s?\b/i, scale: 1e3 },
+  { pattern: /\bin\s+(?:[A-Z]{3}\s+|[$€£]\s?)?millions\b|\((?:[$€£]\s?)?(?:mm|mn|m|millions)\)|\b[A-Z]{3}\s?(?:mm|mn|m)\b/i, scale: 1e6 },
+  { pattern: /\bin\s+(?:[A-Z]{3}\s+|[$€£]\s?)?billions\b|\((?:[$€£]\s?)?(?:bn|b|billions)\)|\b[A-Z]{3}\s?bn\b/i, scale: 1e9 },
+]
+
+// Relative slack for floating point noise in computed values
+const EPSILON = 1e-9
+
+/**
+ * The multiplier for a scale word or suffix ("million", "bn", "k"); 1 if none
+ */
+export function parseScale(word: string | undefined): number {
+  if (!word) return 1
+  return SCALES[word.toLowerCase()] || 1
+}
+
+/**
+ * Half a unit of the last digit written. Trailing zeros of an integer count
+ * as rounding when at least two other digits are given (1,200,000 ~ 1.2M).
+ */
+function precisionOf(num: string): number {
+  const [integer, decimals] = num.replace(/,/g, '').split('.')
+  if (decimals) return 0.5 * 10 ** -decimals.length
+
+  const significant = integer.replace(/0+$/, '')
+  const trailingZeros = integer.length - significant.length
+  return significant.length >= 2 ? 0.5 * 10 ** trailingZeros : 0.5
+}
+
+function findExcludedRanges(text: string): Array<[number, number]> {
+  return Array.from(text.matchAll(EXCLUDED_PATTERN), m => [m.index, m.index + m[0].length] as [number, number])
+}
+
+function findNumbers(text: string): NumericToken[] {
+  const excluded = findExcludedRanges(text)
+  const tokens: NumericToken[] = []
+
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const start = match.index
+    const end = start + match[0].trimEnd().length
+    if (excluded.some(([from, to]) => start < to && end > from)) continue
+
+    const groups = match.groups || {}
+    const scale = parseScale(groups.word || groups.suffix)
+    const magnitude = parseFloat(groups.num.replace(/,/g, ''))
+    if (!Number.isFinite(magnitude)) continue
+
+    tokens.push({
+      text: text.slice(start, end),
+      start,
+      end,
+      value: (groups.neg ? -magnitude : magnitude) * scale,
+      tolerance: precisionOf(groups.num) * scale,
+      percent: !!groups.pct,
+      currency: !!(groups.cur || groups.code),
+      scaled: scale !== 1,
+    })
+  }
+
+  return tokens
+}
+
+function classifyClaim(token: NumericToken, text: string): ClaimKind | null {
+  if (token.percent) return 'percent'
+  if (token.currency) return 'money'
+
+  // Counts need a noun after them ("142 invoices"); this skips list markers, dates and headings
+  const following = text.slice(token.end).match(/^\s+([A-Za-z][\w-]*)/)
+  if (!following) return token.scaled ? 'money' : null // "Opex was 4.6 million."
+  if (FOLLOWED_BY_MONTH.test(following[1]) || PRECEDED_BY_MONTH.test(text.slice(0, token.start))) return null
+
+  const magnitude = Math.abs(token.value)
+  const isYear = !token.scaled && /^\d{4}$/.test(token.text) && magnitude >= 1900 && magnitude <= 2100
+  if (isYear) return null
+  // Single-digit counts ("3 vendors") match almost any source
+  if (!token.scaled && magnitude < 10) return null
+
+  return 'count'
+}
+
+/**
+ * Monetary, percentage and count claims in an answer, in order
+ */
+export function extractNumericClaims(text: string): NumericClaim[] {
+  return findNumbers(text).flatMap(token => {
+    const kind = classifyClaim(token, text)
+    return kind ? [{ ...token, kind }] : []
+  })
+}
+
+function declaredScales(text: string): number[] {
+  return DECLARED_SCALES.filter(({ pattern }) => pattern.test(text)).map(({ scale }) => scale)
+}
+
+/**
+ * The values a source supports, each with the tolerance it was written at
+ */
+function sourceCandidates(source: ClaimSource): Array<SourceValue & { tolerance: number }> {
+  const candidates: Array<SourceValue & { tolerance: number }> = []
+
+  for (const value of source.values || []) {
+    if (Number.isFinite(value.value)) candidates.push({ ...value, tolerance: 0 })
+  }
+
+  if (source.text) {
+    const scales = declaredScales(source.text)
+    for (const token of findNumbers(source.text)) {
+      candidates.push({ value: token.value, percent: token.percent, tolerance: token.tolerance })
+      // Unscaled table figures under a declared scale
+      if (!token.percent && !token.scaled) {
+        for (const scale of scales) {
+          candidates.push({ value: token.value * scale, tolerance: token.tolerance * scale })
+        }
+      }
+    }
+  }
+
+  return candidates
+}
+
+function matches(claim: NumericClaim, candidate: SourceValue & { tolerance: number }): boolean {
+  const claimed = Math.abs(claim.value)
+  let supported = Math.abs(candidate.value)
+  let candidateTolerance = candidate.tolerance
+
+  if (claim.kind === 'percent' && !candidate.percent) {
+    // A decimal rate or ratio (0.125) for a percentage (12.5%)
+    if (supported > 10) return false
+    supported *= 100
+    candidateTolerance *= 100
+  } else if (claim.kind !== 'percent' && candidate.percent) {
+    return false
+  }
+
+  const tolerance = Math.max(claim.tolerance, candidateTolerance) + EPSILON * Math.max(claimed, 1)
+  return Math.abs(claimed - supported) <= tolerance
+}
+
+/**
+ * Check every numeric claim in an answer against its sources
+ */
+export function verifyNumericClaims(text: string, sources: ClaimSource[]): ClaimVerification[] {
+  const indexed = sources.map(source => ({ source, candidates: sourceCandidates(source) }))
+
+  return extractNumericClaims(text).map(claim => {
+    const match = indexed.find(({ candidates }) => candidates.some(candidate => matches(claim, candidate)))
+    return {
+      text: claim.text,
+      start: claim.start,
+      end: claim.end,
+      kind: claim.kind,
+      value: claim.value,
+      status: match ? 'verified' : 'unverified',
+      ...(match ? { source: { type: match.source.type, label: match.source.label } } : {}),
+    }
+  })
+}
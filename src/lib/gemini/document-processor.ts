@@ -1,15 +1,23 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import { GoogleAIFileManager, FileState } from '@google/generative-ai/server'
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!)
-const fileManager = new GoogleAIFileManager(process.env.GEMINI_API_KEY!)
-
-// Use Gemini 3 Pro Preview for document processing
-const GEMINI_MODEL = 'gemini-3-pro-preview'
+import type { GenerativeModel } from '@google/generative-ai'
+import { FileState } from '@google/generative-ai/server'
+import * as XLSX from 'xlsx'
+import { getGeminiClient, getGeminiFileManager, getRedactorForUser, withModelFallback, type Redactor } from '@/lib/llm'
+import { parseSpreadsheetBuffer } from '@/lib/spreadsheets/workbook'
 
 // File size threshold for using Files API (10MB)
 const FILE_API_THRESHOLD = 10 * 1024 * 1024
 
+/**
+ * Run a call against the Gemini models of the extraction route, in fallback order
+ */
+function withGeminiModel<T>(run: (model: GenerativeModel) => Promise<T>, userId?: string): Promise<T> {
+  return withModelFallback(
+    'extraction',
+    target => run(getGeminiClient().getGenerativeModel({ model: target.model })),
+    { userId, providers: ['gemini'], usage: { feature: 'document_processing' } }
+  )
+}
+
 interface ProcessingResult {
   content: string
   metadata: {
@@ -46,6 +54,42 @@ Format your response as JSON with the following structure:
 
 Be thorough in extracting all text content for search purposes. For PDFs, analyze all visual elements including charts, diagrams, and tables.`
 
+function isSpreadsheet(mimeType: string, fileName: string): boolean {
+  return mimeType.includes('spreadsheet') || mimeType.includes('excel') || mimeType === 'text/csv' ||
+    /\.(xlsx|xls|xlsm|csv)$/i.test(fileName)
+}
+
+/**
+ * The file as sent to Gemini under the redaction policy. Spreadsheets and
+ * text are converted to redacted text; PDFs and images can't be redacted and
+ * go as they are, unless the policy blocks them.
+ */
+function redactDocument(
+  file: Buffer,
+  mimeType: string,
+  fileName: string,
+  redactor: Redactor
+): { file: Buffer; mimeType: string } {
+  if (!redactor.active) return { file, mimeType }
+
+  if (isSpreadsheet(mimeType, fileName)) {
+    const workbook = parseSpreadsheetBuffer(file, mimeType, fileName)
+    const text = workbook.SheetNames.map(name => {
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: false, blankrows: false })
+      const csv = XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(redactor.redactRows(rows)))
+      return `## Sheet: ${name}\n${csv}`
+    }).join('\n\n')
+    return { file: Buffer.from(text, 'utf-8'), mimeType: 'text/plain' }
+  }
+
+  if (mimeType.startsWith('text/')) {
+    return { file: Buffer.from(redactor.redact(file.toString('utf-8')), 'utf-8'), mimeType: 'text/plain' }
+  }
+
+  redactor.assertUnredactedAllowed(fileName)
+  return { file, mimeType }
+}
+
 /**
  * Process a document using Gemini's native document understanding
  * Uses Files API for large documents (>10MB) for better performance
@@ -53,23 +97,25 @@ Be thorough in extracting all text content for search purposes. For PDFs, analyz
 export async function processDocument(
   file: Buffer,
   mimeType: string,
-  fileName: string
+  fileName: string,
+  userId?: string
 ): Promise<ProcessingResult> {
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODEL })
-  const fileSize = file.length
-
   try {
-    let result
-
-    if (fileSize > FILE_API_THRESHOLD) {
-      // Use Files API for large documents
-      result = await processWithFilesAPI(file, mimeType, fileName, model)
-    } else {
-      // Use inline data for smaller documents
-      result = await processInline(file, mimeType, model)
-    }
-
-    const response = result.response.text()
+    const redactor = await getRedactorForUser(userId)
+    const payload = redactDocument(file, mimeType, fileName, redactor)
+    const fileSize = payload.file.length
+
+    const result = await withGeminiModel(
+      model => fileSize > FILE_API_THRESHOLD
+        // Use Files API for large documents
+        ? processWithFilesAPI(payload.file, payload.mimeType, fileName, model)
+        // Use inline data for smaller documents
+        : processInline(payload.file, payload.mimeType, model),
+      userId
+    )
+
+    // Stored content keeps the original values
+    const response = redactor.restore(result.response.text())
 
     // Parse JSON from response
     let parsed: {
@@ -132,7 +178,7 @@ export async function processDocument(
 async function processInline(
   file: Buffer,
   mimeType: string,
-  model: ReturnType<typeof genAI.getGenerativeModel>
+  model: GenerativeModel
 ) {
   const base64Data = file.toString('base64')
 
@@ -155,19 +201,19 @@ async function processWithFilesAPI(
   file: Buffer,
   mimeType: string,
   fileName: string,
-  model: ReturnType<typeof genAI.getGenerativeModel>
+  model: GenerativeModel
 ) {
   // Upload file to Gemini Files API
-  const uploadResult = await fileManager.uploadFile(file, {
+  const uploadResult = await getGeminiFileManager().uploadFile(file, {
     mimeType,
     displayName: fileName,
   })
 
   // Wait for file to be processed
-  let uploadedFile = await fileManager.getFile(uploadResult.file.name)
+  let uploadedFile = await getGeminiFileManager().getFile(uploadResult.file.name)
   while (uploadedFile.state === FileState.PROCESSING) {
     await new Promise((resolve) => setTimeout(resolve, 2000))
-    uploadedFile = await fileManager.getFile(uploadResult.file.name)
+    uploadedFile = await getGeminiFileManager().getFile(uploadResult.file.name)
   }
 
   if (uploadedFile.state === FileState.FAILED) {
@@ -190,7 +236,7 @@ async function processWithFilesAPI(
   } finally {
     // Clean up the uploaded file
     try {
-      await fileManager.deleteFile(uploadedFile.name)
+      await getGeminiFileManager().deleteFile(uploadedFile.name)
     } catch (deleteError) {
       console.warn('Failed to delete uploaded file:', deleteError)
     }
@@ -249,14 +295,13 @@ function createChunks(
  */
 export async function processImage(
   file: Buffer,
-  mimeType: string
+  mimeType: string,
+  userId?: string
 ): Promise<{
   description: string
   extractedText: string
   objects: string[]
 }> {
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODEL })
-
   const base64Data = file.toString('base64')
 
   const prompt = `Analyze this image and provide:
@@ -271,7 +316,7 @@ Format as JSON:
   "objects": ["object1", "object2"]
 }`
 
-  const result = await model.generateContent([
+  const result = await withGeminiModel(model => model.generateContent([
     {
       inlineData: {
         mimeType,
@@ -279,7 +324,7 @@ Format as JSON:
       },
     },
     prompt,
-  ])
+  ]), userId)
 
   const response = result.response.text()
 
@@ -312,21 +357,20 @@ export async function processLongDocument(
   options?: {
     summarize?: boolean
     extractTables?: boolean
-  }
+  },
+  userId?: string
 ): Promise<ProcessingResult> {
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODEL })
-
   // Upload file to Files API (required for long documents)
-  const uploadResult = await fileManager.uploadFile(file, {
+  const uploadResult = await getGeminiFileManager().uploadFile(file, {
     mimeType,
     displayName: fileName,
   })
 
   // Wait for file to be processed
-  let uploadedFile = await fileManager.getFile(uploadResult.file.name)
+  let uploadedFile = await getGeminiFileManager().getFile(uploadResult.file.name)
   while (uploadedFile.state === FileState.PROCESSING) {
     await new Promise((resolve) => setTimeout(resolve, 2000))
-    uploadedFile = await fileManager.getFile(uploadResult.file.name)
+    uploadedFile = await getGeminiFileManager().getFile(uploadResult.file.name)
   }
 
   if (uploadedFile.state === FileState.FAILED) {
@@ -369,7 +413,7 @@ Format your response as JSON:
 }`
 
   try {
-    const result = await model.generateContent([
+    const result = await withGeminiModel(model => model.generateContent([
       {
         fileData: {
           mimeType: uploadedFile.mimeType,
@@ -377,7 +421,7 @@ Format your response as JSON:
         },
       },
       customPrompt,
-    ])
+    ]), userId)
 
     const response = result.response.text()
 
@@ -416,7 +460,7 @@ Format your response as JSON:
   } finally {
     // Clean up
     try {
-      await fileManager.deleteFile(uploadedFile.name)
+      await getGeminiFileManager().deleteFile(uploadedFile.name)
     } catch (deleteError) {
       console.warn('Failed to delete uploaded file:', deleteError)
     }
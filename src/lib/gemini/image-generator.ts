@@ -1,23 +1,37 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
+import type { GenerativeModel, ModelParams } from '@google/generative-ai'
+import { getGeminiClient, getRedactorForUser, withModelFallback, type ModelRole } from '@/lib/llm'
 
-// Initialize the Gemini API client
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '')
-
-// Image generation model
-// Based on: https://ai.google.dev/gemini-api/docs/image-generation
-const IMAGE_MODEL = 'gemini-3-pro-image-preview'
+/**
+ * Run a call against the Gemini models of a route (image generation or
+ * vision analysis), in fallback order
+ */
+function withGeminiModel<T>(
+  role: ModelRole,
+  run: (model: GenerativeModel) => Promise<T>,
+  options: { userId?: string; generationConfig?: ModelParams['generationConfig'] } = {}
+): Promise<T> {
+  return withModelFallback(
+    role,
+    target => run(getGeminiClient().getGenerativeModel({
+      model: target.model,
+      generationConfig: options.generationConfig,
+    })),
+    { userId: options.userId, providers: ['gemini'] }
+  )
+}
 
 // Aspect ratio options
 type AspectRatio = '1:1' | '16:9' | '4:3' | '3:4' | '9:16'
 
 /**
  * Generate an image using Gemini Image Generation
- * Uses gemini-3-pro-image-preview for high-quality professional images
+ * Uses the image model route (gemini-3-pro-image-preview by default)
  * Based on: https://ai.google.dev/gemini-api/docs/image-generation
  */
 export async function generateImage(prompt: string, options?: {
   style?: 'chart' | 'infographic' | 'diagram' | 'illustration' | 'financial' | 'demonstration'
   aspectRatio?: AspectRatio
+  userId?: string
 }): Promise<{
   imageData: string
   mimeType: string
@@ -25,15 +39,6 @@ export async function generateImage(prompt: string, options?: {
   imageUrl?: string
 }> {
   try {
-    // Always use gemini-3-pro-image-preview for high-quality image generation
-    const model = genAI.getGenerativeModel({
-      model: IMAGE_MODEL,
-      generationConfig: {
-        // @ts-expect-error - responseModalities is a valid config for image generation
-        responseModalities: ['Text', 'Image'],
-      },
-    })
-
     // Enhance prompt based on style for better results
     let enhancedPrompt = prompt
     if (options?.style) {
@@ -53,8 +58,16 @@ export async function generateImage(prompt: string, options?: {
       enhancedPrompt = `${enhancedPrompt} Image aspect ratio: ${options.aspectRatio}.`
     }
 
+    // Names and account details must not be sent along (or drawn into the image)
+    const redactor = await getRedactorForUser(options?.userId)
+    const sentPrompt = redactor.redact(enhancedPrompt)
+
     // Generate the image using the Gemini API with image response modality
-    const result = await model.generateContent(enhancedPrompt)
+    const result = await withGeminiModel('image', model => model.generateContent(sentPrompt), {
+      userId: options?.userId,
+      // responseModalities is a valid config for image generation but missing from the SDK types
+      generationConfig: { responseModalities: ['Text', 'Image'] } as ModelParams['generationConfig'],
+    })
     const response = result.response
     const candidates = response.candidates
 
@@ -103,7 +116,8 @@ export async function generateImage(prompt: string, options?: {
  */
 export async function generateDemonstrationImage(
   concept: string,
-  context?: string
+  context?: string,
+  userId?: string
 ): Promise<{ imageData: string; mimeType: string; prompt: string }> {
   const prompt = `Create a professional demonstration image that visually explains:
 
@@ -120,7 +134,7 @@ Requirements:
 - Modern, minimalist design
 - White or light gradient background`
 
-  return await generateImage(prompt, { style: 'demonstration', aspectRatio: '16:9' })
+  return await generateImage(prompt, { style: 'demonstration', aspectRatio: '16:9', userId })
 }
 
 /**
@@ -129,7 +143,8 @@ Requirements:
  */
 export async function generateChartImage(
   chartDescription: string,
-  data: any[]
+  data: any[],
+  userId?: string
 ): Promise<{ imageData: string; mimeType: string; prompt: string }> {
   const dataDescription = JSON.stringify(data.slice(0, 10)) // Limit data for prompt
 
@@ -147,7 +162,7 @@ Requirements:
 - Clean white background
 - Modern, minimalist style suitable for executive presentations`
 
-  return await generateImage(prompt, { style: 'chart', aspectRatio: '16:9' })
+  return await generateImage(prompt, { style: 'chart', aspectRatio: '16:9', userId })
 }
 
 /**
@@ -156,7 +171,8 @@ Requirements:
  */
 export async function generateInfographic(
   title: string,
-  sections: { label: string; value: string | number }[]
+  sections: { label: string; value: string | number }[],
+  userId?: string
 ): Promise<{ imageData: string; mimeType: string; prompt: string }> {
   const sectionsText = sections.map(s => `- ${s.label}: ${s.value}`).join('\n')
 
@@ -176,7 +192,7 @@ Requirements:
 - Suitable for presentations and reports
 - High contrast for readability`
 
-  return await generateImage(prompt, { style: 'infographic', aspectRatio: '4:3' })
+  return await generateImage(prompt, { style: 'infographic', aspectRatio: '4:3', userId })
 }
 
 /**
@@ -191,7 +207,8 @@ export async function generateFinancialDashboard(
     change?: number
     trend?: 'up' | 'down' | 'neutral'
   }[],
-  period?: string
+  period?: string,
+  userId?: string
 ): Promise<{ imageData: string; mimeType: string; prompt: string }> {
   const metricsText = metrics
     .map(m => {
@@ -223,7 +240,7 @@ Design Requirements:
 - Clear visual hierarchy emphasizing the most important metrics
 - White background with subtle shadows for depth`
 
-  return await generateImage(prompt, { style: 'financial', aspectRatio: '16:9' })
+  return await generateImage(prompt, { style: 'financial', aspectRatio: '16:9', userId })
 }
 
 /**
@@ -232,14 +249,14 @@ Design Requirements:
 export async function analyzeImage(
   imageData: string,
   mimeType: string,
-  analysisPrompt: string
+  analysisPrompt: string,
+  userId?: string
 ): Promise<string> {
   try {
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.0-flash-exp',
-    })
+    const redactor = await getRedactorForUser(userId)
+    redactor.assertUnredactedAllowed('This image')
 
-    const result = await model.generateContent({
+    const result = await withGeminiModel('extraction', model => model.generateContent({
       contents: [
         {
           role: 'user',
@@ -251,15 +268,15 @@ export async function analyzeImage(
               },
             },
             {
-              text: analysisPrompt || 'Analyze this image and extract any financial or business-relevant information.',
+              text: redactor.redact(analysisPrompt || 'Analyze this image and extract any financial or business-relevant information.'),
             },
           ],
         },
       ],
-    })
+    }), { userId })
 
     const response = await result.response
-    return response.text()
+    return redactor.restore(response.text())
   } catch (error) {
     console.error('Image analysis error:', error)
     throw new Error(`Failed to analyze image: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -273,14 +290,14 @@ export async function analyzeImage(
 export async function analyzeVideo(
   videoData: string,
   mimeType: string,
-  analysisPrompt: string
+  analysisPrompt: string,
+  userId?: string
 ): Promise<string> {
   try {
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.0-flash-exp',
-    })
+    const redactor = await getRedactorForUser(userId)
+    redactor.assertUnredactedAllowed('This video')
 
-    const result = await model.generateContent({
+    const result = await withGeminiModel('extraction', model => model.generateContent({
       contents: [
         {
           role: 'user',
@@ -292,15 +309,15 @@ export async function analyzeVideo(
               },
             },
             {
-              text: analysisPrompt || 'Analyze this video and extract key information, dialogue, and visual elements.',
+              text: redactor.redact(analysisPrompt || 'Analyze this video and extract key information, dialogue, and visual elements.'),
             },
           ],
         },
       ],
-    })
+    }), { userId })
 
     const response = await result.response
-    return response.text()
+    return redactor.restore(response.text())
   } catch (error) {
     console.error('Video analysis error:', error)
     throw new Error(`Failed to analyze video: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -317,7 +334,8 @@ export async function generateComparisonVisual(
     label: string
     values: { name: string; value: number }[]
   }[],
-  comparisonType: 'side-by-side' | 'stacked' | 'percentage' = 'side-by-side'
+  comparisonType: 'side-by-side' | 'stacked' | 'percentage' = 'side-by-side',
+  userId?: string
 ): Promise<{ imageData: string; mimeType: string; prompt: string }> {
   const comparisonText = comparisons
     .map(c => {
@@ -344,5 +362,5 @@ Requirements:
 - Clean, white background
 - Suitable for financial presentations`
 
-  return await generateImage(prompt, { style: 'chart', aspectRatio: '16:9' })
+  return await generateImage(prompt, { style: 'chart', aspectRatio: '16:9', userId })
 }
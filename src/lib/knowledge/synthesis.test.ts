@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fakeSupabase, type FakeRpcHandler } from '@/test/fake-supabase'
+import { ejectCassette, playCassette } from '@/test/cassettes'
+import { getKnowledgeBaseForUser, getKnowledgeMetricsForUser, synthesizeKnowledgeBase } from './synthesis'
+
+vi.mock('@/lib/supabase/server', async () => (await import('@/test/fake-supabase')).supabaseServerMock)
+
+const USER_ID = 'user-1'
+
+const getOrCreateKnowledgeBase: FakeRpcHandler = ({ p_user_id }, db) => {
+  const rows = db.rows('knowledge_bases')
+  const existing = rows.find(row => row.user_id === p_user_id)
+  if (existing) return existing.id
+  const created = db.newRow({ user_id: p_user_id, synthesis_status: 'pending', document_count: 0 }, 'knowledge_bases')
+  rows.push(created)
+  return created.id
+}
+
+function document(id: string, name: string, financeMetadata: Record<string, unknown>, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    user_id: USER_ID,
+    name,
+    is_enabled: true,
+    status: 'completed',
+    finance_metadata: financeMetadata,
+    updated_at: '2024-10-15T09:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('synthesizeKnowledgeBase', () => {
+  beforeEach(() => {
+    fakeSupabase.reset({
+      tables: {
+        documents: [
+          document('doc-1', 'Q3 P&L.xlsx', {
+            documentType: 'P&L Statement',
+            period: 'Q3 FY2024',
+            keyMetrics: { revenue: 4200000, grossMargin: '61%', operatingExpenses: 1950000 },
+            content: 'Revenue $4.2M; gross margin 61%; operating expenses $1.95M.',
+          }),
+          document('doc-2', 'Travel Policy.pdf', {
+            documentType: 'policy',
+            content: 'Expenses over $5,000 require CFO approval. Budgets must be reforecast quarterly.',
+          }),
+          document('doc-3', 'Draft Budget.xlsx', { keyMetrics: { revenue: 1 } }, { is_enabled: false }),
+        ],
+      },
+      rpc: { get_or_create_knowledge_base: getOrCreateKnowledgeBase },
+    })
+    playCassette('knowledge-synthesis')
+  })
+
+  afterEach(() => ejectCassette())
+
+  it('aggregates enabled documents and stores the synthesized knowledge base', async () => {
+    const result = await synthesizeKnowledgeBase(USER_ID)
+
+    expect(result).toMatchObject({ success: true, document_count: 2, metrics_count: 3, rules_count: 2 })
+    expect(result.synthesis_summary).toBe(
+      'Q3 FY2024 revenue reached $4.2M at a 61% gross margin; operating expenses were $1.95M. Spend over $5,000 needs CFO approval.'
+    )
+
+    const [knowledgeBase] = fakeSupabase.rows('knowledge_bases')
+    expect(knowledgeBase).toMatchObject({ synthesis_status: 'completed', synthesis_error: null, document_count: 2 })
+    expect(knowledgeBase.source_documents).toEqual([
+      { document_id: 'doc-1', name: 'Q3 P&L.xlsx', last_processed: '2024-10-15T09:00:00.000Z' },
+      { document_id: 'doc-2', name: 'Travel Policy.pdf', last_processed: '2024-10-15T09:00:00.000Z' },
+    ])
+
+    await expect(getKnowledgeBaseForUser(USER_ID)).resolves.toMatchObject({
+      synthesis_text: expect.stringContaining('## 📊 Key Metrics'),
+      document_count: 2,
+    })
+    await expect(getKnowledgeMetricsForUser(USER_ID)).resolves.toContainEqual(
+      expect.objectContaining({ name: 'revenue', value: 4200000, unit: 'USD', period: 'Q3 FY2024' })
+    )
+  })
+
+  it('clears the knowledge base when no documents are enabled', async () => {
+    fakeSupabase.rows('documents').forEach(row => { row.is_enabled = false })
+
+    const result = await synthesizeKnowledgeBase(USER_ID)
+
+    expect(result).toMatchObject({ success: true, document_count: 0 })
+    expect(fakeSupabase.rows('knowledge_bases')[0]).toMatchObject({ synthesis_status: 'completed', metrics: [] })
+  })
+})
@@ -1,10 +1,6 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
 import { createServiceClient } from '@/lib/supabase/server'
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!)
-
-// Use Gemini for synthesis
-const GEMINI_MODEL = 'gemini-2.0-flash'
+import { generateText, wrapUntrusted } from '@/lib/llm'
+import { definePromptTemplate, renderPrompt } from '@/lib/prompts'
 
 export interface SynthesisResult {
   success: boolean
@@ -74,9 +70,9 @@ export async function synthesizeKnowledgeBase(userId: string): Promise<Synthesis
 
   try {
     // 1. Get or create knowledge base and mark as processing
-    await (supabase.rpc as any)('get_or_create_knowledge_base', { p_user_id: userId })
+    await supabase.rpc('get_or_create_knowledge_base', { p_user_id: userId })
     await supabase
-      .from('knowledge_bases' as any)
+      .from('knowledge_bases')
       .update({
         synthesis_status: 'processing',
         synthesis_error: null
@@ -99,7 +95,7 @@ export async function synthesizeKnowledgeBase(userId: string): Promise<Synthesis
     // 3. Handle case with no enabled documents
     if (!documents || documents.length === 0) {
       await supabase
-        .from('knowledge_bases' as any)
+        .from('knowledge_bases')
         .update({
           financial_entities: {},
           metrics: [],
@@ -128,11 +124,11 @@ export async function synthesizeKnowledgeBase(userId: string): Promise<Synthesis
     const aggregatedKnowledge = aggregateFinanceMetadata(documents as DocumentWithMetadata[])
 
     // 5. Use Gemini to synthesize a coherent knowledge summary
-    const synthesisResult = await generateKnowledgeSynthesis(aggregatedKnowledge, documents as DocumentWithMetadata[])
+    const synthesisResult = await generateKnowledgeSynthesis(aggregatedKnowledge, documents as DocumentWithMetadata[], userId)
 
     // 6. Update knowledge base with synthesized data
     await supabase
-      .from('knowledge_bases' as any)
+      .from('knowledge_bases')
       .update({
         financial_entities: aggregatedKnowledge.entities,
         metrics: aggregatedKnowledge.metrics,
@@ -168,7 +164,7 @@ export async function synthesizeKnowledgeBase(userId: string): Promise<Synthesis
 
     // Mark as failed but don't throw - chat should still work
     await supabase
-      .from('knowledge_bases' as any)
+      .from('knowledge_bases')
       .update({
         synthesis_status: 'failed',
         synthesis_error: error instanceof Error ? error.message : 'Unknown error',
@@ -262,28 +258,32 @@ function aggregateFinanceMetadata(documents: DocumentWithMetadata[]): Aggregated
   return knowledge
 }
 
-/**
- * Use Gemini to synthesize a coherent knowledge summary
- */
-async function generateKnowledgeSynthesis(
-  knowledge: AggregatedKnowledge,
-  documents: DocumentWithMetadata[]
-): Promise<{ summary: string; full_text: string }> {
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODEL })
-
-  const prompt = `You are a financial analyst synthesizing knowledge from ${documents.length} documents into a structured knowledge base.
+// Knowledge base synthesis prompt; the response must stay JSON with summary and full_text
+export const KNOWLEDGE_SYNTHESIS_PROMPT = definePromptTemplate({
+  key: 'knowledge.synthesis',
+  name: 'Knowledge base synthesis',
+  description: 'Turns the extracted metrics, summaries and rules of all enabled documents into the knowledge base shown to the assistant.',
+  variables: {
+    document_count: 'Number of source documents',
+    documents: 'Bulleted list of document names',
+    metrics: 'Extracted metrics as JSON (up to 50)',
+    summaries: 'Summary of each document',
+    rules: 'Business rules as JSON (up to 20)',
+  },
+  required: ['metrics', 'summaries'],
+  content: `You are a financial analyst synthesizing knowledge from {document_count} documents into a structured knowledge base.
 
 ## 📁 Source Documents
-${documents.map(d => `• ${d.name}`).join('\n')}
+{documents}
 
 ## 📊 Extracted Metrics
-${JSON.stringify(knowledge.metrics.slice(0, 50), null, 2)}
+{metrics}
 
 ## 📄 Document Summaries
-${knowledge.content_summaries.map(s => `### ${s.document} (${s.type})\n${s.summary}`).join('\n\n')}
+{summaries}
 
 ## 📋 Business Rules & Policies
-${JSON.stringify(knowledge.rules.slice(0, 20), null, 2)}
+{rules}
 
 ## Your Task
 Create a beautifully formatted knowledge base that an AI finance assistant will use. Structure it as follows:
@@ -308,11 +308,31 @@ Format your response as JSON:
   "full_text": "Beautifully formatted markdown knowledge base"
 }
 
-IMPORTANT: Respond ONLY with valid JSON, no markdown code blocks around the JSON.`
+IMPORTANT: Respond ONLY with valid JSON, no markdown code blocks around the JSON.`,
+})
+
+/**
+ * Synthesize a coherent knowledge summary (synthesis model route, Gemini by default)
+ */
+async function generateKnowledgeSynthesis(
+  knowledge: AggregatedKnowledge,
+  documents: DocumentWithMetadata[],
+  userId: string
+): Promise<{ summary: string; full_text: string }> {
+  const { text: prompt } = await renderPrompt(KNOWLEDGE_SYNTHESIS_PROMPT, {
+    document_count: String(documents.length),
+    documents: documents.map(d => `• ${d.name}`).join('\n'),
+    metrics: JSON.stringify(knowledge.metrics.slice(0, 50), null, 2),
+    // Document-derived text is data for the synthesis, not instructions to it
+    summaries: wrapUntrusted(knowledge.content_summaries.map(s => `### ${s.document} (${s.type})\n${s.summary}`).join('\n\n')),
+    rules: wrapUntrusted(JSON.stringify(knowledge.rules.slice(0, 20), null, 2)),
+  }, { userId })
 
   try {
-    const result = await model.generateContent(prompt)
-    const responseText = result.response.text()
+    const { text: responseText } = await generateText('synthesis', { prompt }, {
+      userId,
+      usage: { feature: 'knowledge_synthesis' },
+    })
 
     // Try to parse JSON, handle potential formatting issues
     let parsed: { summary: string; full_text: string }
@@ -497,7 +517,7 @@ export async function getKnowledgeBaseForUser(userId: string): Promise<{
   const supabase = await createServiceClient()
 
   const { data, error } = await supabase
-    .from('knowledge_bases' as any)
+    .from('knowledge_bases')
     .select('synthesis_text, synthesis_summary, document_count, last_synthesized_at')
     .eq('user_id', userId)
     .eq('synthesis_status', 'completed')
@@ -514,3 +534,22 @@ export async function getKnowledgeBaseForUser(userId: string): Promise<{
     last_synthesized_at: string | null
   }
 }
+
+/**
+ * Get the metrics extracted into the user's knowledge base (for claim verification)
+ */
+export async function getKnowledgeMetricsForUser(userId: string): Promise<AggregatedKnowledge['metrics']> {
+  const supabase = await createServiceClient()
+
+  const { data, error } = await supabase
+    .from('knowledge_bases')
+    .select('metrics')
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !data) {
+    return []
+  }
+
+  return Array.isArray(data.metrics) ? data.metrics as unknown as AggregatedKnowledge['metrics'] : []
+}
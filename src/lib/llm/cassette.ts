@@ -0,0 +1,257 @@
+import { createHash } from 'crypto'
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+
+/**
+ * Record/Replay Cassettes
+ *
+ * Captures provider HTTP traffic into a cassette file and serves it back
+ * deterministically, so agent code (streamFinanceChat, the orchestrator,
+ * knowledge synthesis, document processing) can run with no network.
+ *
+ * - record: requests go to the provider and each interaction is saved
+ * - replay: interactions are served from the cassette; an unmatched
+ *   request throws instead of reaching the network
+ *
+ * Tests call insertCassette()/ejectCassette(); scripts can set LLM_CASSETTE
+ * (file path) and LLM_CASSETTE_MODE instead. Only LLM provider hosts are
+ * intercepted by default; add others (e.g. the Supabase project host, since
+ * supabase-js is fetch-based too) with the hosts option or
+ * LLM_CASSETTE_HOSTS. Never active in production.
+ *
+ * Requests match on method, URL and a hash of the canonical JSON body. When
+ * no exact match is left - prompts that embed a timestamp, for example - the
+ * next unused interaction for the same endpoint is served, in recorded order.
+ * Headers are not recorded and key= query parameters are dropped, so API
+ * keys never reach a cassette. Replay still constructs the SDK clients, so
+ * the provider key variables must be set (to any value).
+ */
+
+export type CassetteMode = 'record' | 'replay'
+
+export interface CassetteInteraction {
+  request: {
+    method: string
+    url: string
+    bodyHash: string
+    body?: unknown
+  }
+  response: {
+    status: number
+    headers: Record<string, string>
+    body: string
+  }
+}
+
+export interface Cassette {
+  version: 1
+  interactions: CassetteInteraction[]
+}
+
+export const LLM_PROVIDER_HOSTS = [
+  'api.anthropic.com',
+  'generativelanguage.googleapis.com',
+  'api.openai.com',
+]
+
+// Response headers worth keeping; the SDKs only need the content type and request id
+const RECORDED_HEADERS = ['content-type', 'request-id', 'x-request-id']
+
+// Longer strings (base64 documents, images) are stored as a hash to keep cassettes small
+const MAX_RECORDED_STRING = 20000
+
+interface ActiveCassette {
+  path: string
+  mode: CassetteMode
+  cassette: Cassette
+  hosts: Set<string>
+  used: Set<number>
+  pending: Promise<void>[]
+}
+
+let active: ActiveCassette | null = null
+let passthroughFetch: typeof fetch | null = null
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+function compactForRecording(value: unknown): unknown {
+  if (typeof value === 'string' && value.length > MAX_RECORDED_STRING) {
+    return `[${value.length} chars sha256:${sha256(value).slice(0, 16)}]`
+  }
+  if (Array.isArray(value)) return value.map(compactForRecording)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, v]) => [key, compactForRecording(v)])
+    )
+  }
+  return value
+}
+
+function normalizeUrl(raw: string): string {
+  const url = new URL(raw)
+  url.searchParams.delete('key')
+  return url.toString()
+}
+
+function describeBody(body: unknown): { bodyHash: string; body?: unknown } {
+  if (typeof body !== 'string' || !body) {
+    // Multipart uploads and other non-text bodies match on endpoint order only
+    return { bodyHash: '' }
+  }
+
+  try {
+    const parsed = canonicalize(JSON.parse(body))
+    return { bodyHash: sha256(JSON.stringify(parsed)), body: compactForRecording(parsed) }
+  } catch {
+    return { bodyHash: sha256(body) }
+  }
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') return input
+  if (input instanceof URL) return input.href
+  return input.url
+}
+
+function readCassette(path: string): Cassette {
+  try {
+    const cassette = JSON.parse(readFileSync(path, 'utf8')) as Cassette
+    return { version: 1, interactions: cassette.interactions || [] }
+  } catch (error) {
+    throw new Error(`Cannot read cassette ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+function saveCassette(current: ActiveCassette) {
+  mkdirSync(dirname(current.path), { recursive: true })
+  writeFileSync(current.path, `${JSON.stringify(current.cassette, null, 2)}\n`)
+}
+
+function findInteraction(current: ActiveCassette, method: string, url: string, bodyHash: string): number {
+  const candidates = current.cassette.interactions
+    .map((interaction, index) => ({ interaction, index }))
+    .filter(({ interaction, index }) =>
+      !current.used.has(index) &&
+      interaction.request.method === method &&
+      interaction.request.url === url
+    )
+
+  const exact = candidates.find(({ interaction }) => interaction.request.bodyHash === bodyHash)
+  return (exact || candidates[0])?.index ?? -1
+}
+
+async function cassetteFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const current = active
+  const rawUrl = requestUrl(input)
+
+  if (!current || !current.hosts.has(new URL(rawUrl).host)) {
+    return passthroughFetch!(input, init)
+  }
+
+  const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase()
+  const url = normalizeUrl(rawUrl)
+  const { bodyHash, body } = describeBody(init?.body)
+
+  if (current.mode === 'replay') {
+    const index = findInteraction(current, method, url, bodyHash)
+    if (index === -1) {
+      throw new Error(`No recorded interaction for ${method} ${url} in cassette ${current.path}`)
+    }
+    current.used.add(index)
+
+    const { response } = current.cassette.interactions[index]
+    return new Response(response.body, { status: response.status, headers: response.headers })
+  }
+
+  // Reserve the slot now so concurrent requests keep their request order
+  const interaction: CassetteInteraction = {
+    request: { method, url, bodyHash, body },
+    response: { status: 0, headers: {}, body: '' },
+  }
+  current.cassette.interactions.push(interaction)
+
+  const response = await passthroughFetch!(input, init)
+
+  // Record from a clone so streamed responses reach the caller without waiting
+  const recording = response.clone().text().then(text => {
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name)
+      if (value) interaction.response.headers[name] = value
+    }
+    interaction.response.status = response.status
+    interaction.response.body = text
+    saveCassette(current)
+  })
+  current.pending.push(recording.catch(error => console.error('Cassette recording failed:', error)))
+
+  return response
+}
+
+/**
+ * Start recording to, or replaying from, a cassette file
+ */
+export function insertCassette(
+  path: string,
+  mode: CassetteMode,
+  options: { hosts?: string[] } = {}
+): void {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('Cassettes are not available in production')
+  }
+  if (active) {
+    throw new Error(`Cassette ${active.path} is already in use`)
+  }
+
+  active = {
+    path,
+    mode,
+    // Recording always starts a fresh cassette
+    cassette: mode === 'replay' ? readCassette(path) : { version: 1, interactions: [] },
+    hosts: new Set([...LLM_PROVIDER_HOSTS, ...(options.hosts || [])]),
+    used: new Set(),
+    pending: [],
+  }
+  passthroughFetch = globalThis.fetch
+  globalThis.fetch = cassetteFetch
+}
+
+/**
+ * Stop the active cassette, waiting for in-flight recordings to be written
+ */
+export async function ejectCassette(): Promise<void> {
+  if (!active) return
+
+  const current = active
+  await Promise.all(current.pending)
+
+  globalThis.fetch = passthroughFetch!
+  passthroughFetch = null
+  active = null
+}
+
+/**
+ * Activate the cassette named by LLM_CASSETTE, once per process
+ */
+export function insertCassetteFromEnv(): void {
+  const path = process.env.LLM_CASSETTE
+  if (!path || active || process.env.NODE_ENV === 'production') return
+
+  const mode: CassetteMode = process.env.LLM_CASSETTE_MODE === 'record' ? 'record' : 'replay'
+  const hosts = (process.env.LLM_CASSETTE_HOSTS || '').split(',').map(h => h.trim()).filter(Boolean)
+
+  insertCassette(path, mode, { hosts })
+}
@@ -0,0 +1,45 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { GoogleAIFileManager } from '@google/generative-ai/server'
+import OpenAI from 'openai'
+import { insertCassetteFromEnv } from './cassette'
+
+/**
+ * Provider Clients
+ *
+ * One lazily created client per provider, shared by every module, so no
+ * client (and no API key lookup) is constructed at import time.
+ */
+
+let anthropic: Anthropic | undefined
+let gemini: GoogleGenerativeAI | undefined
+let geminiFiles: GoogleAIFileManager | undefined
+let openai: OpenAI | undefined
+
+// Resolve fetch per request so an inserted cassette is honoured by clients created earlier
+// (the Gemini SDK already looks up the global fetch on every call)
+const fetchViaGlobal: typeof fetch = (input, init) => globalThis.fetch(input, init)
+
+export function getAnthropicClient(): Anthropic {
+  insertCassetteFromEnv()
+  anthropic ??= new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY!, fetch: fetchViaGlobal })
+  return anthropic
+}
+
+export function getGeminiClient(): GoogleGenerativeAI {
+  insertCassetteFromEnv()
+  gemini ??= new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '')
+  return gemini
+}
+
+export function getGeminiFileManager(): GoogleAIFileManager {
+  insertCassetteFromEnv()
+  geminiFiles ??= new GoogleAIFileManager(process.env.GEMINI_API_KEY || '')
+  return geminiFiles
+}
+
+export function getOpenAIClient(): OpenAI {
+  insertCassetteFromEnv()
+  openai ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY!, fetch: fetchViaGlobal })
+  return openai
+}
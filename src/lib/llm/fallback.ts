@@ -0,0 +1,71 @@
+import { resolveModelTargets, type ModelProvider, type ModelRole, type ModelTarget } from './models'
+import { extractTokenUsage, recordUsage, type UsageContext } from './usage'
+
+/**
+ * Provider Fallback
+ *
+ * Runs a model call against each target of a role in order, moving to the
+ * next target only for errors another provider could plausibly avoid:
+ * rate limits, overload, server errors and network failures. Anything else
+ * (bad request, auth, content errors) is rethrown immediately.
+ *
+ * Successful calls are metered: token counts found on the result are
+ * recorded in usage_logs against options.userId.
+ */
+
+const RETRYABLE_STATUS = new Set([408, 409, 429, 500, 502, 503, 504, 529])
+
+export function isRetryableModelError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false
+  const { status, name, message } = error as { status?: number; name?: string; message?: string }
+
+  if (typeof status === 'number') {
+    return RETRYABLE_STATUS.has(status)
+  }
+
+  // SDK connection/timeout errors carry no status
+  return /connection|timeout|fetch failed|ECONNRESET|ETIMEDOUT/i.test(`${name} ${message}`) ||
+    /rate.?limit|overloaded|RESOURCE_EXHAUSTED|UNAVAILABLE/i.test(message || '')
+}
+
+export interface ModelFallbackOptions {
+  userId?: string
+  // Providers the call site can talk to; other targets are skipped
+  providers?: ModelProvider[]
+  // Extra veto, e.g. once output has already been streamed to the user
+  canFallback?: (error: unknown) => boolean
+  // Attribution for the recorded usage
+  usage?: UsageContext
+}
+
+/**
+ * Run a model call for a role, falling back through its targets
+ */
+export async function withModelFallback<T>(
+  role: ModelRole,
+  run: (target: ModelTarget) => Promise<T>,
+  options: ModelFallbackOptions = {}
+): Promise<T> {
+  const targets = await resolveModelTargets(role, options)
+  let lastError: unknown
+
+  for (const [index, target] of targets.entries()) {
+    try {
+      const result = await run(target)
+      const tokens = extractTokenUsage(result)
+      if (tokens) {
+        await recordUsage(role, target, tokens, { ...options.usage, userId: options.userId })
+      }
+      return result
+    } catch (error) {
+      lastError = error
+      const next = targets[index + 1]
+      if (!next || !isRetryableModelError(error) || options.canFallback?.(error) === false) {
+        throw error
+      }
+      console.warn(`[llm] ${role} ${target.provider}/${target.model} failed, falling back to ${next.provider}/${next.model}:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  throw lastError
+}
@@ -0,0 +1,57 @@
+export {
+  DEFAULT_MODEL_ROUTES,
+  parseModelRoutes,
+  resolveModelTargets,
+  type ModelProvider,
+  type ModelRole,
+  type ModelRoutes,
+  type ModelTarget,
+} from './models'
+export { getAnthropicClient, getGeminiClient, getGeminiFileManager, getOpenAIClient } from './clients'
+export { isRetryableModelError, withModelFallback, type ModelFallbackOptions } from './fallback'
+export { generateText, type TextGenerationRequest, type TextGenerationResult } from './text'
+export {
+  DEFAULT_REDACTION_POLICY,
+  REDACTION_KINDS,
+  Redactor,
+  UnredactableContentError,
+  detectSensitiveData,
+  getRedactorForUser,
+  resolveRedactionPolicy,
+  type RedactionKind,
+  type RedactionPolicy,
+  type SensitiveMatch,
+} from './redaction'
+export {
+  INJECTION_RULES,
+  UNTRUSTED_CONTENT_PROMPT,
+  UNTRUSTED_DATA_TAG,
+  ingestionStatusUpdate,
+  scanForInjection,
+  wrapUntrusted,
+  type InjectionFinding,
+  type InjectionRule,
+  type InjectionScan,
+  type InjectionSeverity,
+} from './prompt-injection'
+export {
+  MODEL_PRICES,
+  USAGE_ACTION,
+  addTokenUsage,
+  estimateCostUsd,
+  extractTokenUsage,
+  getModelPrice,
+  recordUsage,
+  type ModelPrice,
+  type TokenUsage,
+  type UsageContext,
+} from './usage'
+export {
+  LLM_PROVIDER_HOSTS,
+  ejectCassette,
+  insertCassette,
+  insertCassetteFromEnv,
+  type Cassette,
+  type CassetteInteraction,
+  type CassetteMode,
+} from './cassette'
@@ -0,0 +1,121 @@
+import { getOrganizationSettingsForUser } from '@/lib/organizations/settings'
+
+/**
+ * Model Routing
+ *
+ * Call sites ask for a logical role rather than a model name. Each role maps
+ * to an ordered list of provider/model targets: the first is used, the rest
+ * are fallbacks when a provider errors or is rate-limited. Organizations can
+ * override any role in organizations.settings.models, e.g.
+ *
+ *   { "models": { "chat": [{ "provider": "anthropic", "model": "claude-sonnet-4-20250514" }] } }
+ *
+ * A call site that can only talk to some providers (streaming tool use,
+ * native PDF input, image generation) skips the other targets. If the
+ * organization's route has no usable target the default route is used.
+ */
+
+export type ModelRole = 'chat' | 'worker' | 'extraction' | 'synthesis' | 'embedding' | 'image'
+
+export type ModelProvider = 'anthropic' | 'gemini' | 'openai'
+
+export interface ModelTarget {
+  provider: ModelProvider
+  model: string
+}
+
+export type ModelRoutes = Record<ModelRole, ModelTarget[]>
+
+const MODEL_ROLES: ModelRole[] = ['chat', 'worker', 'extraction', 'synthesis', 'embedding', 'image']
+const MODEL_PROVIDERS: ModelProvider[] = ['anthropic', 'gemini', 'openai']
+
+export const DEFAULT_MODEL_ROUTES: ModelRoutes = {
+  // Streaming chat with tool use
+  chat: [{ provider: 'anthropic', model: 'claude-sonnet-4-20250514' }],
+  // Orchestrator workers and report evaluation
+  worker: [
+    { provider: 'anthropic', model: 'claude-sonnet-4-20250514' },
+    { provider: 'gemini', model: 'gemini-2.0-flash' },
+  ],
+  // Structured extraction and document understanding (JSON mode, PDFs, images)
+  extraction: [
+    { provider: 'anthropic', model: 'claude-sonnet-4-20250514' },
+    { provider: 'gemini', model: 'gemini-3-pro-preview' },
+  ],
+  // Knowledge base synthesis and thread summaries
+  synthesis: [
+    { provider: 'gemini', model: 'gemini-2.0-flash' },
+    { provider: 'anthropic', model: 'claude-sonnet-4-20250514' },
+  ],
+  // Must match the vector(1536) columns; changing it requires re-embedding documents
+  embedding: [{ provider: 'openai', model: 'text-embedding-ada-002' }],
+  image: [{ provider: 'gemini', model: 'gemini-3-pro-image-preview' }],
+}
+
+// Organization routes are re-read at most this often
+const ROUTE_CACHE_TTL_MS = 60000
+
+const routeCache = new Map<string, { routes: Partial<ModelRoutes>; expiresAt: number }>()
+
+function parseTarget(value: unknown): ModelTarget | null {
+  if (!value || typeof value !== 'object') return null
+  const raw = value as Record<string, unknown>
+  if (!MODEL_PROVIDERS.includes(raw.provider as ModelProvider)) return null
+  if (typeof raw.model !== 'string' || !raw.model) return null
+  return { provider: raw.provider as ModelProvider, model: raw.model }
+}
+
+/**
+ * Parse organizations.settings.models; invalid entries are ignored
+ */
+export function parseModelRoutes(value: unknown): Partial<ModelRoutes> {
+  if (!value || typeof value !== 'object') return {}
+  const raw = value as Record<string, unknown>
+  const routes: Partial<ModelRoutes> = {}
+
+  for (const role of MODEL_ROLES) {
+    const entries = Array.isArray(raw[role]) ? (raw[role] as unknown[]) : [raw[role]]
+    const targets = entries.map(parseTarget).filter((t): t is ModelTarget => t !== null)
+    if (targets.length > 0) {
+      routes[role] = targets
+    }
+  }
+
+  return routes
+}
+
+async function getOrganizationRoutes(userId?: string): Promise<Partial<ModelRoutes>> {
+  if (!userId) return {}
+
+  const cached = routeCache.get(userId)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.routes
+  }
+
+  const settings = await getOrganizationSettingsForUser(userId)
+  const routes = parseModelRoutes(settings.models)
+  routeCache.set(userId, { routes, expiresAt: Date.now() + ROUTE_CACHE_TTL_MS })
+  return routes
+}
+
+/**
+ * Ordered targets for a role, limited to the providers the caller supports
+ */
+export async function resolveModelTargets(
+  role: ModelRole,
+  options: { userId?: string; providers?: ModelProvider[] } = {}
+): Promise<ModelTarget[]> {
+  const supported = (targets: ModelTarget[]) =>
+    options.providers ? targets.filter(t => options.providers!.includes(t.provider)) : targets
+
+  const organizationTargets = supported((await getOrganizationRoutes(options.userId))[role] || [])
+  if (organizationTargets.length > 0) {
+    return organizationTargets
+  }
+
+  const defaults = supported(DEFAULT_MODEL_ROUTES[role])
+  if (defaults.length === 0) {
+    throw new Error(`No ${options.providers?.join('/')} model configured for ${role}`)
+  }
+  return defaults
+}
@@ -0,0 +1,473 @@
+import { createHmac, randomBytes } from 'crypto'
+import { getOrganizationIdForUser, getOrganizationSettingsForUser } from '@/lib/organizations/settings'
+import { createServiceClient } from '@/lib/supabase/server'
+import type { Database } from '@/types/database'
+
+/**
+ * Sensitive Data Redaction
+ *
+ * Account numbers, IBANs, tax IDs, SSNs, email addresses and personal names
+ * are replaced with tokens such as [[IBAN_3f9a1c2e]] before content is sent
+ * to a model provider, and the tokens in the response are swapped back.
+ * Stored data (document chunks, knowledge bases, messages) stays as it was:
+ * redaction happens at the provider boundary only.
+ *
+ * Tokens are an HMAC of the value keyed by REDACTION_TOKEN_SECRET and the
+ * organization, so the same value always gets the same token. Prompts stay
+ * consistent across chunks, turns and embeddings, and providers can't
+ * recover a value by hashing guesses. A Redactor only restores tokens it
+ * created itself or loaded; an unknown token stays redacted. Chat runs keep
+ * their tokens in redaction_tokens, per thread, so a token the model repeats
+ * from an earlier turn is restored too.
+ *
+ * Policies live in organizations.settings.redaction:
+ * { enabled?, kinds?, names?, revealRoles?, unredactableFiles? }.
+ * Chat answers are restored only for roles in revealRoles; other roles get
+ * tool results redacted as well. PDFs and images
+ * are sent as files and can't be redacted; unredactableFiles: 'block'
+ * refuses to send them.
+ */
+
+type UserRole = Database['public']['Enums']['user_role']
+
+export const REDACTION_KINDS = ['account_number', 'iban', 'tax_id', 'ssn', 'email', 'person_name'] as const
+
+export type RedactionKind = (typeof REDACTION_KINDS)[number]
+
+export interface RedactionPolicy {
+  enabled: boolean
+  kinds: RedactionKind[]
+  names: string[] // Names always redacted, in addition to the ones detected
+  revealRoles: UserRole[] // Roles shown the original values in chat answers
+  unredactableFiles: 'allow' | 'block'
+}
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  enabled: true,
+  kinds: [...REDACTION_KINDS],
+  names: [],
+  revealRoles: ['analyst', 'bu_manager', 'group_cfo', 'admin'],
+  unredactableFiles: 'allow',
+}
+
+const USER_ROLES: UserRole[] = ['viewer', 'analyst', 'bu_manager', 'group_cfo', 'admin']
+
+const TOKEN_LABELS: Record<RedactionKind, string> = {
+  account_number: 'ACCOUNT',
+  iban: 'IBAN',
+  tax_id: 'TAX_ID',
+  ssn: 'SSN',
+  email: 'EMAIL',
+  person_name: 'NAME',
+}
+
+const TOKEN_PATTERN = /\[\[(?:ACCOUNT|IBAN|TAX_ID|SSN|EMAIL|NAME)_[0-9a-f]{8}\]\]/g
+// A trailing fragment of a stream that may be the start of a token
+const PARTIAL_TOKEN_PATTERN = /\[(?:\[[A-Z_]*[0-9a-f]*\]?)?$/
+
+function stringList(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined
+}
+
+/**
+ * Read the redaction policy from organization settings; missing keys keep their defaults
+ */
+export function resolveRedactionPolicy(settings: unknown): RedactionPolicy {
+  const raw = (settings && typeof settings === 'object' && !Array.isArray(settings) ? settings : {}) as Record<string, unknown>
+  const kinds = stringList(raw.kinds)?.filter((k): k is RedactionKind => (REDACTION_KINDS as readonly string[]).includes(k))
+  const revealRoles = stringList(raw.revealRoles)?.filter((r): r is UserRole => USER_ROLES.includes(r as UserRole))
+
+  return {
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : DEFAULT_REDACTION_POLICY.enabled,
+    kinds: kinds ?? DEFAULT_REDACTION_POLICY.kinds,
+    names: (stringList(raw.names) ?? []).map(name => name.trim()).filter(name => name.length > 1),
+    revealRoles: revealRoles ?? DEFAULT_REDACTION_POLICY.revealRoles,
+    unredactableFiles: raw.unredactableFiles === 'block' ? 'block' : 'allow',
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+export interface SensitiveMatch {
+  kind: RedactionKind
+  start: number
+  end: number
+  value: string
+}
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g
+const IBAN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g
+const SSN = /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g
+const EIN = /\b\d{2}-\d{7}\b/g
+const LABELED_TAX_ID = /\b(?:tax\s*(?:id|identification)(?:\s*(?:no\.?|number))?|TIN|EIN|UTR|ABN|VAT\s*(?:id|no\.?|number|reg(?:istration)?\s*(?:no\.?|number)?)?)\s*[:#]?\s*([A-Z]{0,3} ?\d(?:[ .-]?\d){4,17}[A-Z]?)\b/gi
+const LABELED_ACCOUNT = /\b(?:account|acct|a\/c)\.?\s*(?:no\.?|number|num|#)?\s*[:#]?\s*(\d[\d -]{6,30}\d)\b/gi
+const CARD = /\b(?:\d{4}[ -]){3}\d{1,7}\b|\b\d{13,19}\b/g
+const HONORIFIC_NAME = /\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Prof)\.?\s+([A-Z][a-z'’-]+(?:[ \t]+[A-Z][a-z'’-]+){0,2})/g
+const NAME_LABELS = ['name', 'employee name', 'employee', 'payee', 'beneficiary', 'account holder', 'attn', 'attention', 'prepared by', 'approved by', 'signed by']
+
+// "name", "Name" or "NAME": the name itself must stay case-sensitive
+function anyCaseLabel(label: string): string {
+  const capitalized = label.split(' ').map(word => `[${word[0].toUpperCase()}${word[0]}]${word.slice(1)}`).join('\\s+')
+  return `${capitalized}|${label.toUpperCase().replace(/ /g, '\\s+')}`
+}
+
+const LABELED_NAME = new RegExp(
+  `\\b(?:${NAME_LABELS.map(anyCaseLabel).join('|')})\\s*[:-]\\s*([A-Z][A-Za-z'’-]+(?:[ \\t]+(?:[A-Z]\\.|[A-Z][A-Za-z'’-]+)){1,3})`,
+  'g'
+)
+
+function ibanChecksumValid(value: string): boolean {
+  const iban = value.replace(/ /g, '')
+  if (iban.length < 15 || iban.length > 34) return false
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`
+  let remainder = 0
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55)
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97
+    }
+  }
+  return remainder === 1
+}
+
+function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '')
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// GL account codes are shorter; bank account numbers have at least 8 digits
+function isAccountNumber(value: string): boolean {
+  return value.replace(/\D/g, '').length >= 8
+}
+
+// A card number, not a row of years such as "2023 2024 2025 2026"
+function isCardNumber(value: string): boolean {
+  const groups = value.split(/[ -]/)
+  return luhnValid(value) && !(groups.length > 1 && groups.every(group => /^(?:19|20)\d\d$/.test(group)))
+}
+
+// Column headers and field names whose values are sensitive as a whole; checked in order
+const FIELD_KINDS: [RedactionKind, RegExp][] = [
+  ['ssn', /^(?:ssn|social\s+security(?:\s+(?:no\.?|number))?|national\s+insurance(?:\s+(?:no\.?|number))?|ni\s+number|nino)$/i],
+  ['iban', /^iban$/i],
+  ['tax_id', /^(?:tax\s*(?:id|no\.?|number)|tin|ein|utr|vat\s*(?:id|no\.?|number))$/i],
+  ['email', /^(?:e-?mail(?:\s+address)?|email_address)$/i],
+  ['person_name', /^(?:(?:employee|full|first|last|given|family|staff|payee|beneficiary|contact)[\s_]*name|name|surname|employee|payee|beneficiary|account\s+holder)$/i],
+  ['account_number', /^(?:(?:bank\s+)?account[\s_]*(?:no\.?|number|num|#)|acct[\s_]*(?:no\.?|number|#)?|card[\s_]*number|bank\s+account)$/i],
+]
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function collect(
+  text: string,
+  pattern: RegExp,
+  kind: RedactionKind,
+  into: SensitiveMatch[],
+  accept: (value: string) => boolean = () => true
+) {
+  for (const match of text.matchAll(pattern)) {
+    // Labeled patterns capture the value after the label
+    const value = match[1] ?? match[0]
+    const start = match.index + match[0].length - value.length
+    const trimmed = value.replace(/[ .-]+$/, '')
+    if (accept(trimmed)) {
+      into.push({ kind, start, end: start + trimmed.length, value: trimmed })
+    }
+  }
+}
+
+/**
+ * Find the sensitive values in a text, for the kinds in the policy.
+ * Overlapping matches keep the earliest, longest one.
+ */
+export function detectSensitiveData(
+  text: string,
+  policy: Pick<RedactionPolicy, 'kinds' | 'names'> = DEFAULT_REDACTION_POLICY
+): SensitiveMatch[] {
+  const kinds = new Set(policy.kinds)
+  const matches: SensitiveMatch[] = []
+
+  if (kinds.has('email')) collect(text, EMAIL, 'email', matches)
+  if (kinds.has('iban')) collect(text, IBAN, 'iban', matches, ibanChecksumValid)
+  if (kinds.has('ssn')) collect(text, SSN, 'ssn', matches)
+  if (kinds.has('tax_id')) {
+    collect(text, EIN, 'tax_id', matches)
+    collect(text, LABELED_TAX_ID, 'tax_id', matches, value => /\d{5,}/.test(value.replace(/[ .-]/g, '')))
+  }
+  if (kinds.has('account_number')) {
+    collect(text, LABELED_ACCOUNT, 'account_number', matches, isAccountNumber)
+    collect(text, CARD, 'account_number', matches, isCardNumber)
+  }
+  if (kinds.has('person_name')) {
+    collect(text, HONORIFIC_NAME, 'person_name', matches)
+    collect(text, LABELED_NAME, 'person_name', matches)
+    for (const name of policy.names) {
+      collect(text, new RegExp(`(?<![\\w])${escapeRegExp(name)}(?![\\w])`, 'gi'), 'person_name', matches)
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start || b.end - a.end)
+  const kept: SensitiveMatch[] = []
+  for (const match of matches) {
+    const previous = kept[kept.length - 1]
+    if (!previous || match.start >= previous.end) kept.push(match)
+  }
+  return kept
+}
+
+// ---------------------------------------------------------------------------
+// Redactor
+// ---------------------------------------------------------------------------
+
+let processSecret: string | undefined
+
+function tokenSecret(): string {
+  if (process.env.REDACTION_TOKEN_SECRET) return process.env.REDACTION_TOKEN_SECRET
+  if (!processSecret) {
+    // Tokens stay consistent within this process only
+    console.warn('[redaction] REDACTION_TOKEN_SECRET is not set; using a per-process secret')
+    processSecret = randomBytes(32).toString('hex')
+  }
+  return processSecret
+}
+
+/**
+ * Redacts outgoing content and restores incoming content for one scope
+ * (an organization, or a user without one). Inactive when the policy is
+ * disabled, in which case every method returns its input.
+ */
+export class Redactor {
+  private readonly values = new Map<string, string>()
+  // Tokens created since the last saveThread()
+  private readonly unsaved = new Map<string, string>()
+
+  constructor(
+    readonly policy: RedactionPolicy,
+    private readonly scope: string
+  ) {}
+
+  get active(): boolean {
+    return this.policy.enabled && (this.policy.kinds.length > 0 || this.policy.names.length > 0)
+  }
+
+  /**
+   * Whether a role is shown the original values in chat answers
+   */
+  canReveal(role?: UserRole | null): boolean {
+    return !this.active || (!!role && this.policy.revealRoles.includes(role))
+  }
+
+  /**
+   * Throw when the policy forbids sending content that can't be redacted
+   * (PDFs, images); what names it in the error
+   */
+  assertUnredactedAllowed(what: string): void {
+    if (this.active && this.policy.unredactableFiles === 'block') {
+      throw new UnredactableContentError(what)
+    }
+  }
+
+  private tokenFor(kind: RedactionKind, value: string): string {
+    const digest = createHmac('sha256', tokenSecret())
+      .update(`${this.scope}:${kind}:${value.toLowerCase()}`)
+      .digest('hex')
+      .slice(0, 8)
+    const token = `[[${TOKEN_LABELS[kind]}_${digest}]]`
+    if (!this.values.has(token)) {
+      this.values.set(token, value)
+      this.unsaved.set(token, value)
+    }
+    return token
+  }
+
+  redact(text: string): string {
+    if (!this.active || !text) return text
+
+    let result = ''
+    let cursor = 0
+    for (const match of detectSensitiveData(text, this.policy)) {
+      result += text.slice(cursor, match.start) + this.tokenFor(match.kind, match.value)
+      cursor = match.end
+    }
+    return result + text.slice(cursor)
+  }
+
+  restore(text: string): string {
+    if (this.values.size === 0 || !text) return text
+    return text.replace(TOKEN_PATTERN, token => this.values.get(token) ?? token)
+  }
+
+  /**
+   * Redact every string in a JSON-like value. Values of fields named like a
+   * sensitive column ("Account Number", "email", ...) are replaced whole,
+   * numbers included, since a bare value carries no label to detect.
+   */
+  redactValue<T>(value: T, field?: string): T {
+    if (!this.active) return value
+
+    const kind = field ? this.fieldKind(field) : null
+    if (kind && (typeof value === 'string' || typeof value === 'number') && String(value).trim()) {
+      return this.tokenFor(kind, String(value).trim()) as T
+    }
+    if (typeof value === 'string') return this.redact(value) as T
+    if (Array.isArray(value)) return value.map(item => this.redactValue(item)) as T
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactValue(item, key)])
+      ) as T
+    }
+    return value
+  }
+
+  /**
+   * Redact the rows of a sheet. A row whose cells name sensitive columns is
+   * taken as the header, and every cell below it in those columns is replaced.
+   */
+  redactRows<T>(rows: T[][]): (T | string)[][] {
+    if (!this.active) return rows
+
+    let columnKinds: (RedactionKind | null)[] = []
+    return rows.map(row => {
+      const headerKinds = row.map(cell => (typeof cell === 'string' ? this.fieldKind(cell) : null))
+      if (headerKinds.some(Boolean)) {
+        columnKinds = headerKinds
+        return row
+      }
+      return row.map((cell, index) => {
+        const kind = columnKinds[index]
+        if (kind && (typeof cell === 'string' || typeof cell === 'number') && String(cell).trim()) {
+          return this.tokenFor(kind, String(cell).trim())
+        }
+        return typeof cell === 'string' ? this.redact(cell) : cell
+      })
+    })
+  }
+
+  private fieldKind(field: string): RedactionKind | null {
+    const name = field.trim()
+    const entry = FIELD_KINDS.find(([kind, pattern]) => this.policy.kinds.includes(kind) && pattern.test(name))
+    return entry ? entry[0] : null
+  }
+
+  /**
+   * Restore every string in a JSON-like value (e.g. tool inputs from the model)
+   */
+  restoreValue<T>(value: T): T {
+    return this.mapStrings(value, text => this.restore(text))
+  }
+
+  private mapStrings<T>(value: T, map: (text: string) => string): T {
+    if (this.values.size === 0) return value
+    if (typeof value === 'string') return map(value) as T
+    if (Array.isArray(value)) return value.map(item => this.mapStrings(item, map)) as T
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.mapStrings(item, map)])
+      ) as T
+    }
+    return value
+  }
+
+  /**
+   * Load the tokens saved by earlier runs in a thread, so they can be
+   * restored. Call before redacting anything, so only new tokens are saved.
+   */
+  async loadThread(threadId?: string): Promise<void> {
+    if (!this.active || !threadId) return
+
+    try {
+      const supabase = await createServiceClient()
+      const { data, error } = await supabase
+        .from('redaction_tokens')
+        .select('token, value')
+        .eq('thread_id', threadId)
+      if (error) throw error
+
+      for (const { token, value } of data || []) {
+        this.values.set(token, value)
+      }
+    } catch (error) {
+      console.error('Failed to load redaction tokens:', error)
+    }
+  }
+
+  /**
+   * Save the tokens created in this run with the thread
+   */
+  async saveThread(threadId?: string): Promise<void> {
+    if (!threadId || this.unsaved.size === 0) return
+
+    const rows = [...this.unsaved].map(([token, value]) => ({ thread_id: threadId, token, value }))
+    this.unsaved.clear()
+    try {
+      const supabase = await createServiceClient()
+      const { error } = await supabase
+        .from('redaction_tokens')
+        .upsert(rows, { onConflict: 'thread_id,token', ignoreDuplicates: true })
+      if (error) throw error
+    } catch (error) {
+      console.error('Failed to save redaction tokens:', error)
+    }
+  }
+
+  /**
+   * Restores tokens in streamed text. A token split across chunks is held
+   * back until it is complete; call flush() when the stream ends.
+   */
+  createStreamRestorer(): { push: (chunk: string) => string; flush: () => string } {
+    let pending = ''
+    return {
+      push: (chunk: string) => {
+        const text = pending + chunk
+        const partial = text.match(PARTIAL_TOKEN_PATTERN)
+        const cut = partial ? text.length - partial[0].length : text.length
+        pending = text.slice(cut)
+        return this.restore(text.slice(0, cut))
+      },
+      flush: () => {
+        const rest = this.restore(pending)
+        pending = ''
+        return rest
+      },
+    }
+  }
+}
+
+const PASSTHROUGH = new Redactor({ ...DEFAULT_REDACTION_POLICY, enabled: false }, '')
+
+/**
+ * The redactor for a user's organization. Without a user there is no policy
+ * to apply and nothing is redacted.
+ */
+export async function getRedactorForUser(userId?: string): Promise<Redactor> {
+  if (!userId) return PASSTHROUGH
+
+  const [settings, organizationId] = await Promise.all([
+    getOrganizationSettingsForUser(userId),
+    getOrganizationIdForUser(userId),
+  ])
+  return new Redactor(resolveRedactionPolicy(settings.redaction), organizationId || userId)
+}
+
+/**
+ * Error thrown when policy forbids sending a file that can't be redacted
+ */
+export class UnredactableContentError extends Error {
+  constructor(what: string) {
+    super(`${what} can't be redacted before it is sent to the model provider, and your organization's redaction policy blocks it`)
+    this.name = 'UnredactableContentError'
+  }
+}
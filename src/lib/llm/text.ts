@@ -0,0 +1,122 @@
+import { getAnthropicClient, getGeminiClient, getOpenAIClient } from './clients'
+import { withModelFallback } from './fallback'
+import { getRedactorForUser } from './redaction'
+import type { ModelRole, ModelTarget } from './models'
+import type { TokenUsage, UsageContext } from './usage'
+
+/**
+ * Provider-Neutral Text Generation
+ *
+ * Single-turn text prompts that any provider can serve, so roles used this
+ * way (workers, JSON extraction, synthesis) can fall back across providers.
+ */
+
+export interface TextGenerationRequest {
+  system?: string
+  prompt: string
+  maxTokens?: number
+  temperature?: number
+}
+
+export interface TextGenerationResult {
+  text: string
+  target: ModelTarget
+  usage: TokenUsage
+}
+
+const DEFAULT_MAX_TOKENS = 4096
+
+async function generateWithTarget(
+  target: ModelTarget,
+  request: TextGenerationRequest
+): Promise<{ text: string; usage: TokenUsage }> {
+  switch (target.provider) {
+    case 'anthropic': {
+      const response = await getAnthropicClient().messages.create({
+        model: target.model,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.system ? { system: request.system } : {}),
+        messages: [{ role: 'user', content: request.prompt }],
+      })
+      return {
+        text: response.content
+          .map(block => (block.type === 'text' ? block.text : ''))
+          .join(''),
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+          cacheCreationTokens: response.usage.cache_creation_input_tokens || 0,
+          cacheReadTokens: response.usage.cache_read_input_tokens || 0,
+        },
+      }
+    }
+
+    case 'gemini': {
+      const model = getGeminiClient().getGenerativeModel({
+        model: target.model,
+        ...(request.system ? { systemInstruction: request.system } : {}),
+        generationConfig: {
+          ...(request.maxTokens ? { maxOutputTokens: request.maxTokens } : {}),
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        },
+      })
+      const result = await model.generateContent(request.prompt)
+      const metadata = result.response.usageMetadata
+      return {
+        text: result.response.text(),
+        usage: {
+          inputTokens: (metadata?.promptTokenCount || 0) - (metadata?.cachedContentTokenCount || 0),
+          outputTokens: metadata?.candidatesTokenCount || 0,
+          cacheReadTokens: metadata?.cachedContentTokenCount || 0,
+        },
+      }
+    }
+
+    case 'openai': {
+      const response = await getOpenAIClient().chat.completions.create({
+        model: target.model,
+        max_completion_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        messages: [
+          ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+          { role: 'user' as const, content: request.prompt },
+        ],
+      })
+      const cached = response.usage?.prompt_tokens_details?.cached_tokens || 0
+      return {
+        text: response.choices[0]?.message?.content || '',
+        usage: {
+          inputTokens: (response.usage?.prompt_tokens || 0) - cached,
+          outputTokens: response.usage?.completion_tokens || 0,
+          cacheReadTokens: cached,
+        },
+      }
+    }
+  }
+}
+
+/**
+ * Generate text for a role, falling back across its configured targets.
+ * Sensitive data is redacted under the user's organization policy and
+ * restored in the returned text.
+ */
+export async function generateText(
+  role: ModelRole,
+  request: TextGenerationRequest,
+  options: { userId?: string; usage?: UsageContext } = {}
+): Promise<TextGenerationResult> {
+  const redactor = await getRedactorForUser(options.userId)
+  const redacted: TextGenerationRequest = {
+    ...request,
+    system: request.system && redactor.redact(request.system),
+    prompt: redactor.redact(request.prompt),
+  }
+
+  const result = await withModelFallback(
+    role,
+    async target => ({ ...(await generateWithTarget(target, redacted)), target }),
+    options
+  )
+  return { ...result, text: redactor.restore(result.text) }
+}
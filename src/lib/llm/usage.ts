@@ -0,0 +1,187 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { getOrganizationIdForUser } from '@/lib/organizations/settings'
+import type { ModelRole, ModelTarget } from './models'
+
+/**
+ * Usage Metering
+ *
+ * Every provider call made through withModelFallback (and the Agent SDK
+ * session backend) is recorded in usage_logs as an 'llm_usage' row with its
+ * token counts and an estimated cost, attributed to the user, their
+ * organization and, for chat, the thread. Assistant messages also store the
+ * total for their run in messages.token_usage.
+ *
+ * Costs come from MODEL_PRICES (USD list prices per million tokens). Models
+ * missing from the table are recorded with their tokens and a cost of 0,
+ * flagged unpriced.
+ */
+
+export const USAGE_ACTION = 'llm_usage'
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  cacheCreationTokens?: number // Prompt caching writes (Anthropic)
+  cacheReadTokens?: number // Prompt caching reads (Anthropic, Gemini)
+}
+
+export interface ModelPrice {
+  input: number
+  output: number
+  cacheWrite?: number
+  cacheRead?: number
+}
+
+// USD per million tokens. Keys match model names by prefix, longest first.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  'claude-haiku-4': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.075 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.31 },
+  'gemini-3-pro-preview': { input: 2, output: 12, cacheRead: 0.2 },
+  // Output is mostly image tokens
+  'gemini-3-pro-image-preview': { input: 2, output: 120 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+}
+
+const PRICE_KEYS = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length)
+
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const key = PRICE_KEYS.find(prefix => model.startsWith(prefix))
+  return key ? MODEL_PRICES[key] : undefined
+}
+
+/**
+ * Estimated cost in USD; 0 for models missing from the price table
+ */
+export function estimateCostUsd(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model)
+  if (!price) return 0
+
+  const cost = (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    (usage.cacheCreationTokens || 0) * (price.cacheWrite ?? price.input) +
+    (usage.cacheReadTokens || 0) * (price.cacheRead ?? price.input)
+  ) / 1_000_000
+
+  return Math.round(cost * 1e6) / 1e6
+}
+
+/**
+ * Add up token counts (e.g. the iterations of an agent run)
+ */
+export function addTokenUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cacheCreationTokens: (total.cacheCreationTokens || 0) + (usage.cacheCreationTokens || 0),
+    cacheReadTokens: (total.cacheReadTokens || 0) + (usage.cacheReadTokens || 0),
+  }
+}
+
+function isTokenUsage(value: unknown): value is TokenUsage {
+  const usage = value as Partial<TokenUsage> | undefined
+  return typeof usage?.inputTokens === 'number' && typeof usage.outputTokens === 'number'
+}
+
+/**
+ * Read token counts from a provider response: an Anthropic message, an
+ * OpenAI completion or embedding response, a Gemini generateContent result,
+ * or anything carrying a TokenUsage as `usage`. Null when there are none.
+ */
+export function extractTokenUsage(result: unknown): TokenUsage | null {
+  if (!result || typeof result !== 'object') return null
+  const { usage, response } = result as { usage?: Record<string, unknown>; response?: unknown }
+
+  if (isTokenUsage(usage)) return usage
+
+  if (usage && typeof usage.input_tokens === 'number') {
+    // Anthropic
+    return {
+      inputTokens: usage.input_tokens,
+      outputTokens: Number(usage.output_tokens) || 0,
+      cacheCreationTokens: Number(usage.cache_creation_input_tokens) || 0,
+      cacheReadTokens: Number(usage.cache_read_input_tokens) || 0,
+    }
+  }
+
+  if (usage && typeof usage.prompt_tokens === 'number') {
+    // OpenAI (embeddings report prompt tokens only)
+    const cached = (usage.prompt_tokens_details as { cached_tokens?: number } | undefined)?.cached_tokens || 0
+    return {
+      inputTokens: usage.prompt_tokens - cached,
+      outputTokens: Number(usage.completion_tokens) || 0,
+      cacheReadTokens: cached,
+    }
+  }
+
+  const metadata = (response as { usageMetadata?: Record<string, number> } | undefined)?.usageMetadata
+  if (metadata && typeof metadata.promptTokenCount === 'number') {
+    // Gemini
+    const cached = metadata.cachedContentTokenCount || 0
+    return {
+      inputTokens: metadata.promptTokenCount - cached,
+      outputTokens: metadata.candidatesTokenCount || 0,
+      cacheReadTokens: cached,
+    }
+  }
+
+  return null
+}
+
+export interface UsageContext {
+  threadId?: string // Chat thread the call was made for
+  feature?: string // What the call was for (chat, orchestrator, document_analysis, ...); defaults to the role
+}
+
+/**
+ * Record one provider call in usage_logs. Never throws: metering must not
+ * break the request it measures.
+ */
+export async function recordUsage(
+  role: ModelRole,
+  target: ModelTarget,
+  usage: TokenUsage,
+  options: UsageContext & { userId?: string; costUsd?: number } = {}
+): Promise<void> {
+  // Nothing to attribute it to
+  if (!options.userId) return
+
+  try {
+    const supabase = await createServiceClient()
+    const costUsd = options.costUsd ?? estimateCostUsd(target.model, usage)
+
+    const { error } = await supabase.from('usage_logs').insert({
+      user_id: options.userId,
+      organization_id: await getOrganizationIdForUser(options.userId),
+      action: USAGE_ACTION,
+      resource_type: options.threadId ? 'thread' : null,
+      resource_id: options.threadId ?? null,
+      details: {
+        role,
+        feature: options.feature || role,
+        provider: target.provider,
+        model: target.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cacheCreationTokens: usage.cacheCreationTokens || 0,
+        cacheReadTokens: usage.cacheReadTokens || 0,
+        costUsd,
+        priced: options.costUsd !== undefined || !!getModelPrice(target.model),
+      },
+    })
+    if (error) throw error
+  } catch (error) {
+    console.error('Failed to record model usage:', error)
+  }
+}
@@ -0,0 +1,26 @@
+import type { createClient } from '@/lib/supabase/server'
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * The organization an admin manages, or null when the user is not an admin
+ * or has no organization. Uses the caller's client, so RLS still applies.
+ */
+export async function getAdminOrganizationId(supabase: ServerClient, userId: string): Promise<string | null> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .single()
+
+  if (profile?.role !== 'admin') return null
+
+  const { data: membership } = await supabase
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', userId)
+    .limit(1)
+    .maybeSingle()
+
+  return membership?.organization_id ?? null
+}
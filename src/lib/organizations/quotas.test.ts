@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fakeSupabase, type FakeRow, type FakeRpcHandler } from '@/test/fake-supabase'
+import { ROLE_QUOTAS, admitRequest, checkImageQuota, quotaExceededResponse, resolveQuota } from './quotas'
+
+vi.mock('@/lib/supabase/server', async () => (await import('@/test/fake-supabase')).supabaseServerMock)
+
+const USER_ID = 'user-1'
+
+function apiRequests(db: { rows(table: string): FakeRow[] }): FakeRow[] {
+  return db.rows('usage_logs').filter(row => row.user_id === USER_ID && row.action === 'api_request')
+}
+
+// Tokens and images come from llm_usage rows; the test sets them directly
+const consumed = { tokens: 0, images: 0 }
+
+const usageQuotaConsumption: FakeRpcHandler = (_args, db) => [{
+  requests: apiRequests(db).length,
+  tokens: consumed.tokens,
+  images: consumed.images,
+  upload_bytes: apiRequests(db).reduce((sum, row) => sum + (Number((row.details as { bytes?: number }).bytes) || 0), 0),
+}]
+
+// Checks the limits and logs the request in one step, as the SQL function does under its lock
+const admitApiRequest: FakeRpcHandler = (args, db) => {
+  const logged = apiRequests(db)
+  if (logged.length >= (args.p_max_requests as number)) return 'requestsPerMinute'
+  const uploaded = logged.reduce((sum, row) => sum + (Number((row.details as { bytes?: number }).bytes) || 0), 0)
+  if (args.p_max_upload_bytes !== null && uploaded + Number(args.p_upload_bytes) > (args.p_max_upload_bytes as number)) {
+    return 'dailyUploadMb'
+  }
+  db.rows('usage_logs').push(db.newRow({
+    user_id: args.p_user_id,
+    organization_id: args.p_organization_id,
+    action: 'api_request',
+    details: args.p_endpoint === 'upload' ? { endpoint: args.p_endpoint, bytes: args.p_upload_bytes } : { endpoint: args.p_endpoint },
+  }, 'usage_logs'))
+  return null
+}
+
+function seed(role: string, quotas: Record<string, unknown> = {}) {
+  consumed.tokens = 0
+  consumed.images = 0
+  fakeSupabase.reset({
+    tables: {
+      profiles: [{ id: USER_ID, role }],
+      organization_members: [{ user_id: USER_ID, organization_id: 'org-1', organizations: { settings: { quotas } } }],
+    },
+    rpc: { usage_quota_consumption: usageQuotaConsumption, admit_api_request: admitApiRequest },
+  })
+}
+
+describe('resolveQuota', () => {
+  it('uses the role defaults, with the organization overrides for that role', () => {
+    expect(resolveQuota('viewer')).toEqual(ROLE_QUOTAS.viewer)
+    expect(resolveQuota('analyst', { analyst: { dailyTokens: 500_000, requestsPerMinute: 2.6 }, viewer: { dailyTokens: 1 } })).toEqual({
+      ...ROLE_QUOTAS.analyst,
+      dailyTokens: 500_000,
+      requestsPerMinute: 3,
+    })
+  })
+
+  it('ignores invalid overrides and falls back to the analyst quota without a role', () => {
+    expect(resolveQuota('viewer', { viewer: { dailyUploadMb: -1, dailyImageGenerations: 'many' } })).toEqual(ROLE_QUOTAS.viewer)
+    expect(resolveQuota(null, { analyst: { dailyTokens: 1 } })).toEqual(ROLE_QUOTAS.analyst)
+  })
+})
+
+describe('admitRequest', () => {
+  beforeEach(() => seed('viewer'))
+
+  it('admits parallel requests up to the per-minute limit and logs each one', async () => {
+    const denials = await Promise.all(Array.from({ length: 7 }, () => admitRequest(USER_ID, 'chat')))
+
+    expect(denials.filter(denial => denial === null)).toHaveLength(ROLE_QUOTAS.viewer.requestsPerMinute)
+    expect(denials.find(Boolean)).toMatchObject({ limit: 'requestsPerMinute', retryAfterSeconds: 60 })
+    expect(apiRequests(fakeSupabase)).toHaveLength(ROLE_QUOTAS.viewer.requestsPerMinute)
+    expect(apiRequests(fakeSupabase)[0]).toMatchObject({ organization_id: 'org-1', details: { endpoint: 'chat' } })
+  })
+
+  it('refuses model requests once the daily tokens are used up, but not uploads', async () => {
+    consumed.tokens = ROLE_QUOTAS.viewer.dailyTokens
+
+    await expect(admitRequest(USER_ID, 'analysis')).resolves.toMatchObject({ limit: 'dailyTokens' })
+    await expect(admitRequest(USER_ID, 'upload', { uploadBytes: 1024 })).resolves.toBeNull()
+    expect(apiRequests(fakeSupabase)).toHaveLength(1)
+  })
+
+  it('refuses an upload that would exceed the daily upload quota', async () => {
+    seed('viewer', { viewer: { dailyUploadMb: 1 } })
+
+    await expect(admitRequest(USER_ID, 'upload', { uploadBytes: 600 * 1024 })).resolves.toBeNull()
+    const denial = await admitRequest(USER_ID, 'upload', { uploadBytes: 600 * 1024 })
+
+    expect(denial).toMatchObject({ limit: 'dailyUploadMb' })
+    expect(denial!.message).toContain('0.4 MB left')
+  })
+
+  it('answers a refused request with a 429 and Retry-After', async () => {
+    seed('viewer', { viewer: { requestsPerMinute: 0 } })
+    const denial = await admitRequest(USER_ID, 'chat')
+    const response = quotaExceededResponse(denial!)
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('Retry-After')).toBe('60')
+    await expect(response.json()).resolves.toMatchObject({
+      error: 'Rate limit reached: at most 0 requests per minute. Try again in a minute.',
+      limit: 'requestsPerMinute',
+      retryAfterSeconds: 60,
+      quota: { role: 'viewer', limits: { requestsPerMinute: 0 }, remaining: { requestsPerMinute: 0 } },
+    })
+  })
+})
+
+describe('checkImageQuota', () => {
+  beforeEach(() => seed('analyst', { analyst: { dailyImageGenerations: 2 } }))
+
+  it('refuses images once the daily image quota is used up', async () => {
+    consumed.images = 1
+    await expect(checkImageQuota(USER_ID)).resolves.toBeNull()
+
+    consumed.images = 2
+    const denial = await checkImageQuota(USER_ID)
+    expect(denial).toMatchObject({ limit: 'dailyImageGenerations', allowance: { remaining: { dailyImageGenerations: 0 } } })
+    expect(denial!.retryAfterSeconds).toBeGreaterThan(0)
+    expect(denial!.retryAfterSeconds).toBeLessThanOrEqual(24 * 60 * 60)
+  })
+})
@@ -0,0 +1,247 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { getOrganizationIdForUser, getOrganizationSettingsForUser } from './settings'
+import type { Database } from '@/types/database'
+
+/**
+ * Usage Quotas
+ *
+ * Limits how much each user can consume: requests per minute across chat,
+ * analysis and uploads, and per UTC day model tokens, image generations and
+ * uploaded megabytes. Defaults are set per role; an organization can
+ * override them per role in organizations.settings.quotas, e.g.
+ * { "analyst": { "dailyTokens": 500000 } }.
+ *
+ * Consumption is counted from usage_logs: every admitted request is logged
+ * as an 'api_request' row by admit_api_request, and tokens and images come from the 'llm_usage'
+ * rows written by the model fallback layer. Cache reads count as a tenth of
+ * a token each, in line with their price, so prompt caching stretches the
+ * daily token quota rather than using it up.
+ */
+
+type UserRole = Database['public']['Enums']['user_role']
+
+export type QuotaEndpoint = 'chat' | 'analysis' | 'upload'
+
+export interface Quota {
+  requestsPerMinute: number
+  dailyTokens: number
+  dailyImageGenerations: number
+  dailyUploadMb: number
+}
+
+export type QuotaLimit = keyof Quota
+
+export const ROLE_QUOTAS: Record<UserRole, Quota> = {
+  viewer: { requestsPerMinute: 5, dailyTokens: 500_000, dailyImageGenerations: 5, dailyUploadMb: 50 },
+  analyst: { requestsPerMinute: 10, dailyTokens: 2_000_000, dailyImageGenerations: 20, dailyUploadMb: 200 },
+  bu_manager: { requestsPerMinute: 10, dailyTokens: 2_000_000, dailyImageGenerations: 20, dailyUploadMb: 200 },
+  group_cfo: { requestsPerMinute: 20, dailyTokens: 5_000_000, dailyImageGenerations: 50, dailyUploadMb: 500 },
+  admin: { requestsPerMinute: 20, dailyTokens: 5_000_000, dailyImageGenerations: 50, dailyUploadMb: 500 },
+}
+
+export const DEFAULT_QUOTA: Quota = ROLE_QUOTAS.analyst
+
+const RATE_WINDOW_MS = 60 * 1000
+const BYTES_PER_MB = 1024 * 1024
+
+/**
+ * What is left of each limit; resetsAt is when the daily limits reset
+ */
+export interface QuotaAllowance {
+  role: UserRole | null
+  limits: Quota
+  remaining: Quota
+  resetsAt: string
+}
+
+export interface QuotaDenial {
+  limit: QuotaLimit
+  message: string
+  retryAfterSeconds: number
+  allowance: QuotaAllowance
+}
+
+function nonNegative(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined
+}
+
+/**
+ * Resolve the quota for a role, applying the organization's overrides
+ */
+export function resolveQuota(role?: UserRole | null, override?: unknown): Quota {
+  const base = (role && ROLE_QUOTAS[role]) || DEFAULT_QUOTA
+  const quotas = (override && typeof override === 'object' && !Array.isArray(override) ? override : {}) as Record<string, unknown>
+  const forRole = role ? quotas[role] : undefined
+  const raw = (forRole && typeof forRole === 'object' && !Array.isArray(forRole) ? forRole : {}) as Record<string, unknown>
+
+  return {
+    requestsPerMinute: Math.round(nonNegative(raw.requestsPerMinute) ?? base.requestsPerMinute),
+    dailyTokens: nonNegative(raw.dailyTokens) ?? base.dailyTokens,
+    dailyImageGenerations: Math.round(nonNegative(raw.dailyImageGenerations) ?? base.dailyImageGenerations),
+    dailyUploadMb: nonNegative(raw.dailyUploadMb) ?? base.dailyUploadMb,
+  }
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+}
+
+/**
+ * The user's quota and what remains of it. Pass the role when the caller has
+ * already loaded the profile.
+ */
+export async function getQuotaAllowance(userId: string, role?: UserRole | null): Promise<QuotaAllowance> {
+  const supabase = await createServiceClient()
+
+  if (role === undefined) {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', userId)
+      .single()
+    role = profile?.role ?? null
+  }
+
+  const settings = await getOrganizationSettingsForUser(userId)
+  const limits = resolveQuota(role, settings.quotas)
+
+  const now = new Date()
+  const dayStart = startOfUtcDay(now)
+  const { data, error } = await supabase.rpc('usage_quota_consumption', {
+    p_user_id: userId,
+    p_window_start: new Date(now.getTime() - RATE_WINDOW_MS).toISOString(),
+    p_day_start: dayStart.toISOString(),
+  })
+  if (error) throw error
+
+  const consumed = data?.[0]
+  const remaining = (limit: number, used: unknown) => Math.max(limit - (Number(used) || 0), 0)
+
+  return {
+    role,
+    limits,
+    remaining: {
+      requestsPerMinute: remaining(limits.requestsPerMinute, consumed?.requests),
+      dailyTokens: remaining(limits.dailyTokens, consumed?.tokens),
+      dailyImageGenerations: remaining(limits.dailyImageGenerations, consumed?.images),
+      dailyUploadMb: remaining(limits.dailyUploadMb, (Number(consumed?.upload_bytes) || 0) / BYTES_PER_MB),
+    },
+    resetsAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+  }
+}
+
+function deny(limit: QuotaLimit, message: string, allowance: QuotaAllowance): QuotaDenial {
+  const retryAfterSeconds = limit === 'requestsPerMinute'
+    ? RATE_WINDOW_MS / 1000
+    : Math.ceil((new Date(allowance.resetsAt).getTime() - Date.now()) / 1000)
+  return { limit, message, retryAfterSeconds, allowance }
+}
+
+function rateLimitDenial(allowance: QuotaAllowance): QuotaDenial {
+  return deny(
+    'requestsPerMinute',
+    `Rate limit reached: at most ${allowance.limits.requestsPerMinute} requests per minute. Try again in a minute.`,
+    allowance
+  )
+}
+
+function uploadDenial(allowance: QuotaAllowance): QuotaDenial {
+  const { limits, remaining } = allowance
+  return deny(
+    'dailyUploadMb',
+    limits.dailyUploadMb === 0
+      ? 'Uploads are disabled for your role.'
+      : `Daily upload quota of ${limits.dailyUploadMb} MB would be exceeded (${remaining.dailyUploadMb.toFixed(1)} MB left). It resets at midnight UTC.`,
+    allowance
+  )
+}
+
+/**
+ * Check a request against the user's quota and, when it is allowed, log it
+ * as an 'api_request' so it counts towards the rate limit. uploadBytes is
+ * the size of the file an upload adds. The rate limit and upload quota are
+ * checked and the request logged in one database call (admit_api_request),
+ * so parallel requests can't race past them. Returns why the request was
+ * refused, or null when it may proceed. A failed lookup lets the request
+ * through.
+ */
+export async function admitRequest(
+  userId: string,
+  endpoint: QuotaEndpoint,
+  options: { role?: UserRole | null; uploadBytes?: number } = {}
+): Promise<QuotaDenial | null> {
+  try {
+    const allowance = await getQuotaAllowance(userId, options.role)
+    const { limits, remaining } = allowance
+
+    if (endpoint !== 'upload' && remaining.dailyTokens <= 0) {
+      return deny(
+        'dailyTokens',
+        `Daily token quota of ${limits.dailyTokens.toLocaleString('en-US')} tokens used up. It resets at midnight UTC.`,
+        allowance
+      )
+    }
+
+    const now = new Date()
+    const supabase = await createServiceClient()
+    const { data: refusedBy, error } = await supabase.rpc('admit_api_request', {
+      p_user_id: userId,
+      p_organization_id: await getOrganizationIdForUser(userId),
+      p_endpoint: endpoint,
+      p_upload_bytes: endpoint === 'upload' ? options.uploadBytes || 0 : null,
+      p_window_start: new Date(now.getTime() - RATE_WINDOW_MS).toISOString(),
+      p_day_start: startOfUtcDay(now).toISOString(),
+      p_max_requests: limits.requestsPerMinute,
+      p_max_upload_bytes: endpoint === 'upload' ? Math.floor(limits.dailyUploadMb * BYTES_PER_MB) : null,
+    })
+    if (error) throw error
+
+    if (refusedBy === 'requestsPerMinute') return rateLimitDenial(allowance)
+    if (refusedBy === 'dailyUploadMb') return uploadDenial(allowance)
+    return null
+  } catch (error) {
+    // Quotas must not take the API down with them
+    console.error('Failed to check usage quota:', error)
+    return null
+  }
+}
+
+/**
+ * Whether the user may generate another image today; a failed lookup allows it
+ */
+export async function checkImageQuota(userId: string): Promise<QuotaDenial | null> {
+  try {
+    const allowance = await getQuotaAllowance(userId)
+    if (allowance.remaining.dailyImageGenerations >= 1) return null
+
+    return deny(
+      'dailyImageGenerations',
+      `Daily image quota of ${allowance.limits.dailyImageGenerations} images used up. It resets at midnight UTC.`,
+      allowance
+    )
+  } catch (error) {
+    console.error('Failed to check image quota:', error)
+    return null
+  }
+}
+
+/**
+ * The 429 response for a refused request
+ */
+export function quotaExceededResponse(denial: QuotaDenial): Response {
+  return new Response(
+    JSON.stringify({
+      error: denial.message,
+      limit: denial.limit,
+      retryAfterSeconds: denial.retryAfterSeconds,
+      quota: denial.allowance,
+    }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(denial.retryAfterSeconds),
+      },
+    }
+  )
+}
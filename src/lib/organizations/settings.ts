@@ -0,0 +1,61 @@
+import { createServiceClient } from '@/lib/supabase/server'
+
+/**
+ * Organization Settings
+ *
+ * organizations.settings is a free-form JSON column; each feature reads and
+ * validates its own key (search.rerank, tools, ...) from it.
+ */
+
+export type OrganizationSettings = Record<string, unknown>
+
+/**
+ * Load the settings of the user's organization. Returns an empty object when
+ * the user has no organization or the lookup fails, so callers fall back to
+ * their defaults.
+ */
+export async function getOrganizationSettingsForUser(userId?: string): Promise<OrganizationSettings> {
+  if (!userId) return {}
+
+  try {
+    const supabase = await createServiceClient()
+    const { data: membership } = await supabase
+      .from('organization_members')
+      .select('organizations(settings)')
+      .eq('user_id', userId)
+      .limit(1)
+      .maybeSingle()
+
+    const organization = membership?.organizations as { settings?: unknown } | null | undefined
+    const settings = organization?.settings
+
+    return settings && typeof settings === 'object' && !Array.isArray(settings)
+      ? (settings as OrganizationSettings)
+      : {}
+  } catch (error) {
+    console.error('Failed to load organization settings:', error)
+    return {}
+  }
+}
+
+/**
+ * The organization the user belongs to, or null when they have none
+ */
+export async function getOrganizationIdForUser(userId?: string): Promise<string | null> {
+  if (!userId) return null
+
+  try {
+    const supabase = await createServiceClient()
+    const { data: membership } = await supabase
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', userId)
+      .limit(1)
+      .maybeSingle()
+
+    return membership?.organization_id ?? null
+  } catch (error) {
+    console.error('Failed to load organization:', error)
+    return null
+  }
+}
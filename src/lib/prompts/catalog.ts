@@ -0,0 +1,32 @@
+import { FINANCE_SYSTEM_PROMPT } from '@/lib/agents/finance-agent'
+import { ORCHESTRATOR_PROMPT, WORKER_PROMPT, SYNTHESIS_PROMPT } from '@/lib/agents/orchestrator'
+import {
+  DOCUMENT_SUMMARY_PROMPT,
+  NARRATION_PROMPT,
+  IMAGE_ANALYSIS_PROMPT,
+  COMPARISON_PROMPT,
+} from '@/lib/agents/document-analyzer'
+import { THREAD_SUMMARY_PROMPT } from '@/lib/agents/thread-summary'
+import { KNOWLEDGE_SYNTHESIS_PROMPT } from '@/lib/knowledge/synthesis'
+import type { PromptTemplate } from './templates'
+
+/**
+ * Templates organizations can override, in the order the admin editor lists them.
+ * Kept out of the package index: it imports the agents, which import the store.
+ */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  FINANCE_SYSTEM_PROMPT,
+  ORCHESTRATOR_PROMPT,
+  WORKER_PROMPT,
+  SYNTHESIS_PROMPT,
+  THREAD_SUMMARY_PROMPT,
+  KNOWLEDGE_SYNTHESIS_PROMPT,
+  DOCUMENT_SUMMARY_PROMPT,
+  NARRATION_PROMPT,
+  IMAGE_ANALYSIS_PROMPT,
+  COMPARISON_PROMPT,
+]
+
+export function getPromptTemplate(key: string): PromptTemplate | undefined {
+  return PROMPT_TEMPLATES.find(template => template.key === key)
+}
@@ -0,0 +1,10 @@
+export {
+  definePromptTemplate,
+  findVariables,
+  parseCustomVariables,
+  renderTemplate,
+  validateOverride,
+  type PromptTemplate,
+  type PromptVariables,
+} from './templates'
+export { clearPromptCache, renderPrompt, type PromptVersion, type RenderedPrompt } from './store'
@@ -0,0 +1,101 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { getOrganizationIdForUser } from '@/lib/organizations/settings'
+import type { PromptTemplateRow } from '@/types/database'
+import { parseCustomVariables, renderTemplate, type PromptTemplate, type PromptVariables } from './templates'
+
+/**
+ * Prompt Template Store
+ *
+ * Resolves a template to the content in effect for the user's organization:
+ * the active version in prompt_templates, or the built-in default. Rendering
+ * also reports which version was used, so callers can record it (assistant
+ * messages store it in messages.prompt_versions).
+ *
+ * Active versions are cached per user; edits made through the admin API clear
+ * this process's cache, other instances pick them up within the TTL.
+ */
+
+export interface PromptVersion {
+  key: string
+  // 0 is the built-in default
+  version: number
+  templateId: string | null
+}
+
+export interface RenderedPrompt {
+  text: string
+  version: PromptVersion
+}
+
+// Active overrides are re-read at most this often
+const OVERRIDE_CACHE_TTL_MS = 60000
+
+type ActiveOverride = Pick<PromptTemplateRow, 'id' | 'key' | 'version' | 'content' | 'variables'>
+
+const overrideCache = new Map<string, { overrides: Map<string, ActiveOverride>; expiresAt: number }>()
+
+async function getActiveOverrides(userId?: string): Promise<Map<string, ActiveOverride>> {
+  const overrides = new Map<string, ActiveOverride>()
+  if (!userId) return overrides
+
+  const cached = overrideCache.get(userId)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.overrides
+  }
+
+  try {
+    // Users outside an organization always get the built-in prompts
+    const organizationId = await getOrganizationIdForUser(userId)
+    if (organizationId) {
+      const supabase = await createServiceClient()
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('id, key, version, content, variables')
+        .eq('organization_id', organizationId)
+        .eq('is_active', true)
+
+      if (error) throw error
+      for (const row of data || []) {
+        overrides.set(row.key, row)
+      }
+    }
+  } catch (error) {
+    // Built-in prompts keep the agent working; retry on the next call
+    console.error('Failed to load prompt templates:', error)
+    return overrides
+  }
+
+  overrideCache.set(userId, { overrides, expiresAt: Date.now() + OVERRIDE_CACHE_TTL_MS })
+  return overrides
+}
+
+/**
+ * Forget cached overrides, after an edit
+ */
+export function clearPromptCache(): void {
+  overrideCache.clear()
+}
+
+/**
+ * Render a template with the organization's active version, falling back to the default
+ */
+export async function renderPrompt(
+  template: PromptTemplate,
+  variables: PromptVariables,
+  options: { userId?: string } = {}
+): Promise<RenderedPrompt> {
+  const override = (await getActiveOverrides(options.userId)).get(template.key)
+
+  if (!override) {
+    return {
+      text: renderTemplate(template.content, variables),
+      version: { key: template.key, version: 0, templateId: null },
+    }
+  }
+
+  // Application-provided values win over organization-defined ones of the same name
+  return {
+    text: renderTemplate(override.content, { ...parseCustomVariables(override.variables), ...variables }),
+    version: { key: template.key, version: override.version, templateId: override.id },
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Prompt Templates
+ *
+ * Prompts are declared next to the code that uses them, with their built-in
+ * content and the {variables} the code fills in at render time. Organizations
+ * can override the content (see store.ts); the declaration says which
+ * variables an override may use and which it must keep.
+ *
+ * Only declared and organization-defined variables are substituted, so other
+ * braces in a prompt (JSON examples, for instance) are left alone.
+ */
+
+export interface PromptTemplate {
+  key: string
+  name: string
+  description: string
+  content: string
+  // Variables the code provides: name -> what it contains
+  variables: Record<string, string>
+  // Variables an override must keep, because the prompt breaks without them
+  required?: string[]
+}
+
+export type PromptVariables = Record<string, string>
+
+const VARIABLE_PATTERN = /\{([a-z][a-z0-9_]*)\}/g
+
+// Organization-defined variable names; values are plain text
+const CUSTOM_VARIABLE_NAME = /^[a-z][a-z0-9_]*$/
+
+/**
+ * Declare a prompt template; required variables must be declared and used by the default
+ */
+export function definePromptTemplate(template: PromptTemplate): PromptTemplate {
+  for (const name of template.required || []) {
+    if (!(name in template.variables) || !template.content.includes(`{${name}}`)) {
+      throw new Error(`Prompt template ${template.key} requires undeclared or unused variable {${name}}`)
+    }
+  }
+  return template
+}
+
+/**
+ * Names of the {variables} a piece of content refers to
+ */
+export function findVariables(content: string): string[] {
+  return [...new Set([...content.matchAll(VARIABLE_PATTERN)].map(match => match[1]))]
+}
+
+/**
+ * Substitute known variables; unknown {names} are kept as written
+ */
+export function renderTemplate(content: string, variables: PromptVariables): string {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  )
+}
+
+/**
+ * Keep only string values with valid names from a stored variables object
+ */
+export function parseCustomVariables(value: unknown): PromptVariables {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => CUSTOM_VARIABLE_NAME.test(entry[0]) && typeof entry[1] === 'string'
+    )
+  )
+}
+
+/**
+ * Problems with an override, as messages for the editor; empty when it can be published
+ */
+export function validateOverride(
+  template: PromptTemplate,
+  content: string,
+  customVariables: PromptVariables
+): string[] {
+  const errors: string[] = []
+
+  if (!content.trim()) {
+    errors.push('Content is empty')
+  }
+
+  for (const name of Object.keys(customVariables)) {
+    if (name in template.variables) {
+      errors.push(`{${name}} is provided by the application and cannot be redefined`)
+    }
+  }
+
+  for (const name of template.required || []) {
+    if (!content.includes(`{${name}}`)) {
+      errors.push(`{${name}} is required`)
+    }
+  }
+
+  // Most likely a typo; it would reach the model as literal text
+  for (const name of findVariables(content)) {
+    if (!(name in template.variables) && !(name in customVariables)) {
+      errors.push(`{${name}} is not a known variable`)
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,95 @@
+import * as XLSX from 'xlsx'
+import { describe, expect, it } from 'vitest'
+import { WorkbookModel, type SerializedWorkbookModel } from './formula-engine'
+
+function buildWorkbook(): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new()
+  const assumptions = XLSX.utils.aoa_to_sheet([
+    ['Driver', 'Value'],
+    ['Growth', 0.1],
+  ])
+  const pnl = XLSX.utils.aoa_to_sheet([
+    ['Line', '2024', '2025'],
+    ['Revenue', 1000, 1100],
+    ['Costs', 600, 650],
+    ['Profit', 400, 450],
+    ['Notes', 'unreferenced'],
+  ])
+  pnl.C2 = { t: 'n', v: 1100, f: 'B2*(1+Assumptions!B2)' }
+  pnl.B4 = { t: 'n', v: 400, f: 'B2-B3' }
+  pnl.C4 = { t: 'n', v: 450, f: 'C2-C3' }
+  XLSX.utils.book_append_sheet(workbook, assumptions, 'Assumptions')
+  XLSX.utils.book_append_sheet(workbook, pnl, 'PnL')
+  return workbook
+}
+
+describe('WorkbookModel', () => {
+  it('recalculates downstream cells across sheets', () => {
+    const model = WorkbookModel.fromWorkbook(buildWorkbook())
+    const result = model.recalculate([{ cell: 'Assumptions!B2', value: 0.2 }])
+
+    const profit = result.outputs.find(output => output.cell === 'PnL!C4')
+    expect(profit?.after).toBe(550)
+    expect(profit?.delta).toBe(100)
+    expect(profit?.label).toBe('Profit (2025)')
+  })
+
+  it('stores only formulas and the cells they read', () => {
+    const graph = WorkbookModel.fromWorkbook(buildWorkbook()).serialize()!
+
+    expect(Object.keys(graph.formulas).sort()).toEqual(['PnL!B4', 'PnL!C2', 'PnL!C4'])
+    expect(graph.formulas['PnL!C4'].precedents).toEqual(['PnL!C2', 'PnL!C3'])
+    expect(graph.cells.map(cell => cell.key)).not.toContain('PnL!B5')
+    expect(graph.cells.find(cell => cell.key === 'Assumptions!B2')?.label).toBe('Growth (Value)')
+  })
+
+  it('gives the same what-if results from the stored graph', () => {
+    const model = WorkbookModel.fromWorkbook(buildWorkbook())
+    const stored = JSON.parse(JSON.stringify(model.serialize())) as SerializedWorkbookModel
+    const restored = WorkbookModel.fromSerialized(stored)
+
+    const changes = [{ cell: 'Assumptions!B2', value: 0.2 }, { cell: 'PnL!C3', value: 700 }]
+    expect(restored.recalculate(changes)).toEqual(model.recalculate(changes))
+    expect(restored.summarize()).toEqual(model.summarize())
+  })
+
+  it('recalculates whole-column and whole-row references from the stored graph', () => {
+    const workbook = buildWorkbook()
+    const totals = XLSX.utils.aoa_to_sheet([['2025 total', 0], ['Profit total', 0]])
+    totals.B1 = { t: 'n', v: 4225, f: 'SUM(PnL!C:C)' }
+    totals.B2 = { t: 'n', v: 850, f: 'SUM(PnL!$4:$4)' }
+    XLSX.utils.book_append_sheet(workbook, totals, 'Totals')
+    const stored = JSON.parse(JSON.stringify(WorkbookModel.fromWorkbook(workbook).serialize())) as SerializedWorkbookModel
+    const model = WorkbookModel.fromSerialized(stored)
+
+    expect(stored.formulas['Totals!B1'].precedents).toContain('PnL!C5')
+    expect(stored.formulas['Totals!B2'].precedents).toEqual(['PnL!A4', 'PnL!B4', 'PnL!C4'])
+    const costs = model.recalculate([{ cell: 'PnL!C3', value: 700 }], ['Totals!B1', 'Totals!B2'])
+    expect(costs.outputs.map(output => output.delta)).toEqual([0, -50])
+    const growth = model.recalculate([{ cell: 'Assumptions!B2', value: 0.2 }], ['Totals!B1', 'Totals!B2'])
+    expect(growth.outputs.map(output => output.delta)).toEqual([200, 100])
+  })
+
+  it('refuses what-if on formulas that read ranges too large to track', () => {
+    const workbook = buildWorkbook()
+    const totals = XLSX.utils.aoa_to_sheet([['Ledger total', 0]])
+    totals.B1 = { t: 'n', v: 1000, f: 'SUM(PnL!B1:B20000)' }
+    XLSX.utils.book_append_sheet(workbook, totals, 'Totals')
+    const model = WorkbookModel.fromSerialized(WorkbookModel.fromWorkbook(workbook).serialize()!)
+
+    expect(() => model.recalculate([{ cell: 'PnL!B3', value: 700 }])).toThrow(
+      "Can't recalculate Totals!B1: these formulas read ranges over 10000 cells"
+    )
+    expect(model.recalculate([{ cell: 'Assumptions!B2', value: 0.2 }]).outputs.length).toBeGreaterThan(0)
+  })
+
+  it('does not store graphs larger than the limit', () => {
+    expect(WorkbookModel.fromWorkbook(buildWorkbook()).serialize(3)).toBeNull()
+  })
+
+  it('rejects graphs in an unknown format', () => {
+    expect(() => WorkbookModel.fromSerialized({ version: 1 } as unknown as SerializedWorkbookModel)).toThrow(
+      'Unsupported workbook graph format'
+    )
+  })
+})
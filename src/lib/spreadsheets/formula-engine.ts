@@ -0,0 +1,647 @@
+import * as XLSX from 'xlsx'
+import { Parser } from 'hot-formula-parser'
+import type { CellValue } from './workbook'
+
+/**
+ * Workbook Formula Engine
+ *
+ * Keeps the formulas of an uploaded Excel model together with their
+ * dependency graph, and recalculates downstream cells when inputs change.
+ * Formulas are evaluated with hot-formula-parser; cell and range references
+ * (including cross-sheet ones) are rewritten into parser variables so the
+ * engine controls how every reference resolves. Whole-column and whole-row
+ * references (A:A, 1:1) cover the used range of their sheet.
+ *
+ * Ranges over MAX_RANGE_CELLS are not tracked in the graph, so formulas that
+ * read one can't be recalculated: a what-if run that would have to
+ * recalculate one is refused rather than answered from missing inputs.
+ *
+ * The compiled graph is serialized at ingestion (documents.workbook_graph),
+ * so what-if runs rebuild the model without downloading and parsing the file.
+ */
+
+export interface ModelCell {
+  key: string // "Sheet!A1"
+  sheet: string
+  address: string
+  value: CellValue
+  formula?: string
+  // Kept in a serialized model, which drops the text cells labels come from
+  label?: string
+}
+
+export interface CellChange {
+  cell: string // "B5" or "Assumptions!B5"
+  sheet?: string
+  value: number | string | boolean // strings starting with "=" are formulas
+}
+
+export interface RecalculatedCell {
+  cell: string
+  label: string
+  formula?: string
+  before: CellValue
+  after: CellValue
+  delta: number | null
+  deltaPercent: number | null
+}
+
+export interface WhatIfResult {
+  changes: RecalculatedCell[]
+  outputs: RecalculatedCell[]
+  affectedCount: number
+  warnings: string[]
+}
+
+export interface WorkbookModelSummary {
+  sheets: string[]
+  formulaCount: number
+  inputCells: { cell: string; label: string; value: CellValue; dependentCount: number }[]
+  outputCells: { cell: string; label: string; value: CellValue; formula: string }[]
+}
+
+/**
+ * A model as stored in documents.workbook_graph: every formula with its
+ * compiled references and precedents, and the cells the formulas read
+ */
+export interface SerializedWorkbookModel {
+  version: typeof SERIALIZED_MODEL_VERSION
+  sheets: string[]
+  // Used range of each sheet ("A1:F40"), for whole-column and whole-row references
+  dimensions: Record<string, string>
+  cells: ModelCell[]
+  formulas: Record<string, CompiledFormula>
+}
+
+interface Reference {
+  variable: string
+  sheet: string
+  start: string
+  end?: string
+}
+
+interface CompiledFormula {
+  expression: string
+  references: Reference[]
+  precedents: string[]
+}
+
+// Ranges larger than this are not expanded into individual graph edges
+const MAX_RANGE_CELLS = 10000
+const LABEL_SCAN_LIMIT = 50
+// Larger graphs are not stored; what-if parses the file instead
+const MAX_SERIALIZED_CELLS = 20000
+const SERIALIZED_MODEL_VERSION = 2
+
+// A cell or range (A1, A1:B5), whole columns (A:C) or whole rows (1:3), optionally sheet-qualified
+const REFERENCE_PATTERN =
+  /(?<![A-Za-z0-9_.$])(?:('(?:[^']|'')+'|[A-Za-z_][A-Za-z0-9_.]*)!)?(?:(\$?[A-Za-z]{1,3}\$?\d+)(?::(\$?[A-Za-z]{1,3}\$?\d+))?|(\$?[A-Za-z]{1,3}):(\$?[A-Za-z]{1,3})|(\$?\d+):(\$?\d+))(?![A-Za-z0-9_(!:])/g
+
+function cellKey(sheet: string, address: string): string {
+  return `${sheet}!${address.replace(/\$/g, '').toUpperCase()}`
+}
+
+function splitKey(key: string): { sheet: string; address: string } {
+  const index = key.lastIndexOf('!')
+  return { sheet: key.slice(0, index), address: key.slice(index + 1) }
+}
+
+function unquoteSheet(sheet: string): string {
+  return sheet.startsWith("'") ? sheet.slice(1, -1).replace(/''/g, "'") : sheet
+}
+
+function decodeRange(start: string, end: string): XLSX.Range {
+  return XLSX.utils.decode_range(`${start.replace(/\$/g, '')}:${end.replace(/\$/g, '')}`)
+}
+
+function isTracked(reference: Reference): boolean {
+  if (!reference.end) return true
+  const range = decodeRange(reference.start, reference.end)
+  return (range.e.r - range.s.r + 1) * (range.e.c - range.s.c + 1) <= MAX_RANGE_CELLS
+}
+
+function expandRange(sheet: string, start: string, end: string): string[] {
+  const range = decodeRange(start, end)
+  const keys: string[] = []
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      keys.push(cellKey(sheet, XLSX.utils.encode_cell({ r, c })))
+    }
+  }
+  return keys
+}
+
+/**
+ * Bound a whole-column or whole-row reference by the used range of its
+ * sheet; an empty sheet gives its first cell
+ */
+function boundReference(
+  dimensions: Record<string, string>,
+  sheet: string,
+  columns?: [string, string],
+  rows?: [string, string]
+): { start: string; end: string } {
+  const used = dimensions[sheet] ? XLSX.utils.decode_range(dimensions[sheet]) : { s: { r: 0, c: 0 }, e: { r: 0, c: 0 } }
+  if (columns) {
+    return { start: `${columns[0]}${used.s.r + 1}`, end: `${columns[1]}${used.e.r + 1}` }
+  }
+  return { start: `${XLSX.utils.encode_col(used.s.c)}${rows![0]}`, end: `${XLSX.utils.encode_col(used.e.c)}${rows![1]}` }
+}
+
+/**
+ * Rewrite a formula so every cell/range reference becomes a parser variable.
+ * String literals are left untouched.
+ */
+function compileFormula(formula: string, sheet: string, sheetNames: string[], dimensions: Record<string, string>): CompiledFormula {
+  const references: Reference[] = []
+  const precedents = new Set<string>()
+  const source = formula.startsWith('=') ? formula.slice(1) : formula
+
+  const expression = source
+    .split(/("(?:[^"]|"")*")/)
+    .map((part, i) => {
+      // Odd indices are string literals captured by the split
+      if (i % 2 === 1) return part
+
+      return part.replace(REFERENCE_PATTERN, (
+        _match,
+        sheetPart: string | undefined,
+        cell: string | undefined,
+        cellEnd: string | undefined,
+        columnStart: string | undefined,
+        columnEnd: string | undefined,
+        rowStart: string | undefined,
+        rowEnd: string | undefined
+      ) => {
+        const refSheetRaw = sheetPart ? unquoteSheet(sheetPart) : sheet
+        const refSheet = sheetNames.find(name => name.toLowerCase() === refSheetRaw.toLowerCase()) || refSheetRaw
+        const { start, end } = cell
+          ? { start: cell, end: cellEnd }
+          : boundReference(
+            dimensions,
+            refSheet,
+            columnStart ? [columnStart, columnEnd!] : undefined,
+            rowStart ? [rowStart, rowEnd!] : undefined
+          )
+        const variable = `REF_${references.length}_`
+        const reference = { variable, sheet: refSheet, start, end }
+        references.push(reference)
+
+        if (!end) {
+          precedents.add(cellKey(refSheet, start))
+        } else if (isTracked(reference)) {
+          expandRange(refSheet, start, end).forEach(key => precedents.add(key))
+        }
+        return variable
+      })
+    })
+    .join('')
+
+  return { expression, references, precedents: [...precedents] }
+}
+
+function toNumeric(value: CellValue): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function normalizeResult(result: unknown, error: string | null): CellValue {
+  if (error) return error
+  if (result === undefined || result === null) return null
+  if (typeof result === 'number' || typeof result === 'string' || typeof result === 'boolean') return result
+  if (result instanceof Date) return result.toISOString().slice(0, 10)
+  return String(result)
+}
+
+function valuesEqual(a: CellValue, b: CellValue): boolean {
+  const na = toNumeric(a)
+  const nb = toNumeric(b)
+  if (na !== null && nb !== null) {
+    return Math.abs(na - nb) <= 1e-9 * Math.max(1, Math.abs(na), Math.abs(nb))
+  }
+  return a === b
+}
+
+export class WorkbookModel {
+  private cells = new Map<string, ModelCell>()
+  private compiled = new Map<string, CompiledFormula>()
+  private dependents = new Map<string, Set<string>>()
+
+  private constructor(
+    readonly sheetNames: string[],
+    private readonly dimensions: Record<string, string>
+  ) {}
+
+  /**
+   * Build a model from a parsed workbook (formulas must be preserved, which
+   * is the SheetJS default for xlsx/xls)
+   */
+  static fromWorkbook(workbook: XLSX.WorkBook): WorkbookModel {
+    const dimensions = Object.fromEntries(
+      workbook.SheetNames.flatMap(sheet => {
+        const ref = workbook.Sheets[sheet]['!ref']
+        return ref ? [[sheet, ref]] : []
+      })
+    )
+    const model = new WorkbookModel(workbook.SheetNames, dimensions)
+
+    for (const sheet of workbook.SheetNames) {
+      const worksheet = workbook.Sheets[sheet]
+      for (const address of Object.keys(worksheet)) {
+        if (address.startsWith('!')) continue
+        const cell = worksheet[address] as XLSX.CellObject
+
+        let value: CellValue = null
+        if (cell.v instanceof Date) {
+          value = cell.v.toISOString().slice(0, 10)
+        } else if (cell.v !== undefined) {
+          value = cell.v as CellValue
+        }
+
+        const key = cellKey(sheet, address)
+        model.cells.set(key, {
+          key,
+          sheet,
+          address,
+          value,
+          formula: cell.f ? `=${cell.f}` : undefined,
+        })
+
+        if (cell.f) {
+          model.setFormula(key, cell.f)
+        }
+      }
+    }
+
+    return model
+  }
+
+  /**
+   * Rebuild a model from its stored graph
+   */
+  static fromSerialized(data: SerializedWorkbookModel): WorkbookModel {
+    if (data?.version !== SERIALIZED_MODEL_VERSION || !Array.isArray(data.cells) || !data.formulas) {
+      throw new Error('Unsupported workbook graph format')
+    }
+
+    const model = new WorkbookModel(data.sheets, data.dimensions || {})
+    data.cells.forEach(cell => model.cells.set(cell.key, cell))
+    Object.entries(data.formulas).forEach(([key, compiled]) => model.link(key, compiled))
+    return model
+  }
+
+  /**
+   * The graph to store at ingestion: formula cells and the cells they read,
+   * with their labels resolved. Null when the model is too large to store.
+   */
+  serialize(maxCells: number = MAX_SERIALIZED_CELLS): SerializedWorkbookModel | null {
+    const keys = new Set<string>()
+    this.compiled.forEach((compiled, key) => {
+      keys.add(key)
+      compiled.precedents.forEach(precedent => keys.add(precedent))
+    })
+
+    const cells = [...keys].flatMap(key => {
+      const cell = this.cells.get(key)
+      return cell ? [{ ...cell, label: this.labelFor(key) }] : []
+    })
+    if (cells.length > maxCells) return null
+
+    return {
+      version: SERIALIZED_MODEL_VERSION,
+      sheets: this.sheetNames,
+      dimensions: this.dimensions,
+      cells,
+      formulas: Object.fromEntries(this.compiled),
+    }
+  }
+
+  private setFormula(key: string, formula: string): void {
+    const { sheet } = splitKey(key)
+    this.link(key, compileFormula(formula, sheet, this.sheetNames, this.dimensions))
+  }
+
+  private link(key: string, compiled: CompiledFormula): void {
+    const previous = this.compiled.get(key)
+    previous?.precedents.forEach(p => this.dependents.get(p)?.delete(key))
+
+    this.compiled.set(key, compiled)
+    for (const precedent of compiled.precedents) {
+      if (!this.dependents.has(precedent)) this.dependents.set(precedent, new Set())
+      this.dependents.get(precedent)!.add(key)
+    }
+  }
+
+  get formulaCount(): number {
+    return this.compiled.size
+  }
+
+  /**
+   * Resolve "A1" / "Sheet!A1" / "'My Sheet'!A1" to a canonical cell key
+   */
+  resolveCell(reference: string, defaultSheet?: string): string {
+    const match = reference.trim().match(/^(?:('(?:[^']|'')+'|[^!]+)!)?(\$?[A-Za-z]{1,3}\$?\d+)$/)
+    if (!match) {
+      throw new Error(`Invalid cell reference "${reference}". Use A1 or Sheet!A1 notation`)
+    }
+
+    const sheetName = match[1] ? unquoteSheet(match[1]) : defaultSheet || this.sheetNames[0]
+    const sheet = this.sheetNames.find(name => name.toLowerCase() === sheetName.toLowerCase())
+    if (!sheet) {
+      throw new Error(`Sheet "${sheetName}" not found. Available sheets: ${this.sheetNames.join(', ')}`)
+    }
+    return cellKey(sheet, match[2])
+  }
+
+  getCell(key: string): ModelCell | undefined {
+    return this.cells.get(key)
+  }
+
+  /**
+   * Describe a cell by its row label (nearest text to the left) and
+   * column header (nearest text above)
+   */
+  labelFor(key: string): string {
+    const stored = this.cells.get(key)?.label
+    if (stored) return stored
+
+    const { sheet, address } = splitKey(key)
+    const { r, c } = XLSX.utils.decode_cell(address)
+
+    let rowLabel: string | undefined
+    for (let col = c - 1; col >= 0 && c - col <= LABEL_SCAN_LIMIT; col--) {
+      const value = this.cells.get(cellKey(sheet, XLSX.utils.encode_cell({ r, c: col })))?.value
+      if (typeof value === 'string' && value.trim()) {
+        rowLabel = value.trim()
+        break
+      }
+    }
+
+    let columnLabel: string | undefined
+    for (let row = r - 1; row >= 0 && r - row <= LABEL_SCAN_LIMIT; row--) {
+      const value = this.cells.get(cellKey(sheet, XLSX.utils.encode_cell({ r: row, c })))?.value
+      if (typeof value === 'string' && value.trim()) {
+        columnLabel = value.trim()
+        break
+      }
+    }
+
+    if (rowLabel && columnLabel) return `${rowLabel} (${columnLabel})`
+    return rowLabel || columnLabel || key
+  }
+
+  /**
+   * All formula cells downstream of the given cells
+   */
+  private dependentsOf(keys: string[]): Set<string> {
+    const affected = new Set<string>()
+    const queue = [...keys]
+    while (queue.length > 0) {
+      const key = queue.shift()!
+      for (const dependent of this.dependents.get(key) || []) {
+        if (!affected.has(dependent)) {
+          affected.add(dependent)
+          queue.push(dependent)
+        }
+      }
+    }
+    return affected
+  }
+
+  /**
+   * Formulas that read a range too large to track and would have to be
+   * recalculated: they are downstream of a change, read a changed cell
+   * through that range, or are new formulas from the scenario
+   */
+  private untrackedFormulas(changedKeys: string[], affected: Set<string>, formulas: Map<string, CompiledFormula>): string[] {
+    const changedCells = changedKeys.map(key => {
+      const { sheet, address } = splitKey(key)
+      return { sheet, ...XLSX.utils.decode_cell(address) }
+    })
+    const readsChangedCell = (reference: Reference) => {
+      const range = decodeRange(reference.start, reference.end!)
+      return changedCells.some(({ sheet, r, c }) =>
+        sheet === reference.sheet && r >= range.s.r && r <= range.e.r && c >= range.s.c && c <= range.e.c
+      )
+    }
+
+    return [...formulas].flatMap(([key, compiled]) => {
+      const untracked = compiled.references.filter(reference => !isTracked(reference))
+      if (untracked.length === 0) return []
+      const recalculated = affected.has(key) || changedKeys.includes(key) || untracked.some(readsChangedCell)
+      return recalculated ? [key] : []
+    })
+  }
+
+  /**
+   * Topologically order formula cells; cells caught in a cycle are appended last
+   */
+  private evaluationOrder(keys: Set<string>, formulas: Map<string, CompiledFormula>): { order: string[]; cyclic: string[] } {
+    const inDegree = new Map<string, number>()
+    const edges = new Map<string, string[]>()
+
+    for (const key of keys) {
+      const precedents = (formulas.get(key)?.precedents || []).filter(p => keys.has(p))
+      inDegree.set(key, precedents.length)
+      precedents.forEach(p => {
+        if (!edges.has(p)) edges.set(p, [])
+        edges.get(p)!.push(key)
+      })
+    }
+
+    const ready = [...keys].filter(key => inDegree.get(key) === 0)
+    const order: string[] = []
+    while (ready.length > 0) {
+      const key = ready.shift()!
+      order.push(key)
+      for (const next of edges.get(key) || []) {
+        const remaining = inDegree.get(next)! - 1
+        inDegree.set(next, remaining)
+        if (remaining === 0) ready.push(next)
+      }
+    }
+
+    const cyclic = [...keys].filter(key => !order.includes(key))
+    return { order: [...order, ...cyclic], cyclic }
+  }
+
+  private referenceValue(reference: Reference, values: Map<string, CellValue>): unknown {
+    if (!reference.end) {
+      const value = values.get(cellKey(reference.sheet, reference.start)) ?? null
+      // Empty cells behave as zero in arithmetic, as in Excel
+      return value === null ? 0 : value
+    }
+
+    const range = decodeRange(reference.start, reference.end)
+    const matrix: CellValue[][] = []
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      const row: CellValue[] = []
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        row.push(values.get(cellKey(reference.sheet, XLSX.utils.encode_cell({ r, c }))) ?? null)
+      }
+      matrix.push(row)
+    }
+    return matrix
+  }
+
+  private evaluate(keys: Set<string>, formulas: Map<string, CompiledFormula>, values: Map<string, CellValue>): string[] {
+    const parser = new Parser()
+    const { order, cyclic } = this.evaluationOrder(keys, formulas)
+
+    for (const key of order) {
+      const compiled = formulas.get(key)
+      if (!compiled) continue
+      compiled.references.forEach(reference => {
+        parser.setVariable(reference.variable, this.referenceValue(reference, values))
+      })
+      const { result, error } = parser.parse(compiled.expression)
+      values.set(key, normalizeResult(result, error))
+    }
+
+    return cyclic
+  }
+
+  private currentValues(): Map<string, CellValue> {
+    const values = new Map<string, CellValue>()
+    this.cells.forEach((cell, key) => values.set(key, cell.value))
+    return values
+  }
+
+  private describe(key: string, before: CellValue, after: CellValue, formula?: string): RecalculatedCell {
+    const b = toNumeric(before)
+    const a = toNumeric(after)
+    const delta = a !== null && b !== null ? a - b : null
+    return {
+      cell: key,
+      label: this.labelFor(key),
+      formula,
+      before,
+      after,
+      delta,
+      deltaPercent: delta !== null && b !== null && b !== 0 ? (delta / Math.abs(b)) * 100 : null,
+    }
+  }
+
+  /**
+   * Apply input changes and recalculate everything downstream.
+   * Both the baseline and the scenario are computed by the engine so the
+   * deltas reflect the change alone, not differences from Excel's cache.
+   */
+  recalculate(changes: CellChange[], outputs?: string[], maxOutputs: number = 50): WhatIfResult {
+    if (changes.length === 0) {
+      throw new Error('At least one cell change is required')
+    }
+
+    const warnings: string[] = []
+    const changedKeys = changes.map(change => this.resolveCell(change.cell, change.sheet))
+    const affected = this.dependentsOf(changedKeys)
+
+    // Baseline: original formulas and inputs
+    const baseline = this.currentValues()
+    const baselineCyclic = this.evaluate(affected, this.compiled, baseline)
+
+    // Scenario: apply overrides, then recalculate the same downstream set
+    const scenario = this.currentValues()
+    const scenarioFormulas = new Map(this.compiled)
+    const scenarioAffected = new Set(affected)
+
+    changes.forEach((change, i) => {
+      const key = changedKeys[i]
+      const { sheet } = splitKey(key)
+      if (typeof change.value === 'string' && change.value.startsWith('=')) {
+        scenarioFormulas.set(key, compileFormula(change.value, sheet, this.sheetNames, this.dimensions))
+        scenarioAffected.add(key)
+      } else {
+        scenarioFormulas.delete(key)
+        scenarioAffected.delete(key)
+        scenario.set(key, change.value)
+      }
+    })
+
+    const untracked = this.untrackedFormulas(changedKeys, scenarioAffected, scenarioFormulas)
+    if (untracked.length > 0) {
+      throw new Error(
+        `Can't recalculate ${untracked.slice(0, 10).join(', ')}: these formulas read ranges over ${MAX_RANGE_CELLS} cells, which the model does not track`
+      )
+    }
+
+    const scenarioCyclic = this.evaluate(scenarioAffected, scenarioFormulas, scenario)
+    const cyclic = new Set([...baselineCyclic, ...scenarioCyclic])
+    if (cyclic.size > 0) {
+      warnings.push(`Circular references detected; these cells were evaluated once without iteration: ${[...cyclic].slice(0, 10).join(', ')}`)
+    }
+
+    // Flag formulas the engine evaluates differently from Excel's cached value
+    const mismatched = [...affected].filter(key => !valuesEqual(baseline.get(key) ?? null, this.cells.get(key)?.value ?? null))
+    if (mismatched.length > 0) {
+      warnings.push(`Engine baseline differs from the values saved in the file for: ${mismatched.slice(0, 10).join(', ')}. These formulas may use functions the engine does not support.`)
+    }
+
+    const changeRows = changes.map((change, i) =>
+      this.describe(
+        changedKeys[i],
+        this.cells.get(changedKeys[i])?.value ?? null,
+        scenario.get(changedKeys[i]) ?? null,
+        typeof change.value === 'string' && change.value.startsWith('=') ? change.value : this.cells.get(changedKeys[i])?.formula
+      )
+    )
+
+    let outputKeys: string[]
+    if (outputs && outputs.length > 0) {
+      outputKeys = outputs.map(output => this.resolveCell(output, changes[0].sheet))
+      const missing = outputKeys.filter(key => !scenario.has(key) && !baseline.has(key))
+      if (missing.length > 0) {
+        warnings.push(`Requested output cells are empty: ${missing.join(', ')}`)
+      }
+    } else {
+      outputKeys = [...affected].filter(key => !changedKeys.includes(key) && !valuesEqual(baseline.get(key) ?? null, scenario.get(key) ?? null))
+    }
+
+    const outputRows = outputKeys
+      .slice(0, maxOutputs)
+      .map(key => this.describe(key, baseline.get(key) ?? null, scenario.get(key) ?? null, this.cells.get(key)?.formula))
+
+    if (outputKeys.length > maxOutputs) {
+      warnings.push(`${outputKeys.length - maxOutputs} more changed cells not shown`)
+    }
+
+    return {
+      changes: changeRows,
+      outputs: outputRows,
+      affectedCount: affected.size,
+      warnings,
+    }
+  }
+
+  /**
+   * Compact description of the model's drivers and outputs, stored at ingestion
+   */
+  summarize(limit: number = 50): WorkbookModelSummary {
+    const inputCells = [...this.dependents.entries()]
+      .filter(([key, deps]) => deps.size > 0 && !this.compiled.has(key) && typeof this.cells.get(key)?.value === 'number')
+      .sort((a, b) => b[1].size - a[1].size)
+      .slice(0, limit)
+      .map(([key]) => ({
+        cell: key,
+        label: this.labelFor(key),
+        value: this.cells.get(key)!.value,
+        dependentCount: this.dependentsOf([key]).size,
+      }))
+
+    const outputCells = [...this.compiled.keys()]
+      .filter(key => !this.dependents.get(key)?.size && typeof this.cells.get(key)?.value === 'number')
+      .slice(0, limit)
+      .map(key => ({
+        cell: key,
+        label: this.labelFor(key),
+        value: this.cells.get(key)!.value,
+        formula: this.cells.get(key)!.formula!,
+      }))
+
+    return {
+      sheets: this.sheetNames,
+      formulaCount: this.formulaCount,
+      inputCells,
+      outputCells,
+    }
+  }
+}
@@ -0,0 +1,478 @@
+import { loadSpreadsheetDocument, readSheet, type CellValue, type SheetTable } from './workbook'
+
+/**
+ * Spreadsheet Operations
+ *
+ * read, analyze and transform actions behind the spreadsheet_operation tool.
+ * Every action returns the same `{ type: 'table', data }` shape that the
+ * canvas DataTable renders, with operation details alongside.
+ */
+
+export type SpreadsheetAction = 'read' | 'analyze' | 'transform'
+export type TransformOperation = 'filter' | 'group_by' | 'pivot' | 'join'
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'count'
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in'
+
+export interface RowFilter {
+  column: string
+  operator: FilterOperator
+  value: CellValue | CellValue[]
+}
+
+export interface Aggregation {
+  column: string
+  fn: AggregateFunction
+  as?: string
+}
+
+export interface SpreadsheetOperationInput {
+  action: SpreadsheetAction
+  documentId: string
+  sheet?: string
+  range?: string
+  limit?: number
+  transform?: {
+    operation: TransformOperation
+    filters?: RowFilter[]
+    groupBy?: string[]
+    aggregations?: Aggregation[]
+    pivot?: {
+      index: string
+      columns: string
+      values: string
+      fn?: AggregateFunction
+    }
+    join?: {
+      documentId?: string
+      sheet: string
+      range?: string
+      leftKey: string
+      rightKey: string
+      type?: 'inner' | 'left'
+    }
+  }
+}
+
+export interface SpreadsheetTableResult {
+  type: 'table'
+  data: {
+    title: string
+    columns: string[]
+    rows: Record<string, CellValue>[]
+    highlightColumn?: string
+  }
+  source: {
+    documentId: string
+    documentName: string
+    sheet: string
+    range: string
+    headerRow: number
+  }
+  totalRows: number
+  truncated: boolean
+  details?: Record<string, unknown>
+}
+
+export interface ColumnStats {
+  column: string
+  type: 'number' | 'text' | 'date' | 'boolean' | 'empty' | 'mixed'
+  nonEmpty: number
+  empty: number
+  unique: number
+  min?: number
+  max?: number
+  sum?: number
+  mean?: number
+  sample?: CellValue
+}
+
+const DEFAULT_ROW_LIMIT = 100
+const MAX_ROW_LIMIT = 500
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/
+
+function toNumber(value: CellValue): number | null {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string') {
+    // Accept formatted figures like "$1,234.50" or "(1,200)"
+    const negative = /^\(.*\)$/.test(value.trim())
+    const cleaned = value.replace(/[$€£,%\s()]/g, '')
+    if (cleaned === '' || Number.isNaN(Number(cleaned))) return null
+    return negative ? -Number(cleaned) : Number(cleaned)
+  }
+  return null
+}
+
+function assertColumns(table: SheetTable, columns: string[]): void {
+  const missing = columns.filter(c => !table.headers.includes(c))
+  if (missing.length > 0) {
+    throw new Error(`Unknown column(s): ${missing.join(', ')}. Available columns: ${table.headers.join(', ')}`)
+  }
+}
+
+// ============================================
+// Analyze
+// ============================================
+
+function columnType(values: CellValue[]): ColumnStats['type'] {
+  const types = new Set(
+    values.map(v => {
+      if (typeof v === 'number') return 'number'
+      if (typeof v === 'boolean') return 'boolean'
+      if (typeof v === 'string' && ISO_DATE_PATTERN.test(v)) return 'date'
+      return 'text'
+    })
+  )
+  if (types.size === 0) return 'empty'
+  if (types.size === 1) return [...types][0] as ColumnStats['type']
+  return 'mixed'
+}
+
+export function analyzeColumns(table: SheetTable): ColumnStats[] {
+  return table.headers.map(column => {
+    const values = table.rows.map(row => row[column]).filter((v): v is Exclude<CellValue, null> => v !== null)
+    const stats: ColumnStats = {
+      column,
+      type: columnType(values),
+      nonEmpty: values.length,
+      empty: table.rows.length - values.length,
+      unique: new Set(values.map(v => String(v))).size,
+      sample: values[0] ?? null,
+    }
+
+    const numbers = values.map(toNumber).filter((n): n is number => n !== null)
+    if (numbers.length > 0 && numbers.length >= values.length / 2) {
+      const sum = numbers.reduce((a, b) => a + b, 0)
+      stats.min = Math.min(...numbers)
+      stats.max = Math.max(...numbers)
+      stats.sum = sum
+      stats.mean = sum / numbers.length
+    }
+
+    return stats
+  })
+}
+
+// ============================================
+// Transforms
+// ============================================
+
+function matchesFilter(row: Record<string, CellValue>, filter: RowFilter): boolean {
+  const cell = row[filter.column]
+  const { operator, value } = filter
+
+  if (operator === 'in') {
+    const options = Array.isArray(value) ? value : [value]
+    return options.some(option => String(option).toLowerCase() === String(cell).toLowerCase())
+  }
+
+  if (operator === 'contains') {
+    return cell !== null && String(cell).toLowerCase().includes(String(value).toLowerCase())
+  }
+
+  const cellNumber = toNumber(cell)
+  const valueNumber = Array.isArray(value) ? null : toNumber(value)
+  const numeric = cellNumber !== null && valueNumber !== null
+
+  switch (operator) {
+    case 'eq':
+      return numeric ? cellNumber === valueNumber : String(cell).toLowerCase() === String(value).toLowerCase()
+    case 'neq':
+      return numeric ? cellNumber !== valueNumber : String(cell).toLowerCase() !== String(value).toLowerCase()
+    case 'gt':
+      return numeric && cellNumber > valueNumber
+    case 'gte':
+      return numeric && cellNumber >= valueNumber
+    case 'lt':
+      return numeric && cellNumber < valueNumber
+    case 'lte':
+      return numeric && cellNumber <= valueNumber
+    default:
+      throw new Error(`Unknown filter operator: ${operator}`)
+  }
+}
+
+export function filterRows(table: SheetTable, filters: RowFilter[]): Record<string, CellValue>[] {
+  assertColumns(table, filters.map(f => f.column))
+  return table.rows.filter(row => filters.every(filter => matchesFilter(row, filter)))
+}
+
+function aggregate(values: CellValue[], fn: AggregateFunction): number | null {
+  if (fn === 'count') {
+    return values.filter(v => v !== null).length
+  }
+
+  const numbers = values.map(toNumber).filter((n): n is number => n !== null)
+  if (numbers.length === 0) return null
+
+  switch (fn) {
+    case 'sum':
+      return numbers.reduce((a, b) => a + b, 0)
+    case 'avg':
+      return numbers.reduce((a, b) => a + b, 0) / numbers.length
+    case 'min':
+      return Math.min(...numbers)
+    case 'max':
+      return Math.max(...numbers)
+  }
+}
+
+export function groupRows(
+  table: SheetTable,
+  rows: Record<string, CellValue>[],
+  groupBy: string[],
+  aggregations: Aggregation[]
+): { columns: string[]; rows: Record<string, CellValue>[] } {
+  if (groupBy.length === 0) {
+    throw new Error('group_by requires at least one groupBy column')
+  }
+  assertColumns(table, [...groupBy, ...aggregations.map(a => a.column)])
+
+  const groups = new Map<string, Record<string, CellValue>[]>()
+  for (const row of rows) {
+    const key = JSON.stringify(groupBy.map(col => row[col]))
+    const group = groups.get(key)
+    if (group) {
+      group.push(row)
+    } else {
+      groups.set(key, [row])
+    }
+  }
+
+  const aggregationNames = aggregations.map(a => a.as || `${a.fn}_${a.column}`)
+  const grouped = [...groups.values()].map(groupRowsForKey => {
+    const record: Record<string, CellValue> = {}
+    groupBy.forEach(col => {
+      record[col] = groupRowsForKey[0][col]
+    })
+    aggregations.forEach((agg, i) => {
+      record[aggregationNames[i]] = aggregate(groupRowsForKey.map(r => r[agg.column]), agg.fn)
+    })
+    if (aggregations.length === 0) {
+      record.count = groupRowsForKey.length
+    }
+    return record
+  })
+
+  return {
+    columns: [...groupBy, ...(aggregations.length > 0 ? aggregationNames : ['count'])],
+    rows: grouped,
+  }
+}
+
+export function pivotRows(
+  table: SheetTable,
+  rows: Record<string, CellValue>[],
+  pivot: { index: string; columns: string; values: string; fn?: AggregateFunction }
+): { columns: string[]; rows: Record<string, CellValue>[] } {
+  assertColumns(table, [pivot.index, pivot.columns, pivot.values])
+  const fn = pivot.fn || 'sum'
+
+  const pivotColumns: string[] = []
+  const cells = new Map<string, Map<string, CellValue[]>>()
+
+  for (const row of rows) {
+    const indexKey = String(row[pivot.index] ?? '(blank)')
+    const columnKey = String(row[pivot.columns] ?? '(blank)')
+    if (!pivotColumns.includes(columnKey)) pivotColumns.push(columnKey)
+
+    if (!cells.has(indexKey)) cells.set(indexKey, new Map())
+    const byColumn = cells.get(indexKey)!
+    if (!byColumn.has(columnKey)) byColumn.set(columnKey, [])
+    byColumn.get(columnKey)!.push(row[pivot.values])
+  }
+
+  const pivoted = [...cells.entries()].map(([indexKey, byColumn]) => {
+    const record: Record<string, CellValue> = { [pivot.index]: indexKey }
+    for (const columnKey of pivotColumns) {
+      const values = byColumn.get(columnKey)
+      record[columnKey] = values ? aggregate(values, fn) : null
+    }
+    return record
+  })
+
+  return { columns: [pivot.index, ...pivotColumns], rows: pivoted }
+}
+
+export function joinTables(
+  left: SheetTable,
+  leftRows: Record<string, CellValue>[],
+  right: SheetTable,
+  leftKey: string,
+  rightKey: string,
+  type: 'inner' | 'left' = 'inner'
+): { columns: string[]; rows: Record<string, CellValue>[] } {
+  assertColumns(left, [leftKey])
+  assertColumns(right, [rightKey])
+
+  // Prefix right-hand columns that collide with left-hand ones
+  const rightColumns = right.headers
+    .filter(h => h !== rightKey)
+    .map(h => ({ source: h, target: left.headers.includes(h) ? `${right.sheet}.${h}` : h }))
+
+  const index = new Map<string, Record<string, CellValue>[]>()
+  for (const row of right.rows) {
+    const key = String(row[rightKey]).toLowerCase()
+    const bucket = index.get(key)
+    if (bucket) {
+      bucket.push(row)
+    } else {
+      index.set(key, [row])
+    }
+  }
+
+  const joined: Record<string, CellValue>[] = []
+  for (const row of leftRows) {
+    const matches = index.get(String(row[leftKey]).toLowerCase())
+    if (matches) {
+      for (const match of matches) {
+        const record = { ...row }
+        rightColumns.forEach(({ source, target }) => {
+          record[target] = match[source]
+        })
+        joined.push(record)
+      }
+    } else if (type === 'left') {
+      const record = { ...row }
+      rightColumns.forEach(({ target }) => {
+        record[target] = null
+      })
+      joined.push(record)
+    }
+  }
+
+  return { columns: [...left.headers, ...rightColumns.map(c => c.target)], rows: joined }
+}
+
+// ============================================
+// Tool entry point
+// ============================================
+
+function clampLimit(limit?: number): number {
+  if (!limit || limit <= 0) return DEFAULT_ROW_LIMIT
+  return Math.min(Math.floor(limit), MAX_ROW_LIMIT)
+}
+
+/**
+ * Execute a spreadsheet_operation request against an uploaded document
+ */
+export async function runSpreadsheetOperation(input: SpreadsheetOperationInput): Promise<SpreadsheetTableResult> {
+  if (!input.documentId) {
+    throw new Error('documentId is required')
+  }
+
+  const { document, workbook } = await loadSpreadsheetDocument(input.documentId)
+  const table = readSheet(workbook, input.sheet, input.range)
+  const limit = clampLimit(input.limit)
+
+  const source = {
+    documentId: document.id,
+    documentName: document.name,
+    sheet: table.sheet,
+    range: table.range,
+    headerRow: table.headerRow,
+  }
+
+  const build = (
+    title: string,
+    columns: string[],
+    rows: Record<string, CellValue>[],
+    details?: Record<string, unknown>,
+    highlightColumn?: string
+  ): SpreadsheetTableResult => ({
+    type: 'table',
+    data: { title, columns, rows: rows.slice(0, limit), highlightColumn },
+    source,
+    totalRows: rows.length,
+    truncated: rows.length > limit,
+    details,
+  })
+
+  switch (input.action) {
+    case 'read':
+      return build(`${document.name} - ${table.sheet}`, table.headers, table.rows, {
+        sheets: workbook.SheetNames,
+      })
+
+    case 'analyze': {
+      const stats = analyzeColumns(table)
+      return build(
+        `Column analysis: ${document.name} - ${table.sheet}`,
+        ['column', 'type', 'nonEmpty', 'empty', 'unique', 'min', 'max', 'sum', 'mean', 'sample'],
+        stats.map(s => ({
+          column: s.column,
+          type: s.type,
+          nonEmpty: s.nonEmpty,
+          empty: s.empty,
+          unique: s.unique,
+          min: s.min ?? null,
+          max: s.max ?? null,
+          sum: s.sum ?? null,
+          mean: s.mean ?? null,
+          sample: s.sample ?? null,
+        })),
+        {
+          sheets: workbook.SheetNames,
+          detectedHeaders: table.headers,
+          rowCount: table.rows.length,
+        }
+      )
+    }
+
+    case 'transform': {
+      const transform = input.transform
+      if (!transform) {
+        throw new Error('transform parameters are required for the transform action')
+      }
+
+      // Filters apply before any grouping, pivoting or joining
+      const rows = transform.filters?.length ? filterRows(table, transform.filters) : table.rows
+
+      switch (transform.operation) {
+        case 'filter':
+          return build(`Filtered: ${table.sheet}`, table.headers, rows, { filters: transform.filters })
+
+        case 'group_by': {
+          const grouped = groupRows(table, rows, transform.groupBy || [], transform.aggregations || [])
+          return build(`Grouped by ${(transform.groupBy || []).join(', ')}: ${table.sheet}`, grouped.columns, grouped.rows, {
+            groupBy: transform.groupBy,
+            aggregations: transform.aggregations,
+          })
+        }
+
+        case 'pivot': {
+          if (!transform.pivot) {
+            throw new Error('pivot parameters (index, columns, values) are required')
+          }
+          const pivoted = pivotRows(table, rows, transform.pivot)
+          return build(
+            `Pivot of ${transform.pivot.values} by ${transform.pivot.index} × ${transform.pivot.columns}`,
+            pivoted.columns,
+            pivoted.rows,
+            { pivot: transform.pivot },
+            pivoted.columns[1]
+          )
+        }
+
+        case 'join': {
+          if (!transform.join) {
+            throw new Error('join parameters (sheet, leftKey, rightKey) are required')
+          }
+          const { join } = transform
+          const rightWorkbook = join.documentId && join.documentId !== document.id
+            ? (await loadSpreadsheetDocument(join.documentId)).workbook
+            : workbook
+          const rightTable = readSheet(rightWorkbook, join.sheet, join.range)
+          const joined = joinTables(table, rows, rightTable, join.leftKey, join.rightKey, join.type)
+          return build(`${table.sheet} ⋈ ${rightTable.sheet}`, joined.columns, joined.rows, { join })
+        }
+
+        default:
+          throw new Error(`Unknown transform operation: ${transform.operation}`)
+      }
+    }
+
+    default:
+      throw new Error(`Unknown spreadsheet action: ${input.action}`)
+  }
+}
@@ -0,0 +1,139 @@
+import { createClient } from '@/lib/supabase/server'
+import { loadSpreadsheetDocument, parseSpreadsheetBuffer, type CellValue } from './workbook'
+import {
+  WorkbookModel,
+  type CellChange,
+  type RecalculatedCell,
+  type SerializedWorkbookModel,
+  type WorkbookModelSummary,
+} from './formula-engine'
+
+/**
+ * What-If Analysis
+ *
+ * Loads an uploaded Excel model, applies input changes and returns the
+ * recalculated outputs as a canvas table. The model comes from the
+ * dependency graph stored at ingestion; workbooks without one (uploaded
+ * before graphs were stored, or too large to store) are parsed from the file.
+ */
+
+export interface WhatIfInput {
+  documentId: string
+  changes: CellChange[]
+  outputs?: string[]
+  title?: string
+}
+
+export interface WhatIfTableResult {
+  type: 'table'
+  data: {
+    title: string
+    columns: string[]
+    rows: Record<string, CellValue>[]
+    highlightColumn?: string
+  }
+  source: {
+    documentId: string
+    documentName: string
+  }
+  changes: RecalculatedCell[]
+  outputs: RecalculatedCell[]
+  affectedCount: number
+  warnings: string[]
+}
+
+const WHAT_IF_COLUMNS = ['Cell', 'Line Item', 'Before', 'After', 'Delta', 'Change %']
+
+function round(value: CellValue): CellValue {
+  return typeof value === 'number' ? Math.round(value * 10000) / 10000 : value
+}
+
+function toRow(cell: RecalculatedCell, isInput: boolean): Record<string, CellValue> {
+  return {
+    Cell: cell.cell,
+    'Line Item': isInput ? `Input: ${cell.label}` : cell.label,
+    Before: round(cell.before),
+    After: round(cell.after),
+    Delta: round(cell.delta),
+    'Change %': cell.deltaPercent === null ? null : round(cell.deltaPercent),
+  }
+}
+
+/**
+ * Parse an uploaded workbook at ingestion: the summary kept in
+ * finance_metadata.workbook_model and the graph for documents.workbook_graph.
+ * Null when the workbook has no formulas or can't be parsed.
+ */
+export function buildWorkbookModelRecords(
+  buffer: Buffer,
+  mimeType: string,
+  fileName: string
+): { summary: WorkbookModelSummary; graph: SerializedWorkbookModel | null } | null {
+  try {
+    const model = WorkbookModel.fromWorkbook(parseSpreadsheetBuffer(buffer, mimeType, fileName))
+    if (model.formulaCount === 0) return null
+    return { summary: model.summarize(), graph: model.serialize() }
+  } catch (error) {
+    console.error(`Failed to build workbook model for ${fileName}:`, error)
+    return null
+  }
+}
+
+async function loadWorkbookModel(documentId: string): Promise<{ document: { id: string; name: string }; model: WorkbookModel }> {
+  const supabase = await createClient()
+  const { data: doc } = await supabase
+    .from('documents')
+    .select('id, name, workbook_graph')
+    .eq('id', documentId)
+    .single()
+
+  if (doc?.workbook_graph) {
+    try {
+      const model = WorkbookModel.fromSerialized(doc.workbook_graph as unknown as SerializedWorkbookModel)
+      return { document: { id: doc.id, name: doc.name }, model }
+    } catch (error) {
+      console.error(`Stored workbook graph for ${documentId} is unusable, parsing the file:`, error)
+    }
+  }
+
+  const { document, workbook } = await loadSpreadsheetDocument(documentId)
+  return { document, model: WorkbookModel.fromWorkbook(workbook) }
+}
+
+/**
+ * Run a what-if scenario against an uploaded workbook
+ */
+export async function runWhatIfAnalysis(input: WhatIfInput): Promise<WhatIfTableResult> {
+  if (!input.documentId) {
+    throw new Error('documentId is required')
+  }
+  if (!input.changes || input.changes.length === 0) {
+    throw new Error('At least one cell change is required')
+  }
+
+  const { document, model } = await loadWorkbookModel(input.documentId)
+
+  if (model.formulaCount === 0) {
+    throw new Error(`"${document.name}" has no formulas to recalculate`)
+  }
+
+  const result = model.recalculate(input.changes, input.outputs)
+
+  return {
+    type: 'table',
+    data: {
+      title: input.title || `What-if: ${document.name}`,
+      columns: WHAT_IF_COLUMNS,
+      rows: [
+        ...result.changes.map(cell => toRow(cell, true)),
+        ...result.outputs.map(cell => toRow(cell, false)),
+      ],
+      highlightColumn: 'Delta',
+    },
+    source: {
+      documentId: document.id,
+      documentName: document.name,
+    },
+    ...result,
+  }
+}
@@ -0,0 +1,227 @@
+import * as XLSX from 'xlsx'
+import { parse as parseCsv } from 'csv-parse/sync'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+
+/**
+ * Spreadsheet Loading
+ *
+ * Loads uploaded Excel/CSV documents from the `documents` storage bucket
+ * and turns sheets into header-keyed rows for the spreadsheet_operation tool.
+ */
+
+export type CellValue = string | number | boolean | null
+
+export interface SpreadsheetDocument {
+  id: string
+  name: string
+  mimeType: string | null
+  filePath: string
+}
+
+export interface LoadedSpreadsheet {
+  document: SpreadsheetDocument
+  workbook: XLSX.WorkBook
+}
+
+export interface SheetTable {
+  sheet: string
+  range: string
+  headers: string[]
+  headerRow: number // 1-based worksheet row number
+  rows: Record<string, CellValue>[]
+}
+
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.xlsm', '.csv']
+
+// How many leading rows to scan when looking for the header row
+const HEADER_SCAN_ROWS = 10
+
+function isCsv(mimeType: string | null, fileName: string): boolean {
+  return mimeType === 'text/csv' || fileName.toLowerCase().endsWith('.csv')
+}
+
+/**
+ * Parse a spreadsheet buffer into a workbook.
+ * CSV goes through csv-parse so quoting and numeric casting match the rest of the app.
+ */
+export function parseSpreadsheetBuffer(buffer: Buffer, mimeType: string | null, fileName: string): XLSX.WorkBook {
+  if (isCsv(mimeType, fileName)) {
+    const records = parseCsv(buffer, {
+      cast: true,
+      relax_column_count: true,
+      skip_empty_lines: true,
+      bom: true,
+    }) as CellValue[][]
+
+    const workbook = XLSX.utils.book_new()
+    const sheetName = fileName.replace(/\.csv$/i, '').substring(0, 31) || 'Sheet1'
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(records), sheetName)
+    return workbook
+  }
+
+  return XLSX.read(buffer, { type: 'buffer', cellDates: true })
+}
+
+/**
+ * Load a spreadsheet document the current user can access.
+ * The document row is read through the user's client so RLS applies;
+ * the file itself is downloaded with the service client, matching the upload path.
+ */
+export async function loadSpreadsheetDocument(documentId: string): Promise<LoadedSpreadsheet> {
+  const supabase = await createClient()
+
+  const { data: doc, error } = await supabase
+    .from('documents')
+    .select('id, name, mime_type, file_path, document_type')
+    .eq('id', documentId)
+    .single()
+
+  if (error || !doc) {
+    throw new Error(`Document not found: ${documentId}`)
+  }
+
+  const lowerName = doc.name.toLowerCase()
+  const isSpreadsheet =
+    doc.document_type === 'excel' ||
+    doc.document_type === 'csv' ||
+    SPREADSHEET_EXTENSIONS.some(ext => lowerName.endsWith(ext))
+
+  if (!isSpreadsheet) {
+    throw new Error(`Document "${doc.name}" is not a spreadsheet`)
+  }
+
+  const serviceSupabase = await createServiceClient()
+  const { data: file, error: downloadError } = await serviceSupabase.storage
+    .from('documents')
+    .download(doc.file_path)
+
+  if (downloadError || !file) {
+    throw new Error(`Failed to download "${doc.name}": ${downloadError?.message || 'file missing'}`)
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer())
+
+  return {
+    document: {
+      id: doc.id,
+      name: doc.name,
+      mimeType: doc.mime_type,
+      filePath: doc.file_path,
+    },
+    workbook: parseSpreadsheetBuffer(buffer, doc.mime_type, doc.name),
+  }
+}
+
+/**
+ * Resolve a sheet by name (case-insensitive), defaulting to the first sheet
+ */
+export function resolveSheetName(workbook: XLSX.WorkBook, sheet?: string): string {
+  if (!sheet) {
+    return workbook.SheetNames[0]
+  }
+
+  const match = workbook.SheetNames.find(name => name.toLowerCase() === sheet.toLowerCase())
+  if (!match) {
+    throw new Error(`Sheet "${sheet}" not found. Available sheets: ${workbook.SheetNames.join(', ')}`)
+  }
+  return match
+}
+
+function normalizeCell(value: unknown): CellValue {
+  if (value === undefined || value === null || value === '') return null
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  if (typeof value === 'string') return value.trim() === '' ? null : value.trim()
+  if (typeof value === 'number' || typeof value === 'boolean') return value
+  return String(value)
+}
+
+/**
+ * Pick the header row: the first row in the scan window whose non-empty cells
+ * are all text and that is at least half as wide as the widest row.
+ */
+export function detectHeaderRow(matrix: CellValue[][]): number {
+  const scan = matrix.slice(0, HEADER_SCAN_ROWS)
+  const widths = scan.map(row => row.filter(cell => cell !== null).length)
+  const maxWidth = Math.max(0, ...widths)
+  if (maxWidth === 0) return 0
+
+  for (let i = 0; i < scan.length; i++) {
+    const filled = scan[i].filter(cell => cell !== null)
+    if (filled.length >= Math.ceil(maxWidth / 2) && filled.every(cell => typeof cell === 'string')) {
+      return i
+    }
+  }
+
+  return 0
+}
+
+function buildHeaders(row: CellValue[], width: number): string[] {
+  const seen = new Map<string, number>()
+  const headers: string[] = []
+
+  for (let i = 0; i < width; i++) {
+    const raw = row[i]
+    let header = raw === null || raw === undefined ? `Column ${i + 1}` : String(raw)
+
+    // De-duplicate repeated header names ("Amount", "Amount 2", ...)
+    const count = seen.get(header) || 0
+    seen.set(header, count + 1)
+    if (count > 0) {
+      header = `${header} ${count + 1}`
+    }
+    headers.push(header)
+  }
+
+  return headers
+}
+
+/**
+ * Read a sheet (optionally limited to an A1 range) into header-keyed rows
+ */
+export function readSheet(workbook: XLSX.WorkBook, sheet?: string, range?: string): SheetTable {
+  const sheetName = resolveSheetName(workbook, sheet)
+  const worksheet = workbook.Sheets[sheetName]
+  const sheetRange = range || worksheet['!ref'] || 'A1'
+
+  let decoded: XLSX.Range
+  try {
+    decoded = XLSX.utils.decode_range(sheetRange)
+  } catch {
+    throw new Error(`Invalid range "${range}". Use A1 notation, e.g. A1:D10`)
+  }
+
+  const matrix = (XLSX.utils.sheet_to_json(worksheet, {
+    header: 1,
+    range: decoded,
+    defval: null,
+    raw: true,
+    blankrows: true,
+  }) as unknown[][]).map(row => row.map(normalizeCell))
+
+  if (matrix.length === 0) {
+    return { sheet: sheetName, range: XLSX.utils.encode_range(decoded), headers: [], headerRow: decoded.s.r + 1, rows: [] }
+  }
+
+  const headerRowIndex = detectHeaderRow(matrix)
+  const width = Math.max(...matrix.map(row => row.length))
+  const headers = buildHeaders(matrix[headerRowIndex], width)
+
+  const rows = matrix
+    .slice(headerRowIndex + 1)
+    .filter(row => row.some(cell => cell !== null))
+    .map(row => {
+      const record: Record<string, CellValue> = {}
+      headers.forEach((header, i) => {
+        record[header] = row[i] ?? null
+      })
+      return record
+    })
+
+  return {
+    sheet: sheetName,
+    range: XLSX.utils.encode_range(decoded),
+    headers,
+    headerRow: decoded.s.r + headerRowIndex + 1,
+    rows,
+  }
+}
@@ -0,0 +1,66 @@
+import path from 'path'
+import { ejectCassette as ejectLlmCassette, insertCassette, type CassetteMode } from '@/lib/llm'
+
+/**
+ * Cassettes for End-to-End Tests
+ *
+ * End-to-end tests replay the provider traffic recorded in
+ * src/test/cassettes/<name>.json, so they run with no network and no keys.
+ * After changing a prompt or a flow, re-record the affected cassette with
+ * real keys:
+ *
+ *   LLM_CASSETTE_MODE=record ANTHROPIC_API_KEY=... OPENAI_API_KEY=... GEMINI_API_KEY=... \
+ *     npx vitest run src/lib/agents/finance-agent.test.ts
+ *
+ * Supabase is never recorded: tests use the fake client instead. While a
+ * cassette is replayed, any request it doesn't serve fails the test rather
+ * than reaching the network.
+ */
+
+const CASSETTE_DIR = path.join(__dirname, 'cassettes')
+
+const PROVIDER_KEYS = ['ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'GEMINI_API_KEY']
+
+// A base URL override would send requests to a host the cassette doesn't intercept
+const PROVIDER_BASE_URLS = ['ANTHROPIC_BASE_URL', 'OPENAI_BASE_URL']
+
+let networkFetch: typeof fetch | null = null
+
+const offlineFetch: typeof fetch = async input => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+  throw new Error(`Network request to ${url} while replaying a cassette`)
+}
+
+function cassetteMode(): CassetteMode {
+  return process.env.LLM_CASSETTE_MODE === 'record' ? 'record' : 'replay'
+}
+
+/**
+ * Serve provider calls from the named cassette (or record it) until the test ends
+ */
+export function playCassette(name: string): void {
+  const mode = cassetteMode()
+  if (mode === 'replay') {
+    // The SDK clients still need a key to be constructed; real keys must not be used
+    for (const key of PROVIDER_KEYS) {
+      process.env[key] = 'replay'
+    }
+    for (const name of PROVIDER_BASE_URLS) {
+      delete process.env[name]
+    }
+    networkFetch = globalThis.fetch
+    globalThis.fetch = offlineFetch
+  }
+  insertCassette(path.join(CASSETTE_DIR, `${name}.json`), mode)
+}
+
+/**
+ * Stop the cassette and restore network access
+ */
+export async function ejectCassette(): Promise<void> {
+  await ejectLlmCassette()
+  if (networkFetch) {
+    globalThis.fetch = networkFetch
+    networkFetch = null
+  }
+}
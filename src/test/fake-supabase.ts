@@ -0,0 +1,328 @@
+import { randomUUID } from 'crypto'
+
+/**
+ * Fake Supabase Client
+ *
+ * An in-memory stand-in for the supabase-js client, so end-to-end tests can
+ * run agent, knowledge base and upload code with no database. Tests mock
+ * @/lib/supabase/server with supabaseServerMock and seed fakeSupabase in a
+ * beforeEach:
+ *
+ *   vi.mock('@/lib/supabase/server', async () => (await import('@/test/fake-supabase')).supabaseServerMock)
+ *
+ * - Tables are arrays of rows. Inserts fill in id, created_at, updated_at
+ *   and the seeded column defaults when the row doesn't set them.
+ * - Filters: eq, neq, in, is, gt, gte, lt, lte, plus order, limit and range.
+ * - select() returns whole rows: column lists aren't projected, and an
+ *   embedded relation such as organizations(settings) is read from a nested
+ *   property of the same name on the seeded row.
+ * - rpc() calls the handlers the test registers; an unknown function
+ *   returns an error, as PostgREST would.
+ * - Storage keeps uploaded files in memory; auth.getUser() returns the
+ *   seeded user.
+ */
+
+export type FakeRow = Record<string, unknown>
+
+export interface FakeError {
+  message: string
+  code?: string
+}
+
+export interface FakeResult<T = unknown> {
+  data: T
+  error: FakeError | null
+  count?: number | null
+}
+
+export type FakeRpcHandler = (args: Record<string, unknown>, db: FakeSupabase) => unknown
+
+export interface FakeSupabaseSeed {
+  tables?: Record<string, FakeRow[]>
+  // Column defaults per table, for the columns the migrations default
+  defaults?: Record<string, FakeRow>
+  rpc?: Record<string, FakeRpcHandler>
+  user?: { id: string; email?: string } | null
+}
+
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete'
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return 1
+  if (b === null || b === undefined) return -1
+  return (a as number | string) < (b as number | string) ? -1 : 1
+}
+
+/**
+ * A query on one table; resolves like a supabase-js builder when awaited
+ */
+class FakeQuery implements PromiseLike<FakeResult> {
+  private operation: Operation = 'select'
+  private payload: FakeRow[] = []
+  private patch: FakeRow = {}
+  private conflictColumns = ['id']
+  private ignoreDuplicates = false
+  private returning = false
+  private countRows = false
+  private headOnly = false
+  private filters: ((row: FakeRow) => boolean)[] = []
+  private sorts: { column: string; ascending: boolean }[] = []
+  private window: { from: number; to?: number } = { from: 0 }
+  private expect: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(private readonly db: FakeSupabase, private readonly table: string) {}
+
+  select(_columns?: string, options: { count?: string; head?: boolean } = {}) {
+    if (this.operation !== 'select') this.returning = true
+    this.countRows = !!options.count
+    this.headOnly = !!options.head
+    return this
+  }
+
+  insert(rows: FakeRow | FakeRow[]) {
+    this.operation = 'insert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  upsert(rows: FakeRow | FakeRow[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.operation = 'upsert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    if (options.onConflict) this.conflictColumns = options.onConflict.split(',').map(c => c.trim())
+    this.ignoreDuplicates = !!options.ignoreDuplicates
+    return this
+  }
+
+  update(patch: FakeRow) {
+    this.operation = 'update'
+    this.patch = patch
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  private where(test: (row: FakeRow) => boolean) {
+    this.filters.push(test)
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where(row => row[column] === value)
+  }
+
+  neq(column: string, value: unknown) {
+    return this.where(row => row[column] !== value)
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where(row => values.includes(row[column]))
+  }
+
+  is(column: string, value: null | boolean) {
+    return this.where(row => (row[column] ?? null) === value)
+  }
+
+  gt(column: string, value: unknown) {
+    return this.where(row => compare(row[column], value) > 0)
+  }
+
+  gte(column: string, value: unknown) {
+    return this.where(row => compare(row[column], value) >= 0)
+  }
+
+  lt(column: string, value: unknown) {
+    return this.where(row => compare(row[column], value) < 0)
+  }
+
+  lte(column: string, value: unknown) {
+    return this.where(row => compare(row[column], value) <= 0)
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.sorts.push({ column, ascending: options.ascending ?? true })
+    return this
+  }
+
+  limit(count: number) {
+    this.window = { from: this.window.from, to: this.window.from + count - 1 }
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to }
+    return this
+  }
+
+  single() {
+    this.expect = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.expect = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = FakeResult, TResult2 = never>(
+    onfulfilled?: ((value: FakeResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private matches(row: FakeRow): boolean {
+    return this.filters.every(test => test(row))
+  }
+
+  private write(): FakeRow[] {
+    const rows = this.db.rows(this.table)
+
+    switch (this.operation) {
+      case 'insert':
+        return this.payload.map(row => {
+          const inserted = this.db.newRow(row, this.table)
+          rows.push(inserted)
+          return inserted
+        })
+
+      case 'upsert':
+        return this.payload.map(row => {
+          const existing = rows.find(r => this.conflictColumns.every(column => r[column] === row[column]))
+          if (existing) return this.ignoreDuplicates ? existing : Object.assign(existing, structuredClone(row))
+          const inserted = this.db.newRow(row, this.table)
+          rows.push(inserted)
+          return inserted
+        })
+
+      case 'update':
+        return rows.filter(row => this.matches(row)).map(row => Object.assign(row, structuredClone(this.patch)))
+
+      case 'delete': {
+        const deleted = rows.filter(row => this.matches(row))
+        this.db.tables[this.table] = rows.filter(row => !deleted.includes(row))
+        return deleted
+      }
+
+      case 'select':
+        return rows.filter(row => this.matches(row))
+    }
+  }
+
+  private execute(): FakeResult {
+    let rows = this.write()
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null }
+    }
+
+    for (const { column, ascending } of [...this.sorts].reverse()) {
+      rows = [...rows].sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]))
+    }
+    const count = rows.length
+    rows = rows.slice(this.window.from, this.window.to === undefined ? undefined : this.window.to + 1)
+    // Callers get copies, as they would over the wire
+    const data = structuredClone(rows)
+
+    if (this.expect === 'many') {
+      return { data: this.headOnly ? null : data, error: null, count: this.countRows ? count : null }
+    }
+    if (data.length > 1 || (this.expect === 'single' && data.length === 0)) {
+      return {
+        data: null,
+        error: { code: 'PGRST116', message: `JSON object requested, ${data.length} rows returned` },
+      }
+    }
+    return { data: data[0] ?? null, error: null }
+  }
+}
+
+export class FakeSupabase {
+  tables: Record<string, FakeRow[]> = {}
+  files = new Map<string, Buffer>()
+  user: { id: string; email?: string } | null = null
+  private defaults: Record<string, FakeRow> = {}
+  private rpcHandlers: Record<string, FakeRpcHandler> = {}
+
+  readonly client = {
+    from: (table: string) => new FakeQuery(this, table),
+    rpc: async (fn: string, args: Record<string, unknown> = {}): Promise<FakeResult> => {
+      const handler = this.rpcHandlers[fn]
+      if (!handler) {
+        return { data: null, error: { code: 'PGRST202', message: `Could not find the function public.${fn}` } }
+      }
+      try {
+        return { data: structuredClone(await handler(args, this)) ?? null, error: null }
+      } catch (error) {
+        return { data: null, error: { message: error instanceof Error ? error.message : String(error) } }
+      }
+    },
+    storage: {
+      from: (bucket: string) => ({
+        upload: async (path: string, body: Buffer | ArrayBuffer | Blob) => {
+          const key = `${bucket}/${path}`
+          if (this.files.has(key)) {
+            return { data: null, error: { message: 'The resource already exists' } }
+          }
+          const bytes = body instanceof Blob ? Buffer.from(await body.arrayBuffer()) : Buffer.from(body as ArrayBuffer)
+          this.files.set(key, bytes)
+          return { data: { path }, error: null }
+        },
+        download: async (path: string) => {
+          const bytes = this.files.get(`${bucket}/${path}`)
+          return bytes
+            ? { data: new Blob([new Uint8Array(bytes)]), error: null }
+            : { data: null, error: { message: 'Object not found' } }
+        },
+        remove: async (paths: string[]) => {
+          paths.forEach(path => this.files.delete(`${bucket}/${path}`))
+          return { data: paths.map(name => ({ name })), error: null }
+        },
+      }),
+    },
+    auth: {
+      getUser: async () => (this.user
+        ? { data: { user: this.user }, error: null }
+        : { data: { user: null }, error: { message: 'Auth session missing!' } }),
+    },
+  }
+
+  /**
+   * Replace all data with the seed
+   */
+  reset(seed: FakeSupabaseSeed = {}) {
+    this.tables = structuredClone(seed.tables || {})
+    this.defaults = structuredClone(seed.defaults || {})
+    this.rpcHandlers = { ...seed.rpc }
+    this.user = seed.user ?? null
+    this.files.clear()
+  }
+
+  /**
+   * The live rows of a table, for seeding and assertions
+   */
+  rows(table: string): FakeRow[] {
+    this.tables[table] ??= []
+    return this.tables[table]
+  }
+
+  /**
+   * A row as the table would store it, with generated and default columns
+   */
+  newRow(row: FakeRow, table?: string): FakeRow {
+    const now = new Date().toISOString()
+    const defaults = table ? this.defaults[table] : undefined
+    return { id: randomUUID(), created_at: now, updated_at: now, ...structuredClone(defaults), ...structuredClone(row) }
+  }
+}
+
+export const fakeSupabase = new FakeSupabase()
+
+// Module mock for @/lib/supabase/server; user and service clients share the fake
+export const supabaseServerMock = {
+  createClient: async () => fakeSupabase.client,
+  createServiceClient: async () => fakeSupabase.client,
+}
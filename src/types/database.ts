@@ -72,6 +72,7 @@ export type Database = {
         Row: {
           chunk_index: number
           content: string
+          content_tsv: unknown
           created_at: string | null
           document_id: string | null
           embedding: string | null
@@ -81,6 +82,7 @@ export type Database = {
         Insert: {
           chunk_index: number
           content: string
+          content_tsv?: never
           created_at?: string | null
           document_id?: string | null
           embedding?: string | null
@@ -90,6 +92,7 @@ export type Database = {
         Update: {
           chunk_index?: number
           content?: string
+          content_tsv?: never
           created_at?: string | null
           document_id?: string | null
           embedding?: string | null
@@ -116,6 +119,7 @@ export type Database = {
           file_size: number | null
           finance_metadata: Json | null
           id: string
+          injection_scan: Json | null
           is_enabled: boolean | null
           is_latest: boolean | null
           mime_type: string | null
@@ -129,6 +133,7 @@ export type Database = {
           user_id: string | null
           version: number | null
           visibility: string | null
+          workbook_graph: Json | null
         }
         Insert: {
           business_unit_id?: string | null
@@ -139,6 +144,7 @@ export type Database = {
           file_size?: number | null
           finance_metadata?: Json | null
           id?: string
+          injection_scan?: Json | null
           is_enabled?: boolean | null
           is_latest?: boolean | null
           mime_type?: string | null
@@ -152,6 +158,7 @@ export type Database = {
           user_id?: string | null
           version?: number | null
           visibility?: string | null
+          workbook_graph?: Json | null
         }
         Update: {
           business_unit_id?: string | null
@@ -162,6 +169,7 @@ export type Database = {
           file_size?: number | null
           finance_metadata?: Json | null
           id?: string
+          injection_scan?: Json | null
           is_enabled?: boolean | null
           is_latest?: boolean | null
           mime_type?: string | null
@@ -175,6 +183,7 @@ export type Database = {
           user_id?: string | null
           version?: number | null
           visibility?: string | null
+          workbook_graph?: Json | null
         }
         Relationships: [
           {
@@ -200,13 +209,144 @@ export type Database = {
           },
         ]
       }
+      exports: {
+        Row: {
+          created_at: string | null
+          file_name: string
+          file_size: number | null
+          format: string
+          id: string
+          message_id: string | null
+          mime_type: string
+          storage_path: string
+          thread_id: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          file_name: string
+          file_size?: number | null
+          format: string
+          id?: string
+          message_id?: string | null
+          mime_type: string
+          storage_path: string
+          thread_id?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          file_name?: string
+          file_size?: number | null
+          format?: string
+          id?: string
+          message_id?: string | null
+          mime_type?: string
+          storage_path?: string
+          thread_id?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exports_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exports_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "threads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exports_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      knowledge_bases: {
+        Row: {
+          business_rules: Json | null
+          created_at: string | null
+          document_count: number | null
+          financial_entities: Json | null
+          id: string
+          last_synthesized_at: string | null
+          metrics: Json | null
+          relationships: Json | null
+          source_documents: Json | null
+          synthesis_error: string | null
+          synthesis_status: string | null
+          synthesis_summary: string | null
+          synthesis_text: string | null
+          updated_at: string | null
+          user_id: string | null
+          version: number | null
+        }
+        Insert: {
+          business_rules?: Json | null
+          created_at?: string | null
+          document_count?: number | null
+          financial_entities?: Json | null
+          id?: string
+          last_synthesized_at?: string | null
+          metrics?: Json | null
+          relationships?: Json | null
+          source_documents?: Json | null
+          synthesis_error?: string | null
+          synthesis_status?: string | null
+          synthesis_summary?: string | null
+          synthesis_text?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+          version?: number | null
+        }
+        Update: {
+          business_rules?: Json | null
+          created_at?: string | null
+          document_count?: number | null
+          financial_entities?: Json | null
+          id?: string
+          last_synthesized_at?: string | null
+          metrics?: Json | null
+          relationships?: Json | null
+          source_documents?: Json | null
+          synthesis_error?: string | null
+          synthesis_status?: string | null
+          synthesis_summary?: string | null
+          synthesis_text?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+          version?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "knowledge_bases_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           canvas_content: Json | null
           citations: Json | null
+          claim_verifications: Json | null
           content: string
           created_at: string | null
           id: string
+          prompt_versions: Json | null
           role: Database["public"]["Enums"]["message_role"]
           thread_id: string | null
           token_usage: Json | null
@@ -215,9 +355,11 @@ export type Database = {
         Insert: {
           canvas_content?: Json | null
           citations?: Json | null
+          claim_verifications?: Json | null
           content: string
           created_at?: string | null
           id?: string
+          prompt_versions?: Json | null
           role: Database["public"]["Enums"]["message_role"]
           thread_id?: string | null
           token_usage?: Json | null
@@ -226,9 +368,11 @@ export type Database = {
         Update: {
           canvas_content?: Json | null
           citations?: Json | null
+          claim_verifications?: Json | null
           content?: string
           created_at?: string | null
           id?: string
+          prompt_versions?: Json | null
           role?: Database["public"]["Enums"]["message_role"]
           thread_id?: string | null
           token_usage?: Json | null
@@ -315,6 +459,7 @@ export type Database = {
       }
       profiles: {
         Row: {
+          agent_budget: Json | null
           avatar_url: string | null
           created_at: string | null
           email: string
@@ -325,6 +470,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          agent_budget?: Json | null
           avatar_url?: string | null
           created_at?: string | null
           email: string
@@ -335,6 +481,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          agent_budget?: Json | null
           avatar_url?: string | null
           created_at?: string | null
           email?: string
@@ -346,6 +493,89 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_templates: {
+        Row: {
+          content: string
+          created_at: string | null
+          created_by: string | null
+          id: string
+          is_active: boolean
+          key: string
+          note: string | null
+          organization_id: string
+          variables: Json
+          version: number
+        }
+        Insert: {
+          content: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          key: string
+          note?: string | null
+          organization_id: string
+          variables?: Json
+          version: number
+        }
+        Update: {
+          content?: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          key?: string
+          note?: string | null
+          organization_id?: string
+          variables?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prompt_templates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      redaction_tokens: {
+        Row: {
+          created_at: string | null
+          thread_id: string
+          token: string
+          value: string
+        }
+        Insert: {
+          created_at?: string | null
+          thread_id: string
+          token: string
+          value: string
+        }
+        Update: {
+          created_at?: string | null
+          thread_id?: string
+          token?: string
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "redaction_tokens_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       threads: {
         Row: {
           created_at: string | null
@@ -495,32 +725,109 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      activate_prompt_template: {
+        Args: { p_template_id: string }
+        Returns: undefined
+      }
+      admit_api_request: {
+        Args: {
+          p_day_start: string
+          p_endpoint: string
+          p_max_requests: number
+          p_max_upload_bytes: number | null
+          p_organization_id: string | null
+          p_upload_bytes: number | null
+          p_user_id: string
+          p_window_start: string
+        }
+        Returns: string | null
+      }
       get_accessible_document_ids: {
         Args: { p_user_id: string }
         Returns: string[]
       }
+      get_or_create_knowledge_base: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
+      mark_knowledge_base_stale: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
       match_document_chunks: {
         Args: {
+          filter_business_unit?: string
           filter_document_ids?: string[]
+          filter_document_type?: string
+          filter_period?: string
+          filter_tags?: string[]
+          filter_uploaded_after?: string
+          filter_uploaded_before?: string
+          filter_user_id?: string
+          include_disabled?: boolean
           match_count?: number
           match_threshold?: number
           query_embedding: string
+          query_text?: string
+          rrf_k?: number
+          semantic_weight?: number
         }
         Returns: {
           content: string
           document_id: string
           id: string
+          keyword_rank: number
           metadata: Json
+          score: number
           similarity: number
         }[]
       }
+      publish_prompt_template: {
+        Args: {
+          p_content: string
+          p_key: string
+          p_note?: string
+          p_organization_id: string
+          p_variables?: Json
+        }
+        Returns: string
+      }
+      usage_cost_breakdown: {
+        Args: {
+          p_group_by: string
+          p_organization_id: string
+          p_since: string
+        }
+        Returns: {
+          cache_creation_tokens: number
+          cache_read_tokens: number
+          calls: number
+          cost_usd: number
+          input_tokens: number
+          key: string
+          output_tokens: number
+        }[]
+      }
+      usage_quota_consumption: {
+        Args: {
+          p_day_start: string
+          p_user_id: string
+          p_window_start: string
+        }
+        Returns: {
+          images: number
+          requests: number
+          tokens: number
+          upload_bytes: number
+        }[]
+      }
       user_can_access_business_unit: {
         Args: { p_business_unit_id: string; p_user_id: string }
         Returns: boolean
       }
     }
     Enums: {
-      document_status: "pending" | "processing" | "completed" | "failed"
+      document_status: "pending" | "processing" | "completed" | "failed" | "quarantined"
       document_type: "pdf" | "excel" | "csv" | "image" | "other"
       message_role: "user" | "assistant" | "system"
       user_role: "viewer" | "analyst" | "bu_manager" | "group_cfo" | "admin"
@@ -656,6 +963,7 @@ export type Document = Database['public']['Tables']['documents']['Row']
 export type DocumentChunk = Database['public']['Tables']['document_chunks']['Row']
 export type BusinessUnit = Database['public']['Tables']['business_units']['Row']
 export type Organization = Database['public']['Tables']['organizations']['Row']
+export type PromptTemplateRow = Database['public']['Tables']['prompt_templates']['Row']
 export type UsageLog = Database['public']['Tables']['usage_logs']['Row']
 export type UserBusinessUnit = Database['public']['Tables']['user_business_units']['Row']
 
@@ -668,7 +976,7 @@ export type DocumentType = Database['public']['Enums']['document_type']
 export const Constants = {
   public: {
     Enums: {
-      document_status: ["pending", "processing", "completed", "failed"],
+      document_status: ["pending", "processing", "completed", "failed", "quarantined"],
       document_type: ["pdf", "excel", "csv", "image", "other"],
       message_role: ["user", "assistant", "system"],
       user_role: ["viewer", "analyst", "bu_manager", "group_cfo", "admin"],
@@ -0,0 +1,28 @@
+declare module 'hot-formula-parser' {
+  export interface CellCoord {
+    label: string
+    row: { index: number; label: string; isAbsolute: boolean }
+    column: { index: number; label: string; isAbsolute: boolean }
+  }
+
+  export interface ParseResult {
+    error: string | null
+    result: unknown
+  }
+
+  export class Parser {
+    parse(expression: string): ParseResult
+    setVariable(name: string, value: unknown): this
+    getVariable(name: string): unknown
+    setFunction(name: string, fn: (params: unknown[]) => unknown): this
+    on(event: 'callCellValue', handler: (cellCoord: CellCoord, done: (value: unknown) => void) => void): this
+    on(
+      event: 'callRangeValue',
+      handler: (startCellCoord: CellCoord, endCellCoord: CellCoord, done: (value: unknown[][]) => void) => void
+    ): this
+    on(event: 'callVariable', handler: (name: string, done: (value: unknown) => void) => void): this
+    on(event: 'callFunction', handler: (name: string, params: unknown[], done: (value: unknown) => void) => void): this
+  }
+
+  export const SUPPORTED_FORMULAS: string[]
+}
@@ -0,0 +1,46 @@
+-- ============================================
+-- Generated Exports
+-- Tracks Excel/PowerPoint files produced by the export_file tool and
+-- stored in the private "exports" storage bucket
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS exports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    thread_id UUID REFERENCES threads(id) ON DELETE SET NULL,
+    message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+
+    format TEXT NOT NULL CHECK (format IN ('excel', 'powerpoint')),
+    title TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    storage_path TEXT NOT NULL UNIQUE,
+    mime_type TEXT NOT NULL,
+    file_size INTEGER,
+
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exports_user_id ON exports(user_id);
+CREATE INDEX IF NOT EXISTS idx_exports_thread_id ON exports(thread_id);
+CREATE INDEX IF NOT EXISTS idx_exports_message_id ON exports(message_id);
+
+-- ============================================
+-- Row Level Security
+-- ============================================
+ALTER TABLE exports ENABLE ROW LEVEL SECURITY;
+
+-- Users can only view their own exports
+CREATE POLICY "Users can view own exports" ON exports
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can link their own exports to messages
+CREATE POLICY "Users can update own exports" ON exports
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can delete their own exports
+CREATE POLICY "Users can delete own exports" ON exports
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Service role can do anything (files are written by the agent)
+CREATE POLICY "Service role full access" ON exports
+    FOR ALL USING (auth.role() = 'service_role');
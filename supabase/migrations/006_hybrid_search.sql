@@ -0,0 +1,110 @@
+-- ============================================
+-- Hybrid Keyword + Vector Retrieval
+-- Adds full-text search over document chunks and extends
+-- match_document_chunks to fuse keyword and vector ranks with reciprocal
+-- rank fusion (RRF)
+-- ============================================
+
+-- Full-text vector maintained by Postgres from the chunk content
+ALTER TABLE document_chunks
+    ADD COLUMN IF NOT EXISTS content_tsv tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_content_tsv
+    ON document_chunks USING GIN(content_tsv);
+
+-- ============================================
+-- Hybrid match_document_chunks
+-- The existing parameters keep their names, order and defaults; query_text,
+-- semantic_weight and rrf_k are new and optional. Each retriever ranks its
+-- own candidates and the fused score is
+--   semantic_weight / (rrf_k + semantic_rank) + (1 - semantic_weight) / (rrf_k + keyword_rank)
+-- so exact terms (account codes, invoice numbers, line items) surface even
+-- when their embedding similarity falls below match_threshold. Without
+-- query_text only the vector ranks count and results come back in
+-- similarity order, as before. The return type gains keyword_rank and
+-- score, so the previous signature is dropped first.
+-- ============================================
+DROP FUNCTION IF EXISTS match_document_chunks(vector, FLOAT, INT, UUID[], UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+    query_embedding vector(1536),
+    match_threshold FLOAT DEFAULT 0.7,
+    match_count INT DEFAULT 10,
+    filter_document_ids UUID[] DEFAULT NULL,
+    filter_user_id UUID DEFAULT NULL,
+    include_disabled BOOLEAN DEFAULT FALSE,
+    query_text TEXT DEFAULT NULL,
+    semantic_weight FLOAT DEFAULT 0.5,
+    rrf_k INT DEFAULT 60
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    content TEXT,
+    metadata JSONB,
+    similarity FLOAT,
+    keyword_rank FLOAT,
+    score FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    WITH eligible AS (
+        SELECT dc.id, dc.embedding, dc.content_tsv
+        FROM document_chunks dc
+        JOIN documents d ON dc.document_id = d.id
+        WHERE
+            -- Filter by document IDs if provided
+            (filter_document_ids IS NULL OR dc.document_id = ANY(filter_document_ids))
+            -- Filter by user if provided (for user isolation)
+            AND (filter_user_id IS NULL OR d.user_id = filter_user_id OR d.visibility != 'private')
+            -- Only include enabled documents unless explicitly requested
+            AND (include_disabled = TRUE OR d.is_enabled = TRUE)
+            -- Only include latest versions
+            AND d.is_latest = TRUE
+    ),
+    semantic AS (
+        SELECT
+            e.id,
+            ROW_NUMBER() OVER (ORDER BY e.embedding <=> query_embedding) AS rank_ix
+        FROM eligible e
+        WHERE 1 - (e.embedding <=> query_embedding) > match_threshold
+        ORDER BY e.embedding <=> query_embedding
+        LIMIT match_count * 4
+    ),
+    keyword AS (
+        SELECT
+            e.id,
+            ts_rank_cd(e.content_tsv, q.query) AS kw_rank,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(e.content_tsv, q.query) DESC) AS rank_ix
+        FROM eligible e, websearch_to_tsquery('english', coalesce(query_text, '')) AS q(query)
+        WHERE query_text IS NOT NULL AND e.content_tsv @@ q.query
+        ORDER BY kw_rank DESC
+        LIMIT match_count * 4
+    ),
+    fused AS (
+        SELECT
+            COALESCE(s.id, k.id) AS id,
+            COALESCE(k.kw_rank, 0) AS kw_rank,
+            COALESCE(semantic_weight / (rrf_k + s.rank_ix), 0)
+                + COALESCE((1 - semantic_weight) / (rrf_k + k.rank_ix), 0) AS fused_score
+        FROM semantic s
+        FULL OUTER JOIN keyword k ON s.id = k.id
+    )
+    SELECT
+        dc.id,
+        dc.document_id,
+        dc.content,
+        dc.metadata,
+        (1 - (dc.embedding <=> query_embedding))::FLOAT AS similarity,
+        f.kw_rank::FLOAT AS keyword_rank,
+        f.fused_score::FLOAT AS score
+    FROM fused f
+    JOIN document_chunks dc ON dc.id = f.id
+    ORDER BY f.fused_score DESC, dc.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,146 @@
+-- ============================================
+-- Search Filters
+-- Extends match_document_chunks with document type, period, tags, business
+-- unit and upload date filters. Existing parameters keep their names, order
+-- and defaults; the previous signature is dropped first so calls don't
+-- resolve to ambiguous overloads.
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_documents_document_type ON documents(document_type);
+CREATE INDEX IF NOT EXISTS idx_documents_business_unit_id ON documents(business_unit_id);
+CREATE INDEX IF NOT EXISTS idx_documents_created_at ON documents(created_at);
+
+-- ============================================
+-- Shared filter predicate
+-- ============================================
+CREATE OR REPLACE FUNCTION document_matches_search_filters(
+    d documents,
+    filter_document_type TEXT DEFAULT NULL,
+    filter_period TEXT DEFAULT NULL,
+    filter_tags TEXT[] DEFAULT NULL,
+    filter_business_unit TEXT DEFAULT NULL,
+    filter_uploaded_after TIMESTAMPTZ DEFAULT NULL,
+    filter_uploaded_before TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        -- Document type ('all' means no filter)
+        (filter_document_type IS NULL OR filter_document_type = 'all'
+            OR d.document_type::TEXT = filter_document_type)
+        -- Period extracted at ingestion (e.g. "Q3 2024", "FY2024")
+        AND (filter_period IS NULL
+            OR d.finance_metadata->>'period' ILIKE '%' || filter_period || '%')
+        -- Any of the requested tags
+        AND (filter_tags IS NULL OR cardinality(filter_tags) = 0 OR d.tags && filter_tags)
+        -- Business unit by id, code or name
+        AND (filter_business_unit IS NULL OR d.business_unit_id IN (
+            SELECT bu.id FROM business_units bu
+            WHERE bu.id::TEXT = filter_business_unit
+                OR bu.code ILIKE filter_business_unit
+                OR bu.name ILIKE filter_business_unit
+        ))
+        -- Upload date range
+        AND (filter_uploaded_after IS NULL OR d.created_at >= filter_uploaded_after)
+        AND (filter_uploaded_before IS NULL OR d.created_at <= filter_uploaded_before);
+$$;
+
+-- ============================================
+-- Hybrid match with filters (replaces the 006 signature)
+-- ============================================
+DROP FUNCTION IF EXISTS match_document_chunks(vector, FLOAT, INT, UUID[], UUID, BOOLEAN, TEXT, FLOAT, INT);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+    query_embedding vector(1536),
+    match_threshold FLOAT DEFAULT 0.7,
+    match_count INT DEFAULT 10,
+    filter_document_ids UUID[] DEFAULT NULL,
+    filter_user_id UUID DEFAULT NULL,
+    include_disabled BOOLEAN DEFAULT FALSE,
+    query_text TEXT DEFAULT NULL,
+    semantic_weight FLOAT DEFAULT 0.5,
+    rrf_k INT DEFAULT 60,
+    filter_document_type TEXT DEFAULT NULL,
+    filter_period TEXT DEFAULT NULL,
+    filter_tags TEXT[] DEFAULT NULL,
+    filter_business_unit TEXT DEFAULT NULL,
+    filter_uploaded_after TIMESTAMPTZ DEFAULT NULL,
+    filter_uploaded_before TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    content TEXT,
+    metadata JSONB,
+    similarity FLOAT,
+    keyword_rank FLOAT,
+    score FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    WITH eligible AS (
+        SELECT dc.id, dc.embedding, dc.content_tsv
+        FROM document_chunks dc
+        JOIN documents d ON dc.document_id = d.id
+        WHERE
+            -- Filter by document IDs if provided
+            (filter_document_ids IS NULL OR dc.document_id = ANY(filter_document_ids))
+            -- Filter by user if provided (for user isolation)
+            AND (filter_user_id IS NULL OR d.user_id = filter_user_id OR d.visibility != 'private')
+            -- Only include enabled documents unless explicitly requested
+            AND (include_disabled = TRUE OR d.is_enabled = TRUE)
+            -- Only include latest versions
+            AND d.is_latest = TRUE
+            -- Type, period, tags, business unit and date filters
+            AND document_matches_search_filters(
+                d, filter_document_type, filter_period, filter_tags,
+                filter_business_unit, filter_uploaded_after, filter_uploaded_before
+            )
+    ),
+    semantic AS (
+        SELECT
+            e.id,
+            ROW_NUMBER() OVER (ORDER BY e.embedding <=> query_embedding) AS rank_ix
+        FROM eligible e
+        WHERE 1 - (e.embedding <=> query_embedding) > match_threshold
+        ORDER BY e.embedding <=> query_embedding
+        LIMIT match_count * 4
+    ),
+    keyword AS (
+        SELECT
+            e.id,
+            ts_rank_cd(e.content_tsv, q.query) AS kw_rank,
+            ROW_NUMBER() OVER (ORDER BY ts_rank_cd(e.content_tsv, q.query) DESC) AS rank_ix
+        FROM eligible e, websearch_to_tsquery('english', coalesce(query_text, '')) AS q(query)
+        WHERE query_text IS NOT NULL AND e.content_tsv @@ q.query
+        ORDER BY kw_rank DESC
+        LIMIT match_count * 4
+    ),
+    fused AS (
+        SELECT
+            COALESCE(s.id, k.id) AS id,
+            COALESCE(k.kw_rank, 0) AS kw_rank,
+            COALESCE(semantic_weight / (rrf_k + s.rank_ix), 0)
+                + COALESCE((1 - semantic_weight) / (rrf_k + k.rank_ix), 0) AS fused_score
+        FROM semantic s
+        FULL OUTER JOIN keyword k ON s.id = k.id
+    )
+    SELECT
+        dc.id,
+        dc.document_id,
+        dc.content,
+        dc.metadata,
+        (1 - (dc.embedding <=> query_embedding))::FLOAT AS similarity,
+        f.kw_rank::FLOAT AS keyword_rank,
+        f.fused_score::FLOAT AS score
+    FROM fused f
+    JOIN document_chunks dc ON dc.id = f.id
+    ORDER BY f.fused_score DESC, dc.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,12 @@
+-- ============================================
+-- Agent Run Budget Overrides
+-- Role defaults live in src/lib/agents/run-budget.ts; this column lets an
+-- admin raise or lower individual limits for a specific user, e.g.
+--   {"maxIterations": 10, "maxDurationMs": 50000, "maxTotalTokens": 300000}
+-- ============================================
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS agent_budget JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN profiles.agent_budget IS
+    'Per-user overrides for the agent run budget (maxIterations, maxDurationMs, maxTotalTokens)';
@@ -0,0 +1,116 @@
+-- ============================================
+-- Prompt Templates
+-- Organization overrides for the prompts defined in source (see
+-- src/lib/prompts). Every save is a new version; at most one version per
+-- organization and key is active, and with none active the built-in
+-- default is used. Assistant messages record the versions that produced them.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS prompt_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+    key TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    -- Organization-defined variables, e.g. {"currency": "EUR thousands"}
+    variables JSONB DEFAULT '{}' NOT NULL,
+    note TEXT,
+    is_active BOOLEAN DEFAULT false NOT NULL,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(organization_id, key, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_active
+    ON prompt_templates(organization_id, key) WHERE is_active;
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS prompt_versions JSONB DEFAULT '[]';
+
+COMMENT ON COLUMN messages.prompt_versions IS
+    'Prompt templates used for the message: [{key, version, templateId}], version 0 is the built-in default';
+
+-- ============================================
+-- Row Level Security
+-- ============================================
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Members can see their organization's templates
+CREATE POLICY "Members can view org prompt templates" ON prompt_templates
+    FOR SELECT USING (
+        organization_id IN (
+            SELECT organization_id FROM organization_members WHERE user_id = auth.uid()
+        )
+    );
+
+-- Admins can publish and activate versions for their organization
+CREATE POLICY "Admins can insert org prompt templates" ON prompt_templates
+    FOR INSERT WITH CHECK (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+        AND organization_id IN (
+            SELECT organization_id FROM organization_members WHERE user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can update org prompt templates" ON prompt_templates
+    FOR UPDATE USING (
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+        AND organization_id IN (
+            SELECT organization_id FROM organization_members WHERE user_id = auth.uid()
+        )
+    );
+
+-- Service role reads templates when building prompts
+CREATE POLICY "Service role full access" ON prompt_templates
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- Publish / activate (one statement each, so a key never ends up with two
+-- active versions or none mid-update). Run as the caller, so RLS applies.
+-- ============================================
+CREATE OR REPLACE FUNCTION publish_prompt_template(
+    p_organization_id UUID,
+    p_key TEXT,
+    p_content TEXT,
+    p_variables JSONB DEFAULT '{}',
+    p_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    next_version INTEGER;
+    new_id UUID;
+BEGIN
+    -- Serialize publishes for the same key
+    PERFORM pg_advisory_xact_lock(hashtext(p_organization_id::TEXT || ':' || p_key));
+
+    SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+    FROM prompt_templates
+    WHERE organization_id = p_organization_id AND key = p_key;
+
+    UPDATE prompt_templates SET is_active = false
+    WHERE organization_id = p_organization_id AND key = p_key AND is_active;
+
+    INSERT INTO prompt_templates (organization_id, key, version, content, variables, note, is_active, created_by)
+    VALUES (p_organization_id, p_key, next_version, p_content, COALESCE(p_variables, '{}'), p_note, true, auth.uid())
+    RETURNING id INTO new_id;
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION activate_prompt_template(p_template_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    target prompt_templates%ROWTYPE;
+BEGIN
+    SELECT * INTO target FROM prompt_templates WHERE id = p_template_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Prompt template % not found', p_template_id;
+    END IF;
+
+    UPDATE prompt_templates SET is_active = false
+    WHERE organization_id = target.organization_id AND key = target.key AND is_active;
+
+    UPDATE prompt_templates SET is_active = true WHERE id = p_template_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,16 @@
+-- ============================================
+-- Claim Verification
+-- Verdicts for the figures in an assistant answer, checked against the
+-- retrieved chunks, calculation results and knowledge base metrics (see
+-- src/lib/finance/claims.ts). One entry per number, with its offsets in
+-- the message content, e.g.
+--   [{"text": "$1.2M", "start": 42, "end": 47, "kind": "money",
+--     "value": 1200000, "status": "verified",
+--     "source": {"type": "document", "label": "Q3 P&L.pdf, page 2"}}]
+-- ============================================
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS claim_verifications JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN messages.claim_verifications IS
+    'Verified/unverified verdicts for the numeric claims in an assistant message';
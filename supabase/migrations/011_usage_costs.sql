@@ -0,0 +1,52 @@
+-- ============================================
+-- Model Usage and Cost
+-- Every provider call is logged in usage_logs with action 'llm_usage' and
+-- details {role, feature, provider, model, inputTokens, outputTokens,
+-- cacheCreationTokens, cacheReadTokens, costUsd, priced}; chat calls carry
+-- the thread as resource_type 'thread' / resource_id. Prices live in
+-- src/lib/llm/usage.ts. Assistant messages keep their run's total in
+-- messages.token_usage.
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_usage_logs_org_action_created
+    ON usage_logs(organization_id, action, created_at);
+
+-- Usage of an organization since a date, rolled up by one dimension:
+-- 'day', 'user', 'thread', 'feature' or 'model'. Runs with the caller's
+-- rights, so only admins (who can read usage_logs) get rows back.
+CREATE OR REPLACE FUNCTION usage_cost_breakdown(
+    p_organization_id UUID,
+    p_since TIMESTAMPTZ,
+    p_group_by TEXT
+)
+RETURNS TABLE (
+    key TEXT,
+    calls BIGINT,
+    input_tokens BIGINT,
+    output_tokens BIGINT,
+    cache_creation_tokens BIGINT,
+    cache_read_tokens BIGINT,
+    cost_usd NUMERIC
+) AS $$
+    SELECT
+        CASE p_group_by
+            WHEN 'day' THEN to_char(date_trunc('day', created_at), 'YYYY-MM-DD')
+            WHEN 'user' THEN user_id::TEXT
+            WHEN 'thread' THEN resource_id::TEXT
+            WHEN 'feature' THEN details->>'feature'
+            WHEN 'model' THEN details->>'model'
+        END AS key,
+        COUNT(*) AS calls,
+        COALESCE(SUM((details->>'inputTokens')::BIGINT), 0) AS input_tokens,
+        COALESCE(SUM((details->>'outputTokens')::BIGINT), 0) AS output_tokens,
+        COALESCE(SUM((details->>'cacheCreationTokens')::BIGINT), 0) AS cache_creation_tokens,
+        COALESCE(SUM((details->>'cacheReadTokens')::BIGINT), 0) AS cache_read_tokens,
+        COALESCE(SUM((details->>'costUsd')::NUMERIC), 0) AS cost_usd
+    FROM usage_logs
+    WHERE organization_id = p_organization_id
+      AND action = 'llm_usage'
+      AND created_at >= p_since
+      AND (p_group_by <> 'thread' OR resource_type = 'thread')
+    GROUP BY 1
+    ORDER BY 7 DESC
+$$ LANGUAGE sql STABLE;
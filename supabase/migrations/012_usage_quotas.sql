@@ -0,0 +1,51 @@
+-- ============================================
+-- Usage Quotas
+-- Requests admitted by /api/chat, /api/analysis and /api/documents/upload
+-- are logged in usage_logs with action 'api_request' and details
+-- {endpoint, bytes?}. Together with the 'llm_usage' rows they are counted
+-- against the per-role quotas in src/lib/organizations/quotas.ts, which
+-- organizations can override in organizations.settings.quotas.
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_usage_logs_user_action_created
+    ON usage_logs(user_id, action, created_at);
+
+-- What a user has consumed against their quotas: admitted requests since
+-- p_window_start, and model tokens, image generations and uploaded bytes
+-- since p_day_start. Cache reads count at a tenth, as they are billed, so
+-- prompt caching doesn't use up the token quota. Called with the service
+-- role by the API routes.
+CREATE OR REPLACE FUNCTION usage_quota_consumption(
+    p_user_id UUID,
+    p_window_start TIMESTAMPTZ,
+    p_day_start TIMESTAMPTZ
+)
+RETURNS TABLE (
+    requests BIGINT,
+    tokens BIGINT,
+    images BIGINT,
+    upload_bytes BIGINT
+) AS $$
+    SELECT
+        COUNT(*) FILTER (
+            WHERE action = 'api_request' AND created_at >= p_window_start
+        ) AS requests,
+        COALESCE(SUM(
+            COALESCE((details->>'inputTokens')::BIGINT, 0) +
+            COALESCE((details->>'outputTokens')::BIGINT, 0) +
+            COALESCE((details->>'cacheCreationTokens')::BIGINT, 0) +
+            COALESCE((details->>'cacheReadTokens')::BIGINT, 0) / 10
+        ) FILTER (
+            WHERE action = 'llm_usage' AND created_at >= p_day_start
+        ), 0) AS tokens,
+        COUNT(*) FILTER (
+            WHERE action = 'llm_usage' AND details->>'role' = 'image' AND created_at >= p_day_start
+        ) AS images,
+        COALESCE(SUM((details->>'bytes')::BIGINT) FILTER (
+            WHERE action = 'api_request' AND details->>'endpoint' = 'upload' AND created_at >= p_day_start
+        ), 0) AS upload_bytes
+    FROM usage_logs
+    WHERE user_id = p_user_id
+      AND action IN ('api_request', 'llm_usage')
+      AND created_at >= LEAST(p_window_start, p_day_start)
+$$ LANGUAGE sql STABLE;
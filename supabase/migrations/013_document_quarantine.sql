@@ -0,0 +1,21 @@
+-- ============================================
+-- Document Quarantine
+-- Uploaded documents are scanned for prompt-injection text at ingestion
+-- (see src/lib/llm/prompt-injection.ts). Suspicious documents get status
+-- 'quarantined' and is_enabled = FALSE, which keeps them out of search and
+-- the knowledge base until their owner reviews them. The scan is kept in
+-- injection_scan, e.g.
+--   {"suspicious": true, "scannedAt": "2025-01-31T10:00:00Z",
+--    "findings": [{"rule": "override_instructions", "severity": "high",
+--                  "excerpt": "...ignore previous instructions...",
+--                  "chunkIndex": 3}],
+--    "review": {"reviewedBy": "<user id>", "reviewedAt": "..."}}
+-- ============================================
+
+ALTER TYPE document_status ADD VALUE IF NOT EXISTS 'quarantined';
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS injection_scan JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN documents.injection_scan IS
+    'Prompt-injection scan from ingestion and the quarantine review, if any';
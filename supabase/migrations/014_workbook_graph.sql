@@ -0,0 +1,19 @@
+-- ============================================
+-- Workbook Formula Graph
+-- The parsed formula model of an uploaded Excel workbook (see
+-- src/lib/spreadsheets/formula-engine.ts): every formula with its compiled
+-- references and precedent cells, and the cells the formulas read, e.g.
+--   {"version": 1, "sheets": ["P&L"],
+--    "cells": [{"key": "P&L!B2", "sheet": "P&L", "address": "B2",
+--               "value": 1200, "label": "Revenue (2024)"}],
+--    "formulas": {"P&L!B4": {"expression": "REF_0_-REF_1_",
+--                            "references": [...], "precedents": ["P&L!B2", "P&L!B3"]}}}
+-- what_if_analysis rebuilds the model from it instead of parsing the file.
+-- NULL for other documents and for graphs too large to store.
+-- ============================================
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS workbook_graph JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN documents.workbook_graph IS
+    'Formula dependency graph of an Excel model, for what-if analysis';
@@ -0,0 +1,24 @@
+-- ============================================
+-- Redaction Tokens
+-- The sensitive values behind the tokens sent to the model in a thread
+-- (see src/lib/llm/redaction.ts). A chat run loads its thread's tokens
+-- before it starts and saves the new ones when it ends, so a token the model
+-- repeats from an earlier turn is still restored. Deleting the thread
+-- deletes its tokens. Only the server reads or writes them.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS redaction_tokens (
+    thread_id UUID REFERENCES threads(id) ON DELETE CASCADE NOT NULL,
+    token TEXT NOT NULL,
+    value TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (thread_id, token)
+);
+
+-- ============================================
+-- Row Level Security
+-- ============================================
+ALTER TABLE redaction_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON redaction_tokens
+    FOR ALL USING (auth.role() = 'service_role');
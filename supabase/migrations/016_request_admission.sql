@@ -0,0 +1,62 @@
+-- ============================================
+-- Request Admission
+-- Admits a request against the per-minute rate limit (and, for uploads, the
+-- daily upload quota) and logs it as an 'api_request' in one call.
+-- Admissions for a user are serialized with a transaction-scoped advisory
+-- lock, so parallel requests can't all see room under the limit before any
+-- of them is logged.
+-- ============================================
+
+-- Returns NULL when the request was admitted and logged, or the quota that
+-- refused it: 'requestsPerMinute' or 'dailyUploadMb'. p_max_upload_bytes is
+-- NULL for requests that upload nothing. Called with the service role by
+-- src/lib/organizations/quotas.ts.
+CREATE OR REPLACE FUNCTION admit_api_request(
+    p_user_id UUID,
+    p_organization_id UUID,
+    p_endpoint TEXT,
+    p_upload_bytes BIGINT,
+    p_window_start TIMESTAMPTZ,
+    p_day_start TIMESTAMPTZ,
+    p_max_requests INTEGER,
+    p_max_upload_bytes BIGINT
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_requests BIGINT;
+    v_upload_bytes BIGINT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtextextended('api_request:' || p_user_id::TEXT, 0));
+
+    SELECT
+        COUNT(*) FILTER (WHERE created_at >= p_window_start),
+        COALESCE(SUM((details->>'bytes')::BIGINT) FILTER (
+            WHERE details->>'endpoint' = 'upload' AND created_at >= p_day_start
+        ), 0)
+    INTO v_requests, v_upload_bytes
+    FROM usage_logs
+    WHERE user_id = p_user_id
+      AND action = 'api_request'
+      AND created_at >= LEAST(p_window_start, p_day_start);
+
+    IF v_requests >= p_max_requests THEN
+        RETURN 'requestsPerMinute';
+    END IF;
+    IF p_max_upload_bytes IS NOT NULL AND v_upload_bytes + COALESCE(p_upload_bytes, 0) > p_max_upload_bytes THEN
+        RETURN 'dailyUploadMb';
+    END IF;
+
+    INSERT INTO usage_logs (user_id, organization_id, action, details)
+    VALUES (
+        p_user_id,
+        p_organization_id,
+        'api_request',
+        CASE WHEN p_endpoint = 'upload'
+            THEN jsonb_build_object('endpoint', p_endpoint, 'bytes', COALESCE(p_upload_bytes, 0))
+            ELSE jsonb_build_object('endpoint', p_endpoint)
+        END
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;